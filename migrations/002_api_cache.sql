@@ -0,0 +1,17 @@
+-- Migration: 002_api_cache
+-- Description: Shared server-side cache for API route responses (optional
+--              persistent tier of lib/server-cache, enabled with SERVER_CACHE_STORE=postgres)
+-- Target database: interchord_db (port 5433)
+
+CREATE TABLE IF NOT EXISTS api_cache (
+    cache_key TEXT PRIMARY KEY,          -- Normalised route + parameters, e.g. 'lastfm?artist=radiohead&method=...'
+    value JSONB NOT NULL,                -- Response payload
+    stored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,   -- Fresh until
+    stale_until TIMESTAMP WITH TIME ZONE NOT NULL   -- Servable (while revalidating) until
+);
+
+-- Expired rows are swept by stale_until
+CREATE INDEX IF NOT EXISTS idx_api_cache_stale_until ON api_cache(stale_until);
+
+COMMENT ON TABLE api_cache IS 'Cached responses from Setlist.fm, Last.fm, Discogs, Fanart.tv and MusicBrainz API routes';
@@ -10,31 +10,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { autocompleteArtists, testSolrConnection } from '@/lib/musicbrainz/solr-client';
+import { autocompleteArtists } from '@/lib/musicbrainz/solr-client';
+import { dataSources, DATA_SOURCE_IDS } from '@/lib/data-sources';
 import { searchArtists } from '@/lib/musicbrainz/data-source';
 import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
 
-// Cache Solr availability status
-let solrAvailable: boolean | null = null;
-let lastSolrCheck = 0;
-const SOLR_CHECK_INTERVAL_MS = 30000;
-
-async function isSolrAvailable(): Promise<boolean> {
-  const now = Date.now();
-  if (solrAvailable !== null && now - lastSolrCheck < SOLR_CHECK_INTERVAL_MS) {
-    return solrAvailable;
-  }
-
-  solrAvailable = await testSolrConnection();
-  lastSolrCheck = now;
-
-  if (!solrAvailable) {
-    console.warn('[Autocomplete] Solr unavailable, will use DB fallback');
-  }
-
-  return solrAvailable;
-}
-
 export async function GET(request: NextRequest) {
   // Rate limiting (higher limit for autocomplete since it's used for typing)
   const clientIp = getClientIp(request);
@@ -65,9 +45,9 @@ export async function GET(request: NextRequest) {
 
   try {
     // Try Solr first (much faster for autocomplete)
-    if (await isSolrAvailable()) {
+    if (await dataSources.isAvailable(DATA_SOURCE_IDS.SOLR)) {
       try {
-        const artists = await autocompleteArtists(query, limit);
+        const artists = await dataSources.call(DATA_SOURCE_IDS.SOLR, () => autocompleteArtists(query, limit));
         return NextResponse.json({
           results: artists,
           artists, // Backwards compatibility
@@ -78,7 +58,6 @@ export async function GET(request: NextRequest) {
         });
       } catch (error) {
         console.error('[Autocomplete] Solr failed, falling back to DB:', error);
-        solrAvailable = false;
       }
     }
 
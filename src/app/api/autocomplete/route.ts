@@ -16,10 +16,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  autocompleteEntities,
-  testSolrConnection,
-} from '@/lib/musicbrainz/solr-client';
+import { autocompleteEntities } from '@/lib/musicbrainz/solr-client';
+import { dataSources, DATA_SOURCE_IDS } from '@/lib/data-sources';
 import { searchArtists } from '@/lib/musicbrainz/data-source';
 import type { SearchEntityType } from '@/types';
 
@@ -49,22 +47,6 @@ const ENTITY_TYPE_LABELS: Record<SearchEntityType, string> = {
   event: 'Events',
 };
 
-// Solr availability cache
-let solrAvailable: boolean | null = null;
-let lastSolrCheck = 0;
-const SOLR_CHECK_INTERVAL = 30000; // 30 seconds
-
-async function isSolrAvailable(): Promise<boolean> {
-  const now = Date.now();
-  if (solrAvailable !== null && now - lastSolrCheck < SOLR_CHECK_INTERVAL) {
-    return solrAvailable;
-  }
-
-  solrAvailable = await testSolrConnection();
-  lastSolrCheck = now;
-  return solrAvailable;
-}
-
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   const searchParams = request.nextUrl.searchParams;
@@ -98,7 +80,7 @@ export async function GET(request: NextRequest) {
   }
 
   // Check Solr availability
-  const solrOk = await isSolrAvailable();
+  const solrOk = await dataSources.isAvailable(DATA_SOURCE_IDS.SOLR);
 
   if (!solrOk) {
     // Solr not available - return error for non-artist searches
@@ -140,7 +122,7 @@ export async function GET(request: NextRequest) {
 
   // Search with Solr
   try {
-    const results = await autocompleteEntities(entityType, query, limit);
+    const results = await dataSources.call(DATA_SOURCE_IDS.SOLR, () => autocompleteEntities(entityType, query, limit));
 
     return NextResponse.json({
       results,
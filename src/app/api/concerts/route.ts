@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
 
 const SETLIST_FM_BASE_URL = 'https://api.setlist.fm/rest/1.0';
 const API_KEY = process.env.SETLIST_FM_API_KEY;
@@ -39,6 +40,85 @@ interface SetlistFmResponse {
   itemsPerPage?: number;
 }
 
+/**
+ * Fetch an artist's setlists from Setlist.fm as our concert format
+ * Resolves with the response status and body rather than a NextResponse so the
+ * result can be cached.
+ */
+async function fetchConcerts(
+  artistName: string | null,
+  artistMbid: string | null
+): Promise<{ status: number; body: unknown }> {
+  // Prefer MBID search for exact results, fall back to name search
+  let url: string;
+  if (artistMbid) {
+    // MBID gives exact artist match - no fuzzy search issues
+    url = `${SETLIST_FM_BASE_URL}/artist/${artistMbid}/setlists?p=1`;
+  } else {
+    const encodedName = encodeURIComponent(artistName!);
+    url = `${SETLIST_FM_BASE_URL}/search/setlists?artistName=${encodedName}&p=1`;
+  }
+
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+      'x-api-key': API_KEY!,
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return { status: 200, body: [] };
+    }
+    return {
+      status: response.status,
+      body: { error: `Setlist.fm API error: ${response.status}` },
+    };
+  }
+
+  const data: SetlistFmResponse = await response.json();
+
+  if (!data.setlist || !Array.isArray(data.setlist)) {
+    return { status: 200, body: [] };
+  }
+
+  // Filter to only include setlists from the exact artist (case-insensitive)
+  // This prevents "Ween" from returning "Helloween" results when using name search
+  // MBID search already returns exact results, so skip filtering
+  let filteredSetlists = data.setlist;
+  if (!artistMbid && artistName) {
+    const normalizedSearchName = artistName.toLowerCase().trim();
+    filteredSetlists = data.setlist.filter((setlist) => {
+      const setlistArtistName = setlist.artist?.name?.toLowerCase().trim() || '';
+      return setlistArtistName === normalizedSearchName;
+    });
+  }
+
+  // Transform to our concert format
+  const concerts = filteredSetlists.map((setlist) => {
+    // Parse date from dd-MM-yyyy to ISO format
+    const [day, month, year] = setlist.eventDate.split('-');
+    const dateStr = `${year}-${month}-${day}`;
+
+    return {
+      id: setlist.id,
+      datetime: dateStr,
+      venue: {
+        name: setlist.venue.name,
+        city: setlist.venue.city.name,
+        region: setlist.venue.city.state || setlist.venue.city.stateCode || '',
+        country: setlist.venue.city.country.name,
+      },
+      title: setlist.tour?.name || '',
+      url: setlist.url,
+      offers: [],
+      lineup: [],
+    };
+  });
+
+  return { status: 200, body: concerts };
+}
+
 export async function GET(request: NextRequest) {
   // Rate limiting
   const clientIp = getClientIp(request);
@@ -64,75 +144,17 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Prefer MBID search for exact results, fall back to name search
-    let url: string;
-    if (artistMbid) {
-      // MBID gives exact artist match - no fuzzy search issues
-      url = `${SETLIST_FM_BASE_URL}/artist/${artistMbid}/setlists?p=1`;
-    } else {
-      const encodedName = encodeURIComponent(artistName!);
-      url = `${SETLIST_FM_BASE_URL}/search/setlists?artistName=${encodedName}&p=1`;
-    }
-
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-        'x-api-key': API_KEY,
-      },
-      next: { revalidate: 3600 }, // Cache for 1 hour
-    });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        return NextResponse.json([]);
-      }
-      return NextResponse.json(
-        { error: `Setlist.fm API error: ${response.status}` },
-        { status: response.status }
-      );
-    }
-
-    const data: SetlistFmResponse = await response.json();
-
-    if (!data.setlist || !Array.isArray(data.setlist)) {
-      return NextResponse.json([]);
-    }
-
-    // Filter to only include setlists from the exact artist (case-insensitive)
-    // This prevents "Ween" from returning "Helloween" results when using name search
-    // MBID search already returns exact results, so skip filtering
-    let filteredSetlists = data.setlist;
-    if (!artistMbid && artistName) {
-      const normalizedSearchName = artistName.toLowerCase().trim();
-      filteredSetlists = data.setlist.filter((setlist) => {
-        const setlistArtistName = setlist.artist?.name?.toLowerCase().trim() || '';
-        return setlistArtistName === normalizedSearchName;
-      });
-    }
+    // Upstream errors are passed through with their status and never cached
+    const result = await apiCache.getOrLoad(
+      normalizeCacheKey('concerts', { artist: artistMbid ? null : artistName, mbid: artistMbid }),
+      () => fetchConcerts(artistName, artistMbid),
+      { ...SERVER_CACHE_TTL.concerts, shouldCache: ({ status }) => status === 200 }
+    );
 
-    // Transform to our concert format
-    const concerts = filteredSetlists.map((setlist) => {
-      // Parse date from dd-MM-yyyy to ISO format
-      const [day, month, year] = setlist.eventDate.split('-');
-      const dateStr = `${year}-${month}-${day}`;
-
-      return {
-        id: setlist.id,
-        datetime: dateStr,
-        venue: {
-          name: setlist.venue.name,
-          city: setlist.venue.city.name,
-          region: setlist.venue.city.state || setlist.venue.city.stateCode || '',
-          country: setlist.venue.city.country.name,
-        },
-        title: setlist.tour?.name || '',
-        url: setlist.url,
-        offers: [],
-        lineup: [],
-      };
+    return NextResponse.json(result.data.body, {
+      status: result.data.status,
+      headers: cacheHeaders(result),
     });
-
-    return NextResponse.json(concerts);
   } catch (error) {
     console.error('Error fetching artist events:', error);
     return NextResponse.json(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
 
 const DISCOGS_TOKEN = process.env.NEXT_PUBLIC_DISCOGS_TOKEN;
 const DISCOGS_BASE_URL = 'https://api.discogs.com';
@@ -83,17 +84,25 @@ export async function GET(request: NextRequest) {
         );
     }
 
-    const response = await fetch(url, { headers });
+    // Keyed by the upstream URL, which already holds the normalised parameters
+    const result = await apiCache.getOrLoad(
+      normalizeCacheKey('discogs', { url }),
+      async () => {
+        const response = await fetch(url, { headers });
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return NextResponse.json({ notFound: true }, { status: 200 });
-      }
-      throw new Error(`Discogs API error: ${response.status}`);
-    }
+        if (!response.ok) {
+          if (response.status === 404) {
+            return { notFound: true };
+          }
+          throw new Error(`Discogs API error: ${response.status}`);
+        }
+
+        return response.json();
+      },
+      SERVER_CACHE_TTL.discogs
+    );
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    return NextResponse.json(result.data, { headers: cacheHeaders(result) });
   } catch (error) {
     console.error('Discogs proxy error:', error);
     return NextResponse.json(
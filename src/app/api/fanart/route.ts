@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
 
 const FANART_API_KEY = process.env.NEXT_PUBLIC_FANART_API_KEY;
 const FANART_BASE_URL = 'http://webservice.fanart.tv/v3/music';
@@ -34,24 +35,31 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const response = await fetch(
-      `${FANART_BASE_URL}/${mbid}?api_key=${FANART_API_KEY}`,
-      {
-        headers: {
-          'Accept': 'application/json',
-        },
-      }
-    );
+    const result = await apiCache.getOrLoad(
+      normalizeCacheKey('fanart', { mbid }),
+      async () => {
+        const response = await fetch(
+          `${FANART_BASE_URL}/${mbid}?api_key=${FANART_API_KEY}`,
+          {
+            headers: {
+              'Accept': 'application/json',
+            },
+          }
+        );
+
+        if (!response.ok) {
+          if (response.status === 404) {
+            return { notFound: true };
+          }
+          throw new Error(`Fanart.tv API error: ${response.status}`);
+        }
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return NextResponse.json({ notFound: true }, { status: 200 });
-      }
-      throw new Error(`Fanart.tv API error: ${response.status}`);
-    }
+        return response.json();
+      },
+      SERVER_CACHE_TTL.fanart
+    );
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    return NextResponse.json(result.data, { headers: cacheHeaders(result) });
   } catch (error) {
     console.error('Fanart.tv proxy error:', error);
     return NextResponse.json(
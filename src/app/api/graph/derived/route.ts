@@ -0,0 +1,92 @@
+/**
+ * Derived Relationships API Route
+ *
+ * POST /api/graph/derived
+ * Body: {"mbids": ["{mbid}", ...], "types": ["same_label", "same_scene"]}
+ *
+ * Infers label-mate (same label, overlapping years) and same-scene (groups
+ * with the same formation area and decade) relationships between the given artists from
+ * release and area data in the local PostgreSQL database. Every returned
+ * relationship is marked `derived` with a confidence and its basis.
+ *
+ * Responds 503 when the local database is unavailable - there is no API fallback.
+ *
+ * Rate limited: 10 requests per minute per IP (expensive operation)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deriveArtistRelationships } from '@/lib/musicbrainz/data-source';
+import { DERIVED_RELATIONSHIP_TYPES, MAX_DERIVED_ARTISTS, type DerivedRelationshipType } from '@/lib/graph/derived';
+import { strictLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+
+export async function POST(request: NextRequest) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = strictLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  let body: { mbids?: unknown; types?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  const mbids = body.mbids;
+  if (
+    !Array.isArray(mbids) || mbids.length === 0 || mbids.length > MAX_DERIVED_ARTISTS ||
+    !mbids.every(mbid => typeof mbid === 'string' && uuidRegex.test(mbid))
+  ) {
+    return NextResponse.json(
+      { error: `"mbids" must be a list of 1-${MAX_DERIVED_ARTISTS} valid MBIDs (UUID).` },
+      { status: 400 }
+    );
+  }
+
+  const types = body.types;
+  if (
+    types !== undefined &&
+    (!Array.isArray(types) || types.length === 0 ||
+      !types.every(type => (DERIVED_RELATIONSHIP_TYPES as readonly unknown[]).includes(type)))
+  ) {
+    return NextResponse.json(
+      { error: `"types" must be a list of ${DERIVED_RELATIONSHIP_TYPES.join(', ')}.` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await deriveArtistRelationships(
+      [...new Set((mbids as string[]).map(mbid => mbid.toLowerCase()))],
+      { types: types as DerivedRelationshipType[] | undefined }
+    );
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Derived relationships need the local MusicBrainz database, which is unavailable.' },
+        { status: 503, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    return NextResponse.json({
+      relationships: result.data,
+      source: result.source,
+      latencyMs: result.latencyMs,
+    }, {
+      headers: rateLimitHeaders(rateLimit),
+    });
+  } catch (error) {
+    console.error('[API] Derived relationships error:', error);
+    return NextResponse.json(
+      { error: 'Failed to derive relationships' },
+      { status: 500 }
+    );
+  }
+}
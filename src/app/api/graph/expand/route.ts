@@ -0,0 +1,125 @@
+/**
+ * Graph Expansion API Route
+ *
+ * GET /api/graph/expand?root={mbid}&depth=3
+ * GET /api/graph/expand?root={mbid}&depth=2&types=member_of,founder_of
+ *
+ * Expands an artist's graph to the requested network depth on the server,
+ * one batched query per level slice when the local PostgreSQL database is
+ * available (falls back to the MusicBrainz API with a small artist budget).
+ *
+ * Streams progress as NDJSON (application/x-ndjson), one event per line:
+ * - {"type":"chunk", level, current, total, expanded, nodes, edges}
+ *   Only artists and links not sent before; `expanded` artists are now loaded.
+ * - {"type":"done", source, latencyMs, expandedCount, levelReached, stopReason}
+ * - {"type":"error", error}
+ *
+ * Rate limited: 10 requests per minute per IP (expensive operation)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { expandArtistNetwork } from '@/lib/musicbrainz/data-source';
+import { MAX_EXPANSION_DEPTH, type ExpansionStreamEvent } from '@/lib/graph/expand';
+import type { ExpansionDepth } from '@/lib/graph/types';
+import { strictLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { isRelationshipType } from '@/lib/relationships';
+import type { RelationshipType } from '@/types';
+
+export async function GET(request: NextRequest) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = strictLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const root = searchParams.get('root') || '';
+  const depth = parseInt(searchParams.get('depth') || '2', 10);
+  const typesParam = searchParams.get('types');
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(root)) {
+    return NextResponse.json(
+      { error: 'Parameter "root" must be a valid MBID (UUID).' },
+      { status: 400 }
+    );
+  }
+
+  if (isNaN(depth) || depth < 1 || depth > MAX_EXPANSION_DEPTH) {
+    return NextResponse.json(
+      { error: `Parameter "depth" must be between 1 and ${MAX_EXPANSION_DEPTH}` },
+      { status: 400 }
+    );
+  }
+
+  let relationshipTypes: RelationshipType[] | undefined;
+  if (typesParam) {
+    const types = typesParam.split(',').map(t => t.trim()).filter(Boolean);
+    const invalid = types.filter(t => !isRelationshipType(t));
+    if (invalid.length > 0 || types.length === 0) {
+      return NextResponse.json(
+        { error: `Unknown relationship type(s): ${invalid.join(', ') || typesParam}` },
+        { status: 400 }
+      );
+    }
+    relationshipTypes = types as RelationshipType[];
+  }
+
+  const encoder = new TextEncoder();
+  // Stop expanding when the client disconnects or stops reading
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ExpansionStreamEvent) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        const result = await expandArtistNetwork(root.toLowerCase(), depth as ExpansionDepth, {
+          relationshipTypes,
+          signal: abort.signal,
+          onChunk: chunk => send({ type: 'chunk', ...chunk }),
+        });
+
+        if (!result) {
+          send({ type: 'error', error: 'Artist not found' });
+        } else {
+          const { expandedCount, levelReached, stopReason } = result.data;
+          send({
+            type: 'done',
+            source: result.source,
+            latencyMs: result.latencyMs,
+            expandedCount,
+            levelReached,
+            stopReason,
+          });
+        }
+      } catch (error) {
+        console.error('[API] Graph expansion error:', error);
+        send({ type: 'error', error: 'Failed to expand artist graph' });
+      }
+
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+      ...rateLimitHeaders(rateLimit),
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
 
 const LASTFM_API_KEY = process.env.NEXT_PUBLIC_LASTFM_API_KEY;
 const LASTFM_BASE_URL = 'https://ws.audioscrobbler.com/2.0/';
@@ -43,26 +44,33 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const params = new URLSearchParams({
-      method,
-      artist,
-      api_key: LASTFM_API_KEY,
-      format: 'json',
-      limit,
-    });
+    const result = await apiCache.getOrLoad(
+      normalizeCacheKey('lastfm', { method, artist, limit }),
+      async () => {
+        const params = new URLSearchParams({
+          method,
+          artist,
+          api_key: LASTFM_API_KEY,
+          format: 'json',
+          limit,
+        });
 
-    const response = await fetch(`${LASTFM_BASE_URL}?${params.toString()}`, {
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
+        const response = await fetch(`${LASTFM_BASE_URL}?${params.toString()}`, {
+          headers: {
+            'Accept': 'application/json',
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Last.fm API error: ${response.status}`);
+        }
 
-    if (!response.ok) {
-      throw new Error(`Last.fm API error: ${response.status}`);
-    }
+        return response.json();
+      },
+      SERVER_CACHE_TTL.lastfm
+    );
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    return NextResponse.json(result.data, { headers: cacheHeaders(result) });
   } catch (error) {
     console.error('Last.fm proxy error:', error);
     return NextResponse.json(
@@ -0,0 +1,96 @@
+/**
+ * MusicBrainz Artist Credits API Route
+ *
+ * GET /api/musicbrainz/artist/{mbid}/credits
+ * GET /api/musicbrainz/artist/{mbid}/credits?minShared=5
+ *
+ * Artists credited on the same recordings and releases as the artist - as
+ * performers or through recording/release relationships (session players,
+ * engineers, producers). Each comes back as a 'shared_credits' relationship
+ * listing how many recordings and releases are shared and some of their
+ * titles. `minShared` is the fewest shared recordings + releases for a link
+ * (default 2).
+ *
+ * Responds 503 when the local database is unavailable - there is no API fallback.
+ *
+ * Rate limited: 10 requests per minute per IP (expensive operation)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getArtistCreditRelationships } from '@/lib/musicbrainz/data-source';
+import { DEFAULT_MIN_SHARED_CREDITS, MAX_MIN_SHARED_CREDITS } from '@/lib/graph/credits';
+import { strictLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
+
+interface RouteParams {
+  params: Promise<{ mbid: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = strictLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { mbid } = await params;
+  const minShared = parseInt(
+    request.nextUrl.searchParams.get('minShared') || String(DEFAULT_MIN_SHARED_CREDITS),
+    10
+  );
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(mbid)) {
+    return NextResponse.json(
+      { error: 'Invalid MBID format. Expected UUID.' },
+      { status: 400 }
+    );
+  }
+
+  if (isNaN(minShared) || minShared < 1 || minShared > MAX_MIN_SHARED_CREDITS) {
+    return NextResponse.json(
+      { error: `Parameter "minShared" must be between 1 and ${MAX_MIN_SHARED_CREDITS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cached = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/credits', { mbid: mbid.toLowerCase(), minShared }),
+      async () => {
+        const result = await getArtistCreditRelationships(mbid.toLowerCase(), { minShared });
+        return result && {
+          relationships: result.data.relationships,
+          relatedArtists: result.data.relatedArtists,
+          source: result.source,
+          latencyMs: result.latencyMs,
+        };
+      },
+      // Unavailable isn't cached: the database may be back on the next request
+      { ...SERVER_CACHE_TTL.musicbrainzCredits, shouldCache: data => data !== null }
+    );
+
+    if (!cached.data) {
+      return NextResponse.json(
+        { error: 'Shared credits need the local MusicBrainz database, which is unavailable.' },
+        { status: 503, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    return NextResponse.json(cached.data, {
+      headers: { ...rateLimitHeaders(rateLimit), ...cacheHeaders(cached) },
+    });
+  } catch (error) {
+    console.error('[API] Artist credits error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shared credits' },
+      { status: 500 }
+    );
+  }
+}
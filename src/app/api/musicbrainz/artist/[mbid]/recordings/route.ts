@@ -0,0 +1,80 @@
+/**
+ * MusicBrainz Artist Recordings API Route
+ *
+ * GET /api/musicbrainz/artist/{mbid}/recordings
+ * GET /api/musicbrainz/artist/{mbid}/recordings?limit=100&offset=100
+ *
+ * One page of the recordings (songs) credited to the artist. Uses local
+ * PostgreSQL database when available, falls back to MusicBrainz API.
+ *
+ * Rate limited: 100 requests per minute per IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getArtistRecordings } from '@/lib/musicbrainz/data-source';
+import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
+
+// MusicBrainz API browse requests return at most 100 items
+const MAX_LIMIT = 100;
+
+interface RouteParams {
+  params: Promise<{ mbid: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = apiLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { mbid } = await params;
+  const searchParams = request.nextUrl.searchParams;
+  const limit = parseInt(searchParams.get('limit') || String(MAX_LIMIT), 10);
+  const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(mbid)) {
+    return NextResponse.json(
+      { error: 'Invalid MBID format. Expected UUID.' },
+      { status: 400 }
+    );
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT || isNaN(offset) || offset < 0) {
+    return NextResponse.json(
+      { error: `Parameter "limit" must be between 1 and ${MAX_LIMIT} and "offset" must not be negative` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cached = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/recordings', { mbid, limit, offset }),
+      async () => {
+        const result = await getArtistRecordings(mbid, limit, offset);
+        return {
+          recordings: result.data,
+          source: result.source,
+          latencyMs: result.latencyMs,
+        };
+      },
+      SERVER_CACHE_TTL.musicbrainzReleases
+    );
+
+    return NextResponse.json(cached.data, { headers: cacheHeaders(cached) });
+  } catch (error) {
+    console.error('[API] Recordings fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recordings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * MusicBrainz Artist Release Groups API Route
+ *
+ * GET /api/musicbrainz/artist/{mbid}/release-groups
+ * GET /api/musicbrainz/artist/{mbid}/release-groups?types=Album,EP
+ *
+ * Albums (by default), EPs, singles etc. credited to the artist, newest first,
+ * without compilations, live albums or duplicate editions. Used by the
+ * timeline and album enrichment. Uses local PostgreSQL database when
+ * available, falls back to MusicBrainz API.
+ *
+ * Rate limited: 100 requests per minute per IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getArtistReleaseGroups } from '@/lib/musicbrainz/data-source';
+import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
+
+const PRIMARY_TYPES = ['Album', 'Single', 'EP', 'Broadcast', 'Other'];
+
+interface RouteParams {
+  params: Promise<{ mbid: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = apiLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { mbid } = await params;
+  const typesParam = request.nextUrl.searchParams.get('types');
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(mbid)) {
+    return NextResponse.json(
+      { error: 'Invalid MBID format. Expected UUID.' },
+      { status: 400 }
+    );
+  }
+
+  const primaryTypes = typesParam ? typesParam.split(',').map(t => t.trim()).filter(Boolean) : ['Album'];
+  const invalid = primaryTypes.filter(t => !PRIMARY_TYPES.includes(t));
+  if (invalid.length > 0 || primaryTypes.length === 0) {
+    return NextResponse.json(
+      { error: `Unknown release group type(s): ${invalid.join(', ') || typesParam}. Use: ${PRIMARY_TYPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cached = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/release-groups', { mbid, types: [...primaryTypes].sort().join(',') }),
+      async () => {
+        const result = await getArtistReleaseGroups(mbid, primaryTypes);
+        return {
+          releaseGroups: result.data,
+          source: result.source,
+          latencyMs: result.latencyMs,
+        };
+      },
+      SERVER_CACHE_TTL.musicbrainzReleases
+    );
+
+    return NextResponse.json(cached.data, { headers: cacheHeaders(cached) });
+  } catch (error) {
+    console.error('[API] Release groups fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch release groups' },
+      { status: 500 }
+    );
+  }
+}
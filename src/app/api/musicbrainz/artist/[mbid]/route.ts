@@ -5,7 +5,8 @@
  * GET /api/musicbrainz/artist/{mbid}?include=relationships
  *
  * Uses local PostgreSQL database when available, falls back to MusicBrainz API.
- * Returns source indicator for UI display.
+ * Returns source indicator for UI display. Responses are shared through the
+ * server cache (X-Cache header); the source shown is the one that loaded them.
  *
  * Rate limited: 100 requests per minute per IP
  */
@@ -17,11 +18,55 @@ import {
   getArtistLifeSpan,
 } from '@/lib/musicbrainz/data-source';
 import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
 
 interface RouteParams {
   params: Promise<{ mbid: string }>;
 }
 
+/**
+ * Response body for the requested include, or null if the artist doesn't exist
+ */
+async function loadArtist(mbid: string, include: string | null) {
+  // If requesting relationships, use the full relationships endpoint
+  if (include === 'relationships') {
+    const result = await getArtistRelationships(mbid);
+    if (!result.data) {
+      return null;
+    }
+    return {
+      artist: result.data.artist,
+      relationships: result.data.relationships,
+      relatedArtists: result.data.relatedArtists,
+      source: result.source,
+      latencyMs: result.latencyMs,
+    };
+  }
+
+  // If requesting life-span only
+  if (include === 'life-span') {
+    const result = await getArtistLifeSpan(mbid);
+    return {
+      lifeSpan: result.data,
+      source: result.source,
+      latencyMs: result.latencyMs,
+    };
+  }
+
+  // Default: just get the artist
+  const result = await getArtist(mbid);
+
+  if (!result.data) {
+    return null;
+  }
+
+  return {
+    artist: result.data,
+    source: result.source,
+    latencyMs: result.latencyMs,
+  };
+}
+
 export async function GET(request: NextRequest, { params }: RouteParams) {
   // Rate limiting
   const clientIp = getClientIp(request);
@@ -48,30 +93,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 
   try {
-    // If requesting relationships, use the full relationships endpoint
-    if (include === 'relationships') {
-      const result = await getArtistRelationships(mbid);
-      return NextResponse.json({
-        artist: result.data.artist,
-        relationships: result.data.relationships,
-        relatedArtists: result.data.relatedArtists,
-        source: result.source,
-        latencyMs: result.latencyMs,
-      });
-    }
-
-    // If requesting life-span only
-    if (include === 'life-span') {
-      const result = await getArtistLifeSpan(mbid);
-      return NextResponse.json({
-        lifeSpan: result.data,
-        source: result.source,
-        latencyMs: result.latencyMs,
-      });
-    }
-
-    // Default: just get the artist
-    const result = await getArtist(mbid);
+    const result = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/artist', { mbid, include }),
+      () => loadArtist(mbid, include),
+      // Not-found isn't cached: the artist may be newly added or the lookup may have failed
+      { ...SERVER_CACHE_TTL.musicbrainzArtist, shouldCache: data => data !== null }
+    );
 
     if (!result.data) {
       return NextResponse.json(
@@ -80,11 +107,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    return NextResponse.json({
-      artist: result.data,
-      source: result.source,
-      latencyMs: result.latencyMs,
-    });
+    return NextResponse.json(result.data, { headers: cacheHeaders(result) });
   } catch (error) {
     console.error('[API] Artist fetch error:', error);
     return NextResponse.json(
@@ -5,23 +5,30 @@
  *   Returns the current health status of data sources
  *
  * POST /api/musicbrainz/health
- *   Forces a fresh health check (resets cache and re-tests connection)
+ *   Forces a fresh health check (re-probes every backend, open circuits retry)
  *   Used by the "retry" button in the UI
  *
  * Returns:
  * - Local PostgreSQL database availability
- * - API availability (always true, with rate limits)
+ * - API availability
+ * - Per-provider circuit state, last error, error counters and latency
+ *   histogram (Solr, MusicBrainz DB, supplement DB, local MusicBrainz API
+ *   server when configured, MusicBrainz API)
+ *
+ * Deliberately not served through the server cache - it must reflect live state.
  */
 
 import { NextResponse } from 'next/server';
-import { getHealthStatus, resetDbAvailabilityCache } from '@/lib/musicbrainz/data-source';
+import { getHealthStatus } from '@/lib/musicbrainz/data-source';
 
-async function buildHealthResponse() {
-  const health = await getHealthStatus();
+async function buildHealthResponse(force = false) {
+  const health = await getHealthStatus({ force });
 
   return {
     status: health.localDb.available ? 'healthy' : 'degraded',
     isLocal: health.localDb.available,
+    // Backends whose circuit is open, e.g. ['solr']
+    degraded: health.providers.filter(provider => !provider.available).map(provider => provider.id),
     sources: {
       localDb: {
         available: health.localDb.available,
@@ -32,6 +39,7 @@ async function buildHealthResponse() {
         rateLimited: true, // MusicBrainz API is always rate-limited
       },
     },
+    providers: health.providers,
     timestamp: new Date().toISOString(),
   };
 }
@@ -56,15 +64,11 @@ export async function GET() {
 
 /**
  * POST handler - Force a fresh health check
- * Resets the DB availability cache and re-tests connection
+ * Re-probes every backend, letting open circuits try again right away
  */
 export async function POST() {
   try {
-    // Reset the cache to force a fresh connection test
-    resetDbAvailabilityCache();
-
-    // Now get fresh health status
-    const response = await buildHealthResponse();
+    const response = await buildHealthResponse(true);
 
     console.log(`[API] Forced health check: ${response.isLocal ? 'Local DB available' : 'Using fallback API'}`);
 
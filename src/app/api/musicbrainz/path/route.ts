@@ -0,0 +1,115 @@
+/**
+ * MusicBrainz Artist Path API Route
+ *
+ * GET /api/musicbrainz/path?from={mbid}&to={mbid}
+ * GET /api/musicbrainz/path?from={mbid}&to={mbid}&maxDepth=6&types=member_of,collaboration
+ *
+ * Finds the shortest chain of artist-artist relationships ("six degrees")
+ * using a bidirectional BFS. Uses local PostgreSQL database when available
+ * (one batched query per BFS level), falls back to MusicBrainz API with a
+ * much smaller search budget. Completed searches are shared through the
+ * server cache; ones cut short by the time or node budget are not cached.
+ *
+ * Rate limited: 10 requests per minute per IP (expensive operation)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findArtistPath } from '@/lib/musicbrainz/data-source';
+import { DEFAULT_PATH_MAX_DEPTH, MAX_PATH_DEPTH } from '@/lib/graph/path';
+import { strictLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
+import { isRelationshipType } from '@/lib/relationships';
+import type { RelationshipType } from '@/types';
+
+export async function GET(request: NextRequest) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = strictLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const maxDepth = parseInt(searchParams.get('maxDepth') || String(DEFAULT_PATH_MAX_DEPTH), 10);
+  const typesParam = searchParams.get('types');
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(from) || !uuidRegex.test(to)) {
+    return NextResponse.json(
+      { error: 'Parameters "from" and "to" must be valid MBIDs (UUID).' },
+      { status: 400 }
+    );
+  }
+
+  if (isNaN(maxDepth) || maxDepth < 1 || maxDepth > MAX_PATH_DEPTH) {
+    return NextResponse.json(
+      { error: `Parameter "maxDepth" must be between 1 and ${MAX_PATH_DEPTH}` },
+      { status: 400 }
+    );
+  }
+
+  let relationshipTypes: RelationshipType[] | undefined;
+  if (typesParam) {
+    const types = typesParam.split(',').map(t => t.trim()).filter(Boolean);
+    const invalid = types.filter(t => !isRelationshipType(t));
+    if (invalid.length > 0 || types.length === 0) {
+      return NextResponse.json(
+        { error: `Unknown relationship type(s): ${invalid.join(', ') || typesParam}` },
+        { status: 400 }
+      );
+    }
+    relationshipTypes = types as RelationshipType[];
+  }
+
+  try {
+    const cached = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/path', {
+        from,
+        to,
+        maxDepth,
+        types: relationshipTypes ? [...relationshipTypes].sort().join(',') : null,
+      }),
+      async () => {
+        const result = await findArtistPath(from.toLowerCase(), to.toLowerCase(), {
+          maxDepth,
+          relationshipTypes,
+        });
+        const { path, graph, visitedCount, depthReached, stopReason } = result.data;
+
+        return {
+          found: path.length > 0,
+          path,
+          graph,
+          source: result.source,
+          latencyMs: result.latencyMs,
+          stats: {
+            visitedCount,
+            depthReached,
+            stopReason,
+          },
+        };
+      },
+      {
+        ...SERVER_CACHE_TTL.musicbrainzPath,
+        shouldCache: ({ stats }) => stats.stopReason !== 'timeout' && stats.stopReason !== 'max-nodes',
+      }
+    );
+
+    return NextResponse.json(cached.data, {
+      headers: { ...rateLimitHeaders(rateLimit), ...cacheHeaders(cached) },
+    });
+  } catch (error) {
+    console.error('[API] Artist path error:', error);
+    return NextResponse.json(
+      { error: 'Failed to find artist path' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * MusicBrainz Release Group API Route
+ *
+ * GET /api/musicbrainz/release-group/{mbid}
+ *
+ * Every release (edition) in the release group, earliest first. Uses local
+ * PostgreSQL database when available, falls back to MusicBrainz API.
+ *
+ * Rate limited: 100 requests per minute per IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getReleaseGroupReleases } from '@/lib/musicbrainz/data-source';
+import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
+
+interface RouteParams {
+  params: Promise<{ mbid: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = apiLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { mbid } = await params;
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(mbid)) {
+    return NextResponse.json(
+      { error: 'Invalid MBID format. Expected UUID.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cached = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/release-group', { mbid }),
+      async () => {
+        const result = await getReleaseGroupReleases(mbid);
+        return {
+          releases: result.data,
+          source: result.source,
+          latencyMs: result.latencyMs,
+        };
+      },
+      SERVER_CACHE_TTL.musicbrainzReleases
+    );
+
+    return NextResponse.json(cached.data, { headers: cacheHeaders(cached) });
+  } catch (error) {
+    console.error('[API] Release group fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch release group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * MusicBrainz Release API Route
+ *
+ * GET /api/musicbrainz/release/{mbid}
+ *
+ * The release with its full track list (every medium, in order), each track
+ * linked to its recording. Uses local PostgreSQL database when available,
+ * falls back to MusicBrainz API.
+ *
+ * Rate limited: 100 requests per minute per IP
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getReleaseTracks } from '@/lib/musicbrainz/data-source';
+import { apiLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
+
+interface RouteParams {
+  params: Promise<{ mbid: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  // Rate limiting
+  const clientIp = getClientIp(request);
+  const rateLimit = apiLimiter.check(clientIp);
+
+  if (!rateLimit.success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429, headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const { mbid } = await params;
+
+  // Validate MBID format (UUID)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(mbid)) {
+    return NextResponse.json(
+      { error: 'Invalid MBID format. Expected UUID.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cached = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/release', { mbid }),
+      async () => {
+        const result = await getReleaseTracks(mbid);
+        return result.data && {
+          release: result.data.release,
+          tracks: result.data.tracks,
+          source: result.source,
+          latencyMs: result.latencyMs,
+        };
+      },
+      // Not-found isn't cached: the release may be newly added to the mirror
+      { ...SERVER_CACHE_TTL.musicbrainzReleases, shouldCache: data => data !== null }
+    );
+
+    if (!cached.data) {
+      return NextResponse.json(
+        { error: 'Release not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(cached.data, { headers: cacheHeaders(cached) });
+  } catch (error) {
+    console.error('[API] Release fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch release' },
+      { status: 500 }
+    );
+  }
+}
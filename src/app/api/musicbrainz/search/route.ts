@@ -5,34 +5,47 @@
  *
  * Uses Solr for fast text search when available, falls back to PostgreSQL,
  * then to MusicBrainz API. Returns source indicator for UI display.
+ * Results are shared through the server cache (X-Cache header).
  *
  * Rate limited: 30 requests per minute per IP
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { searchArtistsSolr, testSolrConnection } from '@/lib/musicbrainz/solr-client';
+import { searchArtistsSolr } from '@/lib/musicbrainz/solr-client';
+import { dataSources, DATA_SOURCE_IDS } from '@/lib/data-sources';
 import { searchArtists } from '@/lib/musicbrainz/data-source';
 import { searchLimiter, getClientIp, rateLimitHeaders } from '@/lib/rate-limit';
+import { apiCache, cacheHeaders, normalizeCacheKey, SERVER_CACHE_TTL } from '@/lib/server-cache';
 
-// Cache Solr availability status
-let solrAvailable: boolean | null = null;
-let lastSolrCheck = 0;
-const SOLR_CHECK_INTERVAL_MS = 30000;
+/**
+ * Search Solr, falling back to PostgreSQL/API via data-source
+ */
+async function searchWithFallback(query: string, limit: number, offset: number) {
+  const startTime = Date.now();
 
-async function isSolrAvailable(): Promise<boolean> {
-  const now = Date.now();
-  if (solrAvailable !== null && now - lastSolrCheck < SOLR_CHECK_INTERVAL_MS) {
-    return solrAvailable;
+  // Try Solr first (optimized for text search, much faster than ILIKE)
+  if (await dataSources.isAvailable(DATA_SOURCE_IDS.SOLR)) {
+    try {
+      const { artists, total } = await dataSources.call(DATA_SOURCE_IDS.SOLR, () => searchArtistsSolr(query, limit, offset));
+      return {
+        artists,
+        total,
+        source: 'solr',
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      console.error('[Search] Solr failed, falling back to DB:', error);
+    }
   }
 
-  solrAvailable = await testSolrConnection();
-  lastSolrCheck = now;
-
-  if (!solrAvailable) {
-    console.warn('[Search] Solr unavailable, will use DB fallback');
-  }
+  // Fallback to PostgreSQL/API via data-source
+  const result = await searchArtists(query, limit, offset);
 
-  return solrAvailable;
+  return {
+    artists: result.data,
+    source: result.source,
+    latencyMs: result.latencyMs,
+  };
 }
 
 export async function GET(request: NextRequest) {
@@ -59,33 +72,14 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const startTime = Date.now();
-
   try {
-    // Try Solr first (optimized for text search, much faster than ILIKE)
-    if (await isSolrAvailable()) {
-      try {
-        const { artists, total } = await searchArtistsSolr(query, limit, offset);
-        return NextResponse.json({
-          artists,
-          total,
-          source: 'solr',
-          latencyMs: Date.now() - startTime,
-        });
-      } catch (error) {
-        console.error('[Search] Solr failed, falling back to DB:', error);
-        solrAvailable = false;
-      }
-    }
-
-    // Fallback to PostgreSQL/API via data-source
-    const result = await searchArtists(query, limit, offset);
+    const result = await apiCache.getOrLoad(
+      normalizeCacheKey('musicbrainz/search', { q: query, limit, offset }),
+      () => searchWithFallback(query, limit, offset),
+      SERVER_CACHE_TTL.musicbrainzSearch
+    );
 
-    return NextResponse.json({
-      artists: result.data,
-      source: result.source,
-      latencyMs: result.latencyMs,
-    });
+    return NextResponse.json(result.data, { headers: cacheHeaders(result) });
   } catch (error) {
     console.error('[API] Search error:', error);
     return NextResponse.json(
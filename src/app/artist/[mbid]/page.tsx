@@ -0,0 +1,9 @@
+/**
+ * Shareable artist deep link
+ *
+ * /artist/{mbid}?depth=2&layout=spoke&types=member_of,producer&focus={mbid}
+ *
+ * Renders the same client page as "/" - it reads the MBID and graph view
+ * state from the URL (see components/graph/graph-url-state.ts).
+ */
+export { default } from '../../page';
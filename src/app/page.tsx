@@ -1,13 +1,27 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, Suspense } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
 import { ArtistSearch, type SelectedEntity as SearchSelectedEntity } from '@/components/artist-search';
 import { ArtistDetail } from '@/components/artist-detail';
+import { ArtistCompare } from '@/components/artist-compare';
 import { FavoritesRecentShows } from '@/components/favorites-recent-shows';
+import { SavedWorkspaces } from '@/components/saved-workspaces';
 import { SettingsDropdown } from '@/components/settings-dropdown';
 import { MusicBrainzStatus } from '@/components/musicbrainz-status';
 import { useFavorites } from '@/lib/favorites';
 import { useBackgroundEnrichment } from '@/lib/supplement/hooks';
+import { useArtistById } from '@/lib/musicbrainz/hooks';
+import {
+  buildArtistHref,
+  buildCompareHref,
+  isValidMbid,
+  parseArtistViewParams,
+  parseCompareParams,
+  type ArtistViewState,
+  type CompareMode,
+} from '@/components/graph/graph-url-state';
 import Image from 'next/image';
 import type {
   ArtistNode,
@@ -186,19 +200,83 @@ function EntityDetail({
   );
 }
 
+/**
+ * Home page - also rendered for /artist/{mbid} deep links (see app/artist/[mbid]/page.tsx)
+ * useSearchParams requires a Suspense boundary for static rendering
+ */
 export default function Home() {
-  const [selectedArtist, setSelectedArtist] = useState<ArtistNode | null>(null);
+  return (
+    <Suspense fallback={null}>
+      <HomeContent />
+    </Suspense>
+  );
+}
+
+function HomeContent() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const params = useParams<{ mbid?: string }>();
+  const searchParams = useSearchParams();
+
+  // The selected artist lives in the URL (/artist/{mbid}) so links can be shared
+  // and back/forward moves between artists
+  const routeMbid = isValidMbid(params.mbid) ? params.mbid.toLowerCase() : null;
+  const { data: routeArtist, isLoading: isArtistLoading, error: artistError } = useArtistById(routeMbid);
+  const selectedArtist = routeMbid ? routeArtist ?? null : null;
+
   const [selectedEntity, setSelectedEntity] = useState<SelectedEntity | null>(null);
   const { favorites, favoriteNames, isLoaded } = useFavorites();
 
   // Background enrichment: pre-warm supplement cache for favorite groups
   // Only runs on home page when nothing is selected, after 5 second delay
-  useBackgroundEnrichment(favorites, isLoaded && !selectedArtist && !selectedEntity);
+  useBackgroundEnrichment(favorites, isLoaded && !routeMbid && !selectedEntity);
+
+  // Navigate to an artist - seed the query cache so the page renders without a refetch
+  const handleSelectArtist = useCallback((artist: ArtistNode) => {
+    queryClient.setQueryData(['artistById', artist.id], artist);
+    setSelectedEntity(null);
+    router.push(buildArtistHref(artist.id));
+  }, [queryClient, router]);
+
+  const handleOpenWorkspace = useCallback((rootId: string) => {
+    setSelectedEntity(null);
+    router.push(buildArtistHref(rootId));
+  }, [router]);
+
+  // Keep the URL in sync with the graph view (replace, so history only tracks artists)
+  const currentQuery = searchParams.toString();
+  const handleViewStateChange = useCallback((state: ArtistViewState) => {
+    if (!routeMbid) return;
+    const href = buildArtistHref(routeMbid, state);
+    const currentHref = buildArtistHref(routeMbid, parseArtistViewParams(new URLSearchParams(currentQuery)));
+    if (href !== currentHref) {
+      router.replace(href, { scroll: false });
+    }
+  }, [routeMbid, currentQuery, router]);
+
+  // Two-artist comparison: /artist/{mbid}?compare={mbid}&view=overlay
+  const { compareId, mode: compareMode } = parseCompareParams(searchParams);
+
+  const handleCompare = useCallback((otherId: string) => {
+    if (!routeMbid || otherId === routeMbid) return;
+    router.push(buildCompareHref(routeMbid, otherId, compareMode));
+  }, [routeMbid, compareMode, router]);
+
+  const handleCompareModeChange = useCallback((mode: CompareMode) => {
+    if (!routeMbid || !compareId) return;
+    router.replace(buildCompareHref(routeMbid, compareId, mode), { scroll: false });
+  }, [routeMbid, compareId, router]);
+
+  const handleCloseCompare = useCallback(() => {
+    if (routeMbid) router.push(buildArtistHref(routeMbid));
+  }, [routeMbid, router]);
 
   // Handle back navigation
   const handleBack = () => {
-    setSelectedArtist(null);
     setSelectedEntity(null);
+    if (routeMbid) {
+      router.push('/');
+    }
   };
 
   // Handle non-artist entity selection from search
@@ -208,7 +286,7 @@ export default function Home() {
   }, []);
 
   // Is anything selected?
-  const hasSelection = selectedArtist || selectedEntity;
+  const hasSelection = routeMbid || selectedEntity;
 
   return (
     <main className="min-h-screen bg-gray-50 dark:bg-gray-950">
@@ -247,19 +325,45 @@ export default function Home() {
           </div>
         </header>
 
-        {selectedArtist ? (
+        {selectedArtist && compareId ? (
+          <ArtistCompare
+            key={`${selectedArtist.id}:${compareId}`}
+            artist={selectedArtist}
+            compareId={compareId}
+            mode={compareMode}
+            onModeChange={handleCompareModeChange}
+            onCompareChange={handleCompare}
+            onClose={handleCloseCompare}
+          />
+        ) : selectedArtist ? (
           <ArtistDetail
+            // Remount per artist so view state is re-read from the URL on back/forward
+            key={selectedArtist.id}
             artist={selectedArtist}
             onBack={handleBack}
-            onSelectRelated={(artist) => setSelectedArtist(artist)}
+            onSelectRelated={handleSelectArtist}
+            // Without view params a saved workspace (if any) decides depth and layout
+            initialView={currentQuery ? parseArtistViewParams(searchParams) : undefined}
+            onViewStateChange={handleViewStateChange}
+            onCompare={handleCompare}
           />
+        ) : routeMbid ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">
+            {isArtistLoading ? (
+              <div className="animate-pulse">Loading artist...</div>
+            ) : artistError ? (
+              <p>Error loading artist: {artistError.message}</p>
+            ) : (
+              <p>Artist not found</p>
+            )}
+          </div>
         ) : selectedEntity ? (
           <EntityDetail entity={selectedEntity} onBack={handleBack} />
         ) : (
           <>
             {/* Search with autocomplete and favorites */}
             <ArtistSearch
-              onSelectArtist={setSelectedArtist}
+              onSelectArtist={handleSelectArtist}
               onSelectEntity={handleSelectEntity}
             />
 
@@ -269,6 +373,10 @@ export default function Home() {
                 <FavoritesRecentShows artistNames={favoriteNames} />
               </div>
             )}
+
+            <div className="max-w-2xl mx-auto">
+              <SavedWorkspaces onOpen={handleOpenWorkspace} />
+            </div>
           </>
         )}
 
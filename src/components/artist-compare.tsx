@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useArtistRelationships } from '@/lib/musicbrainz/hooks';
+import { Button } from '@/components/ui/button';
+import { AutocompleteInput } from '@/components/autocomplete-input';
+import { GraphView, getDefaultFilters } from '@/components/graph';
+import { CompareStats } from '@/components/graph/graph-compare-stats';
+import type { CompareMode } from '@/components/graph/graph-url-state';
+import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
+import type { ArtistNode } from '@/types';
+import {
+  useGraphExpansion,
+  useArtistPath,
+  compareGraphs,
+  expansionDepthLabels,
+  type CompareSide,
+  type ExpansionDepth,
+} from '@/lib/graph';
+
+interface ArtistCompareProps {
+  /** Root artist of the left-hand graph */
+  artist: ArtistNode;
+  /** MBID of the artist to compare with */
+  compareId: string;
+  mode: CompareMode;
+  onModeChange: (mode: CompareMode) => void;
+  /** Called with the MBID of a different artist to compare with */
+  onCompareChange: (compareId: string) => void;
+  /** Leave comparison and return to the single-artist view */
+  onClose: () => void;
+}
+
+/**
+ * Two artists' networks side by side, or merged into one overlay graph,
+ * with the artists they share highlighted
+ */
+export function ArtistCompare({
+  artist,
+  compareId,
+  mode,
+  onModeChange,
+  onCompareChange,
+  onClose,
+}: ArtistCompareProps) {
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [hoveredArtistId, setHoveredArtistId] = useState<string | null>(null);
+  const [filters] = useState(getDefaultFilters);
+  // Path search beyond the loaded graphs - tagged with the pair so it resets when either changes
+  const [widerSearchKey, setWiderSearchKey] = useState<string | null>(null);
+
+  const { data: dataA, isLoading: isLoadingA, error: errorA } = useArtistRelationships(artist.id);
+  const { data: dataB, isLoading: isLoadingB, error: errorB } = useArtistRelationships(compareId);
+  const sideA = useGraphExpansion(artist.id, dataA);
+  const sideB = useGraphExpansion(compareId, dataB);
+
+  const nameA = dataA?.artist.name ?? artist.name;
+  const nameB = dataB?.artist.name ?? 'Loading...';
+  const isExpanding = sideA.isExpanding || sideB.isExpanding;
+
+  const comparison = useMemo(
+    () => sideA.graphData.nodes.length > 0 && sideB.graphData.nodes.length > 0
+      ? compareGraphs(sideA.graphData, sideB.graphData)
+      : null,
+    [sideA.graphData, sideB.graphData]
+  );
+
+  // Side by side: only shared artists are marked; overlay: every artist gets its graph's halo
+  const splitHighlight = useMemo(() => comparison && {
+    sides: new Map([...comparison.sides].filter(([, side]) => side === 'both')) as Map<string, CompareSide>,
+  }, [comparison]);
+  const overlayHighlight = useMemo(() => comparison && {
+    sides: comparison.sides,
+    roots: [comparison.roots[1]],
+  }, [comparison]);
+
+  const pairKey = `${artist.id}:${compareId}`;
+  const searchWider = widerSearchKey === pairKey && !comparison?.connection;
+  const { data: widerPath, isFetching: isSearchingWider } = useArtistPath(
+    searchWider ? artist.id : null,
+    searchWider ? compareId : null
+  );
+
+  // One depth for both networks so the overlap compares like with like
+  const { handleDepthChange: setDepthA } = sideA;
+  const { handleDepthChange: setDepthB } = sideB;
+  const handleDepthChange = useCallback((depth: ExpansionDepth) => {
+    setDepthA(depth);
+    setDepthB(depth);
+  }, [setDepthA, setDepthB]);
+
+  const handleNodeClick = useCallback((clicked: ArtistNode | null) => {
+    setSelectedNodeId(prev => !clicked || prev === clicked.id ? null : clicked.id);
+  }, []);
+
+  const graphProps = {
+    onNodeClick: handleNodeClick,
+    onNodeHover: setHoveredArtistId,
+    selectedNodeId,
+    hoveredNodeId: hoveredArtistId,
+    networkDepth: sideA.expansionDepth,
+    filters,
+  };
+
+  const renderPane = (side: typeof sideA, name: string, isLoading: boolean, error: Error | null) => (
+    <div className="relative h-full">
+      <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 px-3 py-1 rounded-full bg-white/90 dark:bg-gray-800/90 shadow-sm text-sm font-semibold text-gray-900 dark:text-gray-100">
+        {name}
+      </div>
+      {error ? (
+        <div className="p-4 text-red-700 dark:text-red-300">Error loading relationships: {error.message}</div>
+      ) : isLoading ? (
+        <div className="p-8 text-center text-gray-500 dark:text-gray-400 animate-pulse">Loading relationships...</div>
+      ) : (
+        <GraphView
+          graph={side.graphData}
+          onNodeExpand={side.handleNodeExpand}
+          comparison={splitHighlight ?? undefined}
+          {...graphProps}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full px-4 flex flex-col h-[calc(100vh-80px)] pb-4">
+      {/* Controls Bar */}
+      <div className="bg-white dark:bg-gray-900 p-2 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2 shrink-0 mb-4">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <h2 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+            {nameA} <span className="text-gray-400 font-normal">vs</span> {nameB}
+          </h2>
+          <div className="flex items-center gap-2 flex-wrap">
+            <div className="flex rounded border border-gray-300 dark:border-gray-600 overflow-hidden text-sm">
+              {(['split', 'overlay'] as const).map(value => (
+                <button
+                  key={value}
+                  onClick={() => onModeChange(value)}
+                  className={`px-2 py-1 ${
+                    mode === value
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {value === 'split' ? 'Side by side' : 'Overlay'}
+                </button>
+              ))}
+            </div>
+            <span className="text-gray-300 dark:text-gray-600">|</span>
+            <label className="text-sm text-gray-600 dark:text-gray-400">Network Depth:</label>
+            <select
+              value={sideA.expansionDepth}
+              onChange={(e) => handleDepthChange(Number(e.target.value) as ExpansionDepth)}
+              disabled={isExpanding}
+              className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+              title={expansionDepthLabels[sideA.expansionDepth]}
+            >
+              <option value={1}>1 - Direct</option>
+              <option value={2}>2 - Members&apos; bands</option>
+              <option value={3}>3 - Extended</option>
+              <option value={4}>4 - Full network</option>
+            </select>
+            <span className="text-gray-300 dark:text-gray-600">|</span>
+            <div className="w-56">
+              <AutocompleteInput
+                placeholder="Compare with another artist..."
+                entityType="artist"
+                onSelect={(suggestion) => onCompareChange(suggestion.id)}
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close Comparison
+            </Button>
+          </div>
+        </div>
+        {comparison && (
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-2">
+            <CompareStats
+              comparison={comparison}
+              names={[nameA, nameB]}
+              widerPath={searchWider ? widerPath : undefined}
+              isSearchingWider={isSearchingWider}
+              onSearchWider={() => setWiderSearchKey(pairKey)}
+              onArtistClick={setSelectedNodeId}
+            />
+          </div>
+        )}
+      </div>
+
+      {isExpanding && (
+        <div className="mb-2 text-sm text-center text-gray-500 dark:text-gray-400 animate-pulse">
+          Expanding networks to Level {sideA.expansionDepth}...
+        </div>
+      )}
+
+      {mode === 'split' ? (
+        <ResizablePanelGroup direction="horizontal" className="rounded-lg flex-1 min-h-0">
+          <ResizablePanel defaultSize={50} minSize={25}>
+            {renderPane(sideA, nameA, isLoadingA, errorA)}
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={50} minSize={25}>
+            {renderPane(sideB, nameB, isLoadingB, errorB)}
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      ) : (
+        <div className="relative flex-1 min-h-0">
+          {comparison ? (
+            <GraphView
+              graph={comparison.merged}
+              comparison={overlayHighlight ?? undefined}
+              {...graphProps}
+            />
+          ) : errorA || errorB ? (
+            <div className="p-4 text-red-700 dark:text-red-300">
+              Error loading relationships: {(errorA ?? errorB)!.message}
+            </div>
+          ) : (
+            <div className="p-8 text-center text-gray-500 dark:text-gray-400 animate-pulse">Loading relationships...</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
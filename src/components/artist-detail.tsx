@@ -1,19 +1,39 @@
 'use client';
 
 import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useArtistRelationships } from '@/lib/musicbrainz/hooks';
 import { useEnrichedArtist } from '@/lib/apple-music';
 import { Button } from '@/components/ui/button';
-import { GraphView, LayoutType, GraphFilters, getDefaultFilters, type GraphFilterState } from '@/components/graph';
+import { AutocompleteInput } from '@/components/autocomplete-input';
+import {
+  GraphView,
+  LayoutType,
+  GraphFilters,
+  getDefaultFilters,
+  type GraphFilterState,
+  type GraphWorkspaceSnapshot,
+} from '@/components/graph';
+import { LAYOUT_OPTIONS } from '@/components/graph/graph-layout';
+import { PathFinder } from '@/components/graph/path-finder';
+import type { ArtistViewState } from '@/components/graph/graph-url-state';
 import { addToFavorites, removeFromFavorites, isFavorite, enrichFavoriteGenres } from '@/lib/favorites';
+import { getWorkspace, saveWorkspace, deleteWorkspace, type GraphWorkspace } from '@/lib/storage';
 import { SidebarSections } from '@/components/sidebar-sections';
-import type { ArtistNode } from '@/types';
+import type { ArtistGraph, ArtistNode, RelationshipType } from '@/types';
 import { useArtistTimeline } from '@/lib/timeline';
 import { ArtistTimeline, TIMELINE_DEFAULT_HEIGHT } from '@/components/timeline';
 import { useArtistBio } from '@/lib/wikipedia';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import {
   useGraphExpansion,
+  useArtistPath,
+  useInfluenceLayer,
+  useCreditLayer,
+  useDerivedRelationships,
+  DERIVED_RELATIONSHIP_TYPES,
+  mergeGraphData,
+  importGraph,
   groupRelationshipsByType,
   getRelationshipLabel,
   extractInstruments,
@@ -25,19 +45,36 @@ interface ArtistDetailProps {
   artist: ArtistNode;
   onBack: () => void;
   onSelectRelated: (artist: ArtistNode) => void;
+  /** View state restored from a shared link (read once on mount) */
+  initialView?: ArtistViewState;
+  /** Called whenever depth, layout, filters or focus change (e.g. to sync the URL) */
+  onViewStateChange?: (state: ArtistViewState) => void;
+  /** Called with the MBID of a second artist to open the comparison view */
+  onCompare?: (artistId: string) => void;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars -- onBack kept for future back navigation
-export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailProps) {
+export function ArtistDetail({
+  artist,
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- onBack kept for future back navigation
+  onBack,
+  onSelectRelated,
+  initialView,
+  onViewStateChange,
+  onCompare,
+}: ArtistDetailProps) {
   // UI-only state
   const [showList, setShowList] = useState(true);
   const [isFav, setIsFav] = useState(false);
-  const [layoutType, setLayoutType] = useState<LayoutType>('auto');
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [hoveredArtistId, setHoveredArtistId] = useState<string | null>(null);
-  const [graphFilters, setGraphFilters] = useState<GraphFilterState>(getDefaultFilters);
+  const [graphFilters, setGraphFilters] = useState<GraphFilterState>(
+    () => initialView?.filters ?? getDefaultFilters()
+  );
   const [highlightedAlbum, setHighlightedAlbum] = useState<{ name: string; year: number; source: 'timeline' | 'sidebar' } | null>(null);
   const [timelineHeight, setTimelineHeight] = useState(TIMELINE_DEFAULT_HEIGHT);
+  // "Six degrees" target - tagged with the root artist so it resets on a new search
+  const [pathTarget, setPathTarget] = useState<{ rootId: string; id: string; name: string } | null>(null);
+  const [showComparePicker, setShowComparePicker] = useState(false);
 
   // Focused artist - which artist's info (header, albums, timeline) to display
   // Defaults to the original artist, but can be changed via right-click "Focus on this artist"
@@ -59,6 +96,29 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
     setIsFav(currentIsFav);
   }
 
+  // Saved graph handed over from an import started on another artist's view (read once)
+  const queryClient = useQueryClient();
+  const [pendingImport] = useState(() => {
+    const graph = queryClient.getQueryData<ArtistGraph>(['importedGraph', artist.id]);
+    if (graph) queryClient.removeQueries({ queryKey: ['importedGraph', artist.id] });
+    return graph;
+  });
+  const [importErrors, setImportErrors] = useState<string[] | null>(null);
+  const [graphViewKey, setGraphViewKey] = useState(0);
+
+  // Saved workspace (positions, pins, hidden nodes, layout, depth) - an imported graph wins
+  const [workspace, setWorkspace] = useState<GraphWorkspace | null>(
+    () => pendingImport ? null : getWorkspace(artist.id)
+  );
+  const [workspaceError, setWorkspaceError] = useState(false);
+  // Positions only come from the workspace restored on mount - saving or deleting must not re-layout the graph
+  const [restoredPositions] = useState(() => workspace?.positions ?? null);
+  const [layoutType, setLayoutType] = useState<LayoutType>(() =>
+    initialView?.layout
+      ?? LAYOUT_OPTIONS.find(o => o.value === workspace?.layout)?.value
+      ?? 'auto'
+  );
+
   // Graph data uses the original artist (root of the graph)
   const { data, isLoading, error } = useArtistRelationships(artist.id);
 
@@ -96,7 +156,123 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
     handleNodeExpand,
     handleResetGraph,
     hasExpandedGraph,
-  } = useGraphExpansion(artist.id, data);
+    loadGraph,
+  } = useGraphExpansion(artist.id, data, {
+    initialDepth: initialView?.depth ?? (workspace?.depth as ExpansionDepth | undefined),
+    initialGraph: pendingImport,
+    relationshipTypes: graphFilters.relationshipTypes,
+  });
+
+  // Open a saved graph file. Graphs rooted at another artist are handed over via the
+  // query cache and picked up as `pendingImport` when that artist's view mounts.
+  const handleImportFile = useCallback(async (file: File) => {
+    const result = importGraph(await file.text());
+    if (!result.success) {
+      setImportErrors(result.errors);
+      return;
+    }
+
+    setImportErrors(null);
+    if (result.rootId === artist.id) {
+      loadGraph(result.graph);
+      setGraphViewKey(key => key + 1); // Remount so saved positions are applied
+    } else {
+      queryClient.setQueryData(['importedGraph', result.rootId], result.graph);
+      onSelectRelated(result.graph.nodes[0].data);
+    }
+  }, [artist.id, loadGraph, queryClient, onSelectRelated]);
+
+  const handleSaveWorkspace = useCallback((snapshot: GraphWorkspaceSnapshot) => {
+    const saved: GraphWorkspace = {
+      rootId: artist.id,
+      rootName: artist.name,
+      layout: layoutType,
+      depth: expansionDepth,
+      ...snapshot,
+      savedAt: Date.now(),
+    };
+    const ok = saveWorkspace(saved);
+    setWorkspaceError(!ok);
+    if (ok) setWorkspace(saved);
+  }, [artist.id, artist.name, layoutType, expansionDepth]);
+
+  const handleDeleteWorkspace = useCallback(() => {
+    deleteWorkspace(artist.id);
+    setWorkspace(null);
+    setWorkspaceError(false);
+  }, [artist.id]);
+
+  // Restore focus from a shared link once that artist appears in the graph
+  const [pendingFocusId, setPendingFocusId] = useState<string | null>(initialView?.focus ?? null);
+  if (pendingFocusId) {
+    const focusNode = graphData.nodes.find(n => n.data.id === pendingFocusId);
+    if (focusNode) {
+      setPendingFocusId(null);
+      setFocusedArtist(focusNode.data);
+    }
+  }
+
+  // Report view state so it can be reflected in the URL
+  const viewFocusId = pendingFocusId
+    ?? (effectiveFocusedArtist.id !== artist.id ? effectiveFocusedArtist.id : null);
+  useEffect(() => {
+    onViewStateChange?.({
+      depth: expansionDepth,
+      layout: layoutType,
+      filters: graphFilters,
+      focus: viewFocusId,
+    });
+  }, [expansionDepth, layoutType, graphFilters, viewFocusId, onViewStateChange]);
+
+  // Shortest path from the root artist to the chosen target
+  const activePathTarget = pathTarget?.rootId === artist.id ? pathTarget : null;
+  const {
+    data: pathResult,
+    isFetching: isPathLoading,
+    error: pathError,
+  } = useArtistPath(activePathTarget ? artist.id : null, activePathTarget?.id ?? null);
+
+  const handlePathTargetChange = useCallback((target: { id: string; name: string } | null) => {
+    setPathTarget(target ? { rootId: artist.id, ...target } : null);
+  }, [artist.id]);
+
+  // Influence layer (MusicBrainz + Wikidata), traced back from the root when enabled
+  const { graph: influenceGraph, isLoading: isTracingInfluences } = useInfluenceLayer(graphData, graphFilters.influenceHops);
+
+  // Artists credited on the same records as the root (local database only)
+  const { graph: creditGraph, isLoading: isFindingCredits } = useCreditLayer(influenceGraph, graphFilters.creditsMinShared);
+
+  // Inferred label-mate / same-scene edges between the artists in the graph (local database only)
+  const derivedTypes = useMemo(() => (
+    graphFilters.derivedEdges
+      ? DERIVED_RELATIONSHIP_TYPES.filter(type => graphFilters.relationshipTypes.has(type))
+      : []
+  ), [graphFilters.derivedEdges, graphFilters.relationshipTypes]);
+  const { graph: derivedGraph, isLoading: isDerivingEdges } = useDerivedRelationships(creditGraph, derivedTypes);
+
+  const filterTypes = useMemo(() => {
+    const types = new Set(availableRelTypes as RelationshipType[]);
+    if (graphFilters.influenceHops > 0) types.add('influenced_by');
+    if (graphFilters.creditsMinShared > 0) types.add('shared_credits');
+    if (graphFilters.derivedEdges) DERIVED_RELATIONSHIP_TYPES.forEach(type => types.add(type));
+    return [...types];
+  }, [availableRelTypes, graphFilters.influenceHops, graphFilters.creditsMinShared, graphFilters.derivedEdges]);
+
+  // Overlay path artists/links onto the expanded graph so the chain is always visible
+  // Restored workspace positions are applied here; positions from an imported file take precedence
+  const displayGraph = useMemo(() => {
+    const graph = activePathTarget && pathResult?.found
+      ? mergeGraphData(derivedGraph, pathResult.graph.nodes, pathResult.graph.edges, '')
+      : derivedGraph;
+    if (!restoredPositions) return graph;
+    return {
+      ...graph,
+      nodes: graph.nodes.map(node => {
+        const position = restoredPositions[node.data.id];
+        return position && !node.position ? { ...node, position } : node;
+      }),
+    };
+  }, [derivedGraph, activePathTarget, pathResult, restoredPositions]);
 
   // Enrich favorite with genres when artist data is loaded
   // This updates the stored favorite to include genre categories from MusicBrainz tags
@@ -314,6 +490,47 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
                 </Button>
               </>
             )}
+            {(workspace || workspaceError) && (
+              <>
+                <span className="text-gray-300 dark:text-gray-600">|</span>
+                {workspaceError ? (
+                  <span className="text-xs text-red-600 dark:text-red-400">
+                    Could not save workspace (browser storage full?)
+                  </span>
+                ) : workspace && (
+                  <span
+                    className="text-xs text-gray-500 dark:text-gray-400"
+                    title="Positions, pinned and hidden nodes, layout and depth are restored when you open this artist"
+                  >
+                    💾 Workspace saved {new Date(workspace.savedAt).toLocaleString()}
+                  </span>
+                )}
+                {workspace && (
+                  <button
+                    onClick={handleDeleteWorkspace}
+                    className="text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400 underline"
+                  >
+                    Delete
+                  </button>
+                )}
+              </>
+            )}
+            {onCompare && (
+              showComparePicker ? (
+                <div className="w-56">
+                  <AutocompleteInput
+                    placeholder="Compare with..."
+                    entityType="artist"
+                    onSelect={(suggestion) => onCompare(suggestion.id)}
+                    autoFocus
+                  />
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => setShowComparePicker(true)}>
+                  Compare
+                </Button>
+              )
+            )}
             <Button
               variant={showList ? 'default' : 'outline'}
               size="sm"
@@ -327,11 +544,22 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
           <GraphFilters
             filters={graphFilters}
             onFiltersChange={setGraphFilters}
-            availableTypes={availableRelTypes as import('@/types').RelationshipType[]}
+            availableTypes={filterTypes}
             availableYearRange={yearRange}
             compact
           />
         </div>
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-2">
+          <PathFinder
+            sourceName={artist.name}
+            target={activePathTarget}
+            onTargetChange={handlePathTargetChange}
+            result={activePathTarget ? pathResult : undefined}
+            isLoading={isPathLoading}
+            error={pathError}
+            onArtistClick={setSelectedNodeId}
+          />
+        </div>
       </div>
 
       {isLoading && (
@@ -347,6 +575,26 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
         </div>
       )}
 
+      {importErrors && (
+        <div className="p-4 mb-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium">Could not open saved graph:</span>
+            <button
+              onClick={() => setImportErrors(null)}
+              className="text-red-500 hover:text-red-700 dark:hover:text-red-200"
+              title="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {importErrors.map((message, i) => (
+              <li key={i}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {data && data.relationships.length === 0 && (
         <div className="p-4 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-600 dark:text-gray-300">
           No artist relationships found in MusicBrainz.
@@ -375,8 +623,24 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
                   </div>
                 </div>
               )}
+              {isTracingInfluences && !isExpanding && (
+                <div className="absolute bottom-3 right-3 z-10 bg-white/90 dark:bg-gray-800/90 backdrop-blur px-3 py-1.5 rounded-lg shadow-sm text-xs text-fuchsia-700 dark:text-fuchsia-300 animate-pulse">
+                  Tracing influences...
+                </div>
+              )}
+              {isFindingCredits && !isExpanding && !isTracingInfluences && (
+                <div className="absolute bottom-3 right-3 z-10 bg-white/90 dark:bg-gray-800/90 backdrop-blur px-3 py-1.5 rounded-lg shadow-sm text-xs text-rose-700 dark:text-rose-300 animate-pulse">
+                  Finding shared credits...
+                </div>
+              )}
+              {isDerivingEdges && !isExpanding && !isTracingInfluences && !isFindingCredits && (
+                <div className="absolute bottom-3 right-3 z-10 bg-white/90 dark:bg-gray-800/90 backdrop-blur px-3 py-1.5 rounded-lg shadow-sm text-xs text-teal-700 dark:text-teal-300 animate-pulse">
+                  Deriving label-mates and scenes...
+                </div>
+              )}
               <GraphView
-                graph={graphData}
+                key={graphViewKey}
+                graph={displayGraph}
                 onNodeClick={handleNodeClick}
                 onNodeExpand={handleNodeExpand}
                 onNodeHover={setHoveredArtistId}
@@ -387,9 +651,14 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
                 networkDepth={expansionDepth}
                 onLayoutChange={setLayoutType}
                 filters={graphFilters}
+                highlightedPath={activePathTarget && pathResult?.found ? pathResult.path : undefined}
+                onImportFile={handleImportFile}
+                initialWorkspace={workspace ?? undefined}
+                onSaveWorkspace={handleSaveWorkspace}
+                timelineYearRange={yearRange}
               />
               <div className="mt-2 text-center text-sm text-gray-500 dark:text-gray-400">
-                {graphData.nodes.length} artists • {graphData.edges.length} connections
+                {displayGraph.nodes.length} artists • {displayGraph.edges.length} connections
               </div>
             </div>
           </ResizablePanel>
@@ -441,6 +710,7 @@ export function ArtistDetail({ artist, onBack, onSelectRelated }: ArtistDetailPr
         highlightedArtistIds={hoveredArtistId ? [hoveredArtistId] : undefined}
         onHeightChange={setTimelineHeight}
         filterYearRange={graphFilters.yearRange}
+        currentYear={graphFilters.replayYear}
       />
     </div>
   );
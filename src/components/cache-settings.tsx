@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  CACHE_NAMESPACES,
+  type CacheNamespace,
+  type CacheUsage,
+  cacheClear,
+  cachePurgeExpired,
+  getCacheUsage,
+} from '@/lib/cache';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Cache inspector for the settings dropdown: usage per namespace with
+ * selective purging
+ */
+export function CacheSettingsSection() {
+  // undefined while loading, null when the cache can't be read
+  const [usage, setUsage] = useState<CacheUsage | null | undefined>(undefined);
+  const [isPurging, setIsPurging] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setUsage(await getCacheUsage());
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const purge = async (action: () => Promise<unknown>) => {
+    setIsPurging(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('[CacheSettings] Purge failed:', error);
+    } finally {
+      await refresh();
+      setIsPurging(false);
+    }
+  };
+
+  if (usage === undefined) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Loading cache usage...</p>;
+  }
+
+  if (usage === null) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Cache usage unavailable in this browser.</p>;
+  }
+
+  const percentUsed = usage.budgetBytes > 0 ? Math.min(100, (usage.totalBytes / usage.budgetBytes) * 100) : 0;
+  const expiredCount = Object.values(usage.namespaces).reduce((sum, ns) => sum + ns.expired, 0);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+          <span>{formatBytes(usage.totalBytes)} of {formatBytes(usage.budgetBytes)}</span>
+          <span>{Math.round(percentUsed)}%</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+          <div
+            className={`h-full rounded-full ${percentUsed > 90 ? 'bg-amber-500' : 'bg-blue-500'}`}
+            style={{ width: `${percentUsed}%` }}
+          />
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {(Object.keys(CACHE_NAMESPACES) as CacheNamespace[]).map(namespace => {
+          const stats = usage.namespaces[namespace];
+          return (
+            <li key={namespace} className="flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0" title={CACHE_NAMESPACES[namespace].description}>
+                <span className="text-gray-700 dark:text-gray-300">{CACHE_NAMESPACES[namespace].label}</span>
+                <span className="ml-1.5 text-xs text-gray-500 dark:text-gray-400">
+                  {stats ? `${stats.entries} · ${formatBytes(stats.bytes)}` : 'empty'}
+                </span>
+              </div>
+              <button
+                onClick={() => purge(() => cacheClear(namespace))}
+                disabled={isPurging || !stats}
+                className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:opacity-40 disabled:pointer-events-none"
+                title={`Purge ${CACHE_NAMESPACES[namespace].label.toLowerCase()} cache`}
+                aria-label={`Purge ${CACHE_NAMESPACES[namespace].label.toLowerCase()} cache`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          onClick={() => purge(cachePurgeExpired)}
+          disabled={isPurging || expiredCount === 0}
+        >
+          Purge expired{expiredCount > 0 ? ` (${expiredCount})` : ''}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300"
+          onClick={() => purge(() => cacheClear())}
+          disabled={isPurging || usage.totalBytes === 0}
+        >
+          Purge all
+        </Button>
+      </div>
+    </div>
+  );
+}
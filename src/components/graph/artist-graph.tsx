@@ -1,19 +1,63 @@
 'use client';
 
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { useTheme } from 'next-themes';
 import cytoscape, { Core, NodeSingular, Layouts } from 'cytoscape';
 import cola from 'cytoscape-cola';
 import dagre from 'cytoscape-dagre';
-import type { ArtistGraph as ArtistGraphType, ArtistNode, RelationshipType } from '@/types';
+import type { ArtistGraph as ArtistGraphType, ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
 import type { GraphFilterState } from './graph-filters';
 import { parseYear } from '@/lib/utils';
-import { getCytoscapeStyle } from './graph-styles';
+import { RELATIONSHIP_TYPE_CONFIG } from '@/lib/relationships';
+import { getCytoscapeStyle, type GraphStyleOptions } from './graph-styles';
+import { GraphFileMenu } from './graph-controls';
+import { GraphAnalyticsPanel } from './graph-analytics-panel';
+import { LineageOverlay } from './graph-lineage-overlay';
+import { GraphSearchBox } from './graph-search-box';
+import { getRendererOptions, workerForceLayout } from './graph-performance';
+import {
+  REPLAY_EXPORT_FORMATS,
+  applyReplayYear,
+  exportReplayAnimation,
+  type ReplayExportFormat,
+} from './graph-replay';
+import { exportPoster } from './graph-poster';
+import {
+  GRAPH_EXPORT_FORMATS,
+  POSTER_FORMATS,
+  exportGraph,
+  computeGraphAnalytics,
+  getGraphYearSpan,
+  searchGraphNodes,
+  pickNeighborInDirection,
+  describeArtist,
+  getRenderingTier,
+  useGraphTheme,
+  bundleParallelEdges,
+  getAutoCollapsedGroups,
+  planCollapsedGroups,
+  rerouteCollapsedEdges,
+  type EdgeBundle,
+  type GraphExportFormat,
+  type PosterFormat,
+  type PosterSize,
+  type GraphSearchMatch,
+  type NavigationDirection,
+  type CentralityMeasure,
+  type CommunityAlgorithm,
+  type CompareSide,
+  type RenderingThresholds,
+} from '@/lib/graph';
+import type { GraphWorkspace } from '@/lib/storage';
 import {
   type LayoutType,
+  type LineageLayout,
   getEffectiveLayout,
+  getFixedNodeIds,
   getLayoutOptions as getLayoutConfig,
+  getLineageLayout,
   calculateNodeDepths,
+  WORKER_FORCE_LAYOUT,
 } from './graph-layout';
 
 // Format tenure as years only (e.g., "1987–1994" or "2000–present")
@@ -27,6 +71,21 @@ function formatTenure(begin?: string, end?: string | null): string {
   return `${startYear}–`;
 }
 
+// Download a generated file as interchord-<slug>.<extension>
+function exportFileName(name: string, extension: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'graph';
+  return `interchord-${slug}.${extension}`;
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // Register layout extensions
 if (typeof cytoscape('core', 'cola') === 'undefined') {
   cytoscape.use(cola);
@@ -34,6 +93,9 @@ if (typeof cytoscape('core', 'cola') === 'undefined') {
 if (typeof cytoscape('core', 'dagre') === 'undefined') {
   cytoscape.use(dagre);
 }
+if (typeof cytoscape('layout', WORKER_FORCE_LAYOUT) === 'undefined') {
+  cytoscape.use(workerForceLayout);
+}
 
 // Constants for viewport threshold calculations
 /** Threshold for determining if a node is in the "outer" region of viewport (triggers panning) */
@@ -41,9 +103,22 @@ const VIEWPORT_OUTER_THRESHOLD = 0.6;
 /** How much to pan toward a selected node (percentage of distance) */
 const PAN_DISTANCE_FACTOR = 0.3;
 
+/** Keys that move the selection to a neighbouring artist */
+const ARROW_DIRECTIONS: Record<string, NavigationDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+/** Minimum zoom when jumping to a find-in-graph match */
+const SEARCH_MATCH_ZOOM = 1.2;
+
 // Re-export LayoutType for consumers of this component
 export type { LayoutType } from './graph-layout';
 
+/** The part of a saved workspace owned by the graph (layout/depth live in the parent) */
+export type GraphWorkspaceSnapshot = Pick<GraphWorkspace, 'positions' | 'pinnedNodeIds' | 'hiddenNodeIds'>;
+
 /**
  * Z-INDEX LAYERING STRATEGY
  * -------------------------
@@ -76,6 +151,20 @@ interface ArtistGraphProps {
   networkDepth?: number;
   onLayoutChange?: (layout: LayoutType) => void;
   filters?: GraphFilterState;
+  /** Ordered artist MBIDs of a shortest path to emphasize (nodes and the edges between them) */
+  highlightedPath?: string[];
+  /** Called when the user opens a saved graph file from the file menu */
+  onImportFile?: (file: File) => void;
+  /** Pinned/hidden nodes restored from a saved workspace (read on mount; positions come in via graph) */
+  initialWorkspace?: Pick<GraphWorkspaceSnapshot, 'pinnedNodeIds' | 'hiddenNodeIds'>;
+  /** Called with current positions, pins and hidden nodes when the user saves the workspace */
+  onSaveWorkspace?: (snapshot: GraphWorkspaceSnapshot) => void;
+  /** Year span of the artist's timeline; time axis of the family tree layout unless a year filter is set */
+  timelineYearRange?: { min: number; max: number } | null;
+  /** Comparison view: graph each artist comes from, and other roots to draw like the root */
+  comparison?: { sides: Map<string, CompareSide>; roots?: string[] };
+  /** Node counts at which large-graph performance mode and the WebGL renderer kick in */
+  renderingThresholds?: Partial<RenderingThresholds>;
 }
 
 
@@ -93,6 +182,13 @@ export function ArtistGraph({
   networkDepth = 1,
   onLayoutChange,
   filters,
+  highlightedPath,
+  onImportFile,
+  initialWorkspace,
+  onSaveWorkspace,
+  timelineYearRange,
+  comparison,
+  renderingThresholds,
 }: ArtistGraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const internalCyRef = useRef<Core | null>(null);
@@ -119,12 +215,79 @@ export function ArtistGraph({
     isPinned: boolean;
     isLoaded: boolean;
     isRoot: boolean;
+    memberCount: number;
   } | null>(null);
-  const [hiddenNodes, setHiddenNodes] = useState<Set<string>>(new Set());
-  const [pinnedNodes, setPinnedNodes] = useState<Set<string>>(new Set());
+  const [hiddenNodes, setHiddenNodes] = useState<Set<string>>(() => new Set(initialWorkspace?.hiddenNodeIds));
+  const [pinnedNodes, setPinnedNodes] = useState<Set<string>>(() => new Set(initialWorkspace?.pinnedNodeIds));
+  // Read by layout runs without re-running them when a pin changes
+  const pinnedNodesRef = useRef(pinnedNodes);
+  pinnedNodesRef.current = pinnedNodes;
+  // Bands collapsed into their group node: picked from the menu, or every band but the
+  // root's in "collapse bands" mode (where bands double-clicked open stay expanded)
+  const [autoCollapseBands, setAutoCollapseBands] = useState(false);
+  const [collapsedBands, setCollapsedBands] = useState<Set<string>>(() => new Set());
+  const [expandedBands, setExpandedBands] = useState<Set<string>>(() => new Set());
   const [showInstructions, setShowInstructions] = useState(true);
   const [showLegend, setShowLegend] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  // Saved positions (imported graph or workspace) are kept until the user picks a layout
+  const [useSavedPositions, setUseSavedPositions] = useState(true);
+  // Network analytics panel and the colour/size modes it controls
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [centralityMeasure, setCentralityMeasure] = useState<CentralityMeasure>('betweenness');
+  const [communityAlgorithm, setCommunityAlgorithm] = useState<CommunityAlgorithm>('louvain');
+  const [colorByCommunity, setColorByCommunity] = useState(false);
+  const [sizeByCentrality, setSizeByCentrality] = useState(false);
+  const [isExportingReplay, setIsExportingReplay] = useState(false);
+  const [isExportingPoster, setIsExportingPoster] = useState(false);
+  // Find-in-graph box (null when closed) and the last keyboard action for screen readers
+  const [search, setSearch] = useState<{ query: string; matches: GraphSearchMatch[]; index: number } | null>(null);
+  const [announcement, setAnnouncement] = useState<{ nodeId: string | null; text: string } | null>(null);
+  // Breakdown of a hovered bundled edge
+  const [edgeTooltip, setEdgeTooltip] = useState<{ x: number; y: number; bundle: EdgeBundle } | null>(null);
+  // Confidence and basis of a hovered derived (inferred) edge
+  const [derivedTooltip, setDerivedTooltip] = useState<{ x: number; y: number; type: RelationshipType; confidence: number; basis: string } | null>(null);
+  // Shared recordings/releases of a hovered credits edge
+  const [creditTooltip, setCreditTooltip] = useState<{ x: number; y: number; credits: NonNullable<ArtistRelationship['credits']>; roles: string[] } | null>(null);
+  // Bundles currently drawn, by the id of the edge that represents them
+  const bundlesRef = useRef<Map<string, EdgeBundle>>(new Map());
+
+  // Only computed while the panel or a mode needs it (betweenness is O(nodes x edges))
+  const analytics = useMemo(
+    () => (showAnalytics || colorByCommunity || sizeByCentrality)
+      ? computeGraphAnalytics(graph, communityAlgorithm)
+      : null,
+    [graph, communityAlgorithm, showAnalytics, colorByCommunity, sizeByCentrality]
+  );
+
+  const rootId = graph.nodes[0]?.data.id ?? null;
+  const collapsedGroups = useMemo(() => {
+    const groupIds = new Set(collapsedBands);
+    if (autoCollapseBands) getAutoCollapsedGroups(graph, rootId).forEach(id => groupIds.add(id));
+    expandedBands.forEach(id => groupIds.delete(id));
+    return planCollapsedGroups(graph, groupIds, rootId ? [rootId] : []);
+  }, [graph, rootId, autoCollapseBands, collapsedBands, expandedBands]);
+
+  // Family tree layout: time axis range (read via ref so it doesn't reinitialize Cytoscape)
+  // and the computed layout for the axis/swimlane overlay
+  const lineageYearRange = filters?.yearRange ?? timelineYearRange ?? null;
+  const lineageYearRangeRef = useRef(lineageYearRange);
+  lineageYearRangeRef.current = lineageYearRange;
+  const [lineage, setLineage] = useState<{ cy: Core; layout: LineageLayout } | null>(null);
+
+  // Large graphs: precomputed layouts, level-of-detail labels, merged edges (and WebGL past a size)
+  const renderingTier = getRenderingTier(graph.nodes.length, renderingThresholds);
+  const performanceMode = renderingTier !== 'standard';
+  const edgeBundling = filters?.edgeBundling ?? 'auto';
+  const isBundling = edgeBundling === 'bundled' || (edgeBundling === 'auto' && performanceMode);
+
+  const { theme: graphTheme } = useGraphTheme();
+  const styleOptions = useMemo<GraphStyleOptions>(() => ({
+    colorBy: colorByCommunity ? 'community' : 'type',
+    sizeBy: sizeByCentrality ? centralityMeasure : 'type',
+    performanceMode,
+    theme: graphTheme,
+  }), [colorByCommunity, sizeByCentrality, centralityMeasure, performanceMode, graphTheme]);
 
   // Performance: Pause simulation after inactivity to save CPU/battery
   const INACTIVITY_TIMEOUT_MS = 5000;  // Pause after 5 seconds of no interaction
@@ -162,7 +325,12 @@ export function ArtistGraph({
           loaded: node.data.loaded ? 'true' : 'false',
           founding: node.data.founding ? 'true' : 'false',
           root: index === 0 ? 'true' : 'false',
+          beginYear: parseYear(node.data.activeYears?.begin) ?? undefined,
         },
+        // Saved positions are only a starting point - layout runs hold them (see holdFixedNodes)
+        ...(useSavedPositions && node.position && { position: { ...node.position } }),
+        // Only pinned nodes are locked, so the canvas always matches the "N pinned" count
+        ...(pinnedNodesRef.current.has(node.data.id) && { locked: true }),
       };
     });
 
@@ -173,11 +341,19 @@ export function ArtistGraph({
         target: edge.data.target,
         type: edge.data.type,
         tenure: formatTenure(edge.data.period?.begin, edge.data.period?.end),
+        beginYear: parseYear(edge.data.period?.begin) ?? undefined,
+        endYear: parseYear(edge.data.period?.end) ?? undefined,
+        influenceWeight: edge.data.influence?.weight,
+        derivedConfidence: edge.data.derived?.confidence,
+        derivedBasis: edge.data.derived?.basis,
+        creditCount: edge.data.credits && edge.data.credits.recordings + edge.data.credits.releases,
+        credits: edge.data.credits,
+        creditRoles: edge.data.credits && edge.data.attributes,
       },
     }));
 
     return [...nodes, ...edges];
-  }, [graph]);
+  }, [graph, useSavedPositions]);
 
   // Get layout options for the specified layout type
   // Uses the extracted layout configuration from graph-layout.ts
@@ -189,12 +365,27 @@ export function ArtistGraph({
       networkDepth,
       containerWidth: containerRef.current?.clientWidth || 800,
       containerHeight: containerRef.current?.clientHeight || 600,
+      yearRange: lineageYearRangeRef.current,
+      performanceMode,
     });
-  }, [currentLayout, networkDepth]);
+  }, [currentLayout, networkDepth, performanceMode]);
+
+  // Lock the nodes this layout run must not move (saved positions still in use);
+  // returns how to let them go again once the run stops. Pinned nodes are already locked,
+  // and a node pinned while held stays locked.
+  const holdFixedNodes = useCallback((cy: Core, savedPositions: boolean) => {
+    const fixedIds = getFixedNodeIds(graph.nodes, pinnedNodesRef.current, savedPositions);
+    const held = cy.nodes().filter(node => fixedIds.has(node.id()) && !node.locked());
+    held.lock();
+    return () => {
+      held.filter(node => !pinnedNodesRef.current.has(node.id())).unlock();
+    };
+  }, [graph]);
 
   // Handle layout change from dropdown
   const handleLayoutChange = useCallback((newLayout: LayoutType) => {
     setCurrentLayout(newLayout);
+    setUseSavedPositions(false);
     onLayoutChange?.(newLayout);
 
     // Re-run layout with the new type
@@ -206,6 +397,9 @@ export function ArtistGraph({
         layoutRef.current.stop();
       }
 
+      // Saved positions are dropped: only pinned nodes stay put from now on
+      cy.nodes().filter(node => !pinnedNodesRef.current.has(node.id())).unlock();
+
       const options = getLayoutOptions(cy.nodes().length, cy, newLayout);
       layoutRef.current = cy.layout({
         ...options,
@@ -238,10 +432,12 @@ export function ArtistGraph({
     }
 
     const options = getLayoutOptions(cy.nodes().length, cy);
+    const release = holdFixedNodes(cy, useSavedPositions);
     layoutRef.current = cy.layout({
       ...options,
       stop: () => {
         if (isDestroyedRef.current || cy.destroyed()) return;
+        release();
         setIsLayouting(false);
       },
     });
@@ -256,7 +452,7 @@ export function ArtistGraph({
         }
       }, 500);
     }
-  }, [getLayoutOptions]);
+  }, [getLayoutOptions, holdFixedNodes, useSavedPositions]);
 
   // Fit to view
   const fitToView = useCallback(() => {
@@ -268,6 +464,271 @@ export function ArtistGraph({
     }
   }, []);
 
+  // Export only what is currently visible (respects filters and hidden nodes)
+  const handleExport = useCallback((format: GraphExportFormat) => {
+    const cy = cyRef.current;
+    if (!cy || graph.nodes.length === 0) return;
+
+    const isVisible = (id: string) => {
+      const ele = cy.getElementById(id);
+      return ele.length > 0 && !ele.hasClass('filtered');
+    };
+
+    const visibleGraph: ArtistGraphType = {
+      nodes: graph.nodes
+        .filter(n => isVisible(n.data.id))
+        .map(n => ({ data: n.data, position: { ...cy.getElementById(n.data.id).position() } })),
+      edges: graph.edges.filter(e =>
+        isVisible(e.data.id) && isVisible(e.data.source) && isVisible(e.data.target)
+      ),
+    };
+
+    const root = graph.nodes[0].data;
+    const content = exportGraph(visibleGraph, format, {
+      rootId: root.id,
+      title: `${root.name} - InterChord artist graph`,
+    });
+
+    const { extension, mimeType } = GRAPH_EXPORT_FORMATS.find(f => f.value === format)!;
+    downloadBlob(new Blob([content], { type: mimeType }), exportFileName(root.name, extension));
+  }, [graph]);
+
+  // Record the time scrubber replay over the filtered (or timeline) year range
+  const handleExportAnimation = useCallback(async (format: ReplayExportFormat) => {
+    const cy = cyRef.current;
+    const range = filters?.yearRange ?? timelineYearRange ?? getGraphYearSpan(graph);
+    if (!cy || graph.nodes.length === 0 || !range) return;
+
+    setIsExportingReplay(true);
+    try {
+      const blob = await exportReplayAnimation(cy, graph, range, format, {
+        isDark,
+        restoreYear: filters?.replayYear ?? null,
+      });
+      const { extension } = REPLAY_EXPORT_FORMATS.find(f => f.value === format)!;
+      downloadBlob(blob, exportFileName(`${graph.nodes[0].data.name} ${range.min}-${range.max}`, extension));
+    } catch (error) {
+      console.error('Failed to export replay animation:', error);
+    } finally {
+      setIsExportingReplay(false);
+    }
+  }, [cyRef, graph, filters?.yearRange, filters?.replayYear, timelineYearRange, isDark]);
+
+  // Print poster of the visible graph in the active theme
+  const handleExportPoster = useCallback(async (format: PosterFormat, size: PosterSize) => {
+    const cy = cyRef.current;
+    if (!cy || graph.nodes.length === 0) return;
+
+    setIsExportingPoster(true);
+    try {
+      const root = graph.nodes[0].data;
+      const blob = await exportPoster(cy, bundlesRef.current, format, {
+        size,
+        title: root.name,
+        depth: networkDepth,
+        theme: graphTheme,
+      });
+      const { extension } = POSTER_FORMATS.find(f => f.value === format)!;
+      downloadBlob(blob, exportFileName(`${root.name} poster ${size}`, extension));
+    } catch (error) {
+      console.error('Failed to export poster:', error);
+    } finally {
+      setIsExportingPoster(false);
+    }
+  }, [cyRef, graph, networkDepth, graphTheme]);
+
+  // Snapshot every node position (not just dragged ones) so the view restores exactly
+  const handleSaveWorkspace = useCallback(() => {
+    const cy = cyRef.current;
+    if (!cy || !onSaveWorkspace) return;
+
+    const positions: GraphWorkspaceSnapshot['positions'] = {};
+    cy.nodes().forEach(node => {
+      const { x, y } = node.position();
+      positions[node.id()] = { x: Math.round(x), y: Math.round(y) };
+    });
+
+    onSaveWorkspace({
+      positions,
+      pinnedNodeIds: [...pinnedNodes],
+      hiddenNodeIds: [...hiddenNodes],
+    });
+  }, [onSaveWorkspace, pinnedNodes, hiddenNodes]);
+
+  // Node actions shared by the right-click menu and keyboard shortcuts
+
+  // Switch header/albums/timeline to this artist, loading its connections first if needed
+  const focusArtist = useCallback((nodeId: string) => {
+    const node = cyRef.current?.getElementById(nodeId);
+    if (!node?.length || node.data('root') === 'true') return;
+
+    const artist: ArtistNode = {
+      id: nodeId,
+      name: node.data('name'),
+      type: node.data('type'),
+      loaded: node.data('loaded') === 'true',
+    };
+    if (!artist.loaded) onNodeExpandRef.current?.(nodeId);
+    onFocusArtistRef.current?.(artist);
+  }, [cyRef]);
+
+  const expandNode = useCallback((nodeId: string) => {
+    onNodeExpandRef.current?.(nodeId);
+  }, []);
+
+  // Pinned state comes from pinnedNodes, not node.locked() - layout runs lock nodes too (see holdFixedNodes)
+  const togglePinned = useCallback((nodeId: string) => {
+    const node = cyRef.current?.getElementById(nodeId);
+    if (!node?.length) return;
+
+    if (pinnedNodesRef.current.has(nodeId)) {
+      node.unlock();
+      setPinnedNodes(prev => {
+        const next = new Set(prev);
+        next.delete(nodeId);
+        return next;
+      });
+    } else {
+      node.lock();
+      setPinnedNodes(prev => new Set(prev).add(nodeId));
+    }
+  }, [cyRef]);
+
+  const toggleHidden = useCallback((nodeId: string) => {
+    setHiddenNodes(prev => {
+      const next = new Set(prev);
+      if (!next.delete(nodeId)) next.add(nodeId);
+      return next;
+    });
+  }, []);
+
+  const setBandCollapsed = useCallback((groupId: string, collapsed: boolean) => {
+    const without = (prev: Set<string>) => {
+      const next = new Set(prev);
+      next.delete(groupId);
+      return next;
+    };
+    setCollapsedBands(prev => collapsed ? new Set(prev).add(groupId) : without(prev));
+    setExpandedBands(prev => collapsed ? without(prev) : new Set(prev).add(groupId));
+  }, []);
+
+  const toggleAutoCollapseBands = useCallback(() => {
+    setAutoCollapseBands(prev => !prev);
+    setCollapsedBands(new Set());
+    setExpandedBands(new Set());
+  }, []);
+
+  // Select an artist as if its node was clicked (the parent owns the selection)
+  const selectArtist = useCallback((artistId: string) => {
+    const node = graph.nodes.find(n => n.data.id === artistId);
+    setAnnouncement(null);
+    if (node && artistId !== selectedNodeId) onNodeClickRef.current?.(node.data);
+  }, [graph, selectedNodeId]);
+
+  // Find in graph: matches are taken from visible nodes when the query changes
+  const handleSearchQueryChange = useCallback((query: string) => {
+    const cy = cyRef.current;
+    const matches = searchGraphNodes(graph, query).filter(match => {
+      const node = cy?.getElementById(match.id);
+      return node?.length && !node.hasClass('filtered');
+    });
+    setSearch({ query, matches, index: 0 });
+    if (matches.length > 0) selectArtist(matches[0].id);
+  }, [cyRef, graph, selectArtist]);
+
+  const stepSearchMatch = useCallback((step: 1 | -1) => {
+    if (!search || search.matches.length === 0) return;
+    const index = (search.index + step + search.matches.length) % search.matches.length;
+    setSearch({ ...search, index });
+    selectArtist(search.matches[index].id);
+  }, [search, selectArtist]);
+
+  const closeSearch = useCallback(() => {
+    setSearch(null);
+    containerRef.current?.focus();
+  }, []);
+
+  // Keyboard navigation of the focused graph:
+  // arrows move between connected artists, Enter expands, F focuses, H hides, P pins
+  const handleGraphKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+    const cy = cyRef.current;
+    if (!cy || isDestroyedRef.current) return;
+
+    if (event.key === '/' || (event.key.toLowerCase() === 'f' && (event.metaKey || event.ctrlKey))) {
+      event.preventDefault();
+      setSearch(prev => prev ?? { query: '', matches: [], index: 0 });
+      return;
+    }
+    if (event.metaKey || event.ctrlKey || event.altKey) return;
+
+    const selected = selectedNodeId ? cy.getElementById(selectedNodeId) : null;
+    const direction = ARROW_DIRECTIONS[event.key];
+    if (direction) {
+      event.preventDefault();
+      if (!selected?.length) {
+        selectArtist(cy.$('node[root = "true"]').id());
+        return;
+      }
+      const neighbors = selected.neighborhood('node').not('.filtered')
+        .map(node => ({ id: node.id(), ...(node as NodeSingular).position() }));
+      const nextId = pickNeighborInDirection(selected.position(), neighbors, direction);
+      if (nextId) {
+        selectArtist(nextId);
+      } else {
+        setAnnouncement({ nodeId: selectedNodeId ?? null, text: `No connected artist ${direction === 'up' || direction === 'down' ? direction : `to the ${direction}`}.` });
+      }
+      return;
+    }
+
+    if (!selected?.length || !selectedNodeId) return;
+    const name = selected.data('name');
+    const isRoot = selected.data('root') === 'true';
+
+    switch (event.key.toLowerCase()) {
+      case 'enter':
+        expandNode(selectedNodeId);
+        setAnnouncement({ nodeId: selectedNodeId, text: `Loading connections of ${name}.` });
+        break;
+      case 'f':
+        if (isRoot) return;
+        focusArtist(selectedNodeId);
+        break;
+      case 'h':
+        if (isRoot) return;
+        toggleHidden(selectedNodeId);
+        onNodeClickRef.current?.(null);
+        setAnnouncement({ nodeId: null, text: `${name} hidden.` });
+        break;
+      case 'p': {
+        const wasPinned = pinnedNodesRef.current.has(selectedNodeId);
+        togglePinned(selectedNodeId);
+        setAnnouncement({ nodeId: selectedNodeId, text: `${name} ${wasPinned ? 'unpinned' : 'pinned'}.` });
+        break;
+      }
+      case 'escape':
+        onNodeClickRef.current?.(null);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }, [cyRef, selectedNodeId, selectArtist, expandNode, focusArtist, toggleHidden, togglePinned]);
+
+  // Screen-reader description of the selection, or the result of the last keyboard action
+  const visibleArtistIds = useMemo(
+    () => new Set(graph.nodes.map(n => n.data.id).filter(id => !hiddenNodes.has(id))),
+    [graph, hiddenNodes]
+  );
+  const selectionDescription = useMemo(
+    () => selectedNodeId ? describeArtist(graph, selectedNodeId, visibleArtistIds) : '',
+    [graph, selectedNodeId, visibleArtistIds]
+  );
+  const liveAnnouncement = announcement && announcement.nodeId === (selectedNodeId ?? null)
+    ? announcement.text
+    : selectionDescription;
+
+  const isContextMenuBandCollapsed = !!contextMenu && collapsedGroups.some(group => group.groupId === contextMenu.nodeId);
+
   // Center on root node
   const centerOnRoot = useCallback(() => {
     if (!cyRef.current || isDestroyedRef.current) return;
@@ -278,8 +739,9 @@ export function ArtistGraph({
   }, []);
 
   // Pause the cola simulation to save CPU/battery
+  // (performance mode has no live simulation, and stopping would cancel a worker layout)
   const pauseSimulation = useCallback(() => {
-    if (layoutRef.current && !isDestroyedRef.current) {
+    if (layoutRef.current && !isDestroyedRef.current && !performanceMode) {
       try {
         layoutRef.current.stop();
         setIsSimulationPaused(true);
@@ -287,7 +749,7 @@ export function ArtistGraph({
         // Ignore errors if layout already stopped
       }
     }
-  }, []);
+  }, [performanceMode]);
 
   // Resume the cola simulation (only for force layout)
   const resumeSimulation = useCallback(() => {
@@ -297,7 +759,7 @@ export function ArtistGraph({
     const effectiveLayout = getEffectiveLayout(currentLayout, networkDepth);
 
     // Only resume if we're using the force (cola) layout
-    if (effectiveLayout !== 'force') return;
+    if (effectiveLayout !== 'force' || performanceMode) return;
 
     setIsSimulationPaused(false);
 
@@ -313,7 +775,7 @@ export function ArtistGraph({
     const options = getLayoutOptions(cy.nodes().length, cy, currentLayout);
     layoutRef.current = cy.layout(options);
     layoutRef.current.run();
-  }, [currentLayout, networkDepth, getEffectiveLayout, getLayoutOptions]);
+  }, [currentLayout, networkDepth, performanceMode, getEffectiveLayout, getLayoutOptions]);
 
   // Reset inactivity timer - call this on any user interaction
   const resetInactivityTimer = useCallback(() => {
@@ -333,7 +795,18 @@ export function ArtistGraph({
     }, INACTIVITY_TIMEOUT_MS);
   }, [isSimulationPaused, INACTIVITY_TIMEOUT_MS]);
 
+  // Recompute the family tree overlay whenever a lineage layout finishes
+  const updateLineage = useCallback((cy: Core) => {
+    if (getEffectiveLayout(currentLayout, networkDepth) !== 'lineage' || cy.destroyed()) {
+      setLineage(null);
+      return;
+    }
+    setLineage({ cy, layout: getLineageLayout(cy, lineageYearRangeRef.current) });
+  }, [currentLayout, networkDepth]);
+  const updateLineageRef = useRef(updateLineage);
+
   // Update refs so event handlers can access latest functions
+  updateLineageRef.current = updateLineage;
   pauseSimulationRef.current = pauseSimulation;
   resumeSimulationRef.current = resumeSimulation;
   resetInactivityTimerRef.current = resetInactivityTimer;
@@ -440,12 +913,13 @@ export function ArtistGraph({
       container: containerRef.current,
       elements: convertToElements(),
       // Type assertion needed: cytoscape's types are overly strict for style values
-      style: getCytoscapeStyle(isDark) as cytoscape.StylesheetStyle[],
+      style: getCytoscapeStyle(isDark, styleOptions) as cytoscape.StylesheetStyle[],
       layout: { name: 'preset' },
       minZoom: 0.1,
       maxZoom: 4,
       autoungrabify: false,
       autounselectify: false,
+      ...getRendererOptions(renderingTier, isDark),
     });
 
     cyRef.current = cy;
@@ -482,6 +956,9 @@ export function ArtistGraph({
       if (isDestroyedRef.current) return;
       const node = event.target as NodeSingular;
       const nodeData = node.data();
+      setAnnouncement(null);
+      // Cytoscape swallows the mousedown, so focus the graph for keyboard navigation here
+      containerRef.current?.focus({ preventScroll: true });
 
       if (onNodeClickRef.current) {
         const artistNode: ArtistNode = {
@@ -494,12 +971,17 @@ export function ArtistGraph({
       }
     });
 
-    // Double-click to expand
+    // Double-click to expand (a collapsed band shows its members again first)
     cy.on('dbltap', 'node', (event) => {
       if (isDestroyedRef.current) return;
       const node = event.target as NodeSingular;
       const nodeData = node.data();
 
+      if (node.parent('.band-compound').length > 0) {
+        setBandCollapsed(nodeData.id, false);
+        return;
+      }
+
       if (nodeData.loaded === 'false' && onNodeExpandRef.current) {
         onNodeExpandRef.current(nodeData.id);
       }
@@ -531,6 +1013,42 @@ export function ArtistGraph({
       }
     });
 
+    // Bundled edge hover: break the bundle down by relationship
+    cy.on('mouseover', 'edge.bundle', (event) => {
+      if (isDestroyedRef.current) return;
+      const bundle = bundlesRef.current.get(event.target.id());
+      if (!bundle) return;
+      const { x, y } = event.target.renderedMidpoint();
+      setEdgeTooltip({ x, y, bundle });
+    });
+
+    // Derived edge hover: say it is inferred, how confidently and from what
+    cy.on('mouseover', 'edge[derivedConfidence]', (event) => {
+      if (isDestroyedRef.current) return;
+      const edge = event.target;
+      const { x, y } = edge.renderedMidpoint();
+      setDerivedTooltip({
+        x, y,
+        type: edge.data('type'),
+        confidence: edge.data('derivedConfidence'),
+        basis: edge.data('derivedBasis'),
+      });
+    });
+
+    // Credits edge hover: list what the two artists were both credited on
+    cy.on('mouseover', 'edge[creditCount]', (event) => {
+      if (isDestroyedRef.current) return;
+      const edge = event.target;
+      const { x, y } = edge.renderedMidpoint();
+      setCreditTooltip({ x, y, credits: edge.data('credits'), roles: edge.data('creditRoles') ?? [] });
+    });
+
+    cy.on('mouseout', 'edge', () => {
+      setEdgeTooltip(null);
+      setDerivedTooltip(null);
+      setCreditTooltip(null);
+    });
+
     // Drag handlers for live physics
     // Pinned nodes stay in place, unpinned nodes react to physics
 
@@ -569,6 +1087,11 @@ export function ArtistGraph({
       resetInactivityTimerRef.current();
     });
 
+    cy.on('layoutstop', () => {
+      if (isDestroyedRef.current) return;
+      updateLineageRef.current(cy);
+    });
+
     // Pan/zoom also counts as interaction
     cy.on('pan zoom', () => {
       if (isDestroyedRef.current) return;
@@ -593,9 +1116,12 @@ export function ArtistGraph({
         nodeName: nodeData.label || nodeData.name || 'Unknown',
         nodeType: nodeData.type as 'person' | 'group',
         isHidden: hiddenNodes.has(nodeData.id),
-        isPinned: node.locked(),
+        isPinned: pinnedNodesRef.current.has(nodeData.id),
         isLoaded: nodeData.loaded === 'true',
         isRoot: nodeData.root === 'true',
+        memberCount: nodeData.type === 'group'
+          ? node.connectedEdges('[type = "member_of"], [type = "founder_of"]').connectedNodes('[type = "person"]').length
+          : 0,
       });
     });
 
@@ -636,13 +1162,13 @@ export function ArtistGraph({
     // Intentionally omitting onNodeClick/onNodeExpand from deps: they're accessed via refs
     // (see callback refs pattern comment above) to prevent Cytoscape reinitialization.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [convertToElements, getLayoutOptions]);
+  }, [convertToElements, getLayoutOptions, renderingTier, setBandCollapsed]);
 
-  // Update Cytoscape styles when theme changes
+  // Update Cytoscape styles when theme or analytics modes change
   useEffect(() => {
     if (!cyRef.current || isDestroyedRef.current) return;
-    cyRef.current.style(getCytoscapeStyle(isDark) as cytoscape.StylesheetStyle[]);
-  }, [isDark]);
+    cyRef.current.style(getCytoscapeStyle(isDark, styleOptions) as cytoscape.StylesheetStyle[]);
+  }, [isDark, styleOptions]);
 
   // Update selection when selectedNodeId changes
   useEffect(() => {
@@ -757,12 +1283,98 @@ export function ArtistGraph({
     runLayout();
   }, [graph, convertToElements, runLayout]);
 
+  // Highlight the shortest path (runs after elements update so new path nodes exist)
+  useEffect(() => {
+    if (!cyRef.current || isDestroyedRef.current) return;
+
+    const cy = cyRef.current;
+    cy.elements().removeClass('path');
+
+    if (!highlightedPath || highlightedPath.length === 0) return;
+
+    highlightedPath.forEach((id, index) => {
+      const node = cy.getElementById(id);
+      node.addClass('path');
+
+      const nextId = highlightedPath[index + 1];
+      if (nextId) {
+        node.edgesWith(cy.getElementById(nextId)).addClass('path');
+      }
+    });
+  }, [highlightedPath, graph]);
+
+  // Mark find-in-graph matches and zoom to the current one
+  // (declared after the selection effect so its zoom replaces the selection's pan)
+  useEffect(() => {
+    if (!cyRef.current || isDestroyedRef.current) return;
+
+    const cy = cyRef.current;
+    cy.nodes().removeClass('search-match');
+    if (!search) return;
+
+    search.matches.forEach(match => cy.getElementById(match.id).addClass('search-match'));
+    const current = search.matches[search.index];
+    const node = current && cy.getElementById(current.id);
+    if (!node?.length) return;
+
+    cy.stop();
+    cy.animate({
+      zoom: Math.max(cy.zoom(), SEARCH_MATCH_ZOOM),
+      center: { eles: node },
+      duration: 300,
+      easing: 'ease-out',
+    });
+  }, [search]);
+
+  // Re-place the family tree when its time axis changes (year filter or timeline)
+  const lineageRangeKey = lineageYearRange ? `${lineageYearRange.min}-${lineageYearRange.max}` : '';
+  useEffect(() => {
+    if (getEffectiveLayout(currentLayout, networkDepth) !== 'lineage') return;
+    runLayout();
+    // Only re-run for axis changes; layout/graph changes already re-run the layout
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lineageRangeKey]);
+
+  // Copy community and centrality onto nodes for the analytics style modes
+  useEffect(() => {
+    if (!cyRef.current || isDestroyedRef.current || !analytics) return;
+
+    cyRef.current.nodes().forEach(node => {
+      const metrics = analytics.nodes.get(node.id());
+      if (metrics) {
+        node.data({ community: metrics.community, centrality: metrics.centrality[centralityMeasure] });
+      }
+    });
+  }, [analytics, centralityMeasure, graph]);
+
+  // Comparison view: tag artists with the compared graph(s) they appear in
+  useEffect(() => {
+    if (!cyRef.current || isDestroyedRef.current) return;
+    const cy = cyRef.current;
+
+    cy.batch(() => {
+      cy.nodes().forEach(node => {
+        const side = comparison?.sides.get(node.id());
+        if (side) node.data('compareSide', side);
+        else node.removeData('compareSide');
+
+        if (comparison?.roots?.includes(node.id())) node.data('compareRoot', 'true');
+        else node.removeData('compareRoot');
+      });
+    });
+  }, [comparison, graph]);
+
   // Apply filters to show/hide nodes and edges
   useEffect(() => {
     if (!cyRef.current || isDestroyedRef.current || !filters) return;
 
     const cy = cyRef.current;
 
+    // Undo collapsed bands (rebuilt at the end from the visible elements)
+    cy.nodes('.band-compound').children().move({ parent: null });
+    cy.remove('.band-compound, .collapsed-edge');
+    cy.nodes().removeClass('collapsed-member');
+
     // Reset all elements to visible first
     cy.elements().removeClass('filtered');
     cy.elements().style('display', 'element');
@@ -867,7 +1479,79 @@ export function ArtistGraph({
         node.style('display', 'none');
       }
     });
-  }, [filters, graph.edges, hiddenNodes]);
+
+    // Collapse bands: hide their members like hidden nodes, wrap the band in a compound
+    // node labelled with the member count, and redraw the members' relationships from the band
+    const visibleEdges = graph.edges
+      .map(edge => edge.data)
+      .filter(edge => !cy.getElementById(edge.id).hasClass('filtered'));
+    const visibleGroups = collapsedGroups.filter(({ groupId }) => {
+      const band = cy.getElementById(groupId);
+      return band.length > 0 && !band.hasClass('filtered');
+    });
+
+    visibleGroups.forEach(({ groupId, memberIds, hiddenIds }) => {
+      hiddenIds.forEach(id => {
+        const member = cy.getElementById(id);
+        member.addClass('filtered');
+        member.addClass('collapsed-member');
+        member.style('display', 'none');
+        member.connectedEdges().forEach(edge => {
+          edge.addClass('filtered');
+          edge.style('display', 'none');
+        });
+      });
+
+      const compoundId = `compound:${groupId}`;
+      cy.add({ group: 'nodes', data: { id: compoundId, label: `${memberIds.length} members` }, classes: 'band-compound' });
+      cy.getElementById(groupId).move({ parent: compoundId });
+    });
+
+    rerouteCollapsedEdges(visibleEdges, visibleGroups).forEach(edge => {
+      cy.add({
+        group: 'edges',
+        data: { ...edge, tenure: edge.count > 1 ? `×${edge.count}` : '' },
+        classes: 'collapsed-edge',
+      });
+    });
+  }, [filters, graph.edges, hiddenNodes, collapsedGroups]);
+
+  // Edge bundling: draw one edge per pair of artists with several relationships
+  // (runs after the filters so only visible relationships are bundled)
+  useEffect(() => {
+    if (!cyRef.current || isDestroyedRef.current) return;
+    const cy = cyRef.current;
+    bundlesRef.current = new Map();
+
+    cy.batch(() => {
+      cy.edges('.bundled').forEach(edge => {
+        edge.removeClass('bundled');
+        if (!edge.hasClass('filtered')) edge.style('display', 'element');
+      });
+      cy.edges('.bundle').removeClass('bundle').removeData('bundleWeight bundleLabel');
+      if (!isBundling) return;
+
+      const visibleIds = new Set(cy.edges().not('.filtered').map(edge => edge.id()));
+      const visibleEdges = graph.edges.map(edge => edge.data).filter(edge => visibleIds.has(edge.id));
+      for (const bundle of bundleParallelEdges(visibleEdges)) {
+        bundlesRef.current.set(bundle.keptId, bundle);
+        cy.getElementById(bundle.keptId).addClass('bundle').data({
+          bundleWeight: bundle.weight,
+          bundleLabel: `${bundle.links.length} links${bundle.totalYears > 0 ? ` · ${bundle.totalYears} yrs` : ''}`,
+        });
+        for (const id of bundle.edgeIds.slice(1)) {
+          cy.getElementById(id).addClass('bundled').style('display', 'none');
+        }
+      }
+    });
+  }, [isBundling, filters, graph, hiddenNodes]);
+
+  // Time scrubber: fade out artists and relationships not active in the replay year
+  const replayYear = filters?.replayYear ?? null;
+  useEffect(() => {
+    if (!cyRef.current || isDestroyedRef.current || isExportingReplay) return;
+    applyReplayYear(cyRef.current, graph, replayYear);
+  }, [graph, replayYear, isExportingReplay]);
 
   // Handle fullscreen mode - prevent body scroll (Escape handled by browser)
   useEffect(() => {
@@ -930,7 +1614,7 @@ export function ArtistGraph({
           ◎
         </button>
         {/* Play/Pause simulation button - only show for force layout */}
-        {getEffectiveLayout(currentLayout, networkDepth) === 'force' && (
+        {getEffectiveLayout(currentLayout, networkDepth) === 'force' && !performanceMode && (
           <button
             onClick={() => isSimulationPaused ? resumeSimulation() : pauseSimulation()}
             className={`w-8 h-8 backdrop-blur rounded shadow-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center ${
@@ -941,6 +1625,55 @@ export function ArtistGraph({
             {isSimulationPaused ? '▶' : '⏸'}
           </button>
         )}
+        {/* Export visible graph */}
+        <GraphFileMenu
+          onExport={handleExport}
+          onImport={onImportFile}
+          onExportAnimation={handleExportAnimation}
+          onExportPoster={handleExportPoster}
+          disabled={isLayouting || isExportingReplay || isExportingPoster}
+        />
+        {/* Find in graph */}
+        <button
+          onClick={() => search ? closeSearch() : setSearch({ query: '', matches: [], index: 0 })}
+          className={`w-8 h-8 backdrop-blur rounded shadow-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center ${
+            search ? 'bg-blue-100/90 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300' : 'bg-white/90 dark:bg-gray-800/90 text-gray-600 dark:text-gray-300'
+          }`}
+          title="Find in graph (Ctrl+F or /)"
+        >
+          🔍
+        </button>
+        {/* Collapse every band except the root's into its group node */}
+        <button
+          onClick={toggleAutoCollapseBands}
+          className={`w-8 h-8 backdrop-blur rounded shadow-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center ${
+            autoCollapseBands ? 'bg-blue-100/90 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300' : 'bg-white/90 dark:bg-gray-800/90 text-gray-600 dark:text-gray-300'
+          }`}
+          title={autoCollapseBands ? 'Show all band members' : 'Collapse all bands except the focus (double-click a band to expand it)'}
+        >
+          ⊟
+        </button>
+        {/* Centrality and community analytics */}
+        <button
+          onClick={() => setShowAnalytics(prev => !prev)}
+          className={`w-8 h-8 backdrop-blur rounded shadow-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center ${
+            showAnalytics ? 'bg-blue-100/90 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300' : 'bg-white/90 dark:bg-gray-800/90 text-gray-600 dark:text-gray-300'
+          }`}
+          title={showAnalytics ? 'Hide network analytics' : 'Network analytics (centrality, communities)'}
+        >
+          📊
+        </button>
+        {/* Save positions, pins and hidden nodes for this artist */}
+        {onSaveWorkspace && (
+          <button
+            onClick={handleSaveWorkspace}
+            disabled={isLayouting}
+            className="w-8 h-8 bg-white/90 dark:bg-gray-800/90 backdrop-blur rounded shadow-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center text-gray-600 dark:text-gray-300 disabled:opacity-50"
+            title="Save workspace (positions, pinned and hidden nodes)"
+          >
+            💾
+          </button>
+        )}
         {/* Fullscreen toggle */}
         <button
           onClick={() => isFullscreen ? exitFullscreen() : enterFullscreen()}
@@ -964,27 +1697,32 @@ export function ArtistGraph({
             </button>
             <div className="font-semibold mb-2 text-gray-900 dark:text-gray-100">Legend</div>
             <div className="flex items-center gap-2">
-              <div className="w-5 h-5 rounded-full bg-blue-500 border-[3px] border-cyan-400 shadow-[0_0_0_3px_rgba(6,182,212,0.2)]" />
+              <div className="w-5 h-5 rounded-full border-[3px] border-cyan-400 shadow-[0_0_0_3px_rgba(6,182,212,0.2)]" style={{ backgroundColor: graphTheme.nodes.group.color }} />
               <span>Searched Artist</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded-full bg-blue-500" />
+              <div className={`w-4 h-4 ${graphTheme.nodes.group.shape === 'ellipse' ? 'rounded-full' : 'rounded-sm'}`} style={{ backgroundColor: graphTheme.nodes.group.color }} />
               <span>Band/Group</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-3 h-3 rounded-full bg-emerald-500" />
+              <div className={`w-3 h-3 ${graphTheme.nodes.person.shape === 'ellipse' ? 'rounded-full' : 'rounded-sm'}`} style={{ backgroundColor: graphTheme.nodes.person.color }} />
               <span>Person</span>
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 rounded-full bg-emerald-500 border-2 border-violet-500" />
-              <span>Founding Member</span>
-            </div>
+            {graphTheme.foundingBadge.show && (
+              <div className="flex items-center gap-2">
+                <div
+                  className={`w-3 h-3 border-2 ${graphTheme.nodes.person.shape === 'ellipse' ? 'rounded-full' : 'rounded-sm'}`}
+                  style={{ backgroundColor: graphTheme.nodes.person.color, borderColor: graphTheme.foundingBadge.color }}
+                />
+                <span>Founding Member</span>
+              </div>
+            )}
             <div className="flex items-center gap-2 mt-2 pt-2 border-t border-gray-200 dark:border-gray-600">
-              <div className="w-4 h-0.5 bg-blue-300" />
+              <div className="w-4" style={{ borderTopWidth: 2, borderTopStyle: graphTheme.edges.member_of.lineStyle, borderTopColor: graphTheme.edges.member_of.color }} />
               <span>Member of</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-0.5 bg-emerald-400 border-dashed" style={{ borderTopWidth: 2, borderTopStyle: 'dashed' }} />
+              <div className="w-4" style={{ borderTopWidth: 2, borderTopStyle: graphTheme.edges.collaboration.lineStyle, borderTopColor: graphTheme.edges.collaboration.color }} />
               <span>Collaboration</span>
             </div>
             <div className="flex items-center gap-2 mt-2 pt-2 border-t border-gray-200 dark:border-gray-600">
@@ -1007,6 +1745,42 @@ export function ArtistGraph({
         )}
       </div>
 
+      {/* Find in graph */}
+      {search && (
+        <GraphSearchBox
+          query={search.query}
+          matches={search.matches}
+          index={search.index}
+          onQueryChange={handleSearchQueryChange}
+          onNext={() => stepSearchMatch(1)}
+          onPrevious={() => stepSearchMatch(-1)}
+          onClose={closeSearch}
+        />
+      )}
+
+      {/* Screen-reader announcements for the selected artist */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {liveAnnouncement}
+      </div>
+
+      {/* Network analytics panel */}
+      {showAnalytics && analytics && (
+        <GraphAnalyticsPanel
+          graph={graph}
+          analytics={analytics}
+          measure={centralityMeasure}
+          onMeasureChange={setCentralityMeasure}
+          algorithm={communityAlgorithm}
+          onAlgorithmChange={setCommunityAlgorithm}
+          colorByCommunity={colorByCommunity}
+          onColorByCommunityChange={setColorByCommunity}
+          sizeByCentrality={sizeByCentrality}
+          onSizeByCentralityChange={setSizeByCentrality}
+          onSelectArtist={selectArtist}
+          onClose={() => setShowAnalytics(false)}
+        />
+      )}
+
       {/* Layout indicator */}
       {isLayouting && (
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white/90 dark:bg-gray-800/90 backdrop-blur px-4 py-2 rounded-lg shadow-lg text-sm text-gray-600 dark:text-gray-300 z-10">
@@ -1014,6 +1788,37 @@ export function ArtistGraph({
         </div>
       )}
 
+      {/* Replay export indicator */}
+      {isExportingReplay && (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white/90 dark:bg-gray-800/90 backdrop-blur px-4 py-2 rounded-lg shadow-lg text-sm text-gray-600 dark:text-gray-300 z-10">
+          <span className="animate-pulse">Recording replay...</span>
+        </div>
+      )}
+
+      {/* Poster export indicator */}
+      {isExportingPoster && (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-white/90 dark:bg-gray-800/90 backdrop-blur px-4 py-2 rounded-lg shadow-lg text-sm text-gray-600 dark:text-gray-300 z-10">
+          <span className="animate-pulse">Rendering poster...</span>
+        </div>
+      )}
+
+      {/* Time scrubber year */}
+      {replayYear !== null && !isExportingReplay && (
+        <div className="absolute bottom-4 left-4 text-3xl font-bold tabular-nums text-gray-400/80 dark:text-gray-500/80 pointer-events-none select-none z-10">
+          {replayYear}
+        </div>
+      )}
+
+      {/* Performance mode indicator */}
+      {performanceMode && (
+        <div
+          className="absolute bottom-4 right-4 bg-white/80 dark:bg-gray-800/80 backdrop-blur px-2 py-1 rounded shadow-sm text-[10px] text-gray-500 dark:text-gray-400 z-10"
+          title="Large graph: layout computed in the background, labels appear when zoomed in, parallel relationships bundled"
+        >
+          ⚡ {renderingTier === 'webgl' ? 'WebGL' : 'Performance'} mode · {graph.nodes.length} artists
+        </div>
+      )}
+
       {/* Hidden nodes indicator and restore button */}
       {hiddenNodes.size > 0 && (
         <div className="absolute top-4 right-[280px] bg-orange-100/90 dark:bg-orange-900/50 backdrop-blur px-3 py-1.5 rounded-lg shadow-sm text-xs text-orange-700 dark:text-orange-300 flex items-center gap-2 z-10">
@@ -1049,6 +1854,82 @@ export function ArtistGraph({
         </div>
       )}
 
+      {/* Bundled edge breakdown */}
+      {edgeTooltip && isBundling && (
+        <div
+          className="absolute bg-white/95 dark:bg-gray-800/95 backdrop-blur rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 px-3 py-2 text-xs pointer-events-none z-50"
+          style={{
+            left: edgeTooltip.x,
+            top: edgeTooltip.y,
+            transform: 'translate(-50%, calc(-100% - 8px))',
+          }}
+        >
+          <div className="font-medium text-gray-700 dark:text-gray-200 mb-1">
+            {edgeTooltip.bundle.links.length} relationships
+            {edgeTooltip.bundle.totalYears > 0 && ` · ${edgeTooltip.bundle.totalYears} years together`}
+          </div>
+          {edgeTooltip.bundle.links.map(link => (
+            <div key={link.id} className="flex items-center gap-1.5 text-gray-600 dark:text-gray-300">
+              <span
+                className="w-2 h-2 rounded-full flex-shrink-0"
+                style={{ backgroundColor: graphTheme.edges[link.type].color }}
+              />
+              <span>{RELATIONSHIP_TYPE_CONFIG[link.type].label}</span>
+              {link.begin !== null && (
+                <span className="text-gray-400 dark:text-gray-500 tabular-nums">
+                  {formatTenure(String(link.begin), link.end === null ? null : String(link.end))}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Derived edge marker */}
+      {derivedTooltip && (
+        <div
+          className="absolute bg-white/95 dark:bg-gray-800/95 backdrop-blur rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 px-3 py-2 text-xs pointer-events-none z-50 max-w-[260px]"
+          style={{
+            left: derivedTooltip.x,
+            top: derivedTooltip.y,
+            transform: 'translate(-50%, calc(-100% - 8px))',
+          }}
+        >
+          <div className="font-medium text-gray-700 dark:text-gray-200 mb-1">
+            ≈ {RELATIONSHIP_TYPE_CONFIG[derivedTooltip.type].groupLabel}
+            <span className="text-gray-400 dark:text-gray-500 tabular-nums"> · {Math.round(derivedTooltip.confidence * 100)}% confidence</span>
+          </div>
+          <div className="text-gray-600 dark:text-gray-300">{derivedTooltip.basis}</div>
+          <div className="text-gray-400 dark:text-gray-500 mt-1">Derived - not a MusicBrainz relationship</div>
+        </div>
+      )}
+
+      {/* Credits edge: shared recordings and releases */}
+      {creditTooltip && (
+        <div
+          className="absolute bg-white/95 dark:bg-gray-800/95 backdrop-blur rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 px-3 py-2 text-xs pointer-events-none z-50 max-w-[260px]"
+          style={{
+            left: creditTooltip.x,
+            top: creditTooltip.y,
+            transform: 'translate(-50%, calc(-100% - 8px))',
+          }}
+        >
+          <div className="font-medium text-gray-700 dark:text-gray-200 mb-1">
+            {RELATIONSHIP_TYPE_CONFIG.shared_credits.groupLabel}
+            <span className="text-gray-400 dark:text-gray-500 tabular-nums">
+              {' · '}{creditTooltip.credits.recordings} recording{creditTooltip.credits.recordings === 1 ? '' : 's'},
+              {' '}{creditTooltip.credits.releases} release{creditTooltip.credits.releases === 1 ? '' : 's'}
+            </span>
+          </div>
+          {creditTooltip.roles.length > 0 && (
+            <div className="text-gray-500 dark:text-gray-400 mb-1">As {creditTooltip.roles.join(', ')}</div>
+          )}
+          {creditTooltip.credits.titles.map(title => (
+            <div key={title} className="text-gray-600 dark:text-gray-300 truncate">{title}</div>
+          ))}
+        </div>
+      )}
+
       {/* Right-click context menu */}
       {contextMenu && (
         <div
@@ -1067,20 +1948,7 @@ export function ArtistGraph({
           {!contextMenu.isRoot && (
             <button
               onClick={() => {
-                // Auto-expand if not already loaded
-                if (!contextMenu.isLoaded && onNodeExpandRef.current) {
-                  onNodeExpandRef.current(contextMenu.nodeId);
-                }
-                // Focus on this artist
-                if (onFocusArtistRef.current) {
-                  const artist: ArtistNode = {
-                    id: contextMenu.nodeId,
-                    name: contextMenu.nodeName,
-                    type: contextMenu.nodeType,
-                    loaded: contextMenu.isLoaded,
-                  };
-                  onFocusArtistRef.current(artist);
-                }
+                focusArtist(contextMenu.nodeId);
                 setContextMenu(null);
               }}
               className="w-full px-3 py-2 text-left text-sm hover:bg-purple-50 dark:hover:bg-purple-900/30 flex items-center gap-2 text-purple-600 dark:text-purple-400 font-medium"
@@ -1093,9 +1961,7 @@ export function ArtistGraph({
           {(!contextMenu.isRoot || !contextMenu.isLoaded) && (
             <button
               onClick={() => {
-                if (onNodeExpandRef.current) {
-                  onNodeExpandRef.current(contextMenu.nodeId);
-                }
+                expandNode(contextMenu.nodeId);
                 setContextMenu(null);
               }}
               className="w-full px-3 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/30 flex items-center gap-2 text-blue-600 dark:text-blue-400 font-medium"
@@ -1108,22 +1974,7 @@ export function ArtistGraph({
           {/* Pin/Unpin toggle */}
           <button
             onClick={() => {
-              const cy = cyRef.current;
-              if (!cy) return;
-              const node = cy.$(`#${contextMenu.nodeId}`);
-              if (node.length) {
-                if (contextMenu.isPinned) {
-                  node.unlock();
-                  setPinnedNodes(prev => {
-                    const next = new Set(prev);
-                    next.delete(contextMenu.nodeId);
-                    return next;
-                  });
-                } else {
-                  node.lock();
-                  setPinnedNodes(prev => new Set(prev).add(contextMenu.nodeId));
-                }
-              }
+              togglePinned(contextMenu.nodeId);
               setContextMenu(null);
             }}
             className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 text-gray-700 dark:text-gray-300"
@@ -1131,20 +1982,25 @@ export function ArtistGraph({
             <span>{contextMenu.isPinned ? '📍' : '📌'}</span>
             <span>{contextMenu.isPinned ? 'Unpin node' : 'Pin node in place'}</span>
           </button>
+          {/* Collapse/expand a band's lineup */}
+          {contextMenu.memberCount > 0 && (
+            <button
+              onClick={() => {
+                setBandCollapsed(contextMenu.nodeId, !isContextMenuBandCollapsed);
+                setContextMenu(null);
+              }}
+              className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 text-gray-700 dark:text-gray-300"
+            >
+              <span>{isContextMenuBandCollapsed ? '⊞' : '⊟'}</span>
+              <span>{isContextMenuBandCollapsed ? 'Expand members' : `Collapse ${contextMenu.memberCount} members`}</span>
+            </button>
+          )}
           {/* Only show hide/show options for non-root nodes */}
           {!contextMenu.isRoot && (
             <>
               <button
                 onClick={() => {
-                  if (contextMenu.isHidden) {
-                    setHiddenNodes(prev => {
-                      const next = new Set(prev);
-                      next.delete(contextMenu.nodeId);
-                      return next;
-                    });
-                  } else {
-                    setHiddenNodes(prev => new Set(prev).add(contextMenu.nodeId));
-                  }
+                  toggleHidden(contextMenu.nodeId);
                   setContextMenu(null);
                 }}
                 className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 text-gray-700 dark:text-gray-300"
@@ -1203,11 +2059,21 @@ export function ArtistGraph({
       {/* Cytoscape container */}
       <div
         ref={containerRef}
-        className={`w-full bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 ${
+        tabIndex={0}
+        role="application"
+        aria-roledescription="artist graph"
+        aria-label="Artist relationships. Arrow keys move between connected artists, Enter loads connections, F focuses, H hides, P pins, / finds."
+        onKeyDown={handleGraphKeyDown}
+        className={`w-full outline-none focus-visible:ring-2 focus-visible:ring-blue-500 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 ${
           isFullscreen ? 'h-screen' : 'h-full min-h-[500px]'
         }`}
       />
 
+      {/* Family tree time axis and member swimlanes */}
+      {lineage && getEffectiveLayout(currentLayout, networkDepth) === 'lineage' && (
+        <LineageOverlay cy={lineage.cy} layout={lineage.layout} isDark={isDark} />
+      )}
+
       {/* Graph controls and overlays */}
       {graphContent}
 
@@ -1225,6 +2091,7 @@ export function ArtistGraph({
               </button>
               <p>Click to select • Right-click for options</p>
               <p>Drag to move • Double-click to expand</p>
+              <p>Arrow keys to navigate • / to find</p>
             </div>
           ) : (
             <button
@@ -0,0 +1,21 @@
+/**
+ * Web Worker running the precomputed force layout off the main thread
+ */
+
+import {
+  computeForceLayout,
+  type ForceLayoutEdge,
+  type ForceLayoutNode,
+  type ForceLayoutOptions,
+} from '@/lib/graph/force-layout';
+
+export interface ForceLayoutRequest {
+  nodes: ForceLayoutNode[];
+  edges: ForceLayoutEdge[];
+  options: ForceLayoutOptions;
+}
+
+self.onmessage = (event: MessageEvent<ForceLayoutRequest>) => {
+  const { nodes, edges, options } = event.data;
+  self.postMessage(computeForceLayout(nodes, edges, options));
+};
@@ -0,0 +1,163 @@
+'use client';
+
+import type { ArtistGraph } from '@/types';
+import {
+  CENTRALITY_MEASURES,
+  rankByCentrality,
+  type CentralityMeasure,
+  type CommunityAlgorithm,
+  type GraphAnalytics,
+} from '@/lib/graph';
+import { COMMUNITY_COLORS, COMMUNITY_OVERFLOW_COLOR } from './graph-styles';
+
+const TOP_ARTISTS = 10;
+const TOP_COMMUNITY_MEMBERS = 3;
+
+interface GraphAnalyticsPanelProps {
+  graph: ArtistGraph;
+  analytics: GraphAnalytics;
+  measure: CentralityMeasure;
+  onMeasureChange: (measure: CentralityMeasure) => void;
+  algorithm: CommunityAlgorithm;
+  onAlgorithmChange: (algorithm: CommunityAlgorithm) => void;
+  colorByCommunity: boolean;
+  onColorByCommunityChange: (enabled: boolean) => void;
+  sizeByCentrality: boolean;
+  onSizeByCentralityChange: (enabled: boolean) => void;
+  /** Called when an artist in the rankings is clicked */
+  onSelectArtist: (artistId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Centrality rankings and detected communities for the current graph
+ * Also toggles the "color by community" and "size by centrality" graph modes.
+ */
+export function GraphAnalyticsPanel({
+  graph,
+  analytics,
+  measure,
+  onMeasureChange,
+  algorithm,
+  onAlgorithmChange,
+  colorByCommunity,
+  onColorByCommunityChange,
+  sizeByCentrality,
+  onSizeByCentralityChange,
+  onSelectArtist,
+  onClose,
+}: GraphAnalyticsPanelProps) {
+  const names = new Map(graph.nodes.map(n => [n.data.id, n.data.name]));
+  const ranking = rankByCentrality(analytics, measure, TOP_ARTISTS);
+  const measureInfo = CENTRALITY_MEASURES.find(m => m.value === measure)!;
+
+  const artistButton = (id: string) => (
+    <button
+      onClick={() => onSelectArtist(id)}
+      className="truncate text-left hover:text-blue-600 dark:hover:text-blue-400"
+    >
+      {names.get(id) ?? id}
+    </button>
+  );
+
+  return (
+    <div className="absolute top-12 right-2 z-10 w-72 max-h-[calc(100%-4rem)] overflow-y-auto bg-white/95 dark:bg-gray-800/95 backdrop-blur rounded-lg shadow-lg p-3 text-xs text-gray-700 dark:text-gray-300 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sm text-gray-900 dark:text-gray-100">Network Analytics</span>
+        <button
+          onClick={onClose}
+          className="w-5 h-5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+          title="Close analytics"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="text-gray-500 dark:text-gray-400">
+        {analytics.nodes.size} artists • {analytics.communities.length} communities •
+        modularity {analytics.modularity.toFixed(2)}
+      </div>
+
+      {/* Centrality ranking */}
+      <div className="space-y-1.5">
+        <div className="flex gap-1">
+          {CENTRALITY_MEASURES.map(m => (
+            <button
+              key={m.value}
+              onClick={() => onMeasureChange(m.value)}
+              className={`px-2 py-0.5 rounded ${
+                m.value === measure
+                  ? 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 font-medium'
+                  : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              title={m.description}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-400">{measureInfo.description}</p>
+        <ol className="space-y-0.5">
+          {ranking.map(({ id, score }, index) => (
+            <li key={id} className="flex items-center gap-2">
+              <span className="w-4 text-right text-gray-400">{index + 1}</span>
+              {artistButton(id)}
+              <span className="ml-auto tabular-nums text-gray-500">
+                {measure === 'degree' ? analytics.nodes.get(id)!.degree : score.toFixed(3)}
+              </span>
+            </li>
+          ))}
+        </ol>
+        <label className="flex items-center gap-2 pt-1">
+          <input
+            type="checkbox"
+            checked={sizeByCentrality}
+            onChange={e => onSizeByCentralityChange(e.target.checked)}
+          />
+          Size nodes by {measureInfo.label.toLowerCase()}
+        </label>
+      </div>
+
+      {/* Communities */}
+      <div className="space-y-1.5 pt-2 border-t border-gray-200 dark:border-gray-600">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold text-gray-900 dark:text-gray-100">Communities</span>
+          <select
+            value={algorithm}
+            onChange={e => onAlgorithmChange(e.target.value as CommunityAlgorithm)}
+            className="bg-transparent border border-gray-200 dark:border-gray-600 rounded px-1 py-0.5"
+          >
+            <option value="louvain">Louvain</option>
+            <option value="label-propagation">Label propagation</option>
+          </select>
+        </div>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={colorByCommunity}
+            onChange={e => onColorByCommunityChange(e.target.checked)}
+          />
+          Color nodes by community
+        </label>
+        <ul className="space-y-1">
+          {analytics.communities.filter(c => c.members.length > 1).map(community => (
+            <li key={community.id} className="flex items-start gap-2">
+              <span
+                className="mt-0.5 w-3 h-3 shrink-0 rounded-full"
+                style={{ backgroundColor: COMMUNITY_COLORS[community.id] ?? COMMUNITY_OVERFLOW_COLOR }}
+              />
+              <span className="min-w-0 flex flex-wrap gap-x-1">
+                {community.members.slice(0, TOP_COMMUNITY_MEMBERS).map(id => (
+                  <span key={id} className="max-w-full flex">{artistButton(id)}</span>
+                ))}
+                {community.members.length > TOP_COMMUNITY_MEMBERS && (
+                  <span className="text-gray-400">+{community.members.length - TOP_COMMUNITY_MEMBERS}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
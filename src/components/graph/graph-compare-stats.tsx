@@ -0,0 +1,123 @@
+'use client';
+
+import type { ArtistPathResult, GraphComparison } from '@/lib/graph';
+import { COMPARE_COLORS } from './graph-styles';
+
+const TOP_SHARED = 8;
+
+interface CompareStatsProps {
+  comparison: GraphComparison;
+  names: [string, string];
+  /** Path search beyond the loaded graphs, once requested */
+  widerPath?: ArtistPathResult;
+  isSearchingWider?: boolean;
+  onSearchWider: () => void;
+  /** Called when a shared or connecting artist is clicked (selects it in the graphs) */
+  onArtistClick: (artistId: string) => void;
+}
+
+/**
+ * Strip summarising how two artists' networks overlap:
+ * shared artists by role, Jaccard overlap and the shortest connection
+ */
+export function CompareStats({
+  comparison,
+  names: [nameA, nameB],
+  widerPath,
+  isSearchingWider,
+  onSearchWider,
+  onArtistClick,
+}: CompareStatsProps) {
+  const nodeNames = new Map(comparison.merged.nodes.map(n => [n.data.id, n.data.name]));
+  for (const node of widerPath?.graph.nodes ?? []) nodeNames.set(node.data.id, node.data.name);
+
+  const { sharedCounts } = comparison;
+  const connection = comparison.connection ?? (widerPath?.found ? widerPath.path : null);
+
+  const artistChip = (id: string) => (
+    <button
+      key={id}
+      type="button"
+      onClick={() => onArtistClick(id)}
+      className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-800 dark:text-amber-300 hover:bg-amber-200 dark:hover:bg-amber-800/60"
+    >
+      {nodeNames.get(id) ?? id}
+    </button>
+  );
+
+  return (
+    <div className="flex items-center gap-x-4 gap-y-1.5 flex-wrap text-xs text-gray-600 dark:text-gray-300">
+      <span className="flex items-center gap-1.5">
+        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: COMPARE_COLORS.a }} />
+        {nameA}
+        <span className="w-2.5 h-2.5 rounded-full ml-2" style={{ backgroundColor: COMPARE_COLORS.b }} />
+        {nameB}
+        <span className="w-2.5 h-2.5 rounded-full ml-2" style={{ backgroundColor: COMPARE_COLORS.both }} />
+        shared
+      </span>
+
+      <span className="text-gray-300 dark:text-gray-600">|</span>
+      <span>
+        <span className="font-semibold text-gray-900 dark:text-gray-100">{comparison.shared.length}</span> shared artists
+        {comparison.shared.length > 0 && (
+          <span className="text-gray-500 dark:text-gray-400">
+            {' '}({sharedCounts.members} members, {sharedCounts.producers} producers, {sharedCounts.collaborators} collaborators)
+          </span>
+        )}
+      </span>
+
+      <span className="text-gray-300 dark:text-gray-600">|</span>
+      <span title="Shared artists divided by all artists in either network">
+        Overlap <span className="font-semibold text-gray-900 dark:text-gray-100">{(comparison.jaccard * 100).toFixed(1)}%</span>
+      </span>
+
+      <span className="text-gray-300 dark:text-gray-600">|</span>
+      <span className="flex items-center gap-1 flex-wrap">
+        <span>Shortest connection:</span>
+        {connection ? (
+          <>
+            {connection.map((id, index) => (
+              <span key={id} className="flex items-center gap-1">
+                {index > 0 && <span className="text-gray-400">→</span>}
+                <button
+                  type="button"
+                  onClick={() => onArtistClick(id)}
+                  className="px-2 py-0.5 rounded-full bg-violet-100 dark:bg-violet-900/50 text-violet-800 dark:text-violet-300 hover:bg-violet-200 dark:hover:bg-violet-800/60"
+                >
+                  {nodeNames.get(id) ?? id}
+                </button>
+              </span>
+            ))}
+            <span className="text-gray-500 dark:text-gray-400">
+              ({connection.length - 1} {connection.length === 2 ? 'step' : 'steps'})
+            </span>
+          </>
+        ) : isSearchingWider ? (
+          <span className="animate-pulse text-gray-500 dark:text-gray-400">Searching MusicBrainz...</span>
+        ) : widerPath ? (
+          <span className="text-gray-500 dark:text-gray-400">No connection found</span>
+        ) : (
+          <>
+            <span className="text-gray-500 dark:text-gray-400">not within the loaded networks</span>
+            <button
+              type="button"
+              onClick={onSearchWider}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Search further
+            </button>
+          </>
+        )}
+      </span>
+
+      {comparison.shared.length > 0 && (
+        <div className="w-full flex items-center gap-1 flex-wrap">
+          {comparison.shared.slice(0, TOP_SHARED).map(artist => artistChip(artist.id))}
+          {comparison.shared.length > TOP_SHARED && (
+            <span className="text-gray-400">+{comparison.shared.length - TOP_SHARED} more</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
 'use client';
 
+import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
+import {
+  GRAPH_EXPORT_FORMATS,
+  POSTER_FORMATS,
+  POSTER_SIZES,
+  type GraphExportFormat,
+  type PosterFormat,
+  type PosterSize,
+} from '@/lib/graph';
+import { REPLAY_EXPORT_FORMATS, type ReplayExportFormat } from './graph-replay';
 
 interface GraphControlsProps {
   onZoomIn: () => void;
@@ -66,3 +76,128 @@ export function GraphControls({ onZoomIn, onZoomOut, onFit, onReset }: GraphCont
     </div>
   );
 }
+
+interface GraphFileMenuProps {
+  /** Called with the chosen format; the graph decides what is visible */
+  onExport: (format: GraphExportFormat) => void;
+  /** Called with a saved graph file chosen by the user (JSON or GraphML) */
+  onImport?: (file: File) => void;
+  /** Called to record the year-by-year replay as an animation */
+  onExportAnimation?: (format: ReplayExportFormat) => void;
+  /** Called to render the visible graph as a printable poster */
+  onExportPoster?: (format: PosterFormat, size: PosterSize) => void;
+  disabled?: boolean;
+}
+
+/**
+ * File button with a dropdown to export (GraphML, GEXF, JSON, CSV, replay animation,
+ * print poster) or open a saved graph
+ */
+export function GraphFileMenu({ onExport, onImport, onExportAnimation, onExportPoster, disabled }: GraphFileMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [posterSize, setPosterSize] = useState<PosterSize>('a2');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="w-8 h-8 bg-white/90 dark:bg-gray-800/90 backdrop-blur rounded shadow-sm hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center text-gray-600 dark:text-gray-300 disabled:opacity-50"
+        title="Export or open graph"
+      >
+        ⤓
+      </button>
+      {isOpen && (
+        <div className="absolute left-10 top-0 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 min-w-[160px] z-50">
+          <div className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            Export visible graph
+          </div>
+          {GRAPH_EXPORT_FORMATS.map(format => (
+            <button
+              key={format.value}
+              onClick={() => {
+                onExport(format.value);
+                setIsOpen(false);
+              }}
+              className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+            >
+              {format.label}
+            </button>
+          ))}
+          {onExportAnimation && (
+            <>
+              <div className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400 border-y border-gray-200 dark:border-gray-700 mt-1">
+                Animated replay
+              </div>
+              {REPLAY_EXPORT_FORMATS.map(format => (
+                <button
+                  key={format.value}
+                  onClick={() => {
+                    onExportAnimation(format.value);
+                    setIsOpen(false);
+                  }}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                >
+                  {format.label}
+                </button>
+              ))}
+            </>
+          )}
+          {onExportPoster && (
+            <>
+              <div className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400 border-y border-gray-200 dark:border-gray-700 mt-1 flex items-center justify-between gap-2">
+                Print poster
+                <select
+                  value={posterSize}
+                  onChange={(e) => setPosterSize(e.target.value as PosterSize)}
+                  className="px-1 py-0.5 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-300"
+                  aria-label="Poster size"
+                >
+                  {POSTER_SIZES.map(size => <option key={size.value} value={size.value}>{size.label}</option>)}
+                </select>
+              </div>
+              {POSTER_FORMATS.map(format => (
+                <button
+                  key={format.value}
+                  onClick={() => {
+                    onExportPoster(format.value, posterSize);
+                    setIsOpen(false);
+                  }}
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300"
+                >
+                  {format.label}
+                </button>
+              ))}
+            </>
+          )}
+          {onImport && (
+            <>
+              <div className="border-t border-gray-200 dark:border-gray-700 my-1" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full px-3 py-2 text-left text-sm hover:bg-blue-50 dark:hover:bg-blue-900/30 text-blue-600 dark:text-blue-400"
+              >
+                Open saved graph...
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      {onImport && (
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".cyjs,.json,.graphml,.xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = ''; // Allow re-opening the same file
+            setIsOpen(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,31 @@
 
 import { useMemo, useState, useCallback, useRef, useEffect } from 'react';
 import type { RelationshipType } from '@/types';
+import { RELATIONSHIP_TYPE_CONFIG as RELATIONSHIP_CONFIG, RELATIONSHIP_TYPES } from '@/lib/relationships';
+import { CREDIT_THRESHOLDS, DERIVED_RELATIONSHIP_TYPES, MAX_INFLUENCE_HOPS, useGraphTheme } from '@/lib/graph';
 
 export interface GraphFilterState {
   relationshipTypes: Set<RelationshipType>;
   temporalFilter: 'all' | 'current';
   nodeTypes: Set<'person' | 'group'>;
   yearRange: { min: number; max: number } | null;  // null = show all years
+  replayYear: number | null;  // Time scrubber cursor; null = not replaying
+  edgeBundling: EdgeBundlingMode;
+  influenceHops: number;  // Influence layer lineage depth; 0 = layer off
+  creditsMinShared: number;  // Credits expansion threshold (shared recordings + releases); 0 = off
+  derivedEdges: boolean;  // Inferred label-mate / same-scene edges (local database only)
 }
 
+// How several relationships between the same two artists are drawn:
+// 'bundled' collapses them into one edge, 'auto' only does so in performance mode
+export type EdgeBundlingMode = 'auto' | 'bundled' | 'expanded';
+
+const EDGE_BUNDLING_CYCLE: Record<EdgeBundlingMode, EdgeBundlingMode> = {
+  auto: 'bundled',
+  bundled: 'expanded',
+  expanded: 'auto',
+};
+
 interface GraphFiltersProps {
   filters: GraphFilterState;
   onFiltersChange: (filters: GraphFilterState) => void;
@@ -18,33 +35,20 @@ interface GraphFiltersProps {
   compact?: boolean;
 }
 
-// Configuration for each relationship type - colors match graph edge colors
-const RELATIONSHIP_CONFIG: Record<RelationshipType, { label: string; color: string; defaultOn: boolean }> = {
-  member_of: { label: 'Member', color: '#93c5fd', defaultOn: true },
-  founder_of: { label: 'Founder', color: '#fcd34d', defaultOn: true },
-  side_project: { label: 'Side Project', color: '#f9a8d4', defaultOn: true },
-  collaboration: { label: 'Collab', color: '#6ee7b7', defaultOn: true },
-  producer: { label: 'Producer', color: '#c4b5fd', defaultOn: true },
-  touring_member: { label: 'Touring', color: '#9ca3af', defaultOn: false },
-  same_label: { label: 'Label', color: '#9ca3af', defaultOn: false },
-  same_scene: { label: 'Scene', color: '#9ca3af', defaultOn: false },
-  influenced_by: { label: 'Influence', color: '#9ca3af', defaultOn: false },
-};
-
 // Default filter state
 export function getDefaultFilters(): GraphFilterState {
-  const defaultTypes = new Set<RelationshipType>();
-  for (const [type, config] of Object.entries(RELATIONSHIP_CONFIG)) {
-    if (config.defaultOn) {
-      defaultTypes.add(type as RelationshipType);
-    }
-  }
+  const defaultTypes = new Set(RELATIONSHIP_TYPES.filter(type => RELATIONSHIP_CONFIG[type].defaultOn));
 
   return {
     relationshipTypes: defaultTypes,
     temporalFilter: 'all',
     nodeTypes: new Set(['person', 'group']),
     yearRange: null,  // null = show all years (no filtering)
+    replayYear: null,
+    edgeBundling: 'auto',
+    influenceHops: 0,
+    creditsMinShared: 0,
+    derivedEdges: false,
   };
 }
 
@@ -55,11 +59,12 @@ export function GraphFilters({
   availableYearRange,
   compact = false,
 }: GraphFiltersProps) {
+  const { theme } = useGraphTheme();
+
   // Filter to only show types that exist in the graph
   const visibleTypes = useMemo(() => {
-    const allTypes = Object.keys(RELATIONSHIP_CONFIG) as RelationshipType[];
-    if (!availableTypes || availableTypes.length === 0) return allTypes;
-    return allTypes.filter(type => availableTypes.includes(type));
+    if (!availableTypes || availableTypes.length === 0) return RELATIONSHIP_TYPES;
+    return RELATIONSHIP_TYPES.filter(type => availableTypes.includes(type));
   }, [availableTypes]);
 
   const handleRelTypeToggle = (type: RelationshipType) => {
@@ -76,6 +81,37 @@ export function GraphFilters({
     onFiltersChange({ ...filters, temporalFilter: value });
   };
 
+  const handleEdgeBundlingToggle = () => {
+    onFiltersChange({ ...filters, edgeBundling: EDGE_BUNDLING_CYCLE[filters.edgeBundling] });
+  };
+
+  // Off -> 1 hop -> ... -> MAX_INFLUENCE_HOPS -> off; turning the layer on shows influence links
+  const handleInfluenceToggle = () => {
+    const influenceHops = filters.influenceHops >= MAX_INFLUENCE_HOPS ? 0 : filters.influenceHops + 1;
+    const relationshipTypes = influenceHops > 0
+      ? new Set([...filters.relationshipTypes, 'influenced_by' as const])
+      : filters.relationshipTypes;
+    onFiltersChange({ ...filters, influenceHops, relationshipTypes });
+  };
+
+  // Off -> each of CREDIT_THRESHOLDS -> off; a threshold from the URL moves on to the next higher one
+  const handleCreditsToggle = () => {
+    const creditsMinShared = CREDIT_THRESHOLDS.find(threshold => threshold > filters.creditsMinShared) ?? 0;
+    const relationshipTypes = creditsMinShared > 0
+      ? new Set([...filters.relationshipTypes, 'shared_credits' as const])
+      : filters.relationshipTypes;
+    onFiltersChange({ ...filters, creditsMinShared, relationshipTypes });
+  };
+
+  // Turning derived edges on shows both derived types; the chips can hide either one
+  const handleDerivedToggle = () => {
+    const derivedEdges = !filters.derivedEdges;
+    const relationshipTypes = derivedEdges
+      ? new Set([...filters.relationshipTypes, ...DERIVED_RELATIONSHIP_TYPES])
+      : filters.relationshipTypes;
+    onFiltersChange({ ...filters, derivedEdges, relationshipTypes });
+  };
+
   const handleNodeTypeToggle = (type: 'person' | 'group') => {
     const newTypes = new Set(filters.nodeTypes);
     if (newTypes.has(type)) {
@@ -119,6 +155,10 @@ export function GraphFilters({
     });
   };
 
+  const handleReplayYearChange = useCallback((year: number | null) => {
+    onFiltersChange({ ...filters, replayYear: year });
+  }, [filters, onFiltersChange]);
+
   // Check if year filter is active
   const isYearFilterActive = filters.yearRange !== null;
 
@@ -133,7 +173,11 @@ export function GraphFilters({
       filters.temporalFilter !== defaults.temporalFilter ||
       filters.relationshipTypes.size !== defaults.relationshipTypes.size ||
       ![...filters.relationshipTypes].every(t => defaults.relationshipTypes.has(t)) ||
-      filters.yearRange !== null;
+      filters.yearRange !== null ||
+      filters.edgeBundling !== defaults.edgeBundling ||
+      filters.influenceHops !== defaults.influenceHops ||
+      filters.creditsMinShared !== defaults.creditsMinShared ||
+      filters.derivedEdges !== defaults.derivedEdges;
 
     // Check if node type filters are modified
     const nodeTypesModified = filters.nodeTypes.size !== 2;
@@ -170,6 +214,7 @@ export function GraphFilters({
           {/* Relationship type filters */}
           {visibleTypes.map((type) => {
             const config = RELATIONSHIP_CONFIG[type];
+            const { color } = theme.edges[type];
             const isActive = filters.relationshipTypes.has(type);
             return (
               <button
@@ -181,17 +226,17 @@ export function GraphFilters({
                     : 'border-transparent opacity-30 hover:opacity-60'
                 }`}
                 style={isActive ? {
-                  backgroundColor: `${config.color}20`,
-                  borderColor: config.color,
-                  color: config.color,
+                  backgroundColor: `${color}20`,
+                  borderColor: color,
+                  color,
                 } : undefined}
-                title={`${isActive ? 'Hide' : 'Show'} ${config.label} relationships`}
+                title={`${isActive ? 'Hide' : 'Show'} ${config.label} relationships${config.derived ? ' (derived, not MusicBrainz links)' : ''}`}
               >
                 <span
                   className="w-2 h-2 rounded-full flex-shrink-0"
-                  style={{ backgroundColor: config.color }}
+                  style={{ backgroundColor: color }}
                 />
-                <span className={!isActive ? 'text-gray-600 dark:text-gray-400' : ''} style={isActive ? { color: 'inherit' } : undefined}>{config.label}</span>
+                <span className={!isActive ? 'text-gray-600 dark:text-gray-400' : ''} style={isActive ? { color: 'inherit' } : undefined}>{config.label}{config.derived && ' ≈'}</span>
               </button>
             );
           })}
@@ -207,6 +252,60 @@ export function GraphFilters({
           >
             {filters.temporalFilter === 'current' ? 'Current' : 'All Time'}
           </button>
+          <button
+            onClick={handleEdgeBundlingToggle}
+            className={`px-1.5 py-0.5 rounded border transition-all ${
+              filters.edgeBundling !== 'auto'
+                ? 'border-slate-400 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300'
+                : 'border-transparent text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 hover:border-gray-100 dark:hover:border-gray-700'
+            }`}
+            title={
+              filters.edgeBundling === 'bundled' ? 'One edge per pair of artists (click to expand)'
+                : filters.edgeBundling === 'expanded' ? 'One edge per relationship (click for automatic)'
+                : 'Bundling relationships between the same artists in large graphs (click to always bundle)'
+            }
+          >
+            {filters.edgeBundling === 'bundled' ? 'Bundled' : filters.edgeBundling === 'expanded' ? 'Expanded' : 'Auto Bundle'}
+          </button>
+          <button
+            onClick={handleInfluenceToggle}
+            className={`px-1.5 py-0.5 rounded border transition-all ${
+              filters.influenceHops > 0
+                ? 'border-fuchsia-400 bg-fuchsia-100 dark:bg-fuchsia-900/50 text-fuchsia-700 dark:text-fuchsia-300'
+                : 'border-transparent text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 hover:border-gray-100 dark:hover:border-gray-700'
+            }`}
+            title={filters.influenceHops > 0
+              ? `Showing influences (MusicBrainz + Wikidata) ${filters.influenceHops} generation${filters.influenceHops === 1 ? '' : 's'} back (click for ${filters.influenceHops >= MAX_INFLUENCE_HOPS ? 'off' : 'more'})`
+              : 'Show who influenced this artist (MusicBrainz + Wikidata)'}
+          >
+            {filters.influenceHops > 0 ? `Influences ×${filters.influenceHops}` : 'Influences'}
+          </button>
+          <button
+            onClick={handleCreditsToggle}
+            className={`px-1.5 py-0.5 rounded border transition-all ${
+              filters.creditsMinShared > 0
+                ? 'border-rose-400 bg-rose-100 dark:bg-rose-900/50 text-rose-700 dark:text-rose-300'
+                : 'border-transparent text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 hover:border-gray-100 dark:hover:border-gray-700'
+            }`}
+            title={filters.creditsMinShared > 0
+              ? `Showing artists credited on at least ${filters.creditsMinShared} of the same recordings or releases (click for ${filters.creditsMinShared >= CREDIT_THRESHOLDS[CREDIT_THRESHOLDS.length - 1] ? 'off' : 'fewer, closer collaborators'})`
+              : 'Show session players, engineers and producers who worked on the same records (local database only)'}
+          >
+            {filters.creditsMinShared > 0 ? `Credits ≥${filters.creditsMinShared}` : 'Credits'}
+          </button>
+          <button
+            onClick={handleDerivedToggle}
+            className={`px-1.5 py-0.5 rounded border transition-all ${
+              filters.derivedEdges
+                ? 'border-teal-400 bg-teal-100 dark:bg-teal-900/50 text-teal-700 dark:text-teal-300'
+                : 'border-transparent text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 hover:border-gray-100 dark:hover:border-gray-700'
+            }`}
+            title={filters.derivedEdges
+              ? 'Showing inferred label-mate and same-scene edges - not MusicBrainz links (click to hide)'
+              : 'Infer label-mates and same-scene artists from releases and formation areas'}
+          >
+            ≈ Derived
+          </button>
           <button
             onClick={handleSelectAll}
             className="px-1.5 py-0.5 rounded text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
@@ -254,6 +353,15 @@ export function GraphFilters({
             )}
           </div>
         )}
+
+        {/* Time scrubber - replays the graph year by year */}
+        {availableYearRange && availableYearRange.max > availableYearRange.min && (
+          <TimeScrubber
+            range={filters.yearRange || availableYearRange}
+            year={filters.replayYear}
+            onYearChange={handleReplayYearChange}
+          />
+        )}
       </div>
     );
   }
@@ -265,7 +373,11 @@ export function GraphFilters({
     filters.relationshipTypes.size !== defaults.relationshipTypes.size ||
     ![...filters.relationshipTypes].every(t => defaults.relationshipTypes.has(t)) ||
     filters.nodeTypes.size !== defaults.nodeTypes.size ||
-    ![...filters.nodeTypes].every(t => defaults.nodeTypes.has(t));
+    ![...filters.nodeTypes].every(t => defaults.nodeTypes.has(t)) ||
+    filters.edgeBundling !== defaults.edgeBundling ||
+    filters.influenceHops !== defaults.influenceHops ||
+    filters.creditsMinShared !== defaults.creditsMinShared ||
+    filters.derivedEdges !== defaults.derivedEdges;
 
   const handleReset = () => {
     onFiltersChange(getDefaultFilters());
@@ -296,6 +408,7 @@ export function GraphFilters({
         <div className="grid grid-cols-3 gap-1">
           {visibleTypes.map((type) => {
             const config = RELATIONSHIP_CONFIG[type];
+            const { color } = theme.edges[type];
             const isActive = filters.relationshipTypes.has(type);
             return (
               <label
@@ -304,8 +417,8 @@ export function GraphFilters({
                   isActive ? '' : 'border-transparent hover:bg-gray-50 opacity-50'
                 }`}
                 style={isActive ? {
-                  backgroundColor: `${config.color}20`,
-                  borderColor: config.color,
+                  backgroundColor: `${color}20`,
+                  borderColor: color,
                 } : undefined}
               >
                 <input
@@ -316,10 +429,10 @@ export function GraphFilters({
                 />
                 <div
                   className="w-2.5 h-2.5 rounded-full"
-                  style={{ backgroundColor: isActive ? config.color : '#d1d5db' }}
+                  style={{ backgroundColor: isActive ? color : '#d1d5db' }}
                 />
                 <span className={isActive ? 'text-gray-900' : 'text-gray-400'}>
-                  {config.label}
+                  {config.label}{config.derived && ' ≈'}
                 </span>
               </label>
             );
@@ -634,3 +747,86 @@ function YearRangeSlider({ min, max, value, onChange, isActive }: YearRangeSlide
     </div>
   );
 }
+
+// Time Scrubber Component
+const REPLAY_STEP_MS = 700;
+
+interface TimeScrubberProps {
+  range: { min: number; max: number };
+  year: number | null;
+  onYearChange: (year: number | null) => void;
+}
+
+function TimeScrubber({ range, year, onYearChange }: TimeScrubberProps) {
+  const [playing, setPlaying] = useState(false);
+
+  // Advance one year per step; stops on the last year of the range
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => {
+      // Cleared elsewhere (e.g. filter reset) or reached the end
+      if (year === null || year >= range.max) {
+        setPlaying(false);
+      } else {
+        onYearChange(Math.max(range.min, year + 1));
+      }
+    }, REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, year, range.min, range.max, onYearChange]);
+
+  const handlePlayPause = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Start from the beginning, or restart once the end has been reached
+    if (year === null || year >= range.max) onYearChange(range.min);
+    setPlaying(true);
+  };
+
+  const handleStop = () => {
+    setPlaying(false);
+    onYearChange(null);
+  };
+
+  const isReplaying = year !== null;
+
+  return (
+    <div className="flex items-center gap-2 text-[10px]" role="group" aria-label="Time scrubber">
+      <button
+        onClick={handlePlayPause}
+        className={`w-5 h-5 shrink-0 rounded border transition-colors ${
+          playing
+            ? 'border-blue-400 bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300'
+            : 'border-gray-200 dark:border-gray-600 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+        }`}
+        title={playing ? 'Pause replay' : 'Replay the network year by year'}
+        aria-label={playing ? 'Pause replay' : 'Play replay'}
+      >
+        {playing ? '❚❚' : '▶'}
+      </button>
+      <input
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={1}
+        value={year ?? range.min}
+        onChange={e => onYearChange(Number(e.target.value))}
+        className={`flex-1 min-w-0 h-1.5 cursor-pointer ${isReplaying ? 'accent-blue-500' : 'accent-gray-400 opacity-60'}`}
+        aria-label="Replay year"
+      />
+      <span className={`w-8 text-right font-medium tabular-nums ${isReplaying ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400 dark:text-gray-500'}`}>
+        {year ?? '—'}
+      </span>
+      {isReplaying && (
+        <button
+          onClick={handleStop}
+          className="px-1.5 py-0.5 rounded text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors shrink-0"
+          title="Stop replay and show the whole network"
+        >
+          Stop
+        </button>
+      )}
+    </div>
+  );
+}
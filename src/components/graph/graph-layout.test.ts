@@ -0,0 +1,104 @@
+/**
+ * Tests for the lineage ("family tree") layout and which nodes layouts leave in place
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeLineageLayout,
+  getFixedNodeIds,
+  LINEAGE_LANE_HEIGHT,
+  LINEAGE_PX_PER_YEAR,
+  type LineageEdge,
+  type LineageNode,
+} from './graph-layout';
+
+// Two bands sharing a guitarist who moved from the first to the second in 1970
+const NODES: LineageNode[] = [
+  { id: 'band-a', type: 'group', beginYear: 1965 },
+  { id: 'band-b', type: 'group' },
+  { id: 'singer', type: 'person', beginYear: 1944 },
+  { id: 'guitarist', type: 'person' },
+  { id: 'drummer', type: 'person' },
+  { id: 'producer', type: 'person' },
+];
+
+const EDGES: LineageEdge[] = [
+  { source: 'singer', target: 'band-a', type: 'member_of', beginYear: 1965, endYear: 1975 },
+  { source: 'guitarist', target: 'band-a', type: 'founder_of', beginYear: 1965, endYear: 1970 },
+  { source: 'guitarist', target: 'band-b', type: 'member_of', beginYear: 1970 },
+  { source: 'band-b', target: 'drummer', type: 'member_of', beginYear: 1972, endYear: 1980 },
+  { source: 'producer', target: 'band-a', type: 'producer', beginYear: 1968 },
+];
+
+const x = (year: number, minYear = 1965) => (year - minYear) * LINEAGE_PX_PER_YEAR;
+
+describe('computeLineageLayout', () => {
+  it('should place groups at their formation or first member year', () => {
+    const layout = computeLineageLayout(NODES, EDGES);
+
+    expect(layout.minYear).toBe(1965);
+    expect(layout.maxYear).toBe(1980);
+    expect(layout.positions['band-a'].x).toBe(x(1965));
+    // No formation year: earliest member joining
+    expect(layout.positions['band-b'].x).toBe(x(1970));
+  });
+
+  it('should give members lanes in band order, starting at their first membership', () => {
+    const layout = computeLineageLayout(NODES, EDGES);
+
+    expect(layout.lanes.map(l => l.personId)).toEqual(['guitarist', 'singer', 'drummer', 'producer']);
+    // Persons' birth years are ignored
+    expect(layout.positions.singer).toEqual({ x: x(1965), y: LINEAGE_LANE_HEIGHT });
+    expect(layout.positions.drummer.x).toBe(x(1972));
+    // No memberships: undated column below the members
+    expect(layout.positions.producer).toEqual({ x: layout.undatedX, y: 3 * LINEAGE_LANE_HEIGHT });
+  });
+
+  it('should draw each membership period along the member lane', () => {
+    const layout = computeLineageLayout(NODES, EDGES);
+
+    const guitarist = layout.lanes.find(l => l.personId === 'guitarist')!;
+    expect(guitarist.segments).toEqual([
+      { groupId: 'band-a', x1: x(1965), x2: x(1970) },
+      // Still a member: runs to the end of the axis
+      { groupId: 'band-b', x1: x(1970), x2: x(1980) },
+    ]);
+  });
+
+  it('should centre groups between their members lanes', () => {
+    const layout = computeLineageLayout(NODES, EDGES);
+
+    // band-a: guitarist (lane 0) and singer (lane 1)
+    expect(layout.positions['band-a'].y).toBe(LINEAGE_LANE_HEIGHT / 2);
+    // band-b: guitarist (lane 0) and drummer (lane 2)
+    expect(layout.positions['band-b'].y).toBe(LINEAGE_LANE_HEIGHT);
+  });
+
+  it('should clamp years to the given year range', () => {
+    const layout = computeLineageLayout(NODES, EDGES, new Map(), { min: 1968, max: 1974 });
+
+    expect(layout.minYear).toBe(1968);
+    expect(layout.positions['band-a'].x).toBe(0);
+    expect(layout.positions.drummer.x).toBe(x(1972, 1968));
+    const drummer = layout.lanes.find(l => l.personId === 'drummer')!;
+    expect(drummer.segments[0].x2).toBe(x(1974, 1968));
+  });
+});
+
+describe('getFixedNodeIds', () => {
+  // An imported graph: two nodes placed from the file, one expanded since, one pinned
+  const IMPORTED = [
+    { data: { id: 'root' }, position: { x: 0, y: 0 } },
+    { data: { id: 'member' }, position: { x: 100, y: 0 } },
+    { data: { id: 'expanded' } },
+  ];
+
+  it('should keep imported positions and pins fixed until a layout is picked', () => {
+    expect([...getFixedNodeIds(IMPORTED, new Set(['expanded']), true)].sort()).toEqual(['expanded', 'member', 'root']);
+  });
+
+  it('should release imported positions once a layout is picked, keeping only pins', () => {
+    expect([...getFixedNodeIds(IMPORTED, new Set(['member']), false)]).toEqual(['member']);
+    expect(getFixedNodeIds(IMPORTED, new Set(), false).size).toBe(0);
+  });
+});
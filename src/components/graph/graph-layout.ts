@@ -7,13 +7,20 @@
  * - concentric: Rings based on BFS depth from root
  * - spoke: Custom hub-and-rings layout with explicit ring placement
  * - radial: Breadthfirst circle layout
+ * - lineage: Rock family tree - groups on a horizontal year axis, one swimlane per member
+ *
+ * In performance mode (large graphs) the force layout is precomputed in a Web Worker
+ * instead of running a live cola simulation, and layouts skip their animations.
  */
 
 import type cytoscape from 'cytoscape';
 import type { Core, NodeSingular } from 'cytoscape';
 
+/** Name of the precomputed force layout extension (registered by graph-performance.ts) */
+export const WORKER_FORCE_LAYOUT = 'worker-force';
+
 // Layout types available to users
-export type LayoutType = 'auto' | 'radial' | 'force' | 'hierarchical' | 'concentric' | 'spoke';
+export type LayoutType = 'auto' | 'radial' | 'force' | 'hierarchical' | 'concentric' | 'spoke' | 'lineage';
 
 // Layout display names for UI dropdowns
 export const LAYOUT_OPTIONS: { value: LayoutType; label: string }[] = [
@@ -23,6 +30,7 @@ export const LAYOUT_OPTIONS: { value: LayoutType; label: string }[] = [
   { value: 'force', label: 'Force-Directed' },
   { value: 'hierarchical', label: 'Hierarchical' },
   { value: 'concentric', label: 'Concentric Rings' },
+  { value: 'lineage', label: 'Family Tree (Timeline)' },
 ];
 
 /**
@@ -63,6 +71,198 @@ export function calculateNodeDepths(cy: Core): Map<string, number> {
   return depths;
 }
 
+// ============================================================================
+// Lineage ("family tree") layout
+// ============================================================================
+
+/** Horizontal distance per year on the lineage time axis */
+export const LINEAGE_PX_PER_YEAR = 60;
+/** Vertical distance between member swimlanes */
+export const LINEAGE_LANE_HEIGHT = 60;
+
+// Person-group links that make up a membership history
+const LINEAGE_MEMBERSHIP_TYPES = new Set(['member_of', 'founder_of', 'touring_member']);
+
+export interface LineageNode {
+  id: string;
+  type: 'person' | 'group';
+  /** Formation year (groups); persons' birth years are ignored */
+  beginYear?: number;
+}
+
+export interface LineageEdge {
+  source: string;
+  target: string;
+  type: string;
+  beginYear?: number;
+  endYear?: number;
+}
+
+/** One member's time in one group, drawn along the member's swimlane */
+export interface LineageSegment {
+  groupId: string;
+  x1: number;
+  x2: number;
+}
+
+export interface LineageLane {
+  personId: string;
+  y: number;
+  segments: LineageSegment[];
+}
+
+export interface LineageLayout {
+  positions: Record<string, { x: number; y: number }>;
+  lanes: LineageLane[];
+  /** Years covered by the axis; x = (year - minYear) * LINEAGE_PX_PER_YEAR */
+  minYear: number;
+  maxYear: number;
+  /** Column left of the axis for artists without any known year */
+  undatedX: number;
+}
+
+/**
+ * Lay out a band lineage on a time axis (Pete Frame-style family tree)
+ *
+ * Every member gets a horizontal swimlane starting at their first membership;
+ * groups sit at their formation year, vertically between their members' lanes.
+ * Lanes are ordered group by group (earliest first, closest to the root first
+ * via `depths`) so members of the same band stay together and line-ups that
+ * move between bands read left to right. Years outside `yearRange` are clamped.
+ */
+export function computeLineageLayout(
+  nodes: LineageNode[],
+  edges: LineageEdge[],
+  depths: Map<string, number> = new Map(),
+  yearRange?: { min: number; max: number } | null
+): LineageLayout {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  // Memberships per person, from person-group links in either direction
+  const memberships = new Map<string, Array<{ groupId: string; begin?: number; end?: number }>>();
+  const membersOf = new Map<string, string[]>();
+  const joinYears = new Map<string, Array<number | undefined>>();
+  for (const edge of edges) {
+    if (!LINEAGE_MEMBERSHIP_TYPES.has(edge.type)) continue;
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target || source.type === target.type) continue;
+
+    const [person, group] = source.type === 'person' ? [source, target] : [target, source];
+    memberships.set(person.id, [
+      ...(memberships.get(person.id) ?? []),
+      { groupId: group.id, begin: edge.beginYear, end: edge.endYear },
+    ]);
+    membersOf.set(group.id, [...(membersOf.get(group.id) ?? []), person.id]);
+    joinYears.set(group.id, [...(joinYears.get(group.id) ?? []), edge.beginYear]);
+  }
+
+  const minOf = (values: Array<number | undefined>) => {
+    const known = values.filter((v): v is number => v !== undefined);
+    return known.length > 0 ? Math.min(...known) : undefined;
+  };
+
+  // A group's year is its formation, else its earliest member joining
+  const yearOf = new Map<string, number | undefined>();
+  for (const node of nodes) {
+    yearOf.set(node.id, node.type === 'group'
+      ? node.beginYear ?? minOf(joinYears.get(node.id) ?? [])
+      : minOf((memberships.get(node.id) ?? []).map(m => m.begin)));
+  }
+
+  const knownYears = [
+    ...yearOf.values(),
+    ...edges.filter(e => LINEAGE_MEMBERSHIP_TYPES.has(e.type)).map(e => e.endYear),
+  ].filter((v): v is number => v !== undefined);
+  const minYear = yearRange?.min ?? (knownYears.length > 0 ? Math.min(...knownYears) : new Date().getFullYear());
+  const maxYear = Math.max(minYear, yearRange?.max ?? (knownYears.length > 0 ? Math.max(...knownYears) : minYear));
+  const undatedX = -2 * LINEAGE_PX_PER_YEAR;
+
+  const xOf = (year: number | undefined) => year === undefined
+    ? undatedX
+    : (Math.min(Math.max(year, minYear), maxYear) - minYear) * LINEAGE_PX_PER_YEAR;
+
+  const order = (a: string, b: string) =>
+    (yearOf.get(a) ?? Infinity) - (yearOf.get(b) ?? Infinity) ||
+    (depths.get(a) ?? Infinity) - (depths.get(b) ?? Infinity) ||
+    a.localeCompare(b);
+
+  // Lanes: walk groups in time order, stacking each group's new members
+  const groups = nodes.filter(n => n.type === 'group').map(n => n.id).sort(order);
+  const laneOrder: string[] = [];
+  const placed = new Set<string>();
+  for (const groupId of groups) {
+    for (const personId of [...new Set(membersOf.get(groupId))].sort(order)) {
+      if (!placed.has(personId)) {
+        placed.add(personId);
+        laneOrder.push(personId);
+      }
+    }
+  }
+  // People without memberships (collaborators, producers...) go below
+  laneOrder.push(...nodes.filter(n => n.type === 'person' && !placed.has(n.id)).map(n => n.id).sort(order));
+
+  const positions: LineageLayout['positions'] = {};
+  const lanes: LineageLane[] = laneOrder.map((personId, index) => {
+    const y = index * LINEAGE_LANE_HEIGHT;
+    positions[personId] = { x: xOf(yearOf.get(personId)), y };
+    return {
+      personId,
+      y,
+      segments: (memberships.get(personId) ?? [])
+        .filter(m => m.begin !== undefined)
+        .map(m => ({ groupId: m.groupId, x1: xOf(m.begin), x2: xOf(m.end ?? maxYear) }))
+        .sort((a, b) => a.x1 - b.x1),
+    };
+  });
+
+  // Groups: centred on their members' lanes, nudged down past groups nearby
+  let extraLane = laneOrder.length;
+  const placedGroups: Array<{ x: number; y: number }> = [];
+  for (const groupId of groups) {
+    const x = xOf(yearOf.get(groupId));
+    const memberYs = [...new Set(membersOf.get(groupId))].map(id => positions[id].y);
+    let y = memberYs.length > 0
+      ? memberYs.reduce((sum, v) => sum + v, 0) / memberYs.length
+      : (extraLane++) * LINEAGE_LANE_HEIGHT;
+
+    while (placedGroups.some(p =>
+      Math.abs(p.x - x) < LINEAGE_PX_PER_YEAR * 1.5 && Math.abs(p.y - y) < LINEAGE_LANE_HEIGHT * 0.8
+    )) {
+      y += LINEAGE_LANE_HEIGHT * 0.8;
+    }
+
+    positions[groupId] = { x, y };
+    placedGroups.push({ x, y });
+  }
+
+  return { positions, lanes, minYear, maxYear, undatedX };
+}
+
+/**
+ * Lineage layout for the elements currently in Cytoscape
+ * Node/edge years come from the `beginYear`/`endYear` element data.
+ */
+export function getLineageLayout(cy: Core, yearRange?: { min: number; max: number } | null): LineageLayout {
+  return computeLineageLayout(
+    // Compound nodes (collapsed bands) are positioned by their children
+    cy.nodes(':childless').map(node => ({
+      id: node.id(),
+      type: node.data('type'),
+      beginYear: node.data('beginYear'),
+    })),
+    cy.edges().map(edge => ({
+      source: edge.data('source'),
+      target: edge.data('target'),
+      type: edge.data('type'),
+      beginYear: edge.data('beginYear'),
+      endYear: edge.data('endYear'),
+    })),
+    calculateNodeDepths(cy),
+    yearRange
+  );
+}
+
 /**
  * Determine effective layout based on 'auto' mode and network depth.
  * Auto mode uses Force at depth 1, Spoke at depth 2+.
@@ -72,6 +272,26 @@ export function getEffectiveLayout(layout: LayoutType, depth: number): Exclude<L
   return depth === 1 ? 'force' : 'spoke';
 }
 
+/**
+ * Nodes a layout run must leave where they are
+ * Pinned nodes always stay put. While saved positions (an imported graph or a
+ * restored workspace) are in use, so do the nodes placed from them, so layouts
+ * only arrange nodes added since; once the user picks a layout, only pins stay.
+ */
+export function getFixedNodeIds(
+  nodes: Array<{ data: { id: string }; position?: { x: number; y: number } }>,
+  pinnedIds: ReadonlySet<string>,
+  useSavedPositions: boolean
+): Set<string> {
+  const fixed = new Set(pinnedIds);
+  if (useSavedPositions) {
+    nodes.forEach(node => {
+      if (node.position) fixed.add(node.data.id);
+    });
+  }
+  return fixed;
+}
+
 /**
  * Configuration options for layout generation
  */
@@ -82,22 +302,38 @@ export interface LayoutConfig {
   networkDepth: number;
   containerWidth: number;
   containerHeight: number;
+  /** Time axis range for the lineage layout (default: years found in the graph) */
+  yearRange?: { min: number; max: number } | null;
+  /** Large graph: precomputed force layout, no layout animations */
+  performanceMode?: boolean;
 }
 
 /**
  * Get layout options for the specified layout type.
  */
 export function getLayoutOptions(config: LayoutConfig): cytoscape.LayoutOptions {
-  const { nodeCount, cy, layout, networkDepth, containerWidth, containerHeight } = config;
+  const { nodeCount, cy, layout, networkDepth, containerWidth, containerHeight, yearRange, performanceMode } = config;
 
   const isLarge = nodeCount > 100;
   const isMedium = nodeCount > 30;
   const effectiveLayout = getEffectiveLayout(layout, networkDepth);
   const rootNode = cy?.$('node[root = "true"]').first();
   const rootId = rootNode?.id();
+  const animate = !performanceMode;
 
   switch (effectiveLayout) {
     case 'force':
+      if (performanceMode) {
+        // Positions computed off the main thread once, instead of a live simulation
+        return {
+          name: WORKER_FORCE_LAYOUT,
+          fit: true,
+          padding: 30,
+          animate: false,
+          edgeLength: isLarge ? 100 : 150,
+          iterations: nodeCount > 500 ? 150 : 300,
+        } as unknown as cytoscape.LayoutOptions;
+      }
       // Cola force-directed layout - LIVE physics simulation
       // Nodes continuously react to each other when dragged
       // Locked nodes (via node.lock()) are treated as immovable anchors
@@ -144,7 +380,7 @@ export function getLayoutOptions(config: LayoutConfig): cytoscape.LayoutOptions
         nodeSep: isLarge ? 30 : isMedium ? 50 : 70,
         rankSep: isLarge ? 50 : isMedium ? 80 : 100,
         edgeSep: 10,
-        animate: true,
+        animate,
         animationDuration: 500,
         animationEasing: 'ease-out',
       } as unknown as cytoscape.LayoutOptions;
@@ -164,7 +400,7 @@ export function getLayoutOptions(config: LayoutConfig): cytoscape.LayoutOptions
         minNodeSpacing: isLarge ? 20 : isMedium ? 40 : 60,
         avoidOverlap: true,
         nodeDimensionsIncludeLabels: true,
-        animate: true,
+        animate,
         animationDuration: 500,
         concentric: (node: NodeSingular) => {
           const nodeId = node.id();
@@ -255,7 +491,21 @@ export function getLayoutOptions(config: LayoutConfig): cytoscape.LayoutOptions
         },
         fit: true,
         padding: 50,
-        animate: true,
+        animate,
+        animationDuration: 500,
+        animationEasing: 'ease-out',
+      } as unknown as cytoscape.LayoutOptions;
+    }
+
+    case 'lineage': {
+      // Family tree - positions come from the time axis, not from physics
+      const positions: LineageLayout['positions'] = cy ? getLineageLayout(cy, yearRange).positions : {};
+      return {
+        name: 'preset',
+        positions: (node: NodeSingular) => positions[node.id()] ?? { x: 0, y: 0 },
+        fit: true,
+        padding: 50,
+        animate,
         animationDuration: 500,
         animationEasing: 'ease-out',
       } as unknown as cytoscape.LayoutOptions;
@@ -275,7 +525,7 @@ export function getLayoutOptions(config: LayoutConfig): cytoscape.LayoutOptions
         avoidOverlap: true,
         nodeDimensionsIncludeLabels: false,
         roots: rootId ? `#${rootId}` : undefined,
-        animate: true,
+        animate,
         animationDuration: 500,
         animationEasing: 'ease-out',
         maximal: false,
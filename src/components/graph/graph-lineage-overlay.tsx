@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Core } from 'cytoscape';
+import { LINEAGE_PX_PER_YEAR, type LineageLayout } from './graph-layout';
+import { COMMUNITY_COLORS } from './graph-styles';
+
+// Candidate year steps for axis ticks; the smallest one keeping labels apart wins
+const TICK_STEPS = [1, 2, 5, 10, 20, 50];
+const MIN_TICK_SPACING_PX = 48;
+
+interface LineageOverlayProps {
+  cy: Core;
+  layout: LineageLayout;
+  isDark: boolean;
+}
+
+/**
+ * Year axis and member swimlanes drawn over the graph in the lineage layout
+ * Follows Cytoscape's pan/zoom; ignores pointer events so the graph stays usable.
+ */
+export function LineageOverlay({ cy, layout, isDark }: LineageOverlayProps) {
+  const [viewport, setViewport] = useState(() => ({ zoom: cy.zoom(), pan: { ...cy.pan() } }));
+
+  useEffect(() => {
+    let frame = 0;
+    const handleViewport = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        if (!cy.destroyed()) setViewport({ zoom: cy.zoom(), pan: { ...cy.pan() } });
+      });
+    };
+
+    cy.on('viewport', handleViewport);
+    return () => {
+      cancelAnimationFrame(frame);
+      if (!cy.destroyed()) cy.off('viewport', handleViewport);
+    };
+  }, [cy]);
+
+  const { zoom, pan } = viewport;
+  const yearWidth = LINEAGE_PX_PER_YEAR * zoom;
+  const step = TICK_STEPS.find(s => s * yearWidth >= MIN_TICK_SPACING_PX) ?? TICK_STEPS[TICK_STEPS.length - 1];
+
+  const ticks: number[] = [];
+  for (let year = Math.ceil(layout.minYear / step) * step; year <= layout.maxYear; year += step) {
+    ticks.push(year);
+  }
+
+  // One colour per group, in the order groups first appear on the lanes
+  const groupColors = new Map<string, string>();
+  for (const lane of layout.lanes) {
+    for (const { groupId } of lane.segments) {
+      if (!groupColors.has(groupId)) {
+        groupColors.set(groupId, COMMUNITY_COLORS[groupColors.size % COMMUNITY_COLORS.length]);
+      }
+    }
+  }
+
+  const toScreenX = (year: number) => (year - layout.minYear) * yearWidth + pan.x;
+  const axisColor = isDark ? '#6b7280' : '#9ca3af';
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none z-[5]" aria-hidden="true">
+      {/* Year gridlines */}
+      {ticks.map(year => (
+        <line
+          key={`grid-${year}`}
+          x1={toScreenX(year)}
+          x2={toScreenX(year)}
+          y1={24}
+          y2="100%"
+          stroke={axisColor}
+          strokeOpacity={0.15}
+          strokeDasharray="2 4"
+        />
+      ))}
+
+      {/* Member swimlanes: one segment per membership period */}
+      <g transform={`translate(${pan.x} ${pan.y}) scale(${zoom})`}>
+        {layout.lanes.map(lane => lane.segments.map((segment, index) => (
+          <line
+            key={`${lane.personId}-${segment.groupId}-${index}`}
+            x1={segment.x1}
+            x2={Math.max(segment.x2, segment.x1 + LINEAGE_PX_PER_YEAR / 4)}
+            y1={lane.y}
+            y2={lane.y}
+            stroke={groupColors.get(segment.groupId)}
+            strokeOpacity={0.35}
+            strokeWidth={8}
+            strokeLinecap="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        )))}
+      </g>
+
+      {/* Year axis */}
+      <rect x={0} y={0} width="100%" height={22} fill={isDark ? '#111827' : '#f9fafb'} fillOpacity={0.85} />
+      {ticks.map(year => (
+        <text
+          key={`label-${year}`}
+          x={toScreenX(year)}
+          y={15}
+          textAnchor="middle"
+          fontSize={10}
+          fill={axisColor}
+        >
+          {year}
+        </text>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Large-graph rendering support for ArtistGraph
+ *
+ * - A Cytoscape layout extension that precomputes the force layout in a Web Worker
+ * - Renderer options for each rendering tier (viewport textures, WebGL)
+ */
+
+import type cytoscape from 'cytoscape';
+import type { NodeSingular } from 'cytoscape';
+import { computeForceLayout, type ForceLayoutOptions, type LayoutPositions, type RenderingTier } from '@/lib/graph';
+import { WORKER_FORCE_LAYOUT } from './graph-layout';
+import type { ForceLayoutRequest } from './force-layout.worker';
+
+type WorkerForceLayoutOptions = ForceLayoutOptions & cytoscape.LayoutPositionOptions;
+
+interface WorkerForceLayout {
+  options: WorkerForceLayoutOptions;
+  /** Cancels the pending worker job, if any */
+  cancel: (() => void) | null;
+}
+
+// Run the layout in a worker; falls back to the main thread where workers aren't available
+function computeInWorker(request: ForceLayoutRequest): { promise: Promise<LayoutPositions>; cancel: () => void } {
+  if (typeof Worker === 'undefined') {
+    return {
+      promise: Promise.resolve(computeForceLayout(request.nodes, request.edges, request.options)),
+      cancel: () => {},
+    };
+  }
+
+  const worker = new Worker(new URL('./force-layout.worker.ts', import.meta.url));
+  const promise = new Promise<LayoutPositions>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<LayoutPositions>) => {
+      resolve(event.data);
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message));
+      worker.terminate();
+    };
+  });
+  worker.postMessage(request);
+  return { promise, cancel: () => worker.terminate() };
+}
+
+// Cytoscape calls layout constructors without `new`, so this can't be a class
+function WorkerForceLayout(this: WorkerForceLayout, options: WorkerForceLayoutOptions) {
+  this.options = options;
+  this.cancel = null;
+}
+
+WorkerForceLayout.prototype.run = function (this: WorkerForceLayout) {
+  const { eles, edgeLength, iterations, gravity } = this.options;
+  // Compound nodes (collapsed bands) are positioned by their children
+  const nodes = eles.nodes(':childless');
+  const request: ForceLayoutRequest = {
+    nodes: nodes.map(node => ({ id: node.id(), ...node.position(), fixed: node.locked() })),
+    edges: eles.edges().map(edge => ({ source: edge.data('source'), target: edge.data('target') })),
+    options: { edgeLength, iterations, gravity },
+  };
+
+  const job = computeInWorker(request);
+  this.cancel = job.cancel;
+
+  const apply = (positions: LayoutPositions) => {
+    // Stopped, or superseded by another run
+    if (this.cancel !== job.cancel) return;
+    this.cancel = null;
+    // The typings declare the layout argument as a string; Cytoscape expects the layout instance
+    nodes.layoutPositions(this as unknown as string, this.options, (node: NodeSingular) =>
+      positions[node.id()] ?? node.position());
+  };
+
+  job.promise
+    .catch((error) => {
+      console.error('Layout worker failed, computing on the main thread:', error);
+      return computeForceLayout(request.nodes, request.edges, request.options);
+    })
+    .then(apply);
+
+  return this;
+};
+
+WorkerForceLayout.prototype.stop = function (this: WorkerForceLayout) {
+  this.cancel?.();
+  this.cancel = null;
+  return this;
+};
+
+/** Cytoscape extension registering the precomputed force layout */
+export function workerForceLayout(cytoscapeLib: typeof cytoscape): void {
+  cytoscapeLib('layout', WORKER_FORCE_LAYOUT, WorkerForceLayout);
+}
+
+/** Whether this browser can run Cytoscape's WebGL renderer (needs WebGL 2) */
+export function supportsWebGL(): boolean {
+  if (typeof document === 'undefined') return false;
+  try {
+    return document.createElement('canvas').getContext('webgl2') !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cytoscape renderer options for a rendering tier
+ * Performance tiers draw a cached texture while panning/zooming and skip
+ * high-DPI rendering; the WebGL tier also switches the renderer to WebGL.
+ */
+export function getRendererOptions(tier: RenderingTier, isDark: boolean): Partial<cytoscape.CytoscapeOptions> {
+  if (tier === 'standard') return {};
+
+  return {
+    textureOnViewport: true,
+    hideEdgesOnViewport: tier === 'performance',
+    pixelRatio: 1,
+    ...(tier === 'webgl' && supportsWebGL() && {
+      webgl: true,
+      // Background the WebGL renderer blends label textures against (matches the container)
+      webglBgColor: isDark ? [17, 24, 39] : [249, 250, 251],
+    }),
+  } as Partial<cytoscape.CytoscapeOptions>;
+}
@@ -0,0 +1,134 @@
+import type { Core } from 'cytoscape';
+import type { RelationshipType } from '@/types';
+import {
+  buildPosterPdf,
+  getPosterPage,
+  getPosterPixelSize,
+  pickPosterOrientation,
+  renderPosterSvg,
+  type EdgeBundle,
+  type PosterEdge,
+  type PosterFormat,
+  type PosterNode,
+  type PosterOptions,
+  type PosterScene,
+} from '@/lib/graph';
+
+/**
+ * Snapshot what is on screen for a poster: visible artists, collapsed band
+ * boxes and relationships, at their current positions
+ */
+export function capturePosterScene(cy: Core, bundles: Map<string, EdgeBundle>): PosterScene {
+  const nodes: PosterNode[] = [];
+  cy.nodes(':visible').forEach(node => {
+    if (node.hasClass('band-compound')) {
+      const box = node.boundingBox({ includeLabels: false });
+      nodes.push({
+        id: node.id(),
+        label: node.data('label') ?? '',
+        type: 'group',
+        x: box.x1 + box.w / 2,
+        y: box.y1 + box.h / 2,
+        width: box.w,
+        height: box.h,
+        compound: true,
+      });
+      return;
+    }
+    const { x, y } = node.position();
+    nodes.push({
+      id: node.id(),
+      label: node.data('label') ?? '',
+      type: node.data('type') === 'group' ? 'group' : 'person',
+      x,
+      y,
+      width: node.width(),
+      height: node.height(),
+      root: node.data('root') === 'true',
+      founding: node.data('founding') === 'true',
+    });
+  });
+
+  const edges: PosterEdge[] = [];
+  cy.edges(':visible').forEach(edge => {
+    const bundle = edge.hasClass('bundle') ? bundles.get(edge.id()) : undefined;
+    const types: RelationshipType[] = bundle
+      ? [...new Set(bundle.links.map(link => link.type))]
+      : [edge.data('type')];
+    // Straight edges have no control points
+    const control = (edge.controlPoints() as ReturnType<typeof edge.controlPoints> | undefined)?.[0];
+    edges.push({
+      id: edge.id(),
+      types,
+      source: { ...edge.sourceEndpoint() },
+      target: { ...edge.targetEndpoint() },
+      control: control ? { ...control } : undefined,
+      bundleWeight: bundle ? bundle.weight : undefined,
+      collapsed: edge.hasClass('collapsed-edge'),
+    });
+  });
+
+  return { nodes, edges };
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to render poster'));
+    image.src = src;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('Poster is too large for this browser - try a smaller size'));
+    }, type, quality);
+  });
+}
+
+/** Draw the poster SVG onto a canvas at print resolution */
+async function rasterizePoster(svg: string, page: { width: number; height: number }): Promise<HTMLCanvasElement> {
+  const { width, height } = getPosterPixelSize(page);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return canvas;
+}
+
+/**
+ * Render the visible graph as a printable poster (SVG, or PNG/PDF at print resolution)
+ */
+export async function exportPoster(
+  cy: Core,
+  bundles: Map<string, EdgeBundle>,
+  format: PosterFormat,
+  options: PosterOptions
+): Promise<Blob> {
+  const scene = capturePosterScene(cy, bundles);
+  const orientation = options.orientation ?? pickPosterOrientation(scene, options.theme);
+  const svg = renderPosterSvg(scene, { ...options, orientation });
+  if (format === 'svg') return new Blob([svg], { type: 'image/svg+xml' });
+
+  const page = getPosterPage(options.size, orientation);
+  const canvas = await rasterizePoster(svg, page);
+  if (format === 'png') return canvasToBlob(canvas, 'image/png');
+
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  const pdf = buildPosterPdf(jpeg, canvas, page, `${options.title} - InterChord artist graph`);
+  return new Blob([pdf.buffer as ArrayBuffer], { type: 'application/pdf' });
+}
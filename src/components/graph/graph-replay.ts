@@ -0,0 +1,177 @@
+import type { Core } from 'cytoscape';
+import type { ArtistGraph } from '@/types';
+import { encodeGif, getActiveElementsAtYear, type GifFrame } from '@/lib/graph';
+
+export type ReplayExportFormat = 'gif' | 'webm';
+
+export const REPLAY_EXPORT_FORMATS: Array<{
+  value: ReplayExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}> = [
+  { value: 'gif', label: 'Animated GIF', extension: 'gif', mimeType: 'image/gif' },
+  { value: 'webm', label: 'WebM video', extension: 'webm', mimeType: 'video/webm' },
+];
+
+/** Time each year stays on screen in exported animations */
+const REPLAY_FRAME_MS = 600;
+/** Largest exported frame; graphs are scaled down to fit */
+const MAX_FRAME_WIDTH = 960;
+const MAX_FRAME_HEIGHT = 720;
+const WEBM_FPS = 30;
+
+/**
+ * Fade out artists and relationships that are not active in the given year
+ * Pass null to show everything again. The root artist always stays visible.
+ */
+export function applyReplayYear(cy: Core, graph: ArtistGraph, year: number | null): void {
+  if (year === null) {
+    cy.elements().removeClass('replay-hidden');
+    return;
+  }
+
+  const { nodeIds, edgeIds } = getActiveElementsAtYear(graph, year);
+  cy.batch(() => {
+    cy.nodes().forEach(node => {
+      node.toggleClass('replay-hidden', node.data('root') !== 'true' && !nodeIds.has(node.id()));
+    });
+    cy.edges().forEach(edge => {
+      edge.toggleClass('replay-hidden', !edgeIds.has(edge.id()));
+    });
+  });
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to render replay frame'));
+    image.src = src;
+  });
+}
+
+/**
+ * Render the graph as it looked in each year onto a canvas, one call per frame
+ */
+async function renderReplayFrames(
+  cy: Core,
+  graph: ArtistGraph,
+  range: { min: number; max: number },
+  isDark: boolean,
+  onFrame: (canvas: HTMLCanvasElement, year: number) => Promise<void> | void
+): Promise<void> {
+  const background = isDark ? '#111827' : '#ffffff';
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  cy.elements().addClass('replay-static');
+  try {
+    for (let year = range.min; year <= range.max; year++) {
+      applyReplayYear(cy, graph, year);
+      const image = await loadImage(cy.png({
+        output: 'base64uri',
+        full: true,
+        bg: background,
+        maxWidth: MAX_FRAME_WIDTH,
+        maxHeight: MAX_FRAME_HEIGHT,
+      }));
+
+      // Hidden elements keep their place, so every frame has the first frame's size
+      if (year === range.min) {
+        // Even dimensions keep video encoders happy
+        canvas.width = Math.max(2, Math.floor(image.width / 2) * 2);
+        canvas.height = Math.max(2, Math.floor(image.height / 2) * 2);
+      }
+
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      // Year caption in the top-left corner
+      context.font = 'bold 28px system-ui, sans-serif';
+      context.textBaseline = 'top';
+      context.fillStyle = isDark ? '#e5e7eb' : '#374151';
+      context.fillText(String(year), 16, 12);
+
+      await onFrame(canvas, year);
+    }
+  } finally {
+    cy.elements().removeClass('replay-static');
+  }
+}
+
+async function recordGif(
+  cy: Core,
+  graph: ArtistGraph,
+  range: { min: number; max: number },
+  isDark: boolean
+): Promise<Blob> {
+  const frames: GifFrame[] = [];
+  let size = { width: 0, height: 0 };
+
+  await renderReplayFrames(cy, graph, range, isDark, canvas => {
+    size = { width: canvas.width, height: canvas.height };
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height).data;
+    frames.push({ pixels, delayMs: REPLAY_FRAME_MS });
+  });
+
+  const gif = encodeGif(frames, size.width, size.height);
+  return new Blob([gif.buffer as ArrayBuffer], { type: 'image/gif' });
+}
+
+async function recordWebm(
+  cy: Core,
+  graph: ArtistGraph,
+  range: { min: number; max: number },
+  isDark: boolean
+): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported('video/webm')) {
+    throw new Error('WebM recording is not supported in this browser');
+  }
+
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder | null = null;
+
+  await renderReplayFrames(cy, graph, range, isDark, async canvas => {
+    // The recorder starts with the first frame, once the canvas has its final size
+    if (!recorder) {
+      recorder = new MediaRecorder(canvas.captureStream(WEBM_FPS), { mimeType: 'video/webm' });
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.start();
+    }
+    // Recording happens in real time: hold each frame for its duration
+    await new Promise(resolve => setTimeout(resolve, REPLAY_FRAME_MS));
+  });
+
+  const active = recorder as MediaRecorder | null;
+  if (!active) throw new Error('Nothing to record');
+  await new Promise<void>(resolve => {
+    active.onstop = () => resolve();
+    active.stop();
+  });
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+/**
+ * Record the year-by-year replay as an animated GIF or WebM video, in the browser
+ * The graph is left showing `restoreYear` afterwards.
+ */
+export async function exportReplayAnimation(
+  cy: Core,
+  graph: ArtistGraph,
+  range: { min: number; max: number },
+  format: ReplayExportFormat,
+  options: { isDark: boolean; restoreYear: number | null }
+): Promise<Blob> {
+  try {
+    return format === 'gif'
+      ? await recordGif(cy, graph, range, options.isDark)
+      : await recordWebm(cy, graph, range, options.isDark);
+  } finally {
+    applyReplayYear(cy, graph, options.restoreYear);
+  }
+}
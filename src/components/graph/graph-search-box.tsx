@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { GraphSearchMatch } from '@/lib/graph';
+
+interface GraphSearchBoxProps {
+  query: string;
+  matches: GraphSearchMatch[];
+  /** Index of the match currently zoomed to */
+  index: number;
+  onQueryChange: (query: string) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Find box over the graph: fuzzy matches artist names and instruments,
+ * Enter/↓ and Shift+Enter/↑ cycle through the matches, Escape closes
+ */
+export function GraphSearchBox({
+  query,
+  matches,
+  index,
+  onQueryChange,
+  onNext,
+  onPrevious,
+  onClose,
+}: GraphSearchBoxProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const current = matches[index];
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep graph shortcuts from firing while typing
+    event.stopPropagation();
+    if ((event.key === 'Enter' && event.shiftKey) || event.key === 'ArrowUp') {
+      event.preventDefault();
+      onPrevious();
+    } else if (event.key === 'Enter' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      onNext();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      role="search"
+      className="absolute top-4 left-1/2 -translate-x-1/2 z-20 w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-1.5"
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-1">
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Find artist or instrument..."
+          aria-label="Find in graph"
+          className="flex-1 min-w-0 text-sm px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+        />
+        <span className="text-xs tabular-nums text-gray-500 dark:text-gray-400 w-12 text-center" aria-live="polite">
+          {query.trim() ? (matches.length > 0 ? `${index + 1} of ${matches.length}` : 'None') : ''}
+        </span>
+        <button
+          onClick={onPrevious}
+          disabled={matches.length < 2}
+          className="w-6 h-6 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+          title="Previous match (Shift+Enter)"
+        >
+          ↑
+        </button>
+        <button
+          onClick={onNext}
+          disabled={matches.length < 2}
+          className="w-6 h-6 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 disabled:opacity-40"
+          title="Next match (Enter)"
+        >
+          ↓
+        </button>
+        <button
+          onClick={onClose}
+          className="w-6 h-6 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400"
+          title="Close (Escape)"
+        >
+          ✕
+        </button>
+      </div>
+      {current?.field === 'instrument' && (
+        <div className="px-2 pt-1 text-xs text-gray-500 dark:text-gray-400 truncate">
+          {current.name} · {current.instrument}
+        </div>
+      )}
+    </div>
+  );
+}
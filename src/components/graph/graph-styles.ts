@@ -6,6 +6,8 @@
  */
 
 import type cytoscape from 'cytoscape';
+import { RELATIONSHIP_TYPES } from '@/lib/relationships';
+import { DEFAULT_GRAPH_THEME, type CentralityMeasure, type GraphTheme } from '@/lib/graph';
 
 // Type for Cytoscape style value (can be string, number, or function)
 type StyleValue = string | number | ((ele: cytoscape.SingularElementArgument) => string | number);
@@ -16,13 +18,53 @@ interface StyleRule {
   style: Record<string, StyleValue>;
 }
 
+/** How node fill colour is chosen */
+export type NodeColorMode = 'type' | 'community';
+/** How node size is chosen */
+export type NodeSizeMode = 'type' | CentralityMeasure;
+
+export interface GraphStyleOptions {
+  /** 'community' colours nodes by their `community` data (index into COMMUNITY_COLORS) */
+  colorBy?: NodeColorMode;
+  /** A centrality measure sizes nodes by their `centrality` data (0..1) */
+  sizeBy?: NodeSizeMode;
+  /** Large-graph performance mode: zoom-dependent labels, straight edges, no transitions */
+  performanceMode?: boolean;
+  /** Colours, shapes and fonts (default: the default theme) */
+  theme?: GraphTheme;
+}
+
+/**
+ * Performance mode hides labels whose on-screen font size would be below this (px),
+ * so labels only appear once the user zooms in
+ */
+export const LOD_MIN_ZOOMED_FONT_SIZE = 8;
+
+/** Community fill colours, largest community first; smaller ones share a grey */
+export const COMMUNITY_COLORS = [
+  '#3b82f6', '#f97316', '#10b981', '#ec4899', '#eab308', '#8b5cf6',
+  '#06b6d4', '#ef4444', '#84cc16', '#a16207', '#6366f1', '#14b8a6',
+];
+export const COMMUNITY_OVERFLOW_COLOR = '#9ca3af';
+
+/** Halo colours for the two compared graphs and the artists they share */
+export const COMPARE_COLORS = {
+  a: '#0ea5e9',
+  b: '#f43f5e',
+  both: '#f59e0b',
+} as const;
+
 /**
  * Returns theme-aware Cytoscape styles.
  *
  * @param isDark - Whether dark mode is active
+ * @param options - Graph theme, analytics colour/size modes (default: by node type) and performance mode
  * @returns Array of style rules for Cytoscape
  */
-export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
+export function getCytoscapeStyle(isDark: boolean, options: GraphStyleOptions = {}): StyleRule[] {
+  const { colorBy = 'type', sizeBy = 'type', performanceMode = false, theme = DEFAULT_GRAPH_THEME } = options;
+  const { nodes, edges, foundingBadge, labels } = theme;
+
   return [
     // ==========================================
     // NODE BASE STYLES
@@ -34,8 +76,9 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
         'text-valign': 'bottom',
         'text-halign': 'center',
         'text-margin-y': 8,
-        'font-size': 10,
-        'font-weight': 500,
+        'font-family': labels.fontFamily,
+        'font-size': labels.fontSize,
+        'font-weight': labels.fontWeight,
         'color': isDark ? '#e5e7eb' : '#374151',
         'text-outline-color': isDark ? '#3d1515' : '#ffffff',
         'text-outline-width': 2,
@@ -44,7 +87,7 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
         'border-color': isDark ? '#4b5563' : '#ffffff',
         'width': 35,
         'height': 35,
-        'transition-property': 'background-color, border-color, width, height',
+        'transition-property': 'background-color, border-color, width, height, opacity',
         'transition-duration': 200,
         'overlay-opacity': 0,
         'text-wrap': 'wrap',
@@ -60,11 +103,12 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
     {
       selector: 'node[type = "group"]',
       style: {
-        'background-color': '#3b82f6',
+        'background-color': nodes.group.color,
+        'shape': nodes.group.shape,
         'width': 50,
         'height': 50,
-        'font-size': 12,
-        'font-weight': 600,
+        'font-size': labels.fontSize + 2,
+        'font-weight': Math.max(labels.fontWeight, 600),
       },
     },
 
@@ -72,7 +116,8 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
     {
       selector: 'node[type = "person"]',
       style: {
-        'background-color': '#10b981',
+        'background-color': nodes.person.color,
+        'shape': nodes.person.shape,
         'width': 35,
         'height': 35,
       },
@@ -143,6 +188,35 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
       },
     },
 
+    // ==========================================
+    // ANALYTICS MODES
+    // ==========================================
+    // After the root style so community colour and centrality size apply to it too
+
+    // Colour by community
+    ...(colorBy === 'community' ? [
+      ...COMMUNITY_COLORS.map((color, index) => ({
+        selector: `node[community = ${index}]`,
+        style: { 'background-color': color },
+      })),
+      {
+        selector: `node[community >= ${COMMUNITY_COLORS.length}]`,
+        style: { 'background-color': COMMUNITY_OVERFLOW_COLOR },
+      },
+    ] : []),
+
+    // Size by centrality
+    ...(sizeBy !== 'type' ? [
+      {
+        selector: 'node[centrality >= 0]',
+        style: {
+          'width': 'mapData(centrality, 0, 1, 20, 90)',
+          'height': 'mapData(centrality, 0, 1, 20, 90)',
+          'font-size': 'mapData(centrality, 0, 1, 9, 16)',
+        },
+      },
+    ] : []),
+
     // Not yet expanded nodes
     {
       selector: 'node[loaded = "false"]',
@@ -152,16 +226,16 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
       },
     },
 
-    // Founding members - purple border (solid)
+    // Founding members - theme badge colour border (solid)
     // Must come AFTER loaded="false" to override the dashed border
-    {
+    ...(foundingBadge.show ? [{
       selector: 'node[founding = "true"]',
       style: {
-        'border-color': '#8b5cf6',
+        'border-color': foundingBadge.color,
         'border-width': 4,
         'border-style': 'solid',
       },
-    },
+    }] : []),
 
     // Hovered node (from sidebar hover) - yellow ring like timeline highlights
     // Must come AFTER loaded="false" to override the dashed border
@@ -177,6 +251,50 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
       },
     },
 
+    // Nodes on a "six degrees" path between two artists
+    {
+      selector: 'node.path',
+      style: {
+        'border-color': '#8b5cf6',
+        'border-width': 5,
+        'border-style': 'solid',
+        'opacity': 1,
+        'z-index': 1001,
+      },
+    },
+
+    // Matches of the find-in-graph box - stay visible while the selection dims the rest
+    {
+      selector: 'node.search-match',
+      style: {
+        'border-color': '#f97316',
+        'border-width': 5,
+        'border-style': 'solid',
+        'opacity': 1,
+        'z-index': 1002,
+      },
+    },
+
+    // Collapsed band - compound box around the band node, labelled with the member count.
+    // Ignores events so clicks reach the band node (double-click expands it again)
+    {
+      selector: 'node.band-compound',
+      style: {
+        'shape': 'round-rectangle',
+        'background-color': isDark ? '#1e3a8a' : '#dbeafe',
+        'background-opacity': 0.35,
+        'border-width': 1.5,
+        'border-style': 'dashed',
+        'border-color': '#3b82f6',
+        'padding': 12,
+        'text-valign': 'top',
+        'text-margin-y': -4,
+        'font-size': 9,
+        'color': isDark ? '#93c5fd' : '#1d4ed8',
+        'events': 'no',
+      },
+    },
+
     // ==========================================
     // EDGE BASE STYLES
     // ==========================================
@@ -190,6 +308,8 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
         'arrow-scale': 0.8,
         'curve-style': 'bezier',
         'opacity': 0.6,
+        'transition-property': 'opacity',
+        'transition-duration': 200,
         'label': '',  // No label by default
         'font-size': 9,
         'text-background-color': isDark ? '#1f2937' : '#ffffff',
@@ -201,42 +321,65 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
     // ==========================================
     // EDGE TYPE STYLES
     // ==========================================
+    // Colours and line styles come from the graph theme
+    ...RELATIONSHIP_TYPES.map(type => {
+      const { color, lineStyle, width } = edges[type];
+      return {
+        selector: `edge[type = "${type}"]`,
+        style: {
+          'line-color': color,
+          'target-arrow-color': color,
+          'line-style': lineStyle,
+          'width': width,
+        },
+      };
+    }),
+
+    // Influence layer - thicker where MusicBrainz and Wikidata agree and closer to the root
     {
-      selector: 'edge[type = "member_of"]',
+      selector: 'edge[influenceWeight]',
       style: {
-        'line-color': '#93c5fd',
-        'target-arrow-color': '#93c5fd',
+        'width': 'mapData(influenceWeight, 0, 1, 1, 4)',
+        'arrow-scale': 1,
       },
     },
+
+    // Credits expansion - thicker the more recordings and releases are shared
     {
-      selector: 'edge[type = "founder_of"]',
+      selector: 'edge[creditCount]',
       style: {
-        'line-color': '#fcd34d',
-        'target-arrow-color': '#fcd34d',
-        'width': 2,
+        'width': 'mapData(creditCount, 1, 20, 1, 4)',
+        'target-arrow-shape': 'none',
       },
     },
+
+    // Derived edges (inferred, not MusicBrainz links) - fainter the less confident
     {
-      selector: 'edge[type = "collaboration"]',
+      selector: 'edge[derivedConfidence]',
       style: {
-        'line-color': '#6ee7b7',
-        'target-arrow-color': '#6ee7b7',
-        'line-style': 'dashed',
+        'opacity': 'mapData(derivedConfidence, 0, 1, 0.35, 0.9)',
+        'target-arrow-shape': 'none',
       },
     },
+
+    // Bundled edges (several relationships between two artists drawn as one) -
+    // neutral colour, thicker for more links and more years together
     {
-      selector: 'edge[type = "producer"]',
+      selector: 'edge.bundle',
       style: {
-        'line-color': '#c4b5fd',
-        'target-arrow-color': '#c4b5fd',
+        'width': 'mapData(bundleWeight, 0, 1, 2.5, 8)',
+        'line-color': isDark ? '#94a3b8' : '#64748b',
+        'line-style': 'solid',
+        'target-arrow-shape': 'none',
       },
     },
+
+    // Relationships of collapsed band members, redrawn from the band
     {
-      selector: 'edge[type = "side_project"]',
+      selector: 'edge.collapsed-edge',
       style: {
-        'line-color': '#f9a8d4',
-        'target-arrow-color': '#f9a8d4',
         'line-style': 'dashed',
+        'width': 'mapData(count, 1, 6, 1.5, 4)',
       },
     },
 
@@ -265,6 +408,14 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
       },
     },
 
+    // Highlighted bundles show their link count instead of a single tenure
+    {
+      selector: 'edge.bundle.highlighted',
+      style: {
+        'label': 'data(bundleLabel)',
+      },
+    },
+
     // Dimmed edges (not connected to selected)
     {
       selector: 'edge.dimmed',
@@ -272,5 +423,111 @@ export function getCytoscapeStyle(isDark: boolean): StyleRule[] {
         'opacity': 0.15,
       },
     },
+
+    // Edges along a "six degrees" path (after dimmed so the path stays visible)
+    {
+      selector: 'edge.path',
+      style: {
+        'width': 5,
+        'opacity': 1,
+        'line-color': '#8b5cf6',
+        'target-arrow-color': '#8b5cf6',
+        'z-index': 1000,
+      },
+    },
+
+    // ==========================================
+    // ARTIST COMPARISON
+    // ==========================================
+
+    // Halo showing which compared graph an artist comes from (overlay view)
+    {
+      selector: 'node[compareSide = "a"]',
+      style: {
+        'underlay-color': COMPARE_COLORS.a,
+        'underlay-opacity': 0.35,
+        'underlay-padding': 6,
+        'underlay-shape': 'ellipse',
+      },
+    },
+    {
+      selector: 'node[compareSide = "b"]',
+      style: {
+        'underlay-color': COMPARE_COLORS.b,
+        'underlay-opacity': 0.35,
+        'underlay-padding': 6,
+        'underlay-shape': 'ellipse',
+      },
+    },
+    // Artists in both graphs (shared members, producers, collaborators)
+    {
+      selector: 'node[compareSide = "both"]',
+      style: {
+        'underlay-color': COMPARE_COLORS.both,
+        'underlay-opacity': 0.6,
+        'underlay-padding': 9,
+        'underlay-shape': 'ellipse',
+        'border-color': COMPARE_COLORS.both,
+        'border-width': 4,
+        'font-weight': 700,
+      },
+    },
+    // The second compared artist is drawn like the root
+    {
+      selector: 'node[compareRoot = "true"]',
+      style: {
+        'width': 80,
+        'height': 80,
+        'font-size': 14,
+        'font-weight': 700,
+        'border-width': 6,
+      },
+    },
+
+    // ==========================================
+    // TIME SCRUBBER REPLAY
+    // ==========================================
+
+    // Artists and relationships not active in the replay year fade out
+    {
+      selector: '.replay-hidden',
+      style: {
+        'opacity': 0,
+        'events': 'no',
+      },
+    },
+
+    // No fades while rendering export frames
+    {
+      selector: '.replay-static',
+      style: {
+        'transition-duration': 0,
+      },
+    },
+
+    // ==========================================
+    // LARGE GRAPH PERFORMANCE MODE
+    // ==========================================
+    // Last so it overrides the edge shape and transitions above
+    ...(performanceMode ? [
+      {
+        selector: 'node',
+        style: {
+          'min-zoomed-font-size': LOD_MIN_ZOOMED_FONT_SIZE,
+          'transition-duration': 0,
+        },
+      },
+      {
+        // Haystack edges are the cheapest to draw (straight, no arrows)
+        selector: 'edge',
+        style: {
+          'curve-style': 'haystack',
+          'haystack-radius': 0,
+          'target-arrow-shape': 'none',
+          'min-zoomed-font-size': LOD_MIN_ZOOMED_FONT_SIZE,
+          'transition-duration': 0,
+        },
+      },
+    ] : []),
   ];
 }
@@ -0,0 +1,285 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { RELATIONSHIP_TYPE_CONFIG, RELATIONSHIP_TYPES } from '@/lib/relationships';
+import {
+  GRAPH_FONT_OPTIONS,
+  GRAPH_LINE_STYLES,
+  GRAPH_NODE_SHAPES,
+  createGraphThemeId,
+  deleteCustomGraphTheme,
+  exportGraphTheme,
+  importGraphTheme,
+  isPresetTheme,
+  saveCustomGraphTheme,
+  setActiveGraphTheme,
+  useGraphTheme,
+  type GraphArtistType,
+  type GraphEdgeStyle,
+  type GraphTheme,
+} from '@/lib/graph';
+
+const SELECT_CLASS = 'px-1.5 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-300';
+const COLOR_INPUT_CLASS = 'w-7 h-6 p-0 border border-gray-200 dark:border-gray-600 rounded cursor-pointer bg-transparent';
+
+const ARTIST_TYPES: Array<{ type: GraphArtistType; label: string }> = [
+  { type: 'group', label: 'Band/Group' },
+  { type: 'person', label: 'Person' },
+];
+
+const FONT_WEIGHTS = [400, 500, 600, 700];
+
+function downloadTheme(theme: GraphTheme): void {
+  const url = URL.createObjectURL(new Blob([exportGraphTheme(theme)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `interchord-theme-${theme.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'custom'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface GraphThemeEditorProps {
+  /** Theme to edit; presets are edited as a new custom copy */
+  theme: GraphTheme;
+  onClose: () => void;
+}
+
+/**
+ * Editor for a custom graph theme: edge colours and lines, node colours and
+ * shapes, the founding member badge and label fonts
+ */
+export function GraphThemeEditor({ theme, onClose }: GraphThemeEditorProps) {
+  const [draft, setDraft] = useState<GraphTheme>(() => isPresetTheme(theme.id)
+    ? { ...theme, id: createGraphThemeId(), name: `${theme.name} (custom)` }
+    : theme);
+
+  const updateEdge = (type: keyof GraphTheme['edges'], edge: Partial<GraphEdgeStyle>) => {
+    setDraft(prev => ({ ...prev, edges: { ...prev.edges, [type]: { ...prev.edges[type], ...edge } } }));
+  };
+
+  const handleSave = () => {
+    saveCustomGraphTheme({ ...draft, name: draft.name.trim() || 'Custom theme' });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-[1300]" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-900 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 w-[28rem] max-h-[85vh] flex flex-col text-xs text-gray-700 dark:text-gray-300"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Edit graph style"
+      >
+        <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full px-2 py-1 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-medium"
+            aria-label="Theme name"
+          />
+        </div>
+
+        <div className="p-3 space-y-4 overflow-y-auto">
+          {/* Artists */}
+          <section className="space-y-1.5">
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Artists</h4>
+            {ARTIST_TYPES.map(({ type, label }) => (
+              <div key={type} className="flex items-center gap-2">
+                <span className="w-24">{label}</span>
+                <input
+                  type="color"
+                  value={draft.nodes[type].color}
+                  onChange={(e) => setDraft({ ...draft, nodes: { ...draft.nodes, [type]: { ...draft.nodes[type], color: e.target.value } } })}
+                  className={COLOR_INPUT_CLASS}
+                  aria-label={`${label} colour`}
+                />
+                <select
+                  value={draft.nodes[type].shape}
+                  onChange={(e) => setDraft({ ...draft, nodes: { ...draft.nodes, [type]: { ...draft.nodes[type], shape: e.target.value as GraphTheme['nodes'][GraphArtistType]['shape'] } } })}
+                  className={SELECT_CLASS}
+                  aria-label={`${label} shape`}
+                >
+                  {GRAPH_NODE_SHAPES.map(shape => <option key={shape} value={shape}>{shape.replace('-', ' ')}</option>)}
+                </select>
+              </div>
+            ))}
+            <label className="flex items-center gap-2">
+              <span className="w-24">Founding badge</span>
+              <input
+                type="checkbox"
+                checked={draft.foundingBadge.show}
+                onChange={(e) => setDraft({ ...draft, foundingBadge: { ...draft.foundingBadge, show: e.target.checked } })}
+              />
+              <input
+                type="color"
+                value={draft.foundingBadge.color}
+                disabled={!draft.foundingBadge.show}
+                onChange={(e) => setDraft({ ...draft, foundingBadge: { ...draft.foundingBadge, color: e.target.value } })}
+                className={`${COLOR_INPUT_CLASS} disabled:opacity-40`}
+                aria-label="Founding badge colour"
+              />
+            </label>
+          </section>
+
+          {/* Labels */}
+          <section className="space-y-1.5">
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Labels</h4>
+            <div className="flex items-center gap-2">
+              <select
+                value={draft.labels.fontFamily}
+                onChange={(e) => setDraft({ ...draft, labels: { ...draft.labels, fontFamily: e.target.value } })}
+                className={SELECT_CLASS}
+                aria-label="Label font"
+              >
+                {/* Keep an imported font that isn't one of the options */}
+                {!GRAPH_FONT_OPTIONS.some(font => font.value === draft.labels.fontFamily) && (
+                  <option value={draft.labels.fontFamily}>{draft.labels.fontFamily}</option>
+                )}
+                {GRAPH_FONT_OPTIONS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+              </select>
+              <input
+                type="number"
+                min={6}
+                max={24}
+                value={draft.labels.fontSize}
+                onChange={(e) => setDraft({ ...draft, labels: { ...draft.labels, fontSize: Math.min(24, Math.max(6, Number(e.target.value) || 10)) } })}
+                className={`${SELECT_CLASS} w-14`}
+                aria-label="Label size"
+              />
+              <select
+                value={draft.labels.fontWeight}
+                onChange={(e) => setDraft({ ...draft, labels: { ...draft.labels, fontWeight: Number(e.target.value) } })}
+                className={SELECT_CLASS}
+                aria-label="Label weight"
+              >
+                {!FONT_WEIGHTS.includes(draft.labels.fontWeight) && (
+                  <option value={draft.labels.fontWeight}>{draft.labels.fontWeight}</option>
+                )}
+                {FONT_WEIGHTS.map(weight => <option key={weight} value={weight}>{weight === 400 ? 'Regular' : weight === 700 ? 'Bold' : weight}</option>)}
+              </select>
+            </div>
+          </section>
+
+          {/* Relationships */}
+          <section className="space-y-1.5">
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Relationships</h4>
+            {RELATIONSHIP_TYPES.map(type => {
+              const edge = draft.edges[type];
+              const { label } = RELATIONSHIP_TYPE_CONFIG[type];
+              return (
+                <div key={type} className="flex items-center gap-2">
+                  <span className="w-24 truncate">{label}</span>
+                  <input
+                    type="color"
+                    value={edge.color}
+                    onChange={(e) => updateEdge(type, { color: e.target.value })}
+                    className={COLOR_INPUT_CLASS}
+                    aria-label={`${label} colour`}
+                  />
+                  <select
+                    value={edge.lineStyle}
+                    onChange={(e) => updateEdge(type, { lineStyle: e.target.value as GraphEdgeStyle['lineStyle'] })}
+                    className={SELECT_CLASS}
+                    aria-label={`${label} line style`}
+                  >
+                    {GRAPH_LINE_STYLES.map(style => <option key={style} value={style}>{style}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    min={0.5}
+                    max={10}
+                    step={0.5}
+                    value={edge.width}
+                    onChange={(e) => updateEdge(type, { width: Math.min(10, Math.max(0.5, Number(e.target.value) || 1.5)) })}
+                    className={`${SELECT_CLASS} w-14`}
+                    aria-label={`${label} line width`}
+                  />
+                  <div className="flex-1" style={{ borderTopWidth: edge.width, borderTopStyle: edge.lineStyle, borderTopColor: edge.color }} />
+                </div>
+              );
+            })}
+          </section>
+        </div>
+
+        <div className="p-3 border-t border-gray-200 dark:border-gray-700 flex gap-2 justify-end">
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" onClick={handleSave}>Save theme</Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Graph style section of the settings menu: pick a preset or custom theme,
+ * edit it, delete custom themes and export/import them as JSON
+ */
+export function GraphThemeSettingsSection() {
+  const { theme, themes } = useGraphTheme();
+  const [isEditing, setIsEditing] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    const result = importGraphTheme(await file.text(), createGraphThemeId());
+    if (result.success) {
+      saveCustomGraphTheme(result.theme);
+      setImportErrors([]);
+    } else {
+      setImportErrors(result.errors);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={theme.id}
+        onChange={(e) => setActiveGraphTheme(e.target.value)}
+        className="w-full px-2 py-1.5 rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300"
+        aria-label="Graph style"
+      >
+        {themes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+      </select>
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => setIsEditing(true)}>
+          {isPresetTheme(theme.id) ? 'Customize' : 'Edit'}
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => downloadTheme(theme)} title="Download this theme as JSON">
+          Export
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()} title="Load a theme JSON file">
+          Import
+        </Button>
+        {!isPresetTheme(theme.id) && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => deleteCustomGraphTheme(theme.id)}
+            className="text-red-600 border-red-200 hover:bg-red-50 hover:border-red-300"
+            title="Delete this custom theme"
+          >
+            Delete
+          </Button>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) void handleImport(file);
+        }}
+      />
+      {importErrors.length > 0 && (
+        <ul className="text-xs text-red-600 dark:text-red-400 list-disc pl-4 space-y-0.5">
+          {importErrors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      {isEditing && <GraphThemeEditor theme={theme} onClose={() => setIsEditing(false)} />}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Tests for reading and writing the artist graph view state in the URL
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildArtistHref,
+  buildArtistViewParams,
+  getDefaultViewState,
+  parseArtistViewParams,
+  type ArtistViewState,
+} from './graph-url-state';
+
+const FOCUS = '0383dadf-2a4e-4d10-a46a-e9e041da8eb3';
+
+function viewState(overrides: Partial<ArtistViewState> = {}, filters: Partial<ArtistViewState['filters']> = {}): ArtistViewState {
+  const defaults = getDefaultViewState();
+  return { ...defaults, ...overrides, filters: { ...defaults.filters, ...filters } };
+}
+
+describe('buildArtistViewParams / parseArtistViewParams', () => {
+  it('should write nothing for the default view and read it back', () => {
+    const params = buildArtistViewParams(getDefaultViewState());
+
+    expect(params.toString()).toBe('');
+    expect(parseArtistViewParams(params)).toEqual(getDefaultViewState());
+  });
+
+  it.each<[string, ArtistViewState]>([
+    ['depth and layout', viewState({ depth: 3, layout: 'lineage' })],
+    ['relationship and node types', viewState({}, { relationshipTypes: new Set(['member_of', 'producer']), nodeTypes: new Set(['group']) })],
+    ['time and year range', viewState({}, { temporalFilter: 'current', yearRange: { min: 1970, max: 1985 } })],
+    ['edge layers', viewState({}, { edgeBundling: 'bundled', influenceHops: 2, creditsMinShared: 5, derivedEdges: true })],
+    ['focus', viewState({ focus: FOCUS })],
+  ])('should round-trip %s', (_, state) => {
+    const params = buildArtistViewParams(state);
+
+    expect(parseArtistViewParams(new URLSearchParams(params.toString()))).toEqual(state);
+  });
+
+  it.each([
+    'depth=0',
+    'depth=5',
+    'depth=1.5',
+    'depth=two',
+    'layout=spiral',
+    'types=not_a_type,also_not',
+    'years=1985-1970',
+    'years=70-85',
+    'years=1970',
+    'focus=not-an-mbid',
+  ])('should fall back to the default for ?%s', query => {
+    expect(parseArtistViewParams(new URLSearchParams(query))).toEqual(getDefaultViewState());
+  });
+
+  it('should keep the known relationship types and drop unknown ones', () => {
+    const state = parseArtistViewParams(new URLSearchParams('types=member_of,bogus'));
+
+    expect(state.filters.relationshipTypes).toEqual(new Set(['member_of']));
+  });
+
+  it('should read a focus MBID in lower case', () => {
+    expect(parseArtistViewParams(new URLSearchParams(`focus=${FOCUS.toUpperCase()}`)).focus).toBe(FOCUS);
+  });
+});
+
+describe('buildArtistHref', () => {
+  it('should keep commas readable in the relationship types', () => {
+    const state = viewState({ depth: 2 }, { relationshipTypes: new Set(['member_of', 'producer']) });
+
+    expect(buildArtistHref(FOCUS, state)).toBe(`/artist/${FOCUS}?depth=2&types=member_of,producer`);
+    expect(buildArtistHref(FOCUS)).toBe(`/artist/${FOCUS}`);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * URL (de)serialization for the artist graph view.
+ *
+ * Shareable links look like:
+ *   /artist/{mbid}?depth=2&layout=spoke&types=member_of,producer&years=1970-1985&focus={mbid}
+ *   /artist/{mbid}?compare={mbid}&view=overlay   (two-artist comparison)
+ *   /artist/{mbid}?edges=bundled                 (one edge per pair of artists)
+ *   /artist/{mbid}?influence=2                   (influence layer, two generations back)
+ *   /artist/{mbid}?credits=5                     (artists credited on 5+ of the same records)
+ *   /artist/{mbid}?derived=1                     (inferred label-mate / same-scene edges)
+ *
+ * Only values that differ from the defaults are written, so a plain
+ * /artist/{mbid} link opens the standard view. Unknown or malformed values
+ * are ignored rather than rejected - a half-broken link still opens the artist.
+ */
+
+import { MAX_INFLUENCE_HOPS, MAX_MIN_SHARED_CREDITS, type ExpansionDepth } from '@/lib/graph';
+import { LAYOUT_OPTIONS, type LayoutType } from './graph-layout';
+import { getDefaultFilters, type GraphFilterState } from './graph-filters';
+import { RELATIONSHIP_TYPES } from '@/lib/relationships';
+import type { RelationshipType } from '@/types';
+
+export interface ArtistViewState {
+  depth: ExpansionDepth;
+  layout: LayoutType;
+  filters: GraphFilterState;
+  /** Artist whose info (header, albums, timeline) is displayed, if not the root */
+  focus: string | null;
+}
+
+/** Two graphs next to each other, or both merged into one */
+export type CompareMode = 'split' | 'overlay';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidMbid(value: string | null | undefined): value is string {
+  return !!value && UUID_REGEX.test(value);
+}
+
+export function getDefaultViewState(): ArtistViewState {
+  return {
+    depth: 1,
+    layout: 'auto',
+    filters: getDefaultFilters(),
+    focus: null,
+  };
+}
+
+/**
+ * Read the graph view state from URL search params, falling back to defaults
+ */
+export function parseArtistViewParams(params: URLSearchParams): ArtistViewState {
+  const state = getDefaultViewState();
+
+  const depth = Number(params.get('depth'));
+  if (depth >= 1 && depth <= 4 && Number.isInteger(depth)) {
+    state.depth = depth as ExpansionDepth;
+  }
+
+  const layout = params.get('layout');
+  if (layout && LAYOUT_OPTIONS.some(o => o.value === layout)) {
+    state.layout = layout as LayoutType;
+  }
+
+  const types = params.get('types')?.split(',')
+    .filter((t): t is RelationshipType => RELATIONSHIP_TYPES.includes(t as RelationshipType));
+  if (types && types.length > 0) {
+    state.filters.relationshipTypes = new Set(types);
+  }
+
+  if (params.get('time') === 'current') {
+    state.filters.temporalFilter = 'current';
+  }
+
+  const nodes = params.get('nodes');
+  if (nodes === 'person' || nodes === 'group') {
+    state.filters.nodeTypes = new Set([nodes]);
+  }
+
+  const years = params.get('years')?.match(/^(\d{4})-(\d{4})$/);
+  if (years) {
+    const min = Number(years[1]);
+    const max = Number(years[2]);
+    if (min <= max) {
+      state.filters.yearRange = { min, max };
+    }
+  }
+
+  const edges = params.get('edges');
+  if (edges === 'bundled' || edges === 'expanded') {
+    state.filters.edgeBundling = edges;
+  }
+
+  const influence = Number(params.get('influence'));
+  if (influence >= 1 && influence <= MAX_INFLUENCE_HOPS && Number.isInteger(influence)) {
+    state.filters.influenceHops = influence;
+  }
+
+  const credits = Number(params.get('credits'));
+  if (credits >= 1 && credits <= MAX_MIN_SHARED_CREDITS && Number.isInteger(credits)) {
+    state.filters.creditsMinShared = credits;
+  }
+
+  if (params.get('derived') === '1') {
+    state.filters.derivedEdges = true;
+  }
+
+  const focus = params.get('focus');
+  if (isValidMbid(focus)) {
+    state.focus = focus.toLowerCase();
+  }
+
+  return state;
+}
+
+/**
+ * Serialize the graph view state, omitting values that match the defaults
+ */
+export function buildArtistViewParams(state: ArtistViewState): URLSearchParams {
+  const params = new URLSearchParams();
+  const defaults = getDefaultViewState();
+
+  if (state.depth !== defaults.depth) params.set('depth', String(state.depth));
+  if (state.layout !== defaults.layout) params.set('layout', state.layout);
+
+  const types = RELATIONSHIP_TYPES.filter(t => state.filters.relationshipTypes.has(t));
+  const defaultTypes = RELATIONSHIP_TYPES.filter(t => defaults.filters.relationshipTypes.has(t));
+  if (types.length > 0 && types.join(',') !== defaultTypes.join(',')) {
+    params.set('types', types.join(','));
+  }
+
+  if (state.filters.temporalFilter === 'current') params.set('time', 'current');
+
+  if (state.filters.nodeTypes.size === 1) {
+    params.set('nodes', [...state.filters.nodeTypes][0]);
+  }
+
+  if (state.filters.yearRange) {
+    params.set('years', `${state.filters.yearRange.min}-${state.filters.yearRange.max}`);
+  }
+
+  if (state.filters.edgeBundling !== 'auto') params.set('edges', state.filters.edgeBundling);
+  if (state.filters.influenceHops > 0) params.set('influence', String(state.filters.influenceHops));
+  if (state.filters.creditsMinShared > 0) params.set('credits', String(state.filters.creditsMinShared));
+  if (state.filters.derivedEdges) params.set('derived', '1');
+
+  if (state.focus) params.set('focus', state.focus);
+
+  return params;
+}
+
+/**
+ * Build the shareable URL path for an artist (optionally with view state)
+ */
+export function buildArtistHref(mbid: string, state?: ArtistViewState): string {
+  const query = state ? buildArtistViewParams(state).toString() : '';
+  // Commas are safe in query strings and keep `types=` readable
+  return `/artist/${mbid}${query ? `?${query.replace(/%2C/g, ',')}` : ''}`;
+}
+
+/**
+ * Read the second artist and view mode of a comparison link
+ */
+export function parseCompareParams(params: URLSearchParams): { compareId: string | null; mode: CompareMode } {
+  const compare = params.get('compare');
+  return {
+    compareId: isValidMbid(compare) ? compare.toLowerCase() : null,
+    mode: params.get('view') === 'overlay' ? 'overlay' : 'split',
+  };
+}
+
+/**
+ * Build the shareable URL path comparing two artists
+ */
+export function buildCompareHref(mbid: string, compareId: string, mode: CompareMode = 'split'): string {
+  const params = new URLSearchParams({ compare: compareId });
+  if (mode !== 'split') params.set('view', mode);
+  return `/artist/${mbid}?${params.toString()}`;
+}
@@ -2,9 +2,10 @@
 
 import { useRef } from 'react';
 import { Core } from 'cytoscape';
-import { ArtistGraph, LayoutType } from './artist-graph';
+import { ArtistGraph, LayoutType, type GraphWorkspaceSnapshot } from './artist-graph';
 import type { ArtistGraph as ArtistGraphType, ArtistNode } from '@/types';
 import type { GraphFilterState } from './graph-filters';
+import type { CompareSide } from '@/lib/graph';
 
 interface GraphViewProps {
   graph: ArtistGraphType;
@@ -22,6 +23,18 @@ interface GraphViewProps {
   networkDepth?: number;
   onLayoutChange?: (layout: LayoutType) => void;
   filters?: GraphFilterState;
+  /** Ordered artist MBIDs of a shortest path to highlight */
+  highlightedPath?: string[];
+  /** Called when the user opens a saved graph file */
+  onImportFile?: (file: File) => void;
+  /** Pinned/hidden nodes restored from a saved workspace */
+  initialWorkspace?: Pick<GraphWorkspaceSnapshot, 'pinnedNodeIds' | 'hiddenNodeIds'>;
+  /** Called when the user saves the current workspace */
+  onSaveWorkspace?: (snapshot: GraphWorkspaceSnapshot) => void;
+  /** Year span of the artist's timeline (time axis of the family tree layout) */
+  timelineYearRange?: { min: number; max: number } | null;
+  /** Comparison view: graph each artist comes from, and other roots to draw like the root */
+  comparison?: { sides: Map<string, CompareSide>; roots?: string[] };
 }
 
 export function GraphView({
@@ -37,6 +50,12 @@ export function GraphView({
   networkDepth = 1,
   onLayoutChange,
   filters,
+  highlightedPath,
+  onImportFile,
+  initialWorkspace,
+  onSaveWorkspace,
+  timelineYearRange,
+  comparison,
 }: GraphViewProps) {
   const cyRef = useRef<Core | null>(null);
 
@@ -78,12 +97,18 @@ export function GraphView({
         networkDepth={networkDepth}
         onLayoutChange={onLayoutChange}
         filters={filters}
+        highlightedPath={highlightedPath}
+        onImportFile={onImportFile}
+        initialWorkspace={initialWorkspace}
+        onSaveWorkspace={onSaveWorkspace}
+        timelineYearRange={timelineYearRange}
+        comparison={comparison}
       />
     </div>
   );
 }
 
 export { ArtistGraph } from './artist-graph';
-export type { LayoutType } from './artist-graph';
+export type { LayoutType, GraphWorkspaceSnapshot } from './artist-graph';
 export { GraphFilters, getDefaultFilters } from './graph-filters';
 export type { GraphFilterState } from './graph-filters';
@@ -0,0 +1,110 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { AutocompleteInput } from '@/components/autocomplete-input';
+import type { AutocompleteSuggestion } from '@/lib/musicbrainz/use-autocomplete';
+import type { ArtistPathResult } from '@/lib/graph';
+
+interface PathFinderProps {
+  /** Name of the artist the path starts from (graph root) */
+  sourceName: string;
+  /** Currently selected target artist, if any */
+  target: { id: string; name: string } | null;
+  onTargetChange: (target: { id: string; name: string } | null) => void;
+  result?: ArtistPathResult;
+  isLoading?: boolean;
+  error?: Error | null;
+  /** Called when a path artist is clicked (selects it in the graph) */
+  onArtistClick?: (artistId: string) => void;
+}
+
+const STOP_REASON_MESSAGES: Record<ArtistPathResult['stats']['stopReason'], string> = {
+  found: '',
+  exhausted: 'These artists are not connected.',
+  'max-depth': 'No connection within the maximum number of steps.',
+  timeout: 'Search timed out before a connection was found.',
+  'max-nodes': 'Search limit reached before a connection was found.',
+};
+
+/**
+ * "Six degrees" panel - pick a second artist and show the shortest chain
+ * of relationships connecting them to the current artist
+ */
+export function PathFinder({
+  sourceName,
+  target,
+  onTargetChange,
+  result,
+  isLoading,
+  error,
+  onArtistClick,
+}: PathFinderProps) {
+  const handleSelect = (suggestion: AutocompleteSuggestion) => {
+    onTargetChange({ id: suggestion.id, name: suggestion.name });
+  };
+
+  if (!target) {
+    return (
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-sm text-gray-600 dark:text-gray-400 shrink-0">
+          Connect {sourceName} to:
+        </span>
+        <div className="flex-1 min-w-[200px] max-w-md">
+          <AutocompleteInput
+            placeholder="Find a path to another artist..."
+            entityType="artist"
+            onSelect={handleSelect}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const names = new Map(result?.graph.nodes.map(n => [n.data.id, n.data.name]) ?? []);
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-sm">
+      <span className="text-gray-600 dark:text-gray-400 shrink-0">
+        {sourceName} → {target.name}:
+      </span>
+
+      {isLoading && (
+        <span className="animate-pulse text-gray-500 dark:text-gray-400">Searching for a connection...</span>
+      )}
+
+      {error && (
+        <span className="text-red-600 dark:text-red-400">Path search failed: {error.message}</span>
+      )}
+
+      {!isLoading && result && !result.found && (
+        <span className="text-gray-500 dark:text-gray-400">
+          {STOP_REASON_MESSAGES[result.stats.stopReason]}
+        </span>
+      )}
+
+      {!isLoading && result?.found && (
+        <span className="flex items-center gap-1 flex-wrap">
+          {result.path.map((id, index) => (
+            <span key={id} className="flex items-center gap-1">
+              {index > 0 && <span className="text-gray-400">→</span>}
+              <button
+                type="button"
+                onClick={() => onArtistClick?.(id)}
+                className="px-2 py-0.5 rounded-full bg-violet-100 dark:bg-violet-900/50 text-violet-800 dark:text-violet-300 hover:bg-violet-200 dark:hover:bg-violet-800/60"
+              >
+                {names.get(id) ?? id}
+              </button>
+            </span>
+          ))}
+          <span className="text-gray-500 dark:text-gray-400 ml-1">
+            ({result.path.length - 1} {result.path.length === 2 ? 'step' : 'steps'})
+          </span>
+        </span>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => onTargetChange(null)}>
+        Clear
+      </Button>
+    </div>
+  );
+}
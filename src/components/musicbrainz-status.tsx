@@ -2,11 +2,36 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { forceRecoveryCheck } from '@/lib/musicbrainz';
+import type { DataSourceHealth } from '@/lib/data-sources';
 
 interface ServerHealthStatus {
   isLocal: boolean;
   status: 'healthy' | 'degraded' | 'error';
   lastChecked: string | null;
+  providers: DataSourceHealth[];
+}
+
+/**
+ * One tooltip line per backend: state, latency and errors, or why it is down
+ */
+function describeProvider(provider: DataSourceHealth): string {
+  const { counters, latency } = provider;
+  if (!provider.available) {
+    const retryIn = provider.retryAt ? Math.max(0, Math.ceil((provider.retryAt - Date.now()) / 1000)) : null;
+    return [
+      `✗ ${provider.label}: down`,
+      provider.lastError?.message,
+      retryIn !== null ? `retry in ${retryIn}s` : null,
+    ].filter(Boolean).join(' · ');
+  }
+
+  const stats = [
+    latency.count > 0 ? `p95 ${latency.p95Ms}ms` : null,
+    counters.failures > 0 ? `${counters.failures} error${counters.failures === 1 ? '' : 's'}` : null,
+    counters.timeouts > 0 ? `${counters.timeouts} timeout${counters.timeouts === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+  const state = provider.state === 'half-open' ? ' (recovering)' : '';
+  return `✓ ${provider.label}${state}${stats.length > 0 ? ` · ${stats.join(' · ')}` : ''}`;
 }
 
 /**
@@ -18,6 +43,7 @@ export function MusicBrainzStatus() {
     isLocal: false,
     status: 'degraded',
     lastChecked: null,
+    providers: [],
   });
   const [isCheckingRecovery, setIsCheckingRecovery] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -31,6 +57,7 @@ export function MusicBrainzStatus() {
           isLocal: data.isLocal ?? data.sources?.localDb?.available ?? false,
           status: data.status,
           lastChecked: data.sources?.localDb?.lastChecked ?? null,
+          providers: data.providers ?? [],
         });
       }
     } catch (error) {
@@ -68,10 +95,12 @@ export function MusicBrainzStatus() {
 
   const isLocal = healthStatus.isLocal;
   const inFallback = healthStatus.status === 'degraded';
+  // Some other backend (e.g. Solr) is down while the local DB is fine
+  const hasDegradedBackend = healthStatus.providers.some(provider => !provider.available);
 
   // Color based on status
   const dotColor = isLocal
-    ? 'bg-green-500'
+    ? hasDegradedBackend ? 'bg-amber-400' : 'bg-green-500'
     : inFallback
       ? 'bg-yellow-500'
       : 'bg-blue-500';
@@ -91,6 +120,7 @@ export function MusicBrainzStatus() {
     isLocal ? '✓ Using local PostgreSQL database (fast, no rate limits)' : '',
     inFallback ? '⚠ Local DB unavailable - using public API (rate limited)' : '',
     !isLocal && !inFallback ? '⏱ Using public API (rate limited: 1 req/sec)' : '',
+    ...healthStatus.providers.map(describeProvider),
     healthStatus.lastChecked ? `Last checked: ${new Date(healthStatus.lastChecked).toLocaleTimeString()}` : '',
   ].filter(Boolean).join('\n');
 
@@ -101,12 +131,12 @@ export function MusicBrainzStatus() {
     >
       <span className={`w-1.5 h-1.5 rounded-full ${dotColor} ${isCheckingRecovery || isLoading ? '' : 'animate-pulse'}`} />
       <span className="font-mono text-[10px]">{statusLabel}</span>
-      {inFallback && (
+      {(inFallback || hasDegradedBackend) && (
         <button
           onClick={handleRetryClick}
           disabled={isCheckingRecovery}
           className="font-mono text-[10px] text-yellow-500 hover:text-yellow-400 underline cursor-pointer disabled:opacity-50"
-          title="Click to check if local database is available"
+          title="Click to check if the unavailable backends are back"
         >
           {isCheckingRecovery ? '...' : 'retry'}
         </button>
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  STORAGE_KEYS,
+  STORAGE_EVENTS,
+  addStorageEventListener,
+  listWorkspaces,
+  deleteWorkspace,
+  type GraphWorkspace,
+} from '@/lib/storage';
+
+/**
+ * Hook for the list of saved graph workspaces
+ * Stays in sync with saves/deletes in this tab and other tabs
+ */
+function useSavedWorkspaces(): GraphWorkspace[] {
+  const [workspaces, setWorkspaces] = useState<GraphWorkspace[]>([]);
+
+  useEffect(() => {
+    const loadWorkspaces = () => setWorkspaces(listWorkspaces());
+    loadWorkspaces();
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEYS.WORKSPACES) loadWorkspaces();
+    };
+
+    window.addEventListener('storage', handleStorage);
+    const removeCustomListener = addStorageEventListener(STORAGE_EVENTS.WORKSPACES_UPDATED, loadWorkspaces);
+
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      removeCustomListener();
+    };
+  }, []);
+
+  return workspaces;
+}
+
+interface SavedWorkspacesProps {
+  /** Open the graph for a workspace's root artist */
+  onOpen: (rootId: string) => void;
+}
+
+/**
+ * Saved graph workspaces on the home page, with open and delete actions
+ * Renders nothing until a workspace has been saved.
+ */
+export function SavedWorkspaces({ onOpen }: SavedWorkspacesProps) {
+  const workspaces = useSavedWorkspaces();
+
+  if (workspaces.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <span>💾</span>
+          Saved Workspaces
+          <span className="ml-auto text-xs font-normal text-gray-400">
+            {workspaces.length} saved
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {workspaces.map(workspace => (
+            <li key={workspace.rootId} className="flex items-center gap-3 py-2">
+              <button
+                onClick={() => onOpen(workspace.rootId)}
+                className="flex-1 min-w-0 text-left group"
+              >
+                <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                  {workspace.rootName}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {Object.keys(workspace.positions).length} artists
+                  {workspace.pinnedNodeIds.length > 0 && ` • ${workspace.pinnedNodeIds.length} pinned`}
+                  {workspace.hiddenNodeIds.length > 0 && ` • ${workspace.hiddenNodeIds.length} hidden`}
+                  {' • '}saved {new Date(workspace.savedAt).toLocaleDateString()}
+                </div>
+              </button>
+              <button
+                onClick={() => deleteWorkspace(workspace.rootId)}
+                className="text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                title={`Delete saved workspace for ${workspace.rootName}`}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,8 @@ import { Settings, Trash2, Check, Moon, Sun, Monitor } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { SpotifyAuth } from '@/components/spotify-auth';
 import { AppleMusicAuth } from '@/components/apple-music-auth';
+import { GraphThemeSettingsSection } from '@/components/graph/graph-theme-editor';
+import { CacheSettingsSection } from '@/components/cache-settings';
 import { Button } from '@/components/ui/button';
 import {
   STORAGE_KEYS,
@@ -149,6 +151,13 @@ export function SettingsDropdown() {
             </div>
           </div>
 
+          <div className="border-t border-gray-200 dark:border-gray-700 p-3">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+              Graph Style
+            </h3>
+            <GraphThemeSettingsSection />
+          </div>
+
           <div className="border-t border-gray-200 dark:border-gray-700 p-3">
             <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
               Connect Music Services
@@ -218,6 +227,13 @@ export function SettingsDropdown() {
             </div>
           </div>
 
+          <div className="border-t border-gray-200 dark:border-gray-700 p-3">
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
+              Cached Data
+            </h3>
+            <CacheSettingsSection />
+          </div>
+
           <div className="border-t border-gray-200 dark:border-gray-700 p-3">
             <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">
               Data Management
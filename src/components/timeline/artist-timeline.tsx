@@ -20,6 +20,8 @@ interface ArtistTimelineProps {
   onHeightChange?: (height: number) => void;
   /** Filter year range from graph filters - shows visual overlay */
   filterYearRange?: { min: number; max: number } | null;
+  /** Year shown by the graph's time scrubber - highlighted and kept in view */
+  currentYear?: number | null;
 }
 
 export const TIMELINE_MIN_HEIGHT = 80;
@@ -76,6 +78,7 @@ export function ArtistTimeline({
   highlightedArtistIds,
   onHeightChange,
   filterYearRange,
+  currentYear,
 }: ArtistTimelineProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [selectedEvent, setSelectedEvent] = useState<TimelineEvent | null>(null);
@@ -174,6 +177,20 @@ export function ArtistTimeline({
     hasScrolledRef.current = true;
   }, [musicCareerCenter, years]);
 
+  // Follow the time scrubber: keep the current year's column centered
+  useEffect(() => {
+    if (currentYear == null || !scrollContainerRef.current) return;
+    const index = years.indexOf(currentYear);
+    if (index === -1) return;
+
+    const columnWidth = 60;
+    const containerWidth = scrollContainerRef.current.clientWidth;
+    scrollContainerRef.current.scrollTo({
+      left: Math.max(0, (index * columnWidth) - (containerWidth / 2) + (columnWidth / 2)),
+      behavior: 'smooth',
+    });
+  }, [currentYear, years]);
+
   const handleEventClick = useCallback(
     (event: TimelineEvent, e: React.MouseEvent) => {
       e.stopPropagation();
@@ -272,6 +289,7 @@ export function ArtistTimeline({
                       isInFilterRange={!filterYearRange || (year >= filterYearRange.min && year <= filterYearRange.max)}
                       isFilterBoundaryStart={filterYearRange?.min === year}
                       isFilterBoundaryEnd={filterYearRange?.max === year}
+                      isCurrentYear={currentYear === year}
                     />
                   ))}
                 </div>
@@ -302,6 +320,7 @@ export function ArtistTimeline({
                     const isBoundaryStart = filterYearRange?.min === year;
                     const isBoundaryEnd = filterYearRange?.max === year;
                     const isBoundary = isBoundaryStart || isBoundaryEnd;
+                    const isCurrent = currentYear === year;
                     return (
                       <div key={year} className={`min-w-[60px] text-center transition-opacity relative ${isInFilterRange ? '' : 'opacity-30'}`}>
                         {/* Boundary line extending into year axis */}
@@ -312,11 +331,13 @@ export function ArtistTimeline({
                           <div className="absolute right-0 top-0 bottom-0 w-px bg-blue-400/50" />
                         )}
                         <span className={`text-xs ${
-                          isBoundary
-                            ? 'font-bold text-blue-600 dark:text-blue-400'
-                            : isInFilterRange
-                              ? hasEvents ? 'font-medium text-gray-700 dark:text-gray-300' : 'font-medium text-gray-300 dark:text-gray-600'
-                              : 'font-medium text-gray-400 dark:text-gray-500'
+                          isCurrent
+                            ? 'font-bold text-white bg-blue-500 rounded px-1'
+                            : isBoundary
+                              ? 'font-bold text-blue-600 dark:text-blue-400'
+                              : isInFilterRange
+                                ? hasEvents ? 'font-medium text-gray-700 dark:text-gray-300' : 'font-medium text-gray-300 dark:text-gray-600'
+                                : 'font-medium text-gray-400 dark:text-gray-500'
                         }`}>
                           {year}
                         </span>
@@ -353,14 +374,19 @@ interface EventColumnProps {
   isInFilterRange: boolean;
   isFilterBoundaryStart?: boolean;
   isFilterBoundaryEnd?: boolean;
+  isCurrentYear?: boolean;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars -- year kept in props for potential future use
-function EventColumn({ year, events, onEventClick, onEventHover, onHoverAlbum, highlightedAlbum, highlightedArtistIds, isInFilterRange, isFilterBoundaryStart, isFilterBoundaryEnd }: EventColumnProps) {
+function EventColumn({ year, events, onEventClick, onEventHover, onHoverAlbum, highlightedAlbum, highlightedArtistIds, isInFilterRange, isFilterBoundaryStart, isFilterBoundaryEnd, isCurrentYear }: EventColumnProps) {
   const hasEvents = events.length > 0;
 
   return (
     <div className={`flex flex-col items-center justify-end min-w-[60px] relative transition-opacity ${isInFilterRange ? '' : 'opacity-30'}`}>
+      {/* Time scrubber cursor */}
+      {isCurrentYear && (
+        <div className="absolute inset-0 bg-blue-100/70 dark:bg-blue-900/40 rounded-t" />
+      )}
       {/* Filter boundary line - start */}
       {isFilterBoundaryStart && (
         <div className="absolute left-0 top-0 bottom-0 w-px bg-blue-400/50 z-20" />
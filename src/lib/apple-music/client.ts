@@ -97,7 +97,7 @@ export async function searchCatalogArtist(
 ): Promise<AppleMusicArtist | null> {
   // Check cache first
   const cacheKey = `apple-music-search-${artistName.toLowerCase()}`;
-  const cached = cacheGet<AppleMusicArtist | null>(cacheKey);
+  const cached = await cacheGet<AppleMusicArtist | null>('enrichment', cacheKey);
   if (cached !== null) {
     return cached;
   }
@@ -124,7 +124,7 @@ export async function searchCatalogArtist(
     const result = exactMatch || artists[0] || null;
 
     // Cache the result
-    cacheSet(cacheKey, result, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, result, CacheTTL.LONG);
 
     return result;
   } catch (error) {
@@ -142,7 +142,7 @@ export async function getCatalogArtist(
 ): Promise<AppleMusicArtist | null> {
   // Check cache first
   const cacheKey = `apple-music-artist-${artistId}`;
-  const cached = cacheGet<AppleMusicArtist>(cacheKey);
+  const cached = await cacheGet<AppleMusicArtist>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -159,7 +159,7 @@ export async function getCatalogArtist(
     const artist = response.data.data[0] || null;
 
     if (artist) {
-      cacheSet(cacheKey, artist, CacheTTL.LONG);
+      await cacheSet('enrichment', cacheKey, artist, CacheTTL.LONG);
     }
 
     return artist;
@@ -179,7 +179,7 @@ export async function getCatalogArtistAlbums(
 ): Promise<AppleMusicAlbum[]> {
   // Check cache first
   const cacheKey = `apple-music-albums-${artistId}`;
-  const cached = cacheGet<AppleMusicAlbum[]>(cacheKey);
+  const cached = await cacheGet<AppleMusicAlbum[]>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -194,7 +194,7 @@ export async function getCatalogArtistAlbums(
     );
 
     const albums = response.data.data || [];
-    cacheSet(cacheKey, albums, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, albums, CacheTTL.LONG);
 
     return albums;
   } catch (error) {
@@ -1,4 +1,4 @@
-import { cacheGet, cacheSet, CacheTTL } from '@/lib/cache';
+import { cacheGet, cacheSet, cacheDelete, CacheTTL } from '@/lib/cache';
 import { searchCatalogArtist, getCatalogArtistAlbums, formatArtworkUrl } from './client';
 import { getMusicKitInstance } from './config';
 import { enrichArtistWithFanart } from '@/lib/fanart';
@@ -98,7 +98,7 @@ export async function enrichArtistWithAppleMusic(
 ): Promise<ArtistNode> {
   // Check if we already have enriched data cached
   const cacheKey = `${ENRICHMENT_CACHE_PREFIX}${artist.id}`;
-  const cached = cacheGet<Partial<ArtistNode>>(cacheKey);
+  const cached = await cacheGet<Partial<ArtistNode>>('enrichment', cacheKey);
   if (cached && (cached.imageUrl || cached.albums?.length)) {
     return { ...artist, ...cached };
   }
@@ -116,7 +116,7 @@ export async function enrichArtistWithAppleMusic(
 
     if (!catalogArtist) {
       // Artist not found in catalog, cache empty result to avoid repeated lookups
-      cacheSet(cacheKey, {}, CacheTTL.LONG);
+      await cacheSet('enrichment', cacheKey, {}, CacheTTL.LONG);
       return artist;
     }
 
@@ -147,7 +147,7 @@ export async function enrichArtistWithAppleMusic(
     };
 
     // Cache the enrichment data
-    cacheSet(cacheKey, enrichmentData, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, enrichmentData, CacheTTL.LONG);
 
     return { ...artist, ...enrichmentData };
   } catch (error) {
@@ -189,12 +189,6 @@ export function isArtistEnriched(artist: ArtistNode): boolean {
 /**
  * Clear enrichment cache for an artist
  */
-export function clearEnrichmentCache(artistId: string): void {
-  const cacheKey = `${ENRICHMENT_CACHE_PREFIX}${artistId}`;
-  // Remove from localStorage
-  try {
-    localStorage.removeItem(cacheKey);
-  } catch {
-    // Ignore storage errors
-  }
+export async function clearEnrichmentCache(artistId: string): Promise<void> {
+  await cacheDelete('enrichment', `${ENRICHMENT_CACHE_PREFIX}${artistId}`);
 }
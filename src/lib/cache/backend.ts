@@ -0,0 +1,142 @@
+/**
+ * Storage backends for the browser cache
+ *
+ * Entry metadata and payloads are kept in separate object stores so the size
+ * index can be rebuilt on startup without reading every cached payload.
+ */
+
+export interface CacheEntryMeta {
+  /** `${namespace}:${key}` */
+  id: string;
+  namespace: string;
+  key: string;
+  /** Approximate size of the serialized payload in bytes */
+  size: number;
+  expiresAt: number;
+  lastAccess: number;
+}
+
+export interface CacheBackend {
+  /** Metadata for every stored entry */
+  list(): Promise<CacheEntryMeta[]>;
+  /** Payload for an entry, or undefined if it is missing */
+  read(id: string): Promise<unknown>;
+  /** Store an entry; rejects with a QuotaExceededError when storage is full */
+  write(meta: CacheEntryMeta, data: unknown): Promise<void>;
+  /** Update metadata only (e.g. last access time) */
+  touch(meta: CacheEntryMeta): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+const DB_NAME = 'interchord-cache';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const DATA_STORE = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+/**
+ * IndexedDB backend - the default in browsers
+ */
+export class IndexedDbBackend implements CacheBackend {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+      };
+      this.db = promisify(request);
+      // Allow a later call to retry if opening failed (e.g. blocked upgrade)
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  async list(): Promise<CacheEntryMeta[]> {
+    const db = await this.open();
+    return promisify(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  }
+
+  async read(id: string): Promise<unknown> {
+    const db = await this.open();
+    return promisify(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(id));
+  }
+
+  async write(meta: CacheEntryMeta, data: unknown): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    tx.objectStore(DATA_STORE).put(data, meta.id);
+    tx.objectStore(META_STORE).put(meta);
+    await transactionDone(tx);
+  }
+
+  async touch(meta: CacheEntryMeta): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(meta);
+    await transactionDone(tx);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await this.open();
+    const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    const metaStore = tx.objectStore(META_STORE);
+    const dataStore = tx.objectStore(DATA_STORE);
+    for (const id of ids) {
+      metaStore.delete(id);
+      dataStore.delete(id);
+    }
+    await transactionDone(tx);
+  }
+}
+
+/**
+ * In-memory backend, used where IndexedDB is unavailable (and in tests)
+ */
+export class MemoryBackend implements CacheBackend {
+  private meta = new Map<string, CacheEntryMeta>();
+  private data = new Map<string, unknown>();
+
+  async list(): Promise<CacheEntryMeta[]> {
+    return [...this.meta.values()].map(meta => ({ ...meta }));
+  }
+
+  // Payloads are cloned like IndexedDB does, so callers can't mutate cached values
+  async read(id: string): Promise<unknown> {
+    return this.data.has(id) ? structuredClone(this.data.get(id)) : undefined;
+  }
+
+  async write(meta: CacheEntryMeta, data: unknown): Promise<void> {
+    this.meta.set(meta.id, { ...meta });
+    this.data.set(meta.id, structuredClone(data));
+  }
+
+  async touch(meta: CacheEntryMeta): Promise<void> {
+    if (this.meta.has(meta.id)) this.meta.set(meta.id, { ...meta });
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.meta.delete(id);
+      this.data.delete(id);
+    }
+  }
+}
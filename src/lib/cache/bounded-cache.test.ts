@@ -0,0 +1,128 @@
+/**
+ * Tests for the size-bounded browser cache (budget, LRU eviction, quota errors)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryBackend, type CacheEntryMeta } from './backend';
+import { BoundedCache, estimateSize } from './bounded-cache';
+
+const HOUR = 60 * 60 * 1000;
+// Each 'x'.repeat(48) payload is 100 bytes once serialized
+const payload = 'x'.repeat(48);
+
+describe('BoundedCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should evict the least recently used entries to stay within budget', async () => {
+    expect(estimateSize(payload)).toBe(100);
+    const cache = new BoundedCache(new MemoryBackend(), { budgetBytes: 350 });
+
+    await cache.set('enrichment', 'a', payload, HOUR);
+    vi.advanceTimersByTime(1000);
+    await cache.set('enrichment', 'b', payload, HOUR);
+    vi.advanceTimersByTime(1000);
+    await cache.set('wikidata', 'c', payload, HOUR);
+    vi.advanceTimersByTime(1000);
+    await cache.get('enrichment', 'a');
+    await cache.set('wikidata', 'd', payload, HOUR);
+
+    expect(await cache.get('enrichment', 'b')).toBeNull();
+    expect(await cache.get('enrichment', 'a')).toBe(payload);
+    expect((await cache.usage()).totalBytes).toBe(300);
+  });
+
+  it('should drop expired entries when loading and on read', async () => {
+    const backend = new MemoryBackend();
+    const first = new BoundedCache(backend, { budgetBytes: 10_000 });
+    await first.set('relationships', 'short', payload, HOUR);
+    await first.set('relationships', 'long', payload, 24 * HOUR);
+
+    vi.advanceTimersByTime(2 * HOUR);
+    expect(await first.get('relationships', 'short')).toBeNull();
+
+    await first.set('relationships', 'soon', payload, HOUR);
+    vi.advanceTimersByTime(2 * HOUR);
+    // A new session sweeps what expired while the app was closed
+    const second = new BoundedCache(backend, { budgetBytes: 10_000 });
+    expect((await second.usage()).namespaces.relationships).toEqual({ entries: 1, bytes: 100, expired: 0 });
+    expect((await backend.list()).map(meta => meta.key)).toEqual(['long']);
+  });
+
+  it('should lower the budget and retry when the browser quota is exceeded', async () => {
+    const backend = new MemoryBackend();
+    const write = backend.write.bind(backend);
+    let stored = 0;
+    vi.spyOn(backend, 'write').mockImplementation(async (meta: CacheEntryMeta, data: unknown) => {
+      // Storage only has room for two entries
+      if (stored >= 2) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      stored++;
+      await write(meta, data);
+    });
+    vi.spyOn(backend, 'remove').mockImplementation(async ids => { stored -= ids.length; });
+
+    const cache = new BoundedCache(backend, { budgetBytes: 10_000 });
+    await cache.set('enrichment', 'a', payload, HOUR);
+    await cache.set('enrichment', 'b', payload, HOUR);
+    await cache.set('enrichment', 'c', payload, HOUR);
+
+    const usage = await cache.usage();
+    expect(usage.budgetBytes).toBe(200);
+    expect(usage.totalBytes).toBeLessThanOrEqual(200);
+    expect(await cache.get('enrichment', 'c')).toBe(payload);
+  });
+
+  it('should count an entry once when the same key is written concurrently', async () => {
+    const cache = new BoundedCache(new MemoryBackend(), { budgetBytes: 10_000 });
+    await cache.set('relationships', 'other', payload, HOUR);
+
+    await Promise.all([
+      cache.set('enrichment', 'a', payload, HOUR),
+      cache.set('enrichment', 'a', payload + payload, HOUR),
+      cache.set('enrichment', 'a', payload, HOUR),
+    ]);
+
+    const usage = await cache.usage();
+    expect(usage.namespaces.enrichment).toEqual({ entries: 1, bytes: 100, expired: 0 });
+    expect(usage.totalBytes).toBe(200);
+
+    await cache.clear();
+    expect((await cache.usage()).totalBytes).toBe(0);
+  });
+
+  it('should load the index again after a failed load', async () => {
+    const backend = new MemoryBackend();
+    await backend.write({ id: 'enrichment:a', namespace: 'enrichment', key: 'a', size: 100, expiresAt: Date.now() + HOUR, lastAccess: Date.now() }, payload);
+    vi.spyOn(backend, 'list').mockRejectedValueOnce(new DOMException('Database is closing', 'InvalidStateError'));
+
+    const cache = new BoundedCache(backend, { budgetBytes: 10_000 });
+    await expect(cache.get('enrichment', 'a')).rejects.toThrow('Database is closing');
+    expect(await cache.get('enrichment', 'a')).toBe(payload);
+    expect((await cache.usage()).totalBytes).toBe(100);
+  });
+
+  it('should report usage per namespace and clear namespaces selectively', async () => {
+    const cache = new BoundedCache(new MemoryBackend(), { budgetBytes: 10_000 });
+    await cache.set('wikidata', 'q1', payload, HOUR);
+    await cache.set('wikidata', 'q2', payload, 3 * HOUR);
+    await cache.set('supplement', 'founders', payload, HOUR);
+    vi.advanceTimersByTime(2 * HOUR);
+
+    expect((await cache.usage()).namespaces).toEqual({
+      wikidata: { entries: 2, bytes: 200, expired: 1 },
+      supplement: { entries: 1, bytes: 100, expired: 1 },
+    });
+
+    await cache.clear('wikidata');
+    expect(await cache.usage()).toMatchObject({ totalBytes: 100, namespaces: { supplement: { entries: 1 } } });
+    expect(await cache.sweepExpired()).toBe(1);
+    expect((await cache.usage()).totalBytes).toBe(0);
+  });
+});
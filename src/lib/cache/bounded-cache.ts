@@ -0,0 +1,218 @@
+/**
+ * Size-bounded, namespaced cache over a storage backend
+ *
+ * Keeps an in-memory index of entry metadata (size, expiry, last access) so
+ * it can enforce a byte budget: writes that would exceed it first evict
+ * expired entries, then the least recently used ones. A QuotaExceededError
+ * from the browser lowers the budget to what actually fit and evicts before
+ * retrying once, instead of silently giving up on caching.
+ */
+
+import type { CacheBackend, CacheEntryMeta } from './backend';
+
+export interface NamespaceUsage {
+  entries: number;
+  bytes: number;
+  expired: number;
+}
+
+export interface CacheUsage {
+  budgetBytes: number;
+  totalBytes: number;
+  namespaces: Record<string, NamespaceUsage>;
+}
+
+export interface BoundedCacheOptions {
+  budgetBytes: number;
+  /** Expired entries are swept at most this often, piggybacking on writes (default 1 hour) */
+  sweepIntervalMs?: number;
+}
+
+// Evict down to this share of the budget so every write doesn't evict again
+const EVICTION_TARGET = 0.9;
+// Last-access times are only persisted when this stale, to avoid a write per read
+const TOUCH_PERSIST_MS = 60 * 60 * 1000;
+
+/**
+ * Approximate in-memory size of a value once serialized (UTF-16, 2 bytes per char)
+ */
+export function estimateSize(value: unknown): number {
+  return (JSON.stringify(value) ?? '').length * 2;
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException
+    && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+export class BoundedCache {
+  private index: Map<string, CacheEntryMeta> | null = null;
+  private loading: Promise<Map<string, CacheEntryMeta>> | null = null;
+  private totalBytes = 0;
+  private budgetBytes: number;
+  private sweepIntervalMs: number;
+  private lastSweep = 0;
+
+  constructor(private backend: CacheBackend, options: BoundedCacheOptions) {
+    this.budgetBytes = options.budgetBytes;
+    this.sweepIntervalMs = options.sweepIntervalMs ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Load the metadata index once, dropping anything that expired while the app was closed
+   * A failed load is retried on the next call instead of failing every call after it.
+   */
+  private async ready(): Promise<Map<string, CacheEntryMeta>> {
+    if (this.index) return this.index;
+    if (!this.loading) {
+      this.loading = this.backend.list().then(async entries => {
+        this.index = new Map(entries.map(meta => [meta.id, meta]));
+        this.totalBytes = entries.reduce((sum, meta) => sum + meta.size, 0);
+        await this.sweepExpired();
+        return this.index;
+      }).catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async removeEntries(metas: CacheEntryMeta[]): Promise<void> {
+    if (metas.length === 0) return;
+    for (const meta of metas) {
+      if (this.index?.delete(meta.id)) this.totalBytes -= meta.size;
+    }
+    await this.backend.remove(metas.map(meta => meta.id));
+  }
+
+  /**
+   * Evict expired entries, then least recently used ones, until at most targetBytes are used
+   */
+  private async evictTo(targetBytes: number, keepId?: string): Promise<void> {
+    if (this.totalBytes <= targetBytes) return;
+    const now = Date.now();
+    const candidates = [...(await this.ready()).values()]
+      .filter(meta => meta.id !== keepId)
+      .sort((a, b) => Number(b.expiresAt <= now) - Number(a.expiresAt <= now) || a.lastAccess - b.lastAccess);
+
+    const evicted: CacheEntryMeta[] = [];
+    let remaining = this.totalBytes;
+    for (const meta of candidates) {
+      if (remaining <= targetBytes) break;
+      evicted.push(meta);
+      remaining -= meta.size;
+    }
+    await this.removeEntries(evicted);
+  }
+
+  async get<T>(namespace: string, key: string): Promise<T | null> {
+    const index = await this.ready();
+    const meta = index.get(`${namespace}:${key}`);
+    if (!meta) return null;
+
+    const now = Date.now();
+    if (now > meta.expiresAt) {
+      await this.removeEntries([meta]);
+      return null;
+    }
+
+    const data = await this.backend.read(meta.id);
+    if (data === undefined) {
+      // Payload missing (e.g. cleared by the browser) - forget the entry
+      await this.removeEntries([meta]);
+      return null;
+    }
+
+    const previousAccess = meta.lastAccess;
+    meta.lastAccess = now;
+    if (now - previousAccess >= TOUCH_PERSIST_MS) {
+      this.backend.touch(meta).catch(() => {});
+    }
+    return data as T;
+  }
+
+  async set<T>(namespace: string, key: string, data: T, ttlMs: number): Promise<void> {
+    const index = await this.ready();
+    const now = Date.now();
+    const id = `${namespace}:${key}`;
+    const meta: CacheEntryMeta = { id, namespace, key, size: estimateSize(data), expiresAt: now + ttlMs, lastAccess: now };
+
+    if (meta.size > this.budgetBytes) {
+      console.warn(`Cache entry ${id} (${meta.size} bytes) exceeds the cache budget, not caching`);
+      return;
+    }
+
+    if (now - this.lastSweep >= this.sweepIntervalMs) {
+      await this.sweepExpired();
+    }
+
+    const previousSize = index.get(id)?.size ?? 0;
+    await this.evictTo(this.budgetBytes * EVICTION_TARGET - meta.size + previousSize, id);
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await this.backend.write(meta, data);
+        // Re-read the size: another write or delete of this id may have landed while awaiting
+        this.totalBytes += meta.size - (index.get(id)?.size ?? 0);
+        index.set(id, meta);
+        return;
+      } catch (error) {
+        if (!isQuotaError(error) || attempt > 0) {
+          console.warn('Cache write failed:', error);
+          return;
+        }
+        // The browser's quota is tighter than our budget - adopt what actually fit
+        this.budgetBytes = Math.max(meta.size, Math.min(this.budgetBytes, this.totalBytes));
+        console.warn(`Storage quota reached, cache budget lowered to ${this.budgetBytes} bytes`);
+        await this.evictTo(this.budgetBytes * EVICTION_TARGET - meta.size, id);
+      }
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    const meta = (await this.ready()).get(`${namespace}:${key}`);
+    if (meta) await this.removeEntries([meta]);
+  }
+
+  /**
+   * Remove every entry, or only those in one namespace
+   */
+  async clear(namespace?: string): Promise<void> {
+    const index = await this.ready();
+    await this.removeEntries([...index.values()].filter(meta => !namespace || meta.namespace === namespace));
+  }
+
+  /**
+   * Remove expired entries, returning how many were removed
+   */
+  async sweepExpired(): Promise<number> {
+    const index = this.index ?? await this.ready();
+    const now = Date.now();
+    this.lastSweep = now;
+    const expired = [...index.values()].filter(meta => meta.expiresAt <= now);
+    await this.removeEntries(expired);
+    return expired.length;
+  }
+
+  /**
+   * Change the budget, evicting immediately if the cache is now over it
+   */
+  async setBudget(budgetBytes: number): Promise<void> {
+    this.budgetBytes = budgetBytes;
+    await this.evictTo(budgetBytes);
+  }
+
+  async usage(): Promise<CacheUsage> {
+    const index = await this.ready();
+    const now = Date.now();
+    const namespaces: Record<string, NamespaceUsage> = {};
+    for (const meta of index.values()) {
+      const usage = namespaces[meta.namespace] ??= { entries: 0, bytes: 0, expired: 0 };
+      usage.entries++;
+      usage.bytes += meta.size;
+      if (meta.expiresAt <= now) usage.expired++;
+    }
+    return { budgetBytes: this.budgetBytes, totalBytes: this.totalBytes, namespaces };
+  }
+}
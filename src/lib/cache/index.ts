@@ -1,41 +1,86 @@
 /**
- * Simple localStorage-based cache for MVP
- * Can be replaced with Redis later for production
+ * Browser cache for API responses, stored in IndexedDB
+ *
+ * Entries live in namespaces that can be inspected and purged separately
+ * (see CacheSettingsSection). The cache holds at most a byte budget derived
+ * from the browser's storage quota, evicting least recently used entries to
+ * stay under it.
  */
 
-const CACHE_PREFIX = 'sam_cache_';
+import { IndexedDbBackend, MemoryBackend } from './backend';
+import { BoundedCache, type CacheUsage } from './bounded-cache';
+
+export type { CacheUsage, NamespaceUsage } from './bounded-cache';
+
 const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+const DEFAULT_BUDGET_BYTES = 50 * 1024 * 1024; // 50 MB
+// Share of the origin's storage quota the cache may use
+const QUOTA_SHARE = 0.5;
+// Prefix of the entries this cache used to keep in localStorage
+const LEGACY_CACHE_PREFIX = 'sam_cache_';
 
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
-}
+export type CacheNamespace = 'relationships' | 'supplement' | 'wikidata' | 'enrichment';
+
+export const CACHE_NAMESPACES: Record<CacheNamespace, { label: string; description: string }> = {
+  relationships: { label: 'Relationships', description: 'MusicBrainz relationships, searches and paths' },
+  supplement: { label: 'Supplement', description: 'Founding members from Wikipedia' },
+  wikidata: { label: 'Wikidata', description: 'Entities, influences and biographies' },
+  enrichment: { label: 'Enrichment', description: 'Images and albums from Last.fm, Discogs, Fanart.tv and Apple Music' },
+};
 
 /**
  * Check if we're in a browser environment
  */
 function isBrowser(): boolean {
-  return typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+  return typeof window !== 'undefined';
 }
 
 /**
- * Get an item from cache
+ * Entries from the old localStorage cache are dropped rather than migrated -
+ * they are refetched on demand, and removing them frees localStorage for
+ * favorites and settings.
  */
-export function cacheGet<T>(key: string): T | null {
-  if (!isBrowser()) return null;
-
+function removeLegacyCache(): void {
   try {
-    const raw = localStorage.getItem(CACHE_PREFIX + key);
-    if (!raw) return null;
+    const keysToRemove: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(LEGACY_CACHE_PREFIX)) {
+        keysToRemove.push(key);
+      }
+    }
+    keysToRemove.forEach(key => localStorage.removeItem(key));
+  } catch {
+    // localStorage disabled - nothing to clean up
+  }
+}
 
-    const entry: CacheEntry<T> = JSON.parse(raw);
+let clientCache: BoundedCache | null = null;
 
-    if (Date.now() > entry.expiresAt) {
-      localStorage.removeItem(CACHE_PREFIX + key);
-      return null;
-    }
+function getClientCache(): BoundedCache {
+  if (!clientCache) {
+    const backend = typeof indexedDB !== 'undefined' ? new IndexedDbBackend() : new MemoryBackend();
+    clientCache = new BoundedCache(backend, { budgetBytes: DEFAULT_BUDGET_BYTES });
+    removeLegacyCache();
+
+    // Shrink the budget on devices with little storage
+    navigator.storage?.estimate?.()
+      .then(({ quota }) => {
+        if (quota) return clientCache?.setBudget(Math.min(DEFAULT_BUDGET_BYTES, Math.floor(quota * QUOTA_SHARE)));
+      })
+      .catch(() => {});
+  }
+  return clientCache;
+}
+
+/**
+ * Get an item from cache
+ */
+export async function cacheGet<T>(namespace: CacheNamespace, key: string): Promise<T | null> {
+  if (!isBrowser()) return null;
 
-    return entry.data;
+  try {
+    return await getClientCache().get<T>(namespace, key);
   } catch {
     return null;
   }
@@ -44,17 +89,17 @@ export function cacheGet<T>(key: string): T | null {
 /**
  * Set an item in cache with TTL
  */
-export function cacheSet<T>(key: string, data: T, ttlMs: number = DEFAULT_TTL_MS): void {
+export async function cacheSet<T>(
+  namespace: CacheNamespace,
+  key: string,
+  data: T,
+  ttlMs: number = DEFAULT_TTL_MS
+): Promise<void> {
   if (!isBrowser()) return;
 
   try {
-    const entry: CacheEntry<T> = {
-      data,
-      expiresAt: Date.now() + ttlMs,
-    };
-    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+    await getClientCache().set(namespace, key, data, ttlMs);
   } catch (error) {
-    // localStorage might be full or disabled
     console.warn('Cache write failed:', error);
   }
 }
@@ -62,25 +107,39 @@ export function cacheSet<T>(key: string, data: T, ttlMs: number = DEFAULT_TTL_MS
 /**
  * Delete an item from cache
  */
-export function cacheDelete(key: string): void {
+export async function cacheDelete(namespace: CacheNamespace, key: string): Promise<void> {
   if (!isBrowser()) return;
-  localStorage.removeItem(CACHE_PREFIX + key);
+  await getClientCache().delete(namespace, key).catch(() => {});
 }
 
 /**
- * Clear all cached items
+ * Clear all cached items, or only those in one namespace
  */
-export function cacheClear(): void {
+export async function cacheClear(namespace?: CacheNamespace): Promise<void> {
   if (!isBrowser()) return;
+  await getClientCache().clear(namespace);
+}
 
-  const keysToRemove: string[] = [];
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key?.startsWith(CACHE_PREFIX)) {
-      keysToRemove.push(key);
-    }
+/**
+ * Remove expired items now rather than waiting for the periodic sweep
+ */
+export async function cachePurgeExpired(): Promise<number> {
+  if (!isBrowser()) return 0;
+  return getClientCache().sweepExpired();
+}
+
+/**
+ * Size and entry counts per namespace, for the cache inspector
+ * Returns null when the cache can't be read (IndexedDB blocked or failing).
+ */
+export async function getCacheUsage(): Promise<CacheUsage | null> {
+  if (!isBrowser()) return null;
+
+  try {
+    return await getClientCache().usage();
+  } catch {
+    return null;
   }
-  keysToRemove.forEach(key => localStorage.removeItem(key));
 }
 
 /**
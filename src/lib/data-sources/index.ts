@@ -0,0 +1,90 @@
+/**
+ * Server-side data source providers
+ *
+ * One registry for every backend, in order of preference: Solr for text
+ * search, the local MusicBrainz database, the supplement database, a local
+ * MusicBrainz API server (if configured) and the public MusicBrainz API as
+ * the fallback of last resort. Health output from
+ * `dataSources.getHealth()` feeds /api/musicbrainz/health.
+ *
+ * Server-only (the probes open database connections) - client code should
+ * only import types from here.
+ */
+
+import { testConnection as testMusicBrainzDb } from '@/lib/musicbrainz/db-client';
+import { isMusicBrainzRequestError } from '@/lib/musicbrainz/errors';
+import { LOCAL_MUSICBRAINZ_API, testLocalApiConnection } from '@/lib/musicbrainz/servers';
+import { testSolrConnection } from '@/lib/musicbrainz/solr-client';
+import { testConnection as testSupplementDb } from '@/lib/supplement/db-client';
+import { DataSourceRegistry } from './registry';
+
+export type {
+  CircuitState,
+  DataSourceProvider,
+  DataSourceHealth,
+  LatencySummary,
+  CallOptions,
+  RunResult,
+} from './registry';
+export {
+  DataSourceRegistry,
+  CircuitBreaker,
+  LatencyHistogram,
+  CircuitOpenError,
+  DataSourceTimeoutError,
+  LATENCY_BUCKETS_MS,
+} from './registry';
+
+export const DATA_SOURCE_IDS = {
+  SOLR: 'solr',
+  MUSICBRAINZ_DB: 'musicbrainz-db',
+  SUPPLEMENT_DB: 'supplement-db',
+  MUSICBRAINZ_API_LOCAL: 'musicbrainz-api-local',
+  MUSICBRAINZ_API: 'musicbrainz-api',
+} as const;
+
+/** Shared by all requests so health and circuits reflect the whole server */
+export const dataSources = new DataSourceRegistry()
+  .register({
+    id: DATA_SOURCE_IDS.SOLR,
+    label: 'Solr search',
+    probe: testSolrConnection,
+    timeoutMs: 3000,
+  })
+  .register({
+    id: DATA_SOURCE_IDS.MUSICBRAINZ_DB,
+    label: 'Local MusicBrainz database',
+    probe: testMusicBrainzDb,
+    timeoutMs: 10000,
+    // Any DB error used to switch to the API - keep failing over quickly
+    failureThreshold: 2,
+  })
+  .register({
+    id: DATA_SOURCE_IDS.SUPPLEMENT_DB,
+    label: 'Supplement database',
+    probe: testSupplementDb,
+    timeoutMs: 5000,
+  });
+
+// Local MusicBrainz web service mirror, only when one is configured
+if (LOCAL_MUSICBRAINZ_API) {
+  dataSources.register({
+    id: DATA_SOURCE_IDS.MUSICBRAINZ_API_LOCAL,
+    label: 'Local MusicBrainz API server',
+    probe: testLocalApiConnection,
+    timeoutMs: 10000,
+    // Any failure used to switch to the public API until the next re-check
+    failureThreshold: 1,
+    isFailure: error => !isMusicBrainzRequestError(error),
+  });
+}
+
+dataSources.register({
+  id: DATA_SOURCE_IDS.MUSICBRAINZ_API,
+  label: 'MusicBrainz API',
+  // Requests queue behind the 1 req/sec rate limit, so allow for the wait
+  timeoutMs: 30000,
+  cooldownMs: 60000,
+  // An unknown MBID or a bad query is an answer, not an outage
+  isFailure: error => !isMusicBrainzRequestError(error),
+});
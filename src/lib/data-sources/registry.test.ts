@@ -0,0 +1,152 @@
+/**
+ * Tests for the data source registry (circuit breakers, fallback, metrics)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CircuitOpenError,
+  DataSourceRegistry,
+  DataSourceTimeoutError,
+  LatencyHistogram,
+} from './registry';
+
+const fail = () => Promise.reject(new Error('connection refused'));
+
+describe('LatencyHistogram', () => {
+  it('should estimate percentiles from bucket bounds', () => {
+    const histogram = new LatencyHistogram();
+    [3, 4, 8, 40, 40, 40, 90, 200, 400, 20000].forEach(ms => histogram.record(ms));
+
+    const summary = histogram.summary();
+    expect(summary.count).toBe(10);
+    expect(summary.p50Ms).toBe(50);
+    expect(summary.p95Ms).toBe(20000);
+    expect(summary.buckets).toMatchObject({ '5': 2, '10': 1, '50': 3, '+Inf': 1 });
+  });
+});
+
+describe('DataSourceRegistry', () => {
+  let registry: DataSourceRegistry;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    registry = new DataSourceRegistry()
+      .register({ id: 'db', label: 'DB', failureThreshold: 2, cooldownMs: 1000 })
+      .register({ id: 'api', label: 'API' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should open the circuit after repeated failures and close it after a successful trial', async () => {
+    await expect(registry.call('db', fail)).rejects.toThrow('connection refused');
+    await expect(registry.call('db', fail)).rejects.toThrow('connection refused');
+
+    const op = vi.fn(async () => 'rows');
+    await expect(registry.call('db', op)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(op).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    await expect(registry.call('db', op)).resolves.toBe('rows');
+
+    const [db] = await registry.getHealth();
+    expect(db).toMatchObject({
+      state: 'closed',
+      available: true,
+      lastError: { message: 'connection refused' },
+      counters: { calls: 3, successes: 1, failures: 2, rejected: 1 },
+    });
+  });
+
+  it('should time out slow calls', async () => {
+    const slow = registry.call('db', () => new Promise(() => {}), { timeoutMs: 50 });
+    vi.advanceTimersByTime(50);
+
+    await expect(slow).rejects.toBeInstanceOf(DataSourceTimeoutError);
+    const [db] = await registry.getHealth();
+    expect(db.counters.timeouts).toBe(1);
+  });
+
+  it('should fall back in order and skip providers whose circuit is open', async () => {
+    const fromDb = vi.fn(fail);
+    const fromApi = vi.fn(async () => 'api data');
+
+    await expect(registry.run({ db: fromDb, api: fromApi })).resolves.toMatchObject({ data: 'api data', provider: 'api' });
+    await registry.run({ db: fromDb, api: fromApi });
+    await registry.run({ db: fromDb, api: fromApi });
+
+    expect(fromDb).toHaveBeenCalledTimes(2);
+    expect(fromApi).toHaveBeenCalledTimes(3);
+  });
+
+  it('should always try the last provider, even with its circuit open', async () => {
+    const registryWithApiDown = new DataSourceRegistry().register({ id: 'api', label: 'API', failureThreshold: 1 });
+    await expect(registryWithApiDown.call('api', fail)).rejects.toThrow();
+
+    await expect(registryWithApiDown.run({ api: async () => 'recovered' })).resolves.toMatchObject({ data: 'recovered' });
+  });
+
+  it('should probe providers before first use and report failed probes', async () => {
+    const probe = vi.fn(async () => false);
+    registry.register({ id: 'solr', label: 'Solr', probe, failureThreshold: 1 });
+
+    expect(await registry.isAvailable('solr')).toBe(false);
+    expect(await registry.isAvailable('solr')).toBe(false);
+    expect(probe).toHaveBeenCalledTimes(1);
+
+    probe.mockResolvedValue(true);
+    const health = await registry.getHealth({ force: true });
+    expect(health.find(provider => provider.id === 'solr')).toMatchObject({ state: 'closed', available: true });
+  });
+
+  it('should treat a single failed probe as unavailable with the default failure threshold', async () => {
+    const probe = vi.fn(async () => false);
+    registry.register({ id: 'solr', label: 'Solr', probe });
+
+    expect(await registry.isAvailable('solr')).toBe(false);
+    const op = vi.fn(async () => 'results');
+    await expect(registry.call('solr', op)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(op).not.toHaveBeenCalled();
+
+    const health = await registry.getHealth();
+    expect(health.find(provider => provider.id === 'solr')).toMatchObject({ state: 'open', available: false });
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not count errors the provider classifies as answers, nor fall back on them', async () => {
+    const notFound = () => Promise.reject(Object.assign(new Error('MusicBrainz API error: 404 Not Found'), { status: 404 }));
+    const classified = new DataSourceRegistry()
+      .register({
+        id: 'db',
+        label: 'DB',
+        failureThreshold: 2,
+        isFailure: error => (error as Error & { status?: number }).status !== 404,
+      })
+      .register({ id: 'api', label: 'API' });
+    const fromApi = vi.fn(async () => 'api data');
+
+    for (let i = 0; i < 3; i++) {
+      await expect(classified.run({ db: notFound, api: fromApi })).rejects.toThrow('404');
+    }
+    expect(fromApi).not.toHaveBeenCalled();
+
+    const [db] = await classified.getHealth();
+    expect(db).toMatchObject({
+      state: 'closed',
+      available: true,
+      consecutiveFailures: 0,
+      lastError: null,
+      counters: { calls: 3, successes: 3, failures: 0 },
+    });
+
+    // Timeouts still count, whatever the classifier says
+    const slow = classified.call('db', () => new Promise(() => {}), { timeoutMs: 50 });
+    vi.advanceTimersByTime(50);
+    await expect(slow).rejects.toBeInstanceOf(DataSourceTimeoutError);
+    expect((await classified.getHealth())[0].counters.failures).toBe(1);
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * Data source registry with per-provider circuit breakers and metrics
+ *
+ * Every backend the server reads from (Solr, the local MusicBrainz and
+ * supplement databases, the MusicBrainz API) is registered as a provider, in
+ * order of preference. Calls go through the provider's circuit breaker:
+ *
+ *   closed    - calls go through; `failureThreshold` failures in a row open it
+ *   open      - calls are rejected without touching the backend until
+ *               `cooldownMs` has passed
+ *   half-open - one trial call (or probe) decides: success closes the
+ *               circuit, failure opens it for another cooldown
+ *
+ * Each call is timed out after `timeoutMs` and recorded in the provider's
+ * latency histogram and error counters, which `getHealth()` reports. Errors
+ * a provider's `isFailure` rejects (e.g. "not found" answers) are rethrown
+ * without counting against the provider or falling back to the next one.
+ *
+ * Usage:
+ *   const registry = new DataSourceRegistry()
+ *     .register({ id: 'db', label: 'Local DB', probe: testConnection })
+ *     .register({ id: 'api', label: 'Public API' });
+ *   const { data, provider } = await registry.run({ db: fromDb, api: fromApi });
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface DataSourceProvider {
+  /** Stable id used to address the provider (e.g. 'musicbrainz-db') */
+  id: string;
+  /** Human-readable name for health output */
+  label: string;
+  /** Cheap availability check, used before first use and while recovering */
+  probe?: () => Promise<boolean>;
+  /** Calls taking longer than this count as failures (default 10s) */
+  timeoutMs?: number;
+  /** Consecutive failures that open the circuit (default 3) */
+  failureThreshold?: number;
+  /** How long an open circuit rejects calls before a trial (default 30s) */
+  cooldownMs?: number;
+  /**
+   * Whether an error means the backend is failing (default: every error)
+   * Errors that are answers from a working backend - an unknown id, a bad
+   * request - should return false. Timeouts always count as failures.
+   */
+  isFailure?: (error: Error) => boolean;
+}
+
+export interface LatencySummary {
+  count: number;
+  meanMs: number;
+  /** Percentiles, estimated from the histogram (bucket upper bounds) */
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  /** Calls per bucket, keyed by upper bound in ms ('+Inf' for the overflow bucket) */
+  buckets: Record<string, number>;
+}
+
+export interface DataSourceHealth {
+  id: string;
+  label: string;
+  state: CircuitState;
+  /** False while the circuit is open */
+  available: boolean;
+  consecutiveFailures: number;
+  lastError: { message: string; at: number } | null;
+  lastSuccessAt: number | null;
+  /** Last time a call or probe told us anything about the provider */
+  lastCheckedAt: number | null;
+  /** When an open circuit lets the next trial through */
+  retryAt: number | null;
+  counters: {
+    calls: number;
+    successes: number;
+    failures: number;
+    timeouts: number;
+    /** Calls rejected by an open circuit */
+    rejected: number;
+  };
+  latency: LatencySummary;
+}
+
+export interface CallOptions {
+  /** Override the provider's timeout for this call (Infinity = none) */
+  timeoutMs?: number;
+}
+
+export interface RunResult<T> {
+  data: T;
+  /** Id of the provider that answered */
+  provider: string;
+  latencyMs: number;
+}
+
+/** The provider's circuit is open, so the call was not attempted */
+export class CircuitOpenError extends Error {
+  constructor(public readonly providerId: string, public readonly retryAt: number) {
+    super(`Data source "${providerId}" is unavailable (circuit open)`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/** The call took longer than the provider's timeout */
+export class DataSourceTimeoutError extends Error {
+  constructor(public readonly providerId: string, public readonly timeoutMs: number) {
+    super(`Data source "${providerId}" timed out after ${timeoutMs}ms`);
+    this.name = 'DataSourceTimeoutError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 30000;
+// Providers idle for this long are re-probed before use
+const PROBE_INTERVAL_MS = 30000;
+
+// Latency histogram bucket upper bounds (ms)
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000] as const;
+
+/**
+ * Fixed-bucket latency histogram
+ */
+export class LatencyHistogram {
+  private counts = new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  private count = 0;
+  private sumMs = 0;
+  private maxMs = 0;
+
+  record(ms: number): void {
+    const bucket = LATENCY_BUCKETS_MS.findIndex(bound => ms <= bound);
+    this.counts[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+    this.count++;
+    this.sumMs += ms;
+    this.maxMs = Math.max(this.maxMs, ms);
+  }
+
+  /**
+   * Upper bound of the bucket holding the given percentile (0..100)
+   * The overflow bucket has no bound, so it reports the slowest call seen.
+   */
+  percentile(p: number): number {
+    if (this.count === 0) return 0;
+    const rank = Math.ceil((p / 100) * this.count);
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) return LATENCY_BUCKETS_MS[i] ?? this.maxMs;
+    }
+    return this.maxMs;
+  }
+
+  summary(): LatencySummary {
+    return {
+      count: this.count,
+      meanMs: this.count > 0 ? Math.round(this.sumMs / this.count) : 0,
+      p50Ms: this.percentile(50),
+      p95Ms: this.percentile(95),
+      p99Ms: this.percentile(99),
+      buckets: Object.fromEntries(
+        this.counts.map((n, i) => [String(LATENCY_BUCKETS_MS[i] ?? '+Inf'), n])
+      ),
+    };
+  }
+}
+
+/**
+ * Circuit breaker for one provider
+ */
+export class CircuitBreaker {
+  state: CircuitState = 'closed';
+  consecutiveFailures = 0;
+  openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private failureThreshold: number,
+    private cooldownMs: number
+  ) {}
+
+  get retryAt(): number | null {
+    return this.state === 'open' ? this.openedAt + this.cooldownMs : null;
+  }
+
+  /**
+   * Whether a call may go through now
+   * Moves an open circuit whose cooldown has passed to half-open and admits
+   * one trial call; further calls wait until the trial settles.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open';
+    }
+    if (this.state === 'closed') return true;
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  /** Open the circuit whatever the failure count (a failed health probe) */
+  trip(now = Date.now()): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    this.state = 'open';
+    this.openedAt = now;
+  }
+
+  /** Allow a trial right away (manual "retry") */
+  forceHalfOpen(): void {
+    if (this.state === 'open') this.state = 'half-open';
+    this.trialInFlight = false;
+  }
+}
+
+interface ProviderEntry {
+  provider: DataSourceProvider;
+  breaker: CircuitBreaker;
+  latency: LatencyHistogram;
+  counters: DataSourceHealth['counters'];
+  lastError: DataSourceHealth['lastError'];
+  lastSuccessAt: number | null;
+  lastCheckedAt: number | null;
+  /** In-flight probe, shared by concurrent callers */
+  probing: Promise<boolean> | null;
+}
+
+/**
+ * Run a promise against a timeout
+ * The underlying work is not cancelled - its result is just no longer awaited.
+ */
+function withTimeout<T>(promise: Promise<T>, providerId: string, timeoutMs: number): Promise<T> {
+  if (!Number.isFinite(timeoutMs)) return promise;
+
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new DataSourceTimeoutError(providerId, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+/**
+ * Ordered set of data source providers with health tracking
+ */
+export class DataSourceRegistry {
+  private entries = new Map<string, ProviderEntry>();
+
+  /**
+   * Add a provider; providers are preferred in registration order
+   */
+  register(provider: DataSourceProvider): this {
+    this.entries.set(provider.id, {
+      provider,
+      breaker: new CircuitBreaker(
+        provider.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+        provider.cooldownMs ?? DEFAULT_COOLDOWN_MS
+      ),
+      latency: new LatencyHistogram(),
+      counters: { calls: 0, successes: 0, failures: 0, timeouts: 0, rejected: 0 },
+      lastError: null,
+      lastSuccessAt: null,
+      lastCheckedAt: null,
+      probing: null,
+    });
+    return this;
+  }
+
+  /** Registered provider ids, in order of preference */
+  get providerIds(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  private entry(id: string): ProviderEntry {
+    const entry = this.entries.get(id);
+    if (!entry) throw new Error(`Unknown data source "${id}"`);
+    return entry;
+  }
+
+  private recordSuccess(entry: ProviderEntry, ms: number): void {
+    const now = Date.now();
+    entry.latency.record(ms);
+    entry.counters.successes++;
+    entry.breaker.recordSuccess();
+    entry.lastSuccessAt = now;
+    entry.lastCheckedAt = now;
+  }
+
+  private isFailure(entry: ProviderEntry, error: Error): boolean {
+    if (error instanceof DataSourceTimeoutError || error instanceof CircuitOpenError) return true;
+    return entry.provider.isFailure?.(error) ?? true;
+  }
+
+  private recordFailure(entry: ProviderEntry, error: Error, ms: number | null, { trip = false } = {}): void {
+    const now = Date.now();
+    if (ms !== null) entry.latency.record(ms);
+    entry.counters.failures++;
+    if (error instanceof DataSourceTimeoutError) entry.counters.timeouts++;
+    const wasOpen = entry.breaker.state === 'open';
+    if (trip) {
+      entry.breaker.trip(now);
+    } else {
+      entry.breaker.recordFailure(now);
+    }
+    entry.lastError = { message: error.message, at: now };
+    entry.lastCheckedAt = now;
+
+    if (!wasOpen && entry.breaker.state === 'open') {
+      console.warn(`[DataSources] ${entry.provider.label} unavailable (${error.message}), circuit open`);
+    }
+  }
+
+  /**
+   * Call a provider through its circuit breaker, with timeout and metrics
+   * Throws CircuitOpenError without calling when the circuit is open.
+   */
+  async call<T>(id: string, fn: () => Promise<T>, options: CallOptions = {}): Promise<T> {
+    const entry = this.entry(id);
+    if (!entry.breaker.tryAcquire()) {
+      entry.counters.rejected++;
+      throw new CircuitOpenError(id, entry.breaker.retryAt ?? Date.now());
+    }
+    return this.attempt(entry, fn, options);
+  }
+
+  private async attempt<T>(entry: ProviderEntry, fn: () => Promise<T>, { timeoutMs }: CallOptions): Promise<T> {
+    entry.counters.calls++;
+    const startTime = Date.now();
+    try {
+      const data = await withTimeout(
+        fn(),
+        entry.provider.id,
+        timeoutMs ?? entry.provider.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      );
+      this.recordSuccess(entry, Date.now() - startTime);
+      return data;
+    } catch (error) {
+      if (this.isFailure(entry, error as Error)) {
+        this.recordFailure(entry, error as Error, Date.now() - startTime);
+      } else {
+        // The backend answered - the request was the problem
+        this.recordSuccess(entry, Date.now() - startTime);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a provider's probe (if it has one) and record the outcome
+   * A failed probe opens the circuit immediately, whatever the failure
+   * threshold. Skipped while the circuit is open and cooling down, unless forced.
+   */
+  async probe(id: string, { force = false }: { force?: boolean } = {}): Promise<boolean> {
+    const entry = this.entry(id);
+    const { probe } = entry.provider;
+    if (force) entry.breaker.forceHalfOpen();
+    if (!probe) return entry.breaker.state !== 'open';
+    if (entry.probing) return entry.probing;
+    if (!entry.breaker.tryAcquire()) return false;
+
+    const timeoutMs = entry.provider.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    entry.probing = (async () => {
+      try {
+        if (!(await withTimeout(probe(), id, timeoutMs))) {
+          throw new Error('Health probe failed');
+        }
+        entry.breaker.recordSuccess();
+        entry.lastCheckedAt = Date.now();
+        return true;
+      } catch (error) {
+        // Otherwise isAvailable() and getHealth() would report the backend up until the next probe
+        this.recordFailure(entry, error as Error, null, { trip: true });
+        return false;
+      } finally {
+        entry.probing = null;
+      }
+    })();
+    return entry.probing;
+  }
+
+  /**
+   * Whether a provider can take calls now
+   * Providers with a probe are probed before their first use and again once
+   * they have been idle for a while.
+   */
+  async isAvailable(id: string): Promise<boolean> {
+    const entry = this.entry(id);
+    const { lastCheckedAt } = entry;
+    if (entry.provider.probe && (lastCheckedAt === null || Date.now() - lastCheckedAt >= PROBE_INTERVAL_MS)) {
+      return this.probe(id);
+    }
+    if (entry.breaker.state === 'open') {
+      if (Date.now() < entry.breaker.retryAt!) return false;
+      // Cooldown over: probe, or let the next call be the trial
+      return entry.provider.probe ? this.probe(id) : true;
+    }
+    return true;
+  }
+
+  /**
+   * Try providers in registration order until one succeeds
+   * Only providers with an operation in `operations` are tried, and providers
+   * whose circuit is open are skipped - except the last one, which is always
+   * tried as the fallback of last resort. An error that is not a failure
+   * (see `isFailure`) is the provider's answer, so it is thrown right away.
+   */
+  async run<T>(
+    operations: Partial<Record<string, () => Promise<T>>>,
+    options: CallOptions = {}
+  ): Promise<RunResult<T>> {
+    const ids = this.providerIds.filter(id => operations[id]);
+    if (ids.length === 0) throw new Error('No data source for this operation');
+
+    const startTime = Date.now();
+    const fallbackId = ids[ids.length - 1];
+    for (const id of ids.slice(0, -1)) {
+      if (!(await this.isAvailable(id))) continue;
+      try {
+        const data = await this.call(id, operations[id]!, options);
+        return { data, provider: id, latencyMs: Date.now() - startTime };
+      } catch (error) {
+        if (!this.isFailure(this.entry(id), error as Error)) throw error;
+        console.error(`[DataSources] ${this.entry(id).provider.label} failed, falling back:`, (error as Error).message);
+      }
+    }
+
+    const data = await this.attempt(this.entry(fallbackId), operations[fallbackId]!, options);
+    return { data, provider: fallbackId, latencyMs: Date.now() - startTime };
+  }
+
+  /**
+   * Health of every provider
+   * Providers with no calls or probes for a while are probed first.
+   */
+  async getHealth({ force = false }: { force?: boolean } = {}): Promise<DataSourceHealth[]> {
+    const now = Date.now();
+    await Promise.all(this.providerIds.map(id => {
+      const { lastCheckedAt } = this.entry(id);
+      const stale = lastCheckedAt === null || now - lastCheckedAt >= PROBE_INTERVAL_MS;
+      return force || stale ? this.probe(id, { force }) : null;
+    }));
+
+    return this.providerIds.map(id => {
+      const entry = this.entry(id);
+      return {
+        id,
+        label: entry.provider.label,
+        state: entry.breaker.state,
+        available: entry.breaker.state !== 'open',
+        consecutiveFailures: entry.breaker.consecutiveFailures,
+        lastError: entry.lastError,
+        lastSuccessAt: entry.lastSuccessAt,
+        lastCheckedAt: entry.lastCheckedAt,
+        retryAt: entry.breaker.retryAt,
+        counters: { ...entry.counters },
+        latency: entry.latency.summary(),
+      };
+    });
+  }
+}
@@ -69,7 +69,7 @@ export async function searchDiscogsArtist(artistName: string): Promise<{
   imageUrl?: string;
 } | null> {
   const cacheKey = `discogs-search-${artistName.toLowerCase()}`;
-  const cached = cacheGet<{ id: number; imageUrl?: string }>(cacheKey);
+  const cached = await cacheGet<{ id: number; imageUrl?: string }>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -104,7 +104,7 @@ export async function searchDiscogsArtist(artistName: string): Promise<{
       imageUrl: result.cover_image || result.thumb || undefined,
     };
 
-    cacheSet(cacheKey, searchResult, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, searchResult, CacheTTL.LONG);
     return searchResult;
   } catch (error) {
     console.error('Error searching Discogs:', error);
@@ -121,7 +121,7 @@ export async function getDiscogsArtist(artistId: number): Promise<{
   url?: string;
 } | null> {
   const cacheKey = `discogs-artist-${artistId}`;
-  const cached = cacheGet<{ imageUrl?: string; url?: string }>(cacheKey);
+  const cached = await cacheGet<{ imageUrl?: string; url?: string }>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -156,7 +156,7 @@ export async function getDiscogsArtist(artistId: number): Promise<{
       url: artistData.uri,
     };
 
-    cacheSet(cacheKey, result, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, result, CacheTTL.LONG);
     return result;
   } catch (error) {
     console.error('Error fetching Discogs artist:', error);
@@ -173,7 +173,7 @@ export async function getDiscogsReleases(
   limit: number = 50
 ): Promise<AppleMusicAlbumInfo[]> {
   const cacheKey = `discogs-releases-${artistId}`;
-  const cached = cacheGet<AppleMusicAlbumInfo[]>(cacheKey);
+  const cached = await cacheGet<AppleMusicAlbumInfo[]>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -209,7 +209,7 @@ export async function getDiscogsReleases(
         releaseDate: release.year ? `${release.year}` : undefined,
       }));
 
-    cacheSet(cacheKey, albums, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, albums, CacheTTL.LONG);
     return albums;
   } catch (error) {
     console.error('Error fetching Discogs releases:', error);
@@ -224,7 +224,7 @@ export async function enrichArtistWithDiscogs(
   artist: ArtistNode
 ): Promise<ArtistNode> {
   const cacheKey = `discogs-enriched-${artist.id}`;
-  const cached = cacheGet<Partial<ArtistNode>>(cacheKey);
+  const cached = await cacheGet<Partial<ArtistNode>>('enrichment', cacheKey);
   if (cached && (cached.imageUrl || cached.albums?.length)) {
     return { ...artist, ...cached };
   }
@@ -263,7 +263,7 @@ export async function enrichArtistWithDiscogs(
       };
     }
 
-    cacheSet(cacheKey, enrichmentData, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, enrichmentData, CacheTTL.LONG);
     return { ...artist, ...enrichmentData };
   } catch (error) {
     console.error('Error enriching artist with Discogs:', error);
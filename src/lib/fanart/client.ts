@@ -29,7 +29,7 @@ export async function getFanartImages(mbid: string): Promise<{
   logoUrl?: string;
 } | null> {
   const cacheKey = `fanart-${mbid}`;
-  const cached = cacheGet<{ thumbUrl?: string; backgroundUrl?: string; logoUrl?: string }>(cacheKey);
+  const cached = await cacheGet<{ thumbUrl?: string; backgroundUrl?: string; logoUrl?: string }>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -45,7 +45,7 @@ export async function getFanartImages(mbid: string): Promise<{
 
     if (data.notFound || data.error) {
       // Artist not in fanart.tv database - cache empty result
-      cacheSet(cacheKey, {}, CacheTTL.LONG);
+      await cacheSet('enrichment', cacheKey, {}, CacheTTL.LONG);
       return null;
     }
 
@@ -65,7 +65,7 @@ export async function getFanartImages(mbid: string): Promise<{
       logoUrl: logos?.[0]?.url,
     };
 
-    cacheSet(cacheKey, result, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, result, CacheTTL.LONG);
     return result;
   } catch (error) {
     console.error('Error fetching fanart.tv images:', error);
@@ -81,7 +81,7 @@ export async function enrichArtistWithFanart(
   artist: ArtistNode
 ): Promise<ArtistNode> {
   const cacheKey = `fanart-enriched-${artist.id}`;
-  const cached = cacheGet<Partial<ArtistNode>>(cacheKey);
+  const cached = await cacheGet<Partial<ArtistNode>>('enrichment', cacheKey);
   if (cached?.imageUrl) {
     return { ...artist, ...cached };
   }
@@ -104,7 +104,7 @@ export async function enrichArtistWithFanart(
       imageUrl,
     };
 
-    cacheSet(cacheKey, enrichmentData, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, enrichmentData, CacheTTL.LONG);
     return { ...artist, ...enrichmentData };
   } catch (error) {
     console.error('Error enriching artist with fanart.tv:', error);
@@ -0,0 +1,94 @@
+/**
+ * Tests for graph centrality and community analytics
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph } from '@/types';
+import { computeGraphAnalytics, rankByCentrality } from './analytics';
+
+function graphOf(links: Array<[string, string]>): ArtistGraph {
+  const ids = [...new Set(links.flat())];
+  return {
+    nodes: ids.map(id => ({ data: { id, name: id.toUpperCase(), type: 'person', loaded: true } })),
+    edges: links.map(([source, target], i) => ({
+      data: { id: `e${i}`, source, target, type: 'member_of', direction: 'forward' },
+    })),
+  };
+}
+
+// Two tight scenes (a-b-c and x-y-z) joined only through "bridge"
+const TWO_SCENES = graphOf([
+  ['a', 'b'], ['b', 'c'], ['c', 'a'],
+  ['x', 'y'], ['y', 'z'], ['z', 'x'],
+  ['a', 'bridge'], ['bridge', 'x'],
+]);
+
+describe('computeGraphAnalytics', () => {
+  it('should count distinct neighbours as degree', () => {
+    const graph = graphOf([['a', 'b'], ['b', 'a'], ['a', 'c']]);
+
+    const analytics = computeGraphAnalytics(graph);
+
+    expect(analytics.nodes.get('a')?.degree).toBe(2);
+    expect(analytics.nodes.get('a')?.centrality.degree).toBe(1);
+    expect(analytics.nodes.get('b')?.degree).toBe(1);
+  });
+
+  it('should rank the artist bridging two scenes highest by betweenness', () => {
+    const analytics = computeGraphAnalytics(TWO_SCENES);
+
+    const [top] = rankByCentrality(analytics, 'betweenness', 1);
+    expect(top.id).toBe('bridge');
+    // Star centre lies on every shortest path between leaves
+    const star = computeGraphAnalytics(graphOf([['hub', 'a'], ['hub', 'b'], ['hub', 'c']]));
+    expect(star.nodes.get('hub')?.centrality.betweenness).toBeCloseTo(1);
+    expect(star.nodes.get('a')?.centrality.betweenness).toBe(0);
+  });
+
+  it('should scale eigenvector centrality so the top artist is 1', () => {
+    const analytics = computeGraphAnalytics(graphOf([['hub', 'a'], ['hub', 'b'], ['hub', 'c'], ['a', 'b']]));
+
+    expect(analytics.nodes.get('hub')?.centrality.eigenvector).toBeCloseTo(1);
+    expect(analytics.nodes.get('c')!.centrality.eigenvector).toBeLessThan(
+      analytics.nodes.get('a')!.centrality.eigenvector
+    );
+  });
+
+  it.each(['louvain', 'label-propagation'] as const)('should separate the two scenes (%s)', algorithm => {
+    const analytics = computeGraphAnalytics(TWO_SCENES, algorithm);
+    const communityOf = (id: string) => analytics.nodes.get(id)!.community;
+
+    expect(communityOf('a')).toBe(communityOf('b'));
+    expect(communityOf('a')).toBe(communityOf('c'));
+    expect(communityOf('x')).toBe(communityOf('z'));
+    expect(communityOf('a')).not.toBe(communityOf('x'));
+    expect(analytics.modularity).toBeGreaterThan(0.2);
+  });
+
+  it('should list communities largest first with members by degree', () => {
+    const analytics = computeGraphAnalytics(TWO_SCENES);
+
+    const sizes = analytics.communities.map(c => c.members.length);
+    expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+    expect(sizes.reduce((a, b) => a + b, 0)).toBe(7);
+    for (const community of analytics.communities) {
+      const degrees = community.members.map(id => analytics.nodes.get(id)!.degree);
+      expect(degrees).toEqual([...degrees].sort((a, b) => b - a));
+    }
+  });
+
+  it('should handle isolated artists and empty graphs', () => {
+    const graph = graphOf([['a', 'b']]);
+    graph.nodes.push({ data: { id: 'solo', name: 'Solo', type: 'person', loaded: true } });
+
+    const analytics = computeGraphAnalytics(graph);
+    expect(analytics.nodes.get('solo')).toMatchObject({ degree: 0, centrality: { betweenness: 0 } });
+    expect(analytics.communities).toHaveLength(2);
+
+    expect(computeGraphAnalytics({ nodes: [], edges: [] })).toEqual({
+      nodes: new Map(),
+      communities: [],
+      modularity: 0,
+    });
+  });
+});
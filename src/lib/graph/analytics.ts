@@ -0,0 +1,336 @@
+import type { ArtistGraph } from '@/types';
+
+/**
+ * Network analytics for an artist graph: who are the "connectors"?
+ *
+ * Treats the graph as undirected and simple - several relationships between
+ * the same two artists (member and founder, a rejoin) count as one link.
+ * Centrality scores are normalized to 0..1 so they can drive node sizes.
+ */
+
+export type CentralityMeasure = 'degree' | 'betweenness' | 'eigenvector';
+export type CommunityAlgorithm = 'louvain' | 'label-propagation';
+
+export const CENTRALITY_MEASURES: { value: CentralityMeasure; label: string; description: string }[] = [
+  { value: 'degree', label: 'Degree', description: 'Number of direct connections' },
+  { value: 'betweenness', label: 'Betweenness', description: 'How often an artist lies on shortest paths between others' },
+  { value: 'eigenvector', label: 'Eigenvector', description: 'Connected to other well-connected artists' },
+];
+
+export interface NodeMetrics {
+  /** Direct connections (distinct artists) */
+  degree: number;
+  /** Normalized centrality scores (0..1) */
+  centrality: Record<CentralityMeasure, number>;
+  /** Index into GraphAnalytics.communities */
+  community: number;
+}
+
+export interface Community {
+  id: number;
+  /** Artist MBIDs, most connected first */
+  members: string[];
+}
+
+export interface GraphAnalytics {
+  nodes: Map<string, NodeMetrics>;
+  /** Largest community first */
+  communities: Community[];
+  /** Modularity of the community split (-0.5..1, higher = clearer scenes) */
+  modularity: number;
+}
+
+type Adjacency = Map<string, Set<string>>;
+
+function buildAdjacency(graph: ArtistGraph): Adjacency {
+  const adjacency: Adjacency = new Map(graph.nodes.map(n => [n.data.id, new Set<string>()]));
+  for (const { data } of graph.edges) {
+    if (data.source === data.target) continue;
+    const source = adjacency.get(data.source);
+    const target = adjacency.get(data.target);
+    if (!source || !target) continue;
+    source.add(data.target);
+    target.add(data.source);
+  }
+  return adjacency;
+}
+
+/**
+ * Betweenness centrality (Brandes' algorithm, unweighted)
+ * Normalized by the number of node pairs excluding the node itself.
+ */
+function betweennessCentrality(adjacency: Adjacency): Map<string, number> {
+  const ids = [...adjacency.keys()];
+  const scores = new Map(ids.map(id => [id, 0]));
+
+  for (const source of ids) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+    const paths = new Map(ids.map(id => [id, 0]));
+    const distance = new Map(ids.map(id => [id, -1]));
+    paths.set(source, 1);
+    distance.set(source, 0);
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      for (const w of adjacency.get(v)!) {
+        if (distance.get(w)! < 0) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          paths.set(w, paths.get(w)! + paths.get(v)!);
+          predecessors.get(w)!.push(v);
+        }
+      }
+    }
+
+    const dependency = new Map(ids.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors.get(w)!) {
+        dependency.set(v, dependency.get(v)! + (paths.get(v)! / paths.get(w)!) * (1 + dependency.get(w)!));
+      }
+      if (w !== source) scores.set(w, scores.get(w)! + dependency.get(w)!);
+    }
+  }
+
+  // Each undirected pair was counted from both ends
+  const n = ids.length;
+  const pairs = n > 2 ? (n - 1) * (n - 2) : 1;
+  for (const id of ids) scores.set(id, scores.get(id)! / pairs);
+  return scores;
+}
+
+/**
+ * Eigenvector centrality by power iteration, scaled so the top artist is 1
+ * Iterates on A + I so bipartite-like graphs (members <-> bands) converge.
+ */
+function eigenvectorCentrality(adjacency: Adjacency, iterations = 100, tolerance = 1e-6): Map<string, number> {
+  let scores = new Map([...adjacency.keys()].map(id => [id, 1]));
+
+  for (let i = 0; i < iterations; i++) {
+    const next = new Map<string, number>();
+    let max = 0;
+    for (const [id, neighbours] of adjacency) {
+      let sum = scores.get(id)!;
+      for (const neighbour of neighbours) sum += scores.get(neighbour)!;
+      next.set(id, sum);
+      max = Math.max(max, sum);
+    }
+    if (max === 0) return next;
+
+    let change = 0;
+    for (const [id, value] of next) {
+      const scaled = value / max;
+      change = Math.max(change, Math.abs(scaled - scores.get(id)!));
+      next.set(id, scaled);
+    }
+    scores = next;
+    if (change < tolerance) break;
+  }
+
+  return scores;
+}
+
+/**
+ * Newman modularity of a partition (node -> community label)
+ */
+function modularity(adjacency: Adjacency, labels: Map<string, number>): number {
+  let twiceEdges = 0;
+  const degreeSums = new Map<number, number>();
+  let internal = 0;
+
+  for (const [id, neighbours] of adjacency) {
+    const label = labels.get(id)!;
+    twiceEdges += neighbours.size;
+    degreeSums.set(label, (degreeSums.get(label) ?? 0) + neighbours.size);
+    for (const neighbour of neighbours) {
+      if (labels.get(neighbour) === label) internal++;
+    }
+  }
+  if (twiceEdges === 0) return 0;
+
+  let expected = 0;
+  for (const sum of degreeSums.values()) expected += (sum / twiceEdges) ** 2;
+  return internal / twiceEdges - expected;
+}
+
+/**
+ * Louvain community detection (local moving + aggregation until stable)
+ * Nodes are visited in graph order, so results are deterministic.
+ */
+function louvainCommunities(adjacency: Adjacency): Map<string, number> {
+  const ids = [...adjacency.keys()];
+
+  // Working graph: weighted adjacency between super-nodes (indices)
+  const index = new Map(ids.map((id, i) => [id, i]));
+  let weights: Map<number, number>[] = ids.map(id =>
+    new Map([...adjacency.get(id)!].map(neighbour => [index.get(neighbour)!, 1]))
+  );
+
+  // Original node -> current super-node
+  let membership = ids.map((_, i) => i);
+
+  for (;;) {
+    const size = weights.length;
+    const strength = weights.map(row => [...row.values()].reduce((a, b) => a + b, 0));
+    const total = strength.reduce((a, b) => a + b, 0);
+    if (total === 0) break;
+
+    const community = weights.map((_, i) => i);
+    const communityStrength = [...strength];
+    let improved = false;
+
+    for (let moved = true; moved;) {
+      moved = false;
+      for (let node = 0; node < size; node++) {
+        const current = community[node];
+        const links = new Map<number, number>();
+        for (const [neighbour, weight] of weights[node]) {
+          if (neighbour === node) continue;
+          links.set(community[neighbour], (links.get(community[neighbour]) ?? 0) + weight);
+        }
+
+        communityStrength[current] -= strength[node];
+        const gain = (target: number) =>
+          (links.get(target) ?? 0) - (communityStrength[target] * strength[node]) / total;
+
+        let best = current;
+        let bestGain = gain(current);
+        for (const target of links.keys()) {
+          const g = gain(target);
+          if (g > bestGain + 1e-12) {
+            best = target;
+            bestGain = g;
+          }
+        }
+
+        communityStrength[best] += strength[node];
+        if (best !== current) {
+          community[node] = best;
+          moved = true;
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+
+    // Aggregate communities into super-nodes
+    const renumber = new Map<number, number>();
+    for (const c of community) if (!renumber.has(c)) renumber.set(c, renumber.size);
+    const aggregated: Map<number, number>[] = Array.from({ length: renumber.size }, () => new Map());
+    weights.forEach((row, node) => {
+      const from = renumber.get(community[node])!;
+      for (const [neighbour, weight] of row) {
+        const to = renumber.get(community[neighbour])!;
+        aggregated[from].set(to, (aggregated[from].get(to) ?? 0) + weight);
+      }
+    });
+
+    membership = membership.map(superNode => renumber.get(community[superNode])!);
+    weights = aggregated;
+  }
+
+  return new Map(ids.map((id, i) => [id, membership[i]]));
+}
+
+/**
+ * Label propagation: every artist repeatedly adopts its neighbours' most
+ * common label (ties broken by the smallest label) until nothing changes
+ */
+function labelPropagationCommunities(adjacency: Adjacency, maxRounds = 100): Map<string, number> {
+  const ids = [...adjacency.keys()];
+  const labels = new Map(ids.map((id, i) => [id, i]));
+
+  for (let round = 0; round < maxRounds; round++) {
+    let changed = false;
+    for (const id of ids) {
+      const counts = new Map<number, number>();
+      for (const neighbour of adjacency.get(id)!) {
+        const label = labels.get(neighbour)!;
+        counts.set(label, (counts.get(label) ?? 0) + 1);
+      }
+      if (counts.size === 0) continue;
+
+      const top = Math.max(...counts.values());
+      const current = labels.get(id)!;
+      if (counts.get(current) === top) continue;
+
+      labels.set(id, Math.min(...[...counts].filter(([, count]) => count === top).map(([label]) => label)));
+      changed = true;
+    }
+    if (!changed) break;
+  }
+
+  return labels;
+}
+
+/**
+ * Compute centrality scores and communities for every artist in the graph
+ */
+export function computeGraphAnalytics(
+  graph: ArtistGraph,
+  algorithm: CommunityAlgorithm = 'louvain'
+): GraphAnalytics {
+  const adjacency = buildAdjacency(graph);
+  const n = adjacency.size;
+
+  const betweenness = betweennessCentrality(adjacency);
+  const eigenvector = eigenvectorCentrality(adjacency);
+  const labels = algorithm === 'louvain'
+    ? louvainCommunities(adjacency)
+    : labelPropagationCommunities(adjacency);
+
+  // Group by label, then number communities largest first
+  const groups = new Map<number, string[]>();
+  for (const [id, label] of labels) {
+    groups.set(label, [...(groups.get(label) ?? []), id]);
+  }
+  const degreeOf = (id: string) => adjacency.get(id)!.size;
+  const communities: Community[] = [...groups.values()]
+    .map(members => [...members].sort((a, b) => degreeOf(b) - degreeOf(a)))
+    .sort((a, b) => b.length - a.length)
+    .map((members, id) => ({ id, members }));
+
+  const communityOf = new Map<string, number>();
+  for (const { id, members } of communities) {
+    for (const member of members) communityOf.set(member, id);
+  }
+
+  const nodes = new Map<string, NodeMetrics>();
+  for (const [id, neighbours] of adjacency) {
+    nodes.set(id, {
+      degree: neighbours.size,
+      centrality: {
+        degree: n > 1 ? neighbours.size / (n - 1) : 0,
+        betweenness: betweenness.get(id)!,
+        eigenvector: eigenvector.get(id)!,
+      },
+      community: communityOf.get(id)!,
+    });
+  }
+
+  return {
+    nodes,
+    communities,
+    modularity: modularity(adjacency, communityOf),
+  };
+}
+
+/**
+ * Artists ranked by a centrality measure (highest first)
+ */
+export function rankByCentrality(
+  analytics: GraphAnalytics,
+  measure: CentralityMeasure,
+  limit = 10
+): Array<{ id: string; score: number }> {
+  return [...analytics.nodes]
+    .map(([id, metrics]) => ({ id, score: metrics.centrality[measure] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -36,10 +36,11 @@ export function isFoundingMember(
     }
   }
 
-  // Check for explicit "founder" attribute in MusicBrainz
-  const hasFoundingAttribute = rel.attributes?.some(
-    attr => attr.toLowerCase().includes('found')
-  );
+  // Check for explicit founding attribute in MusicBrainz ("original" member)
+  const hasFoundingAttribute = rel.attributes?.some(attr => {
+    const lower = attr.toLowerCase();
+    return lower === 'original' || lower.includes('found');
+  });
   if (hasFoundingAttribute) return true;
 
   // Or if their start year exactly matches the earliest known member year
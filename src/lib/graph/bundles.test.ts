@@ -0,0 +1,56 @@
+/**
+ * Tests for bundling parallel relationships between two artists
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistRelationship, RelationshipType } from '@/types';
+import { bundleParallelEdges } from './bundles';
+
+function edge(id: string, source: string, target: string, type: RelationshipType, begin?: string, end?: string): ArtistRelationship {
+  return { id, source, target, type, direction: 'forward', ...(begin && { period: { begin, end } }) };
+}
+
+describe('bundleParallelEdges', () => {
+  // A member in two periods who also produced the band, plus an unrelated single link
+  const edges = [
+    edge('member-1990', 'eno', 'roxy', 'member_of', '1971', '1973'),
+    edge('other', 'ferry', 'roxy', 'member_of', '1971'),
+    edge('producer', 'roxy', 'eno', 'producer'),
+    edge('member-1972', 'eno', 'roxy', 'member_of', '1972-06', '1975'),
+  ];
+
+  it('should bundle every pair with more than one relationship', () => {
+    const bundles = bundleParallelEdges(edges, 2024);
+
+    expect(bundles).toHaveLength(1);
+    expect(bundles[0]).toMatchObject({ keptId: 'member-1990', source: 'eno', target: 'roxy' });
+    expect(bundles[0].edgeIds).toEqual(['member-1990', 'producer', 'member-1972']);
+  });
+
+  it('should list links chronologically and count overlapping years once', () => {
+    const [bundle] = bundleParallelEdges(edges, 2024);
+
+    expect(bundle.links.map(l => l.id)).toEqual(['member-1990', 'member-1972', 'producer']);
+    expect(bundle.links[1]).toMatchObject({ begin: 1972, end: 1975 });
+    // 1971-1975
+    expect(bundle.totalYears).toBe(5);
+  });
+
+  it('should weigh bundles by link count and years together', () => {
+    const ongoing = bundleParallelEdges([
+      edge('a', 'x', 'y', 'member_of', '1960'),
+      edge('b', 'x', 'y', 'collaboration'),
+      edge('c', 'x', 'y', 'producer'),
+      edge('d', 'x', 'y', 'founder_of', '1960'),
+      edge('e', 'x', 'y', 'touring_member', '1980', '1982'),
+    ], 2024);
+    const brief = bundleParallelEdges([
+      edge('a', 'x', 'y', 'member_of', '1990', '1990'),
+      edge('b', 'x', 'y', 'collaboration'),
+    ], 2024);
+
+    expect(ongoing[0].totalYears).toBe(65);
+    expect(ongoing[0].weight).toBe(1);
+    expect(brief[0].weight).toBeCloseTo((1 / 4 + 1 / 40) / 2);
+  });
+});
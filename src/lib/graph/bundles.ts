@@ -0,0 +1,84 @@
+import type { ArtistRelationship, RelationshipType } from '@/types';
+import { parseYear } from '@/lib/utils';
+import { findParallelEdges } from './performance';
+
+/**
+ * Edge bundling: one edge per pair of artists with several relationships
+ *
+ * Two artists are often linked more than once - a membership in two periods,
+ * plus producing, plus a collaboration. A bundle summarises those links for
+ * drawing a single edge (thicker for more links and more years together) and
+ * for a tooltip breaking down each relationship.
+ */
+
+export interface BundledLink {
+  id: string;
+  type: RelationshipType;
+  begin: number | null;
+  end: number | null;
+}
+
+export interface EdgeBundle {
+  /** Edge drawn for the bundle; the others are hidden */
+  keptId: string;
+  edgeIds: string[];
+  source: string;
+  target: string;
+  /** Relationships in chronological order (undated last) */
+  links: BundledLink[];
+  /** Years covered by any dated link; overlapping periods count once, ongoing ones run to now */
+  totalYears: number;
+  /** 0..1 from link count and years together, for edge thickness */
+  weight: number;
+}
+
+// Link count and years together that give a bundle full weight
+const FULL_WEIGHT_LINKS = 5;
+const FULL_WEIGHT_YEARS = 40;
+
+/** Number of distinct years covered by a set of [begin, end] periods */
+function unionYears(periods: Array<[number, number]>): number {
+  const sorted = [...periods].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const [begin, end] of sorted) {
+    if (current && begin <= current[1] + 1) {
+      current[1] = Math.max(current[1], end);
+    } else {
+      if (current) total += current[1] - current[0] + 1;
+      current = [begin, end];
+    }
+  }
+  if (current) total += current[1] - current[0] + 1;
+  return total;
+}
+
+/**
+ * Bundles for every pair of artists linked by more than one relationship
+ */
+export function bundleParallelEdges(
+  edges: ArtistRelationship[],
+  currentYear: number = new Date().getFullYear()
+): EdgeBundle[] {
+  const byId = new Map(edges.map(edge => [edge.id, edge]));
+
+  return [...findParallelEdges(edges)].map(([keptId, mergedIds]) => {
+    const edgeIds = [keptId, ...mergedIds];
+    const links = edgeIds.map((id): BundledLink => {
+      const { type, period } = byId.get(id)!;
+      return { id, type, begin: parseYear(period?.begin), end: parseYear(period?.end) };
+    }).sort((a, b) => (a.begin ?? Infinity) - (b.begin ?? Infinity));
+
+    const totalYears = unionYears(links
+      .filter(link => link.begin !== null)
+      .map(link => [link.begin!, Math.max(link.begin!, link.end ?? currentYear)]));
+
+    const weight = (
+      Math.min(links.length - 1, FULL_WEIGHT_LINKS - 1) / (FULL_WEIGHT_LINKS - 1) +
+      Math.min(totalYears, FULL_WEIGHT_YEARS) / FULL_WEIGHT_YEARS
+    ) / 2;
+
+    const kept = byId.get(keptId)!;
+    return { keptId, edgeIds, source: kept.source, target: kept.target, links, totalYears, weight };
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for comparing two artists' graphs
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph, RelationshipType } from '@/types';
+import { compareGraphs } from './compare';
+
+function graphOf(root: string, links: Array<[string, string, RelationshipType]>): ArtistGraph {
+  const ids = [root, ...new Set(links.flatMap(([s, t]) => [s, t]).filter(id => id !== root))];
+  return {
+    nodes: ids.map(id => ({ data: { id, name: id.toUpperCase(), type: 'person', loaded: id === root } })),
+    edges: links.map(([source, target, type]) => ({
+      data: { id: `${source}-${type}-${target}`, source, target, type, direction: 'forward' },
+    })),
+  };
+}
+
+// Two rival bands sharing a drummer and a producer
+const BAND_A = graphOf('band-a', [
+  ['singer-a', 'band-a', 'member_of'],
+  ['drummer', 'band-a', 'member_of'],
+  ['producer', 'band-a', 'producer'],
+]);
+const BAND_B = graphOf('band-b', [
+  ['singer-b', 'band-b', 'member_of'],
+  ['drummer', 'band-b', 'founder_of'],
+  ['producer', 'band-b', 'producer'],
+  ['guest', 'band-b', 'collaboration'],
+]);
+
+describe('compareGraphs', () => {
+  it('should mark which graph each artist belongs to', () => {
+    const comparison = compareGraphs(BAND_A, BAND_B);
+
+    expect(comparison.roots).toEqual(['band-a', 'band-b']);
+    expect(comparison.sides.get('singer-a')).toBe('a');
+    expect(comparison.sides.get('guest')).toBe('b');
+    expect(comparison.sides.get('drummer')).toBe('both');
+  });
+
+  it('should count shared artists by role and the Jaccard overlap', () => {
+    const comparison = compareGraphs(BAND_A, BAND_B);
+
+    expect(comparison.shared.map(s => s.id).sort()).toEqual(['drummer', 'producer']);
+    expect(comparison.sharedCounts).toEqual({ members: 1, producers: 1, collaborators: 0 });
+    // 2 shared out of 7 distinct artists
+    expect(comparison.jaccard).toBeCloseTo(2 / 7);
+  });
+
+  it('should find the shortest connection between the roots in the merged graph', () => {
+    const comparison = compareGraphs(BAND_A, BAND_B);
+
+    expect(comparison.connection).toHaveLength(3);
+    expect(comparison.connection?.[0]).toBe('band-a');
+    expect(comparison.connection?.[2]).toBe('band-b');
+    expect(comparison.merged.nodes[0].data.id).toBe('band-a');
+    expect(comparison.merged.nodes).toHaveLength(7);
+  });
+
+  it('should report no connection or overlap for unrelated artists', () => {
+    const comparison = compareGraphs(
+      graphOf('x', [['x1', 'x', 'member_of']]),
+      graphOf('y', [['y1', 'y', 'member_of']])
+    );
+
+    expect(comparison.shared).toEqual([]);
+    expect(comparison.jaccard).toBe(0);
+    expect(comparison.connection).toBeNull();
+  });
+});
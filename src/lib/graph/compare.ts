@@ -0,0 +1,121 @@
+import type { ArtistGraph, RelationshipType } from '@/types';
+import { mergeGraphData } from './builder';
+
+/**
+ * Comparison of two artists' graphs (side-by-side and overlay views)
+ *
+ * Artists are matched by MBID. Shared artists are grouped by the kind of link
+ * they have in either graph so the strip can show e.g. "3 shared members".
+ */
+
+/** Which of the two graphs an artist appears in */
+export type CompareSide = 'a' | 'b' | 'both';
+
+export type SharedRole = 'members' | 'producers' | 'collaborators';
+
+const SHARED_ROLE_TYPES: Record<SharedRole, RelationshipType[]> = {
+  members: ['member_of', 'founder_of', 'touring_member'],
+  producers: ['producer'],
+  collaborators: ['collaboration'],
+};
+
+export interface SharedArtist {
+  id: string;
+  name: string;
+  roles: SharedRole[];
+}
+
+export interface GraphComparison {
+  /** Root MBIDs of the two graphs */
+  roots: [string, string];
+  /** Side for every artist in either graph */
+  sides: Map<string, CompareSide>;
+  /** Artists in both graphs (roots excluded), most connected roles first */
+  shared: SharedArtist[];
+  sharedCounts: Record<SharedRole, number>;
+  /** Jaccard index of the two artist sets (0 = disjoint, 1 = identical) */
+  jaccard: number;
+  /** Shortest chain of artists between the roots within the merged graph, if any */
+  connection: string[] | null;
+  /** Both graphs merged, with graph A's root first */
+  merged: ArtistGraph;
+}
+
+/**
+ * Breadth-first shortest path over the (undirected) loaded graph
+ */
+function findLocalPath(graph: ArtistGraph, from: string, to: string): string[] | null {
+  const adjacency = new Map<string, string[]>();
+  for (const { data } of graph.edges) {
+    if (!adjacency.has(data.source)) adjacency.set(data.source, []);
+    if (!adjacency.has(data.target)) adjacency.set(data.target, []);
+    adjacency.get(data.source)!.push(data.target);
+    adjacency.get(data.target)!.push(data.source);
+  }
+
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    if (current === to) {
+      const path: string[] = [];
+      for (let id: string | null = to; id !== null; id = previous.get(id) ?? null) path.unshift(id);
+      return path;
+    }
+    for (const next of adjacency.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+function rolesOf(graph: ArtistGraph, artistId: string, roles: Set<SharedRole>): void {
+  for (const { data } of graph.edges) {
+    if (data.source !== artistId && data.target !== artistId) continue;
+    for (const role of Object.keys(SHARED_ROLE_TYPES) as SharedRole[]) {
+      if (SHARED_ROLE_TYPES[role].includes(data.type)) roles.add(role);
+    }
+  }
+}
+
+export function compareGraphs(a: ArtistGraph, b: ArtistGraph): GraphComparison {
+  const rootA = a.nodes[0]?.data.id ?? '';
+  const rootB = b.nodes[0]?.data.id ?? '';
+  const idsA = new Set(a.nodes.map(n => n.data.id));
+  const idsB = new Set(b.nodes.map(n => n.data.id));
+
+  const sides = new Map<string, CompareSide>();
+  for (const id of idsA) sides.set(id, idsB.has(id) ? 'both' : 'a');
+  for (const id of idsB) if (!idsA.has(id)) sides.set(id, 'b');
+
+  const shared: SharedArtist[] = [];
+  for (const { data } of a.nodes) {
+    if (!idsB.has(data.id) || data.id === rootA || data.id === rootB) continue;
+    const roles = new Set<SharedRole>();
+    rolesOf(a, data.id, roles);
+    rolesOf(b, data.id, roles);
+    shared.push({ id: data.id, name: data.name, roles: [...roles] });
+  }
+  shared.sort((x, y) => y.roles.length - x.roles.length || x.name.localeCompare(y.name));
+
+  const sharedCounts: Record<SharedRole, number> = { members: 0, producers: 0, collaborators: 0 };
+  for (const artist of shared) {
+    for (const role of artist.roles) sharedCounts[role]++;
+  }
+
+  const bothCount = [...sides.values()].filter(side => side === 'both').length;
+  const merged = mergeGraphData(a, b.nodes, b.edges, '');
+
+  return {
+    roots: [rootA, rootB],
+    sides,
+    shared,
+    sharedCounts,
+    jaccard: sides.size > 0 ? bothCount / sides.size : 0,
+    connection: rootA && rootB ? findLocalPath(merged, rootA, rootB) : null,
+    merged,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for the credits expansion (artists credited on the same records)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph, ArtistNode } from '@/types';
+import {
+  applyCreditRelationships,
+  buildCreditRelationships,
+  MAX_CREDIT_TITLES,
+  type CreditPartner,
+} from './credits';
+
+function artist(id: string, type: ArtistNode['type'] = 'person'): ArtistNode {
+  return { id, name: id.replace(/-/g, ' '), type, loaded: false };
+}
+
+function partner(
+  id: string,
+  recordings: string[],
+  releases: string[] = [],
+  roles: string[] = []
+): CreditPartner {
+  return {
+    artist: artist(id),
+    recordings: { count: recordings.length, titles: recordings },
+    releases: { count: releases.length, titles: releases },
+    roles,
+  };
+}
+
+describe('buildCreditRelationships', () => {
+  it('should link the root to partners at or above the threshold, most shared credits first', () => {
+    const { relationships, relatedArtists } = buildCreditRelationships('steely-dan', [
+      partner('larry-carlton', ['Kid Charlemagne'], ['The Royal Scam'], ['instrument']),
+      partner('roger-nichols', ['Aja', 'Peg', 'Deacon Blues'], ['Aja'], ['engineer', 'mix']),
+      partner('michael-mcdonald', ['Peg']),
+    ], { minShared: 2 });
+
+    expect(relatedArtists.map(a => a.id)).toEqual(['roger-nichols', 'larry-carlton']);
+    expect(relationships[0]).toEqual({
+      id: 'credits:roger-nichols-steely-dan',
+      source: 'steely-dan',
+      target: 'roger-nichols',
+      type: 'shared_credits',
+      direction: 'both',
+      attributes: ['engineer', 'mix'],
+      credits: { recordings: 3, releases: 1, titles: ['Aja', 'Peg', 'Deacon Blues'] },
+    });
+    expect(relationships[1].credits!.titles).toEqual(['Kid Charlemagne', 'The Royal Scam']);
+  });
+
+  it('should cap titles and partners and never link the root to itself', () => {
+    const titles = Array.from({ length: MAX_CREDIT_TITLES + 5 }, (_, i) => `Track ${i + 1}`);
+    const { relationships } = buildCreditRelationships('root', [
+      partner('root', titles),
+      partner('a', titles),
+      partner('b', titles.slice(0, 3)),
+      partner('c', titles.slice(0, 4)),
+    ], { minShared: 1, maxArtists: 2 });
+
+    expect(relationships.map(edge => edge.target)).toEqual(['a', 'c']);
+    expect(relationships[0].credits).toMatchObject({ recordings: MAX_CREDIT_TITLES + 5 });
+    expect(relationships[0].credits!.titles).toHaveLength(MAX_CREDIT_TITLES);
+    expect(relationships[0].attributes).toBeUndefined();
+  });
+});
+
+describe('applyCreditRelationships', () => {
+  it('should add new partners and edges, reusing artists already in the graph', () => {
+    const graph: ArtistGraph = {
+      nodes: [{ data: artist('steely-dan', 'group') }, { data: artist('walter-becker') }],
+      edges: [{ data: { id: 'member', source: 'walter-becker', target: 'steely-dan', type: 'member_of', direction: 'forward' } }],
+    };
+    const credits = buildCreditRelationships('steely-dan', [
+      partner('walter-becker', ['Aja', 'Peg']),
+      partner('roger-nichols', ['Aja', 'Peg']),
+    ]);
+
+    const result = applyCreditRelationships(graph, credits);
+
+    expect(result.nodes.map(node => node.data.id)).toEqual(['steely-dan', 'walter-becker', 'roger-nichols']);
+    expect(result.edges.map(edge => edge.data.id)).toEqual([
+      'member',
+      'credits:roger-nichols-steely-dan',
+      'credits:steely-dan-walter-becker',
+    ]);
+    expect(applyCreditRelationships(result, credits)).toBe(result);
+  });
+});
@@ -0,0 +1,114 @@
+import type { ArtistGraph, ArtistNode, ArtistRelationship } from '@/types';
+
+/**
+ * Credits expansion: artists who played on the same record
+ *
+ * Session players, engineers and producers are mostly credited on recordings
+ * and releases (l_artist_recording, l_artist_release) rather than linked to
+ * the artists they worked with. Two artists are linked here when both are
+ * credited - as performer or through such a credit - on enough of the same
+ * recordings and releases, with some of the shared titles on the edge.
+ */
+
+/** Shared recordings + releases needed for an edge when no threshold is given */
+export const DEFAULT_MIN_SHARED_CREDITS = 2;
+/** Highest threshold accepted (API and URL) */
+export const MAX_MIN_SHARED_CREDITS = 100;
+/** Thresholds the graph filter button cycles through */
+export const CREDIT_THRESHOLDS = [2, 5, 10] as const;
+/** Shared titles listed on an edge */
+export const MAX_CREDIT_TITLES = 10;
+
+/** Recordings or releases the root artist shares with a partner */
+export interface SharedCredits {
+  count: number;
+  /** Some of the shared titles (at most MAX_CREDIT_TITLES) */
+  titles: string[];
+}
+
+/** An artist credited on the same recordings or releases as the root artist */
+export interface CreditPartner {
+  artist: ArtistNode;
+  recordings: SharedCredits;
+  releases: SharedCredits;
+  /** How the partner is credited, as MusicBrainz link types ("instrument", "producer", "engineer") */
+  roles: string[];
+}
+
+export interface CreditOptions {
+  /** Leave out partners with fewer shared recordings + releases (default DEFAULT_MIN_SHARED_CREDITS) */
+  minShared?: number;
+  /** Keep at most this many partners, most shared credits first (default 25) */
+  maxArtists?: number;
+}
+
+export interface CreditRelationships {
+  relationships: ArtistRelationship[];
+  relatedArtists: ArtistNode[];
+}
+
+export function creditEdgeId(a: string, b: string): string {
+  const [first, second] = [a, b].sort();
+  return `credits:${first}-${second}`;
+}
+
+function sharedCount(partner: CreditPartner): number {
+  return partner.recordings.count + partner.releases.count;
+}
+
+/** Recording titles first, then release titles not already listed */
+function sharedTitles(partner: CreditPartner): string[] {
+  const titles = new Set(partner.recordings.titles);
+  for (const title of partner.releases.titles) titles.add(title);
+  return [...titles].slice(0, MAX_CREDIT_TITLES);
+}
+
+/**
+ * Turn an artist's credit partners into 'shared_credits' relationships
+ */
+export function buildCreditRelationships(
+  rootId: string,
+  partners: CreditPartner[],
+  { minShared = DEFAULT_MIN_SHARED_CREDITS, maxArtists = 25 }: CreditOptions = {}
+): CreditRelationships {
+  const kept = partners
+    .filter(partner => partner.artist.id !== rootId && sharedCount(partner) >= minShared)
+    .sort((a, b) => sharedCount(b) - sharedCount(a) || a.artist.name.localeCompare(b.artist.name))
+    .slice(0, maxArtists);
+
+  return {
+    relationships: kept.map(partner => ({
+      id: creditEdgeId(rootId, partner.artist.id),
+      source: rootId,
+      target: partner.artist.id,
+      type: 'shared_credits',
+      direction: 'both',
+      ...(partner.roles.length > 0 && { attributes: [...partner.roles].sort() }),
+      credits: {
+        recordings: partner.recordings.count,
+        releases: partner.releases.count,
+        titles: sharedTitles(partner),
+      },
+    })),
+    relatedArtists: kept.map(partner => partner.artist),
+  };
+}
+
+/**
+ * Add a credits expansion to a graph
+ * Partners already in the graph are reused rather than added again.
+ */
+export function applyCreditRelationships(graph: ArtistGraph, { relationships, relatedArtists }: CreditRelationships): ArtistGraph {
+  const nodeIds = new Set(graph.nodes.map(node => node.data.id));
+  const edgeIds = new Set(graph.edges.map(edge => edge.data.id));
+  const edges = relationships.filter(edge => !edgeIds.has(edge.id));
+  if (edges.length === 0) return graph;
+
+  return {
+    nodes: [
+      ...graph.nodes,
+      ...relatedArtists.filter(artist => !nodeIds.has(artist.id)).map(data => ({ data })),
+    ],
+    edges: [...graph.edges, ...edges.map(data => ({ data }))],
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Tests for derived relationships (label-mates and same-scene artists)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph } from '@/types';
+import {
+  applyDerivedRelationships,
+  deriveRelationships,
+  type ArtistDerivationContext,
+  type ArtistLabelReleases,
+} from './derived';
+
+function label(labelId: string, begin: number | null, end: number | null, releaseCount = 3): ArtistLabelReleases {
+  return { labelId, labelName: labelId.toUpperCase(), begin, end, releaseCount };
+}
+
+function artist(
+  artistId: string,
+  labels: ArtistLabelReleases[] = [],
+  area: ArtistDerivationContext['area'] = null,
+  beginYear: number | null = null,
+  type: ArtistDerivationContext['type'] = 'group'
+): ArtistDerivationContext {
+  return { artistId, type, labels, area, beginYear };
+}
+
+const MANCHESTER = { id: 'manchester', name: 'Manchester', type: 'City' };
+const UK = { id: 'uk', name: 'United Kingdom', type: 'Country' };
+
+describe('deriveRelationships', () => {
+  it('should link artists whose years on a shared label overlap, keeping the strongest label', () => {
+    const edges = deriveRelationships([
+      artist('joy-division', [label('factory', 1978, 1980), label('rabid', 1978, 1978, 1)]),
+      artist('new-order', [label('factory', 1981, 1992)]),
+      artist('happy-mondays', [label('factory', 1987, 1992), label('rabid', 1978, 1978, 1)]),
+    ], { types: ['same_label'] });
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0]).toMatchObject({
+      id: 'derived:same_label:happy-mondays-new-order',
+      source: 'happy-mondays',
+      target: 'new-order',
+      type: 'same_label',
+      direction: 'both',
+      period: { begin: '1987', end: '1992' },
+      derived: { confidence: 1, basis: 'Both released on FACTORY (1987–1992)' },
+    });
+  });
+
+  it('should link artists formed in the same area and decade, trusting cities over countries', () => {
+    const edges = deriveRelationships([
+      artist('joy-division', [], MANCHESTER, 1976),
+      artist('the-fall', [], MANCHESTER, 1976),
+      artist('the-smiths', [], MANCHESTER, 1982),
+      artist('oasis', [], UK, 1991),
+      artist('blur', [], UK, 1991),
+    ], { types: ['same_scene'] });
+
+    const byId = new Map(edges.map(edge => [edge.id, edge.derived!]));
+    expect([...byId.keys()]).toEqual([
+      'derived:same_scene:joy-division-the-fall',
+      'derived:same_scene:blur-oasis',
+    ]);
+    expect(byId.get('derived:same_scene:joy-division-the-fall')).toEqual({
+      confidence: 1,
+      basis: 'Both formed in Manchester in the 1970s',
+    });
+    expect(byId.get('derived:same_scene:blur-oasis')!.confidence).toBeCloseTo(0.35);
+  });
+
+  it('should not link persons born in the same city and decade', () => {
+    const edges = deriveRelationships([
+      artist('morrissey', [], MANCHESTER, 1959, 'person'),
+      artist('johnny-marr', [], MANCHESTER, 1963, 'person'),
+      artist('the-smiths', [], MANCHESTER, 1982),
+      artist('the-stone-roses', [], MANCHESTER, 1983),
+    ], { types: ['same_scene'] });
+
+    expect(edges.map(e => e.id)).toEqual(['derived:same_scene:the-smiths-the-stone-roses']);
+  });
+
+  it('should drop weak edges and cap the edges per artist', () => {
+    const contexts = ['a', 'b', 'c', 'd'].map((id, i) => artist(id, [], MANCHESTER, 1980 + i));
+
+    expect(deriveRelationships(contexts, { minConfidence: 0.85 }).map(e => e.id)).toEqual([
+      'derived:same_scene:a-b',
+      'derived:same_scene:b-c',
+      'derived:same_scene:c-d',
+    ]);
+    const capped = deriveRelationships(contexts, { maxPerArtist: 1 });
+    expect(capped.map(e => e.id)).toEqual(['derived:same_scene:a-b', 'derived:same_scene:c-d']);
+  });
+});
+
+describe('applyDerivedRelationships', () => {
+  it('should only add new edges between artists already in the graph', () => {
+    const graph: ArtistGraph = {
+      nodes: [{ data: { id: 'a', name: 'A', type: 'group' } }, { data: { id: 'b', name: 'B', type: 'group' } }],
+      edges: [],
+    };
+    const [inGraph, outside] = deriveRelationships([
+      artist('a', [], MANCHESTER, 1980),
+      artist('b', [], MANCHESTER, 1980),
+      artist('c', [], MANCHESTER, 1981),
+    ], { maxPerArtist: 1 }).concat(deriveRelationships([
+      artist('b', [], MANCHESTER, 1980),
+      artist('z', [], MANCHESTER, 1980),
+    ]));
+
+    const result = applyDerivedRelationships(graph, [inGraph, outside]);
+    expect(result.edges.map(e => e.data.id)).toEqual(['derived:same_scene:a-b']);
+    expect(applyDerivedRelationships(result, [inGraph])).toBe(result);
+  });
+});
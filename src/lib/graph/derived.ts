@@ -0,0 +1,207 @@
+import type { ArtistGraph, ArtistRelationship } from '@/types';
+
+/**
+ * Derived relationships: label-mates and same-scene artists
+ *
+ * MusicBrainz has no artist-artist links for "released on the same label" or
+ * "came out of the same scene", so these are inferred from other data in the
+ * local database - the labels an artist's releases came out on (with years),
+ * and where and when a group was formed. Scenes are between groups only: a
+ * person's begin area and year are where and when they were born, which says
+ * nothing about the scene they played in. Every derived edge carries a
+ * confidence (0..1) and a human-readable basis, and is marked `derived` so it
+ * is never mistaken for a curated MusicBrainz link.
+ */
+
+export const DERIVED_RELATIONSHIP_TYPES = ['same_label', 'same_scene'] as const;
+export type DerivedRelationshipType = typeof DERIVED_RELATIONSHIP_TYPES[number];
+
+/** Most artists derived over in one request (a large expanded graph) */
+export const MAX_DERIVED_ARTISTS = 500;
+
+/** Releases of one artist on one label */
+export interface ArtistLabelReleases {
+  labelId: string;
+  labelName: string;
+  /** First and last release year on the label (null when undated) */
+  begin: number | null;
+  end: number | null;
+  releaseCount: number;
+}
+
+/** What derivation needs to know about an artist */
+export interface ArtistDerivationContext {
+  artistId: string;
+  type: 'person' | 'group';
+  labels: ArtistLabelReleases[];
+  /** Where the artist was formed (begin area, else main area) */
+  area: { id: string; name: string; type: string | null } | null;
+  beginYear: number | null;
+}
+
+export interface DerivationOptions {
+  types?: readonly DerivedRelationshipType[];
+  /** Leave out edges below this confidence (default 0.3) */
+  minConfidence?: number;
+  /** Keep at most this many derived edges per artist and type, strongest first (default 5) */
+  maxPerArtist?: number;
+}
+
+// Label-mates: years of overlap and releases each that give full confidence
+const FULL_OVERLAP_YEARS = 5;
+const FULL_RELEASE_COUNT = 3;
+// Scenes: artists formed in the same decade; confidence falls off over these years apart
+const SCENE_MAX_YEARS_APART = 10;
+// Sharing a country says much less than sharing a city
+const AREA_TYPE_WEIGHT: Record<string, number> = { City: 1, District: 1, Municipality: 0.9, County: 0.7, Subdivision: 0.6, Country: 0.35 };
+const DEFAULT_AREA_WEIGHT = 0.8;
+
+function derivedEdgeId(type: DerivedRelationshipType, a: string, b: string): string {
+  return `derived:${type}:${a}-${b}`;
+}
+
+function yearSpan(begin: number, end: number): string {
+  return begin === end ? String(begin) : `${begin}–${end}`;
+}
+
+/** Best-scoring pair of releases on a shared label, or null when the years don't overlap */
+function scoreLabelPair(a: ArtistLabelReleases, b: ArtistLabelReleases): { confidence: number; begin: number; end: number } | null {
+  if (a.begin === null || b.begin === null) return null;
+  const begin = Math.max(a.begin, b.begin);
+  const end = Math.min(a.end ?? a.begin, b.end ?? b.begin);
+  if (begin > end) return null;
+
+  const overlap = Math.min(end - begin + 1, FULL_OVERLAP_YEARS) / FULL_OVERLAP_YEARS;
+  const releases = Math.min(a.releaseCount, b.releaseCount, FULL_RELEASE_COUNT) / FULL_RELEASE_COUNT;
+  return { confidence: 0.5 * overlap + 0.5 * releases, begin, end };
+}
+
+function deriveLabelMates(contexts: ArtistDerivationContext[]): ArtistRelationship[] {
+  // Label -> artists with releases on it
+  const byLabel = new Map<string, Array<{ artistId: string; releases: ArtistLabelReleases }>>();
+  for (const { artistId, labels } of contexts) {
+    for (const releases of labels) {
+      const artists = byLabel.get(releases.labelId) ?? [];
+      artists.push({ artistId, releases });
+      byLabel.set(releases.labelId, artists);
+    }
+  }
+
+  // Keep the strongest shared label per pair of artists
+  const best = new Map<string, ArtistRelationship>();
+  for (const artists of byLabel.values()) {
+    for (let i = 0; i < artists.length; i++) {
+      for (let j = i + 1; j < artists.length; j++) {
+        const [first, second] = [artists[i], artists[j]].sort((x, y) => x.artistId.localeCompare(y.artistId));
+        if (first.artistId === second.artistId) continue;
+        const score = scoreLabelPair(first.releases, second.releases);
+        if (!score) continue;
+
+        const id = derivedEdgeId('same_label', first.artistId, second.artistId);
+        if ((best.get(id)?.derived?.confidence ?? -1) >= score.confidence) continue;
+        best.set(id, {
+          id,
+          source: first.artistId,
+          target: second.artistId,
+          type: 'same_label',
+          direction: 'both',
+          period: { begin: String(score.begin), end: String(score.end) },
+          derived: {
+            confidence: score.confidence,
+            basis: `Both released on ${first.releases.labelName} (${yearSpan(score.begin, score.end)})`,
+          },
+        });
+      }
+    }
+  }
+  return [...best.values()];
+}
+
+function deriveScenes(contexts: ArtistDerivationContext[]): ArtistRelationship[] {
+  // Area -> groups formed there (with a known year)
+  const byArea = new Map<string, ArtistDerivationContext[]>();
+  for (const context of contexts) {
+    if (context.type !== 'group' || !context.area || context.beginYear === null) continue;
+    const artists = byArea.get(context.area.id) ?? [];
+    artists.push(context);
+    byArea.set(context.area.id, artists);
+  }
+
+  const edges: ArtistRelationship[] = [];
+  for (const artists of byArea.values()) {
+    const sorted = [...artists].sort((x, y) => x.artistId.localeCompare(y.artistId));
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const [first, second] = [sorted[i], sorted[j]];
+        const yearsApart = Math.abs(first.beginYear! - second.beginYear!);
+        const decade = Math.floor(first.beginYear! / 10) * 10;
+        if (decade !== Math.floor(second.beginYear! / 10) * 10) continue;
+
+        const area = first.area!;
+        const areaWeight = AREA_TYPE_WEIGHT[area.type ?? ''] ?? DEFAULT_AREA_WEIGHT;
+        const confidence = areaWeight * (1 - yearsApart / SCENE_MAX_YEARS_APART);
+        edges.push({
+          id: derivedEdgeId('same_scene', first.artistId, second.artistId),
+          source: first.artistId,
+          target: second.artistId,
+          type: 'same_scene',
+          direction: 'both',
+          derived: {
+            confidence,
+            basis: `Both formed in ${area.name} in the ${decade}s`,
+          },
+        });
+      }
+    }
+  }
+  return edges;
+}
+
+/** Strongest edges first, at most `max` per artist */
+function limitPerArtist(edges: ArtistRelationship[], max: number): ArtistRelationship[] {
+  const counts = new Map<string, number>();
+  return [...edges]
+    .sort((a, b) => b.derived!.confidence - a.derived!.confidence || a.id.localeCompare(b.id))
+    .filter(edge => {
+      const source = counts.get(edge.source) ?? 0;
+      const target = counts.get(edge.target) ?? 0;
+      if (source >= max || target >= max) return false;
+      counts.set(edge.source, source + 1);
+      counts.set(edge.target, target + 1);
+      return true;
+    });
+}
+
+/**
+ * Infer label-mate and same-scene relationships between the given artists
+ */
+export function deriveRelationships(
+  contexts: ArtistDerivationContext[],
+  { types = DERIVED_RELATIONSHIP_TYPES, minConfidence = 0.3, maxPerArtist = 5 }: DerivationOptions = {}
+): ArtistRelationship[] {
+  const derivations: Record<DerivedRelationshipType, () => ArtistRelationship[]> = {
+    same_label: () => deriveLabelMates(contexts),
+    same_scene: () => deriveScenes(contexts),
+  };
+
+  return types.flatMap(type => limitPerArtist(
+    derivations[type]().filter(edge => edge.derived!.confidence >= minConfidence),
+    maxPerArtist
+  ));
+}
+
+/**
+ * Add derived edges between artists already in a graph
+ * Edges to artists outside the graph are dropped, and so are duplicates of an
+ * edge the graph already has.
+ */
+export function applyDerivedRelationships(graph: ArtistGraph, derived: ArtistRelationship[]): ArtistGraph {
+  const nodeIds = new Set(graph.nodes.map(node => node.data.id));
+  const edgeIds = new Set(graph.edges.map(edge => edge.data.id));
+  const added = derived.filter(edge =>
+    nodeIds.has(edge.source) && nodeIds.has(edge.target) && !edgeIds.has(edge.id)
+  );
+  if (added.length === 0) return graph;
+
+  return { nodes: graph.nodes, edges: [...graph.edges, ...added.map(data => ({ data }))] };
+}
@@ -0,0 +1,129 @@
+/**
+ * Tests for multi-level graph expansion
+ *
+ * Uses an in-memory adjacency list as the loader so levels, batching and
+ * streamed chunks can be verified without a database or the MusicBrainz API.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
+import {
+  expandArtistGraph,
+  applyExpansionChunk,
+  type ArtistRelationshipsData,
+  type ExpansionChunk,
+  type ExpansionLoader,
+} from './expand';
+
+function rel(source: string, target: string, type: RelationshipType = 'member_of'): ArtistRelationship {
+  return { id: `${source}-${type}-${target}`, source, target, type, direction: 'forward' };
+}
+
+function artist(id: string): ArtistNode {
+  return { id, name: id.toUpperCase(), type: 'person', loaded: false };
+}
+
+function relationshipsOf(id: string, links: ArtistRelationship[]): ArtistRelationshipsData {
+  const relationships = links.filter(l => l.source === id || l.target === id);
+  const related = new Set(relationships.map(l => (l.source === id ? l.target : l.source)));
+  return { artist: artist(id), relationships, relatedArtists: Array.from(related, artist) };
+}
+
+function createLoader(links: ArtistRelationship[]) {
+  return vi.fn<ExpansionLoader>(async (mbids) => mbids.map(id => relationshipsOf(id, links)));
+}
+
+// a - b - c - d, plus a - e (collaboration) and e - f
+const LINKS = [
+  rel('a', 'b'),
+  rel('b', 'c'),
+  rel('c', 'd'),
+  rel('a', 'e', 'collaboration'),
+  rel('e', 'f'),
+];
+
+const nodeIds = (graph: { nodes: Array<{ data: { id: string } }> }) =>
+  graph.nodes.map(n => n.data.id).sort();
+
+describe('expandArtistGraph', () => {
+  it('should only use the root data at depth 1', async () => {
+    const load = createLoader(LINKS);
+
+    const result = await expandArtistGraph(relationshipsOf('a', LINKS), 1, load);
+
+    expect(load).not.toHaveBeenCalled();
+    expect(nodeIds(result.graph)).toEqual(['a', 'b', 'e']);
+    expect(result.stopReason).toBe('complete');
+  });
+
+  it('should expand level by level to the requested depth', async () => {
+    const load = createLoader(LINKS);
+
+    const result = await expandArtistGraph(relationshipsOf('a', LINKS), 3, load);
+
+    expect(load.mock.calls.map(([batch]) => batch)).toEqual([['b', 'e'], ['c', 'f']]);
+    expect(nodeIds(result.graph)).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(result.graph.nodes.find(n => n.data.id === 'c')?.data.loaded).toBe(true);
+    expect(result.graph.nodes.find(n => n.data.id === 'd')?.data.loaded).toBe(false);
+    expect(result.expandedCount).toBe(4);
+    expect(result.levelReached).toBe(3);
+  });
+
+  it('should stream chunks that rebuild the same graph', async () => {
+    const load = createLoader(LINKS);
+    const chunks: ExpansionChunk[] = [];
+    const root = relationshipsOf('a', LINKS);
+
+    const result = await expandArtistGraph(root, 4, load, {
+      batchSize: 1,
+      onChunk: chunk => { chunks.push(chunk); },
+    });
+
+    expect(chunks.map(c => [c.level, c.current, c.total])).toEqual([
+      [1, 1, 2], [1, 2, 2], [2, 1, 2], [2, 2, 2], [3, 1, 1],
+    ]);
+
+    let rebuilt = (await expandArtistGraph(root, 1, load)).graph;
+    for (const chunk of chunks) rebuilt = applyExpansionChunk(rebuilt, chunk);
+
+    expect(rebuilt.nodes).toEqual(result.graph.nodes);
+    expect(rebuilt.edges).toEqual(result.graph.edges);
+  });
+
+  it('should only follow the requested relationship types', async () => {
+    const load = createLoader(LINKS);
+
+    const result = await expandArtistGraph(relationshipsOf('a', LINKS), 3, load, {
+      relationshipTypes: ['member_of'],
+    });
+
+    expect(nodeIds(result.graph)).toEqual(['a', 'b', 'c', 'd']);
+    expect(result.graph.edges.every(e => e.data.type === 'member_of')).toBe(true);
+  });
+
+  it('should stop at the artist budget and when aborted', async () => {
+    const capped = await expandArtistGraph(relationshipsOf('a', LINKS), 4, createLoader(LINKS), {
+      batchSize: 1,
+      maxArtists: 3,
+    });
+    expect(capped.expandedCount).toBe(3);
+    expect(capped.stopReason).toBe('max-artists');
+
+    const controller = new AbortController();
+    const aborted = await expandArtistGraph(relationshipsOf('a', LINKS), 4, createLoader(LINKS), {
+      batchSize: 1,
+      signal: controller.signal,
+      onChunk: () => controller.abort(),
+    });
+    expect(aborted.expandedCount).toBe(1);
+    expect(aborted.stopReason).toBe('aborted');
+  });
+
+  it('should mark artists the loader could not find as loaded', async () => {
+    const load = vi.fn<ExpansionLoader>(async () => []);
+
+    const result = await expandArtistGraph(relationshipsOf('a', LINKS), 2, load);
+
+    expect(result.graph.nodes.every(n => n.data.loaded)).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+import type { ArtistGraph, ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
+import type { ExpansionDepth } from './types';
+import { buildGraphData, mergeGraphData } from './builder';
+
+/**
+ * Multi-level graph expansion ("network depth") run in one pass.
+ *
+ * Starting from the root artist's direct connections, every unexpanded artist
+ * at the current level is loaded and merged in, level by level, until the
+ * requested depth is reached. Artists are loaded in batches through a
+ * caller-supplied loader (one SQL query per batch locally, one API call per
+ * artist otherwise) and each batch is reported as a chunk containing only
+ * what it added, so progress can be streamed to the browser.
+ */
+
+export const MAX_EXPANSION_DEPTH: ExpansionDepth = 4;
+export const DEFAULT_EXPAND_BATCH_SIZE = 50;
+export const DEFAULT_EXPAND_MAX_ARTISTS = 5000;
+
+export interface ArtistRelationshipsData {
+  artist: ArtistNode;
+  relationships: ArtistRelationship[];
+  relatedArtists: ArtistNode[];
+}
+
+/**
+ * Loads relationships for a batch of artists
+ * Artists that can't be found are simply left out of the result.
+ */
+export type ExpansionLoader = (mbids: string[]) => Promise<ArtistRelationshipsData[]>;
+
+export interface ExpansionChunk {
+  /** Level of the expanded artists (1 = the root's direct connections) */
+  level: number;
+  /** Artists expanded so far at this level */
+  current: number;
+  /** Artists to expand at this level */
+  total: number;
+  /** Artists whose connections are included in this chunk (now loaded) */
+  expanded: string[];
+  /** Artists and links not sent in earlier chunks */
+  nodes: ArtistGraph['nodes'];
+  edges: ArtistGraph['edges'];
+}
+
+export type ExpansionStopReason = 'complete' | 'max-artists' | 'aborted';
+
+export interface ExpansionOptions {
+  /** Only follow these relationship types (default: all) */
+  relationshipTypes?: RelationshipType[];
+  /** Artists loaded per loader call */
+  batchSize?: number;
+  /** Stop after expanding this many artists */
+  maxArtists?: number;
+  /** Called after every batch; awaited so a slow consumer applies backpressure */
+  onChunk?: (chunk: ExpansionChunk) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+export interface ExpansionResult {
+  graph: ArtistGraph;
+  /** Number of artists expanded (excluding the root) */
+  expandedCount: number;
+  /** Deepest level that was fully or partially expanded */
+  levelReached: number;
+  stopReason: ExpansionStopReason;
+}
+
+/**
+ * Events written by /api/graph/expand, one JSON object per line (NDJSON)
+ */
+export type ExpansionStreamEvent =
+  | ({ type: 'chunk' } & ExpansionChunk)
+  | {
+      type: 'done';
+      source: 'local' | 'api';
+      latencyMs: number;
+      expandedCount: number;
+      levelReached: number;
+      stopReason: ExpansionStopReason;
+    }
+  | { type: 'error'; error: string };
+
+/**
+ * Drop relationships (and artists only reachable through them) of other types
+ */
+function filterByTypes(
+  data: ArtistRelationshipsData,
+  types: Set<RelationshipType> | null
+): ArtistRelationshipsData {
+  if (!types) return data;
+
+  const relationships = data.relationships.filter(rel => types.has(rel.type));
+  const relatedIds = new Set(relationships.flatMap(rel => [rel.source, rel.target]));
+  return {
+    ...data,
+    relationships,
+    relatedArtists: data.relatedArtists.filter(a => relatedIds.has(a.id)),
+  };
+}
+
+/**
+ * Expand the root artist's graph to the given depth
+ * Depth 1 is the root with its direct connections (no loader calls).
+ */
+export async function expandArtistGraph(
+  root: ArtistRelationshipsData,
+  depth: ExpansionDepth,
+  load: ExpansionLoader,
+  options: ExpansionOptions = {}
+): Promise<ExpansionResult> {
+  const types = options.relationshipTypes ? new Set(options.relationshipTypes) : null;
+  const batchSize = options.batchSize ?? DEFAULT_EXPAND_BATCH_SIZE;
+  const maxArtists = options.maxArtists ?? DEFAULT_EXPAND_MAX_ARTISTS;
+
+  const toGraph = (data: ArtistRelationshipsData) => {
+    const filtered = filterByTypes(data, types);
+    return buildGraphData(
+      filtered.artist,
+      filtered.relationships,
+      filtered.relatedArtists,
+      filtered.artist.activeYears?.begin
+    );
+  };
+
+  let graph = toGraph(root);
+  const nodeDepths = new Map<string, number>([[root.artist.id, 0]]);
+  for (const node of graph.nodes) {
+    if (!nodeDepths.has(node.data.id)) nodeDepths.set(node.data.id, 1);
+  }
+
+  let expandedCount = 0;
+  let levelReached = 1;
+
+  for (let level = 1; level < Math.min(depth, MAX_EXPANSION_DEPTH); level++) {
+    const toExpand = graph.nodes
+      .filter(n => !n.data.loaded && nodeDepths.get(n.data.id) === level)
+      .map(n => n.data.id);
+    if (toExpand.length === 0) break;
+    levelReached = level + 1;
+
+    for (let i = 0; i < toExpand.length; i += batchSize) {
+      if (options.signal?.aborted) {
+        return { graph, expandedCount, levelReached, stopReason: 'aborted' };
+      }
+      if (expandedCount >= maxArtists) {
+        return { graph, expandedCount, levelReached, stopReason: 'max-artists' };
+      }
+
+      const batch = toExpand.slice(i, Math.min(i + batchSize, i + maxArtists - expandedCount));
+      const loaded = await load(batch);
+
+      const knownNodes = new Set(graph.nodes.map(n => n.data.id));
+      const knownEdges = new Set(graph.edges.map(e => e.data.id));
+      for (const data of loaded) {
+        const subgraph = toGraph(data);
+        for (const node of subgraph.nodes) {
+          if (!nodeDepths.has(node.data.id)) nodeDepths.set(node.data.id, level + 1);
+        }
+        graph = mergeGraphData(graph, subgraph.nodes, subgraph.edges, data.artist.id);
+      }
+      expandedCount += batch.length;
+
+      await options.onChunk?.({
+        level,
+        current: Math.min(i + batch.length, toExpand.length),
+        total: toExpand.length,
+        // Artists the loader couldn't find are still marked so they aren't retried
+        expanded: batch,
+        nodes: graph.nodes.filter(n => !knownNodes.has(n.data.id)),
+        edges: graph.edges.filter(e => !knownEdges.has(e.data.id)),
+      });
+
+      for (const id of batch) {
+        graph = markLoaded(graph, id);
+      }
+    }
+  }
+
+  return { graph, expandedCount, levelReached, stopReason: 'complete' };
+}
+
+function markLoaded(graph: ArtistGraph, id: string): ArtistGraph {
+  const index = graph.nodes.findIndex(n => n.data.id === id);
+  if (index === -1 || graph.nodes[index].data.loaded) return graph;
+  const nodes = [...graph.nodes];
+  nodes[index] = { ...nodes[index], data: { ...nodes[index].data, loaded: true } };
+  return { ...graph, nodes };
+}
+
+/**
+ * Apply a streamed chunk to a graph (client side)
+ */
+export function applyExpansionChunk(graph: ArtistGraph, chunk: ExpansionChunk): ArtistGraph {
+  let merged = mergeGraphData(graph, chunk.nodes, chunk.edges, '');
+  for (const id of chunk.expanded) {
+    merged = markLoaded(merged, id);
+  }
+  return merged;
+}
@@ -0,0 +1,257 @@
+/**
+ * Tests for the graph export serializers
+ *
+ * Each format is parsed back and compared with the exported graph; GraphML
+ * and Cytoscape JSON are also read back with importGraph. The fixture has
+ * names that need escaping in every format (&, quotes, commas).
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph } from '@/types';
+import {
+  exportCytoscapeJSON,
+  exportEdgesCSV,
+  exportGEXF,
+  exportGraph,
+  exportGraphML,
+  exportNodesCSV,
+  GRAPH_SCHEMA_VERSION,
+  type GraphExportFormat,
+} from './export';
+import { importGraph } from './import';
+
+const BAND = '5d7a5f6f-7a1b-4c84-a14a-3f6a7b1c6a11';
+const SINGER = 'c1d4f2d3-4b0a-4bb9-8f0e-0a4c9e2d6b22';
+const PRODUCER = '8e2b7d41-0c5f-4a9e-9b63-5f1d2c7e4a33';
+
+const graph: ArtistGraph = {
+  nodes: [
+    {
+      data: {
+        id: BAND,
+        name: 'Crosby, Stills & Nash',
+        type: 'group',
+        country: 'US',
+        activeYears: { begin: '1968', end: '2016' },
+        founding: false,
+        loaded: true,
+        genres: ['folk rock', 'soft rock'],
+      },
+      position: { x: 10, y: -20.5 },
+    },
+    {
+      data: {
+        id: SINGER,
+        name: 'Graham Nash',
+        type: 'person',
+        disambiguation: 'the "Hollies" singer',
+        activeYears: { begin: '1942', end: null },
+        founding: true,
+        loaded: false,
+        instruments: ['guitar', 'vocals'],
+      },
+      position: { x: 200, y: 40 },
+    },
+    {
+      data: { id: PRODUCER, name: 'Bill Halverson', type: 'person', founding: false, loaded: false },
+    },
+  ],
+  edges: [
+    {
+      data: {
+        id: `${SINGER}-member_of-${BAND}`,
+        source: SINGER,
+        target: BAND,
+        type: 'member_of',
+        direction: 'forward',
+        attributes: ['guitar', 'lead vocals'],
+        period: { begin: '1968', end: '2016' },
+      },
+    },
+    {
+      data: { id: `${PRODUCER}-producer-${BAND}`, source: PRODUCER, target: BAND, type: 'producer', direction: 'forward' },
+    },
+  ],
+};
+
+/** Minimal CSV reader (quoted cells, doubled quotes) keyed by the header row */
+function parseCSV(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { row.push(cell); cell = ''; }
+    else if (char === '\n') { row.push(cell); rows.push(row); row = []; cell = ''; }
+    else cell += char;
+  }
+  const [header, ...body] = rows;
+  return body.map(cells => Object.fromEntries(header.map((name, i) => [name, cells[i]])));
+}
+
+/** GraphML node or edge with its data values keyed by attribute name */
+function readGraphML(text: string) {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+
+  const names = new Map(
+    Array.from(doc.getElementsByTagName('key')).map(key => [key.getAttribute('id'), key.getAttribute('attr.name')])
+  );
+  const read = (el: Element) => ({
+    id: el.getAttribute('id'),
+    values: Object.fromEntries(Array.from(el.getElementsByTagName('data'))
+      .map(data => [names.get(data.getAttribute('key')), data.textContent])),
+  });
+
+  return {
+    nodes: Array.from(doc.getElementsByTagName('node')).map(read),
+    edges: Array.from(doc.getElementsByTagName('edge')).map(el => ({
+      ...read(el),
+      source: el.getAttribute('source'),
+      target: el.getAttribute('target'),
+    })),
+  };
+}
+
+/** GEXF node or edge with its attvalues keyed by attribute title */
+function readGEXF(text: string) {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+
+  const titles = (cls: string) => new Map(
+    Array.from(doc.querySelectorAll(`attributes[class="${cls}"] > attribute`))
+      .map(attr => [attr.getAttribute('id'), attr.getAttribute('title')])
+  );
+  const read = (el: Element, names: Map<string | null, string | null>) => ({
+    id: el.getAttribute('id'),
+    label: el.getAttribute('label'),
+    values: Object.fromEntries(Array.from(el.getElementsByTagName('attvalue'))
+      .map(value => [names.get(value.getAttribute('for')), value.getAttribute('value')])),
+    position: el.getElementsByTagName('viz:position')[0]?.getAttribute('y') ?? null,
+  });
+
+  const nodeTitles = titles('node');
+  const edgeTitles = titles('edge');
+  return {
+    nodes: Array.from(doc.getElementsByTagName('node')).map(el => read(el, nodeTitles)),
+    edges: Array.from(doc.getElementsByTagName('edge')).map(el => ({
+      ...read(el, edgeTitles),
+      source: el.getAttribute('source'),
+      target: el.getAttribute('target'),
+    })),
+  };
+}
+
+describe('graph export', () => {
+  it('should round-trip Cytoscape JSON with the typed data and positions', () => {
+    const { elements } = JSON.parse(exportCytoscapeJSON(graph, { rootId: BAND }));
+
+    expect(elements.nodes).toEqual(graph.nodes.map(({ data, position }) => ({
+      data: { ...data, root: data.id === BAND },
+      ...(position && { position }),
+    })));
+    expect(elements.edges).toEqual(graph.edges);
+  });
+
+  it('should round-trip GraphML with escaped values and joined lists', () => {
+    const { nodes, edges } = readGraphML(exportGraphML(graph, { rootId: BAND }));
+
+    expect(nodes.map(node => [node.id, node.values.name, node.values.type])).toEqual(
+      graph.nodes.map(({ data }) => [data.id, data.name, data.type])
+    );
+    expect(nodes[0].values).toMatchObject({ genres: 'folk rock;soft rock', root: 'true', endYear: '2016' });
+    expect(nodes[1].values).toMatchObject({
+      disambiguation: 'the "Hollies" singer',
+      instruments: 'guitar;vocals',
+      founding: 'true',
+      root: 'false',
+    });
+    expect(nodes[1].values).not.toHaveProperty('end');
+
+    expect(edges.map(edge => [edge.id, edge.source, edge.target, edge.values.type]))
+      .toEqual(graph.edges.map(({ data }) => [data.id, data.source, data.target, data.type]));
+    expect(edges[0].values).toMatchObject({ attributes: 'guitar;lead vocals', periodEnd: '2016' });
+    expect(edges[1].values).not.toHaveProperty('attributes');
+  });
+
+  it.each([
+    ['Cytoscape JSON', exportCytoscapeJSON],
+    ['GraphML', exportGraphML],
+  ])('should round-trip %s through importGraph', (_, exporter) => {
+    const result = importGraph(exporter(graph, { rootId: BAND }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.rootId).toBe(BAND);
+    expect(result.graph).toEqual(graph);
+  });
+
+  it('should round-trip GEXF with labels, list values and flipped y positions', () => {
+    const { nodes, edges } = readGEXF(exportGEXF(graph, { rootId: BAND, title: 'CSN & friends' }));
+
+    expect(nodes.map(node => [node.id, node.label])).toEqual(graph.nodes.map(({ data }) => [data.id, data.name]));
+    expect(nodes[0].values).toMatchObject({ genres: 'folk rock|soft rock', root: 'true', beginYear: '1968' });
+    expect(nodes[1].values).toMatchObject({
+      disambiguation: 'the "Hollies" singer',
+      instruments: 'guitar|vocals',
+      founding: 'true',
+      root: 'false',
+    });
+    expect(nodes[1].values).not.toHaveProperty('end');
+    expect(nodes.map(node => node.position)).toEqual(['20.50', '-40.00', null]);
+
+    expect(edges.map(edge => [edge.id, edge.source, edge.target, edge.label]))
+      .toEqual(graph.edges.map(({ data }) => [data.id, data.source, data.target, data.type]));
+    expect(edges[0].values).toMatchObject({ attributes: 'guitar|lead vocals', periodBegin: '1968', endYear: '2016' });
+    expect(edges[1].values).not.toHaveProperty('attributes');
+  });
+
+  it('should round-trip node and edge CSV with quoted cells and joined lists', () => {
+    const nodes = parseCSV(exportNodesCSV(graph, { rootId: BAND }));
+    const edges = parseCSV(exportEdgesCSV(graph));
+
+    expect(nodes.map(row => [row.id, row.name, row.type])).toEqual(
+      graph.nodes.map(({ data }) => [data.id, data.name, data.type])
+    );
+    expect(nodes[0]).toMatchObject({ genres: 'folk rock;soft rock', root: 'true', end: '2016' });
+    expect(nodes[1]).toMatchObject({ disambiguation: 'the "Hollies" singer', instruments: 'guitar;vocals', end: '' });
+
+    expect(edges.map(row => [row.id, row.source, row.target, row.type, row.direction])).toEqual(
+      graph.edges.map(({ data }) => [data.id, data.source, data.target, data.type, data.direction])
+    );
+    expect(edges[0]).toMatchObject({ attributes: 'guitar;lead vocals', beginYear: '1968' });
+    expect(edges[1]).toMatchObject({ attributes: '', periodBegin: '' });
+  });
+
+  it('should dispatch every format to its serializer', () => {
+    const serializers: Record<GraphExportFormat, typeof exportGraphML> = {
+      graphml: exportGraphML,
+      gexf: exportGEXF,
+      cytoscape: exportCytoscapeJSON,
+      'nodes-csv': exportNodesCSV,
+      'edges-csv': exportEdgesCSV,
+    };
+
+    for (const [format, serialize] of Object.entries(serializers)) {
+      expect(exportGraph(graph, format as GraphExportFormat, { rootId: BAND })).toBe(serialize(graph, { rootId: BAND }));
+    }
+  });
+
+  it('should write the schema version the importer reads', () => {
+    for (const format of ['graphml', 'cytoscape'] as const) {
+      const result = importGraph(exportGraph(graph, format, { rootId: BAND }));
+      expect(result.success && result.schemaVersion).toBe(GRAPH_SCHEMA_VERSION);
+    }
+
+    // A file one version ahead of the exporter is one the importer can't read
+    const json = JSON.parse(exportCytoscapeJSON(graph, { rootId: BAND }));
+    json.interchord.schemaVersion = GRAPH_SCHEMA_VERSION + 1;
+    expect(importGraph(JSON.stringify(json)).success).toBe(false);
+  });
+});
@@ -0,0 +1,319 @@
+import type { ArtistGraph, ArtistNode, ArtistRelationship } from '@/types';
+import { parseYear } from '@/lib/utils';
+
+/**
+ * Graph export serializers (GraphML, GEXF, Cytoscape JSON, CSV).
+ *
+ * All functions are pure and take an already-filtered ArtistGraph - callers
+ * decide what is "visible" (filters, hidden nodes). Node positions are written
+ * where the format supports them (GEXF viz, Cytoscape JSON).
+ *
+ * List values (instruments, genres, edge attributes) are native lists in GEXF
+ * (liststring) and JSON; GraphML and CSV have no list type, so they are joined
+ * with LIST_SEPARATOR.
+ *
+ * GraphML and Cytoscape JSON exports carry GRAPH_SCHEMA_VERSION and the root
+ * artist so they can be re-opened with importGraph (see ./import.ts).
+ */
+
+/** Bump when the exported structure changes in a way importGraph must handle */
+export const GRAPH_SCHEMA_VERSION = 1;
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'cytoscape' | 'nodes-csv' | 'edges-csv';
+
+export const GRAPH_EXPORT_FORMATS: { value: GraphExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'graphml', label: 'GraphML', extension: 'graphml', mimeType: 'application/graphml+xml' },
+  { value: 'gexf', label: 'GEXF (Gephi)', extension: 'gexf', mimeType: 'application/gexf+xml' },
+  { value: 'cytoscape', label: 'Cytoscape JSON', extension: 'cyjs', mimeType: 'application/json' },
+  { value: 'nodes-csv', label: 'Nodes CSV', extension: 'nodes.csv', mimeType: 'text/csv' },
+  { value: 'edges-csv', label: 'Edges CSV', extension: 'edges.csv', mimeType: 'text/csv' },
+];
+
+export const LIST_SEPARATOR = ';';
+
+export interface GraphExportOptions {
+  /** Root (searched) artist - exported as a boolean `root` attribute */
+  rootId?: string;
+  /** Title written into file metadata */
+  title?: string;
+}
+
+// ============================================================================
+// Attribute extraction
+// ============================================================================
+
+type AttrValue = string | number | boolean | string[] | undefined;
+
+interface AttrDef<T> {
+  id: string;
+  type: 'string' | 'boolean' | 'int' | 'liststring';
+  get: (item: T, options: GraphExportOptions) => AttrValue;
+}
+
+const NODE_ATTRS: AttrDef<ArtistNode>[] = [
+  { id: 'name', type: 'string', get: n => n.name },
+  { id: 'type', type: 'string', get: n => n.type },
+  { id: 'disambiguation', type: 'string', get: n => n.disambiguation },
+  { id: 'country', type: 'string', get: n => n.country },
+  { id: 'begin', type: 'string', get: n => n.activeYears?.begin },
+  { id: 'end', type: 'string', get: n => n.activeYears?.end ?? undefined },
+  { id: 'beginYear', type: 'int', get: n => parseYear(n.activeYears?.begin) ?? undefined },
+  { id: 'endYear', type: 'int', get: n => parseYear(n.activeYears?.end) ?? undefined },
+  { id: 'founding', type: 'boolean', get: n => n.founding ?? false },
+  { id: 'loaded', type: 'boolean', get: n => n.loaded ?? false },
+  { id: 'root', type: 'boolean', get: (n, o) => n.id === o.rootId },
+  { id: 'instruments', type: 'liststring', get: n => n.instruments ?? [] },
+  { id: 'genres', type: 'liststring', get: n => n.genres ?? [] },
+];
+
+const EDGE_ATTRS: AttrDef<ArtistRelationship>[] = [
+  { id: 'type', type: 'string', get: e => e.type },
+  { id: 'direction', type: 'string', get: e => e.direction },
+  { id: 'periodBegin', type: 'string', get: e => e.period?.begin },
+  { id: 'periodEnd', type: 'string', get: e => e.period?.end ?? undefined },
+  { id: 'beginYear', type: 'int', get: e => parseYear(e.period?.begin) ?? undefined },
+  { id: 'endYear', type: 'int', get: e => parseYear(e.period?.end) ?? undefined },
+  { id: 'attributes', type: 'liststring', get: e => e.attributes ?? [] },
+];
+
+// ============================================================================
+// XML helpers
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isEmpty(value: AttrValue): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// ============================================================================
+// GraphML
+// ============================================================================
+
+const GRAPHML_TYPES: Record<AttrDef<unknown>['type'], string> = {
+  string: 'string',
+  boolean: 'boolean',
+  int: 'int',
+  liststring: 'string', // joined with LIST_SEPARATOR
+};
+
+function graphmlValue(value: AttrValue): string {
+  if (Array.isArray(value)) return escapeXml(value.join(LIST_SEPARATOR));
+  return escapeXml(String(value));
+}
+
+export function exportGraphML(graph: ArtistGraph, options: GraphExportOptions = {}): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+  ];
+
+  for (const attr of NODE_ATTRS) {
+    lines.push(`  <key id="n_${attr.id}" for="node" attr.name="${attr.id}" attr.type="${GRAPHML_TYPES[attr.type]}"/>`);
+  }
+  lines.push('  <key id="n_x" for="node" attr.name="x" attr.type="double"/>');
+  lines.push('  <key id="n_y" for="node" attr.name="y" attr.type="double"/>');
+  for (const attr of EDGE_ATTRS) {
+    lines.push(`  <key id="e_${attr.id}" for="edge" attr.name="${attr.id}" attr.type="${GRAPHML_TYPES[attr.type]}"/>`);
+  }
+  lines.push('  <key id="g_schemaVersion" for="graph" attr.name="interchordSchemaVersion" attr.type="int"/>');
+  lines.push('  <key id="g_rootId" for="graph" attr.name="rootId" attr.type="string"/>');
+
+  lines.push('  <graph id="G" edgedefault="directed">');
+  lines.push(`    <data key="g_schemaVersion">${GRAPH_SCHEMA_VERSION}</data>`);
+  if (options.rootId) {
+    lines.push(`    <data key="g_rootId">${escapeXml(options.rootId)}</data>`);
+  }
+
+  for (const { data, position } of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(data.id)}">`);
+    for (const attr of NODE_ATTRS) {
+      const value = attr.get(data, options);
+      if (isEmpty(value)) continue;
+      lines.push(`      <data key="n_${attr.id}">${graphmlValue(value)}</data>`);
+    }
+    if (position) {
+      lines.push(`      <data key="n_x">${position.x.toFixed(2)}</data>`);
+      lines.push(`      <data key="n_y">${position.y.toFixed(2)}</data>`);
+    }
+    lines.push('    </node>');
+  }
+
+  for (const { data } of graph.edges) {
+    lines.push(`    <edge id="${escapeXml(data.id)}" source="${escapeXml(data.source)}" target="${escapeXml(data.target)}">`);
+    for (const attr of EDGE_ATTRS) {
+      const value = attr.get(data, options);
+      if (isEmpty(value)) continue;
+      lines.push(`      <data key="e_${attr.id}">${graphmlValue(value)}</data>`);
+    }
+    lines.push('    </edge>');
+  }
+
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// GEXF 1.3
+// ============================================================================
+
+const GEXF_TYPES: Record<AttrDef<unknown>['type'], string> = {
+  string: 'string',
+  boolean: 'boolean',
+  int: 'integer',
+  liststring: 'liststring',
+};
+
+function gexfValue(value: AttrValue): string {
+  // GEXF 1.3 liststring uses "|" as separator
+  if (Array.isArray(value)) return escapeXml(value.join('|'));
+  return escapeXml(String(value));
+}
+
+export function exportGEXF(graph: ArtistGraph, options: GraphExportOptions = {}): string {
+  const nodeAttrs = NODE_ATTRS.filter(a => a.id !== 'name'); // name is the node label
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://gexf.net/1.3 http://gexf.net/1.3/gexf.xsd" version="1.3">',
+    '  <meta>',
+    '    <creator>InterChord</creator>',
+    `    <description>${escapeXml(options.title ?? 'InterChord artist graph')}</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+  ];
+
+  nodeAttrs.forEach((attr, index) => {
+    lines.push(`      <attribute id="${index}" title="${attr.id}" type="${GEXF_TYPES[attr.type]}"/>`);
+  });
+  lines.push('    </attributes>', '    <attributes class="edge">');
+  EDGE_ATTRS.forEach((attr, index) => {
+    lines.push(`      <attribute id="${index}" title="${attr.id}" type="${GEXF_TYPES[attr.type]}"/>`);
+  });
+  lines.push('    </attributes>', '    <nodes>');
+
+  for (const { data, position } of graph.nodes) {
+    lines.push(`      <node id="${escapeXml(data.id)}" label="${escapeXml(data.name)}">`);
+    lines.push('        <attvalues>');
+    nodeAttrs.forEach((attr, index) => {
+      const value = attr.get(data, options);
+      if (isEmpty(value)) return;
+      lines.push(`          <attvalue for="${index}" value="${gexfValue(value)}"/>`);
+    });
+    lines.push('        </attvalues>');
+    if (position) {
+      // GEXF y axis points up, Cytoscape's points down
+      lines.push(`        <viz:position x="${position.x.toFixed(2)}" y="${(-position.y).toFixed(2)}" z="0.0"/>`);
+    }
+    lines.push('      </node>');
+  }
+
+  lines.push('    </nodes>', '    <edges>');
+
+  for (const { data } of graph.edges) {
+    lines.push(`      <edge id="${escapeXml(data.id)}" source="${escapeXml(data.source)}" target="${escapeXml(data.target)}" label="${escapeXml(data.type)}">`);
+    lines.push('        <attvalues>');
+    EDGE_ATTRS.forEach((attr, index) => {
+      const value = attr.get(data, options);
+      if (isEmpty(value)) return;
+      lines.push(`          <attvalue for="${index}" value="${gexfValue(value)}"/>`);
+    });
+    lines.push('        </attvalues>');
+    lines.push('      </edge>');
+  }
+
+  lines.push('    </edges>', '  </graph>', '</gexf>', '');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Cytoscape JSON
+// ============================================================================
+
+/**
+ * Cytoscape.js / Cytoscape desktop (.cyjs) format - keeps the original typed data
+ */
+export function exportCytoscapeJSON(graph: ArtistGraph, options: GraphExportOptions = {}): string {
+  return JSON.stringify({
+    format_version: '1.0',
+    generated_by: 'InterChord',
+    interchord: {
+      schemaVersion: GRAPH_SCHEMA_VERSION,
+      rootId: options.rootId,
+    },
+    data: { name: options.title ?? 'InterChord artist graph' },
+    elements: {
+      nodes: graph.nodes.map(({ data, position }) => ({
+        data: { ...data, root: data.id === options.rootId },
+        ...(position && { position }),
+      })),
+      edges: graph.edges.map(({ data }) => ({ data })),
+    },
+  }, null, 2);
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: AttrValue): string {
+  if (value === undefined) return '';
+  const text = Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Node list (one row per artist, `id` column matches edge source/target)
+ */
+export function exportNodesCSV(graph: ArtistGraph, options: GraphExportOptions = {}): string {
+  const header = ['id', ...NODE_ATTRS.map(a => a.id)];
+  const rows = graph.nodes.map(({ data }) =>
+    [csvCell(data.id), ...NODE_ATTRS.map(a => csvCell(a.get(data, options)))].join(',')
+  );
+  return [header.join(','), ...rows, ''].join('\n');
+}
+
+/**
+ * Edge list (one row per relationship)
+ */
+export function exportEdgesCSV(graph: ArtistGraph, options: GraphExportOptions = {}): string {
+  const header = ['id', 'source', 'target', ...EDGE_ATTRS.map(a => a.id)];
+  const rows = graph.edges.map(({ data }) =>
+    [
+      csvCell(data.id),
+      csvCell(data.source),
+      csvCell(data.target),
+      ...EDGE_ATTRS.map(a => csvCell(a.get(data, options))),
+    ].join(',')
+  );
+  return [header.join(','), ...rows, ''].join('\n');
+}
+
+/**
+ * Serialize a graph in the given format
+ */
+export function exportGraph(
+  graph: ArtistGraph,
+  format: GraphExportFormat,
+  options: GraphExportOptions = {}
+): string {
+  switch (format) {
+    case 'graphml':
+      return exportGraphML(graph, options);
+    case 'gexf':
+      return exportGEXF(graph, options);
+    case 'cytoscape':
+      return exportCytoscapeJSON(graph, options);
+    case 'nodes-csv':
+      return exportNodesCSV(graph, options);
+    case 'edges-csv':
+      return exportEdgesCSV(graph, options);
+  }
+}
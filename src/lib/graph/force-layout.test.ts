@@ -0,0 +1,43 @@
+/**
+ * Tests for the precomputed force-directed layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeForceLayout } from './force-layout';
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('computeForceLayout', () => {
+  // Two bands of four members, linked by one shared member
+  const nodes = ['band-a', 'band-b', 'a1', 'a2', 'a3', 'shared', 'b1', 'b2', 'b3'].map(id => ({ id }));
+  const edges = [
+    ...['a1', 'a2', 'a3', 'shared'].map(source => ({ source, target: 'band-a' })),
+    ...['b1', 'b2', 'b3', 'shared'].map(source => ({ source, target: 'band-b' })),
+  ];
+
+  it('should place connected artists closer than unconnected ones', () => {
+    const positions = computeForceLayout(nodes, edges, { edgeLength: 100 });
+
+    expect(distance(positions.a1, positions['band-a'])).toBeLessThan(distance(positions.a1, positions['band-b']));
+    expect(distance(positions.b1, positions['band-b'])).toBeLessThan(distance(positions.b1, positions['band-a']));
+  });
+
+  it('should keep nodes apart', () => {
+    const positions = computeForceLayout(nodes, edges, { edgeLength: 100 });
+    const points = Object.values(positions);
+
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        expect(distance(points[i], points[j])).toBeGreaterThan(20);
+      }
+    }
+  });
+
+  it('should not move fixed nodes and be deterministic', () => {
+    const pinned = nodes.map(node => node.id === 'band-a' ? { ...node, x: 500, y: -200, fixed: true } : node);
+    const positions = computeForceLayout(pinned, edges);
+
+    expect(positions['band-a']).toEqual({ x: 500, y: -200 });
+    expect(computeForceLayout(pinned, edges)).toEqual(positions);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Precomputed force-directed layout for large graphs
+ *
+ * A Fruchterman-Reingold spring embedder that runs a fixed number of
+ * iterations and returns final positions, so it can run off the main thread
+ * (see the graph's layout worker) instead of animating a live simulation.
+ * Repulsion only considers nodes in neighbouring grid cells, which keeps each
+ * iteration close to linear in the number of nodes.
+ */
+
+export interface ForceLayoutNode {
+  id: string;
+  /** Starting position; nodes without one are placed on a spiral */
+  x?: number;
+  y?: number;
+  /** Fixed nodes (pinned by the user) act as anchors and are not moved */
+  fixed?: boolean;
+}
+
+export interface ForceLayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface ForceLayoutOptions {
+  /** Ideal distance between connected nodes */
+  edgeLength?: number;
+  iterations?: number;
+  /** Pull towards the centre so disconnected parts stay close (0 disables) */
+  gravity?: number;
+}
+
+export type LayoutPositions = Record<string, { x: number; y: number }>;
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Numeric grid cell key (faster than string keys in the hot loop)
+const cellKey = (cx: number, cy: number) => cx * 65536 + cy;
+
+export function computeForceLayout(
+  nodes: ForceLayoutNode[],
+  edges: ForceLayoutEdge[],
+  { edgeLength = 100, iterations = 300, gravity = 0.05 }: ForceLayoutOptions = {}
+): LayoutPositions {
+  const count = nodes.length;
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const x = new Float64Array(count);
+  const y = new Float64Array(count);
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+
+  nodes.forEach((node, i) => {
+    if (node.x !== undefined && node.y !== undefined) {
+      x[i] = node.x;
+      y[i] = node.y;
+    } else {
+      const radius = edgeLength * Math.sqrt(i + 1) * 0.5;
+      x[i] = radius * Math.cos(i * GOLDEN_ANGLE);
+      y[i] = radius * Math.sin(i * GOLDEN_ANGLE);
+    }
+  });
+
+  const links = edges
+    .map(edge => [index.get(edge.source), index.get(edge.target)] as const)
+    .filter((link): link is readonly [number, number] =>
+      link[0] !== undefined && link[1] !== undefined && link[0] !== link[1]);
+
+  const k = edgeLength;
+  const cellSize = 2 * k;
+  let temperature = k * 2;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    // Repulsion between nodes in the same or neighbouring cells
+    const grid = new Map<number, number[]>();
+    for (let i = 0; i < count; i++) {
+      const key = cellKey(Math.floor(x[i] / cellSize), Math.floor(y[i] / cellSize));
+      const cell = grid.get(key);
+      if (cell) cell.push(i);
+      else grid.set(key, [i]);
+    }
+    for (let i = 0; i < count; i++) {
+      const cx = Math.floor(x[i] / cellSize);
+      const cy = Math.floor(y[i] / cellSize);
+      for (let gx = cx - 1; gx <= cx + 1; gx++) {
+        for (let gy = cy - 1; gy <= cy + 1; gy++) {
+          const cell = grid.get(cellKey(gx, gy));
+          if (!cell) continue;
+          for (const j of cell) {
+            if (j === i) continue;
+            let ddx = x[i] - x[j];
+            let ddy = y[i] - y[j];
+            let distance = Math.hypot(ddx, ddy);
+            if (distance === 0) {
+              // Coincident nodes: push apart in a stable direction
+              ddx = (i - j) * 0.01;
+              ddy = 0.01;
+              distance = Math.hypot(ddx, ddy);
+            }
+            if (distance > cellSize) continue;
+            const force = (k * k) / distance;
+            dx[i] += (ddx / distance) * force;
+            dy[i] += (ddy / distance) * force;
+          }
+        }
+      }
+    }
+
+    // Attraction along edges
+    for (const [a, b] of links) {
+      const ddx = x[a] - x[b];
+      const ddy = y[a] - y[b];
+      const distance = Math.hypot(ddx, ddy) || 0.01;
+      const force = (distance * distance) / k;
+      const fx = (ddx / distance) * force;
+      const fy = (ddy / distance) * force;
+      dx[a] -= fx;
+      dy[a] -= fy;
+      dx[b] += fx;
+      dy[b] += fy;
+    }
+
+    // Move, limited by the current temperature
+    for (let i = 0; i < count; i++) {
+      if (nodes[i].fixed) continue;
+      dx[i] -= x[i] * gravity;
+      dy[i] -= y[i] * gravity;
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length === 0) continue;
+      const step = Math.min(length, temperature);
+      x[i] += (dx[i] / length) * step;
+      y[i] += (dy[i] / length) * step;
+    }
+
+    temperature -= cooling;
+  }
+
+  const positions: LayoutPositions = {};
+  nodes.forEach((node, i) => {
+    positions[node.id] = { x: x[i], y: y[i] };
+  });
+  return positions;
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for the animated GIF encoder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeGif, lzwEncode, mapToPalette } from './gif';
+
+// Reference GIF LZW decoder
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let pos = 0;
+
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (true) {
+    while (bitCount < codeSize && pos < data.length) {
+      bitBuffer |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) throw new Error('Ran out of data before the end code');
+    const code = bitBuffer & ((1 << codeSize) - 1);
+    bitBuffer >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) return output;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+}
+
+function solidFrame(width: number, height: number, rgba: [number, number, number, number]) {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) pixels.set(rgba, i);
+  return pixels;
+}
+
+describe('lzwEncode', () => {
+  it('should round-trip through a GIF LZW decoder', () => {
+    // Long, repetitive input forces code width growth and dictionary resets
+    const indices = new Uint8Array(20000).map((_, i) => (i * 7 + (i >> 5)) % 251);
+
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual([...indices]);
+  });
+
+  it('should encode empty input as clear and end codes', () => {
+    expect(lzwDecode(lzwEncode(new Uint8Array(0), 8), 8)).toEqual([]);
+  });
+});
+
+describe('mapToPalette', () => {
+  it('should map colours onto the colour cube and blend transparency with the background', () => {
+    const pixels = new Uint8ClampedArray([
+      0, 0, 0, 255,
+      255, 255, 255, 255,
+      255, 0, 0, 255,
+      0, 0, 0, 0,
+    ]);
+
+    const [black, white, red, transparent] = mapToPalette(pixels);
+    expect(black).toBe(0);
+    expect(white).toBe(251);
+    expect(red).toBe(5 * 42);
+    expect(transparent).toBe(white);
+  });
+});
+
+describe('encodeGif', () => {
+  it('should write a looping GIF89a with one image per frame', () => {
+    const gif = encodeGif(
+      [
+        { pixels: solidFrame(4, 3, [255, 0, 0, 255]), delayMs: 500 },
+        { pixels: solidFrame(4, 3, [0, 0, 255, 255]), delayMs: 500 },
+      ],
+      4,
+      3
+    );
+    const text = new TextDecoder().decode(gif);
+
+    expect(text.startsWith('GIF89a')).toBe(true);
+    expect(gif[6] | (gif[7] << 8)).toBe(4);
+    expect(gif[8] | (gif[9] << 8)).toBe(3);
+    expect(text).toContain('NETSCAPE2.0');
+    expect(gif[gif.length - 1]).toBe(0x3b);
+    // Graphic control extension carries the delay in centiseconds
+    const gce = gif.findIndex((b, i) => b === 0x21 && gif[i + 1] === 0xf9);
+    expect(gif[gce + 4]).toBe(50);
+    expect(gif.filter((b, i) => b === 0x21 && gif[i + 1] === 0xf9 && gif[i + 2] === 0x04)).toHaveLength(2);
+  });
+});
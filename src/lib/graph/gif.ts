@@ -0,0 +1,157 @@
+/**
+ * Minimal animated GIF encoder for the replay export
+ *
+ * Uses one fixed 6x7x6 colour cube (252 colours) for every frame instead of
+ * per-frame quantisation: graph renders are mostly flat colours, and a shared
+ * palette keeps frames consistent and the encoder small.
+ */
+
+export interface GifFrame {
+  /** RGBA pixels, as returned by CanvasRenderingContext2D.getImageData */
+  pixels: Uint8ClampedArray;
+  delayMs: number;
+}
+
+const R_LEVELS = 6;
+const G_LEVELS = 7;
+const B_LEVELS = 6;
+const PALETTE_BITS = 8;
+const MAX_CODE = 4096;
+
+function buildPalette(): Uint8Array {
+  const palette = new Uint8Array((1 << PALETTE_BITS) * 3);
+  let i = 0;
+  for (let r = 0; r < R_LEVELS; r++) {
+    for (let g = 0; g < G_LEVELS; g++) {
+      for (let b = 0; b < B_LEVELS; b++) {
+        palette[i++] = Math.round((r * 255) / (R_LEVELS - 1));
+        palette[i++] = Math.round((g * 255) / (G_LEVELS - 1));
+        palette[i++] = Math.round((b * 255) / (B_LEVELS - 1));
+      }
+    }
+  }
+  return palette;
+}
+
+/**
+ * Map RGBA pixels onto the colour cube; transparent pixels become the background
+ */
+export function mapToPalette(pixels: Uint8ClampedArray, background = { r: 255, g: 255, b: 255 }): Uint8Array {
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let p = 0; p < indices.length; p++) {
+    const alpha = pixels[p * 4 + 3] / 255;
+    const r = pixels[p * 4] * alpha + background.r * (1 - alpha);
+    const g = pixels[p * 4 + 1] * alpha + background.g * (1 - alpha);
+    const b = pixels[p * 4 + 2] * alpha + background.b * (1 - alpha);
+    indices[p] =
+      Math.round((r * (R_LEVELS - 1)) / 255) * G_LEVELS * B_LEVELS +
+      Math.round((g * (G_LEVELS - 1)) / 255) * B_LEVELS +
+      Math.round((b * (B_LEVELS - 1)) / 255);
+  }
+  return indices;
+}
+
+/**
+ * GIF-flavoured LZW: variable code width (up to 12 bits), codes packed LSB first
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize = PALETTE_BITS): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  emit(clearCode);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+      const k = indices[i];
+      const key = (prefix << 8) | k;
+      const code = dictionary.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+
+      emit(prefix);
+      if (nextCode === MAX_CODE) {
+        emit(clearCode);
+        dictionary.clear();
+        nextCode = endCode + 1;
+        codeSize = minCodeSize + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) codeSize++;
+        dictionary.set(key, nextCode++);
+      }
+      prefix = k;
+    }
+    emit(prefix);
+  }
+
+  emit(endCode);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+  return Uint8Array.from(out);
+}
+
+/**
+ * Encode frames of the same size as a looping animated GIF
+ */
+export function encodeGif(frames: GifFrame[], width: number, height: number): Uint8Array {
+  const bytes: number[] = [];
+  const push = (...values: number[]) => bytes.push(...values);
+  const word = (value: number) => push(value & 0xff, (value >> 8) & 0xff);
+  const ascii = (text: string) => push(...Array.from(text, c => c.charCodeAt(0)));
+
+  ascii('GIF89a');
+  word(width);
+  word(height);
+  // Global colour table, 8 bits per primary, 2^8 entries
+  push(0x80 | ((PALETTE_BITS - 1) << 4) | (PALETTE_BITS - 1), 0, 0);
+  push(...buildPalette());
+
+  // NETSCAPE2.0 application extension: loop forever
+  push(0x21, 0xff, 0x0b);
+  ascii('NETSCAPE2.0');
+  push(0x03, 0x01, 0x00, 0x00, 0x00);
+
+  for (const frame of frames) {
+    // Graphic control extension: frame delay in centiseconds
+    push(0x21, 0xf9, 0x04, 0x00);
+    word(Math.round(frame.delayMs / 10));
+    push(0x00, 0x00);
+
+    // Image descriptor: full canvas, no local colour table
+    push(0x2c);
+    word(0);
+    word(0);
+    word(width);
+    word(height);
+    push(0x00);
+
+    // Image data in sub-blocks of at most 255 bytes
+    const data = lzwEncode(mapToPalette(frame.pixels), PALETTE_BITS);
+    push(PALETTE_BITS);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      push(block.length, ...block);
+    }
+    push(0x00);
+  }
+
+  push(0x3b);
+  return Uint8Array.from(bytes);
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for collapsing bands into their group node
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph, ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
+import { getAutoCollapsedGroups, planCollapsedGroups, rerouteCollapsedEdges } from './grouping';
+
+const node = (id: string, type: ArtistNode['type']): { data: ArtistNode } => ({
+  data: { id, name: id, type },
+});
+
+const edge = (source: string, target: string, type: RelationshipType = 'member_of'): { data: ArtistRelationship } => ({
+  data: { id: `${source}-${type}-${target}`, source, target, type, direction: 'forward' },
+});
+
+// The root band shares a singer with a side band; the side band's drummer
+// also produced another band
+const GRAPH: ArtistGraph = {
+  nodes: [
+    node('root', 'group'),
+    node('singer', 'person'),
+    node('side', 'group'),
+    node('drummer', 'person'),
+    node('bassist', 'person'),
+    node('other', 'group'),
+  ],
+  edges: [
+    edge('singer', 'root'),
+    edge('singer', 'side', 'founder_of'),
+    edge('drummer', 'side'),
+    edge('bassist', 'side'),
+    edge('drummer', 'other', 'producer'),
+    edge('bassist', 'drummer', 'collaboration'),
+  ],
+};
+
+describe('getAutoCollapsedGroups', () => {
+  it('should collapse every band with members except the focus', () => {
+    expect(getAutoCollapsedGroups(GRAPH, 'root')).toEqual(['side']);
+  });
+
+  it('should keep the bands of a focused person expanded', () => {
+    expect(getAutoCollapsedGroups(GRAPH, 'singer')).toEqual([]);
+    expect(getAutoCollapsedGroups(GRAPH, 'drummer')).toEqual(['root']);
+  });
+});
+
+describe('planCollapsedGroups', () => {
+  it('should hide members unless they belong to an expanded band', () => {
+    expect(planCollapsedGroups(GRAPH, ['side'])).toEqual([
+      { groupId: 'side', memberIds: ['singer', 'drummer', 'bassist'], hiddenIds: ['drummer', 'bassist'] },
+    ]);
+  });
+
+  it('should keep explicitly kept artists and skip bands without members', () => {
+    const groups = planCollapsedGroups(GRAPH, ['side', 'root', 'other'], ['bassist']);
+
+    expect(groups.map(g => g.groupId)).toEqual(['side', 'root']);
+    expect(groups[0].hiddenIds).toEqual(['singer', 'drummer']);
+    expect(groups[1].hiddenIds).toEqual(['singer']);
+  });
+});
+
+describe('rerouteCollapsedEdges', () => {
+  it('should redraw links of hidden members from their band', () => {
+    const groups = planCollapsedGroups(GRAPH, ['side']);
+    const edges = rerouteCollapsedEdges(GRAPH.edges.map(e => e.data), groups);
+
+    // Membership and the drummer-bassist collaboration end up inside the band
+    expect(edges).toEqual([
+      { id: 'collapsed:side-producer-other', source: 'side', target: 'other', type: 'producer', count: 1 },
+    ]);
+  });
+
+  it('should merge duplicate links and connect two collapsed bands', () => {
+    const groups = planCollapsedGroups(GRAPH, ['root', 'side']);
+    const edges = rerouteCollapsedEdges([
+      ...GRAPH.edges.map(e => e.data),
+      edge('bassist', 'other', 'producer').data,
+    ], groups);
+
+    expect(edges).toEqual([
+      { id: 'collapsed:root-founder_of-side', source: 'root', target: 'side', type: 'founder_of', count: 1 },
+      { id: 'collapsed:side-producer-other', source: 'side', target: 'other', type: 'producer', count: 2 },
+    ]);
+  });
+});
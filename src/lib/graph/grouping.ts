@@ -0,0 +1,117 @@
+import type { ArtistGraph, ArtistRelationship, RelationshipType } from '@/types';
+
+/**
+ * Collapsing bands: a group node stands in for its lineup
+ *
+ * A collapsed band hides its members, except those who also belong to a band
+ * that is still expanded (or are explicitly kept, like the root artist), so
+ * the lineups that stay open are never broken up. Relationships of hidden
+ * members are rerouted to the band that hides them, so the links between a
+ * collapsed band and the rest of the graph stay visible.
+ */
+
+const MEMBERSHIP_TYPES: ReadonlySet<RelationshipType> = new Set(['member_of', 'founder_of']);
+
+export interface CollapsedGroup {
+  groupId: string;
+  /** The whole lineup (for the member count) */
+  memberIds: string[];
+  /** Members hidden by collapsing the band */
+  hiddenIds: string[];
+}
+
+/** A relationship of hidden members, redrawn from the band that hides them */
+export interface CollapsedEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: RelationshipType;
+  /** Number of original relationships it stands for */
+  count: number;
+}
+
+/** Band id -> ids of its members (people linked by membership or founding) */
+function getLineups(graph: ArtistGraph): Map<string, string[]> {
+  const types = new Map(graph.nodes.map(node => [node.data.id, node.data.type]));
+  const lineups = new Map<string, string[]>();
+
+  for (const { data: edge } of graph.edges) {
+    if (!MEMBERSHIP_TYPES.has(edge.type)) continue;
+    const [personId, groupId] = types.get(edge.source) === 'group'
+      ? [edge.target, edge.source]
+      : [edge.source, edge.target];
+    if (types.get(personId) !== 'person' || types.get(groupId) !== 'group') continue;
+
+    const lineup = lineups.get(groupId) ?? [];
+    if (!lineup.includes(personId)) lineup.push(personId);
+    lineups.set(groupId, lineup);
+  }
+  return lineups;
+}
+
+/**
+ * Bands to collapse in "collapse all bands" mode: every band with members,
+ * except the focus artist itself and the bands it belongs to
+ */
+export function getAutoCollapsedGroups(graph: ArtistGraph, focusId: string | null): string[] {
+  return [...getLineups(graph)]
+    .filter(([groupId, memberIds]) => groupId !== focusId && !memberIds.includes(focusId ?? ''))
+    .map(([groupId]) => groupId);
+}
+
+/**
+ * Members hidden by each collapsed band
+ * Bands without members in the graph are left out.
+ */
+export function planCollapsedGroups(
+  graph: ArtistGraph,
+  collapsedIds: Iterable<string>,
+  keepIds: Iterable<string> = []
+): CollapsedGroup[] {
+  const lineups = getLineups(graph);
+  const collapsed = new Set(collapsedIds);
+  const keep = new Set(keepIds);
+
+  // Members of expanded bands stay visible
+  for (const [groupId, memberIds] of lineups) {
+    if (!collapsed.has(groupId)) memberIds.forEach(id => keep.add(id));
+  }
+
+  return [...collapsed]
+    .filter(groupId => lineups.has(groupId))
+    .map(groupId => {
+      const memberIds = lineups.get(groupId)!;
+      return { groupId, memberIds, hiddenIds: memberIds.filter(id => !keep.has(id)) };
+    });
+}
+
+/**
+ * Relationships of hidden members, rerouted to the band that hides them
+ * Members of several collapsed bands are represented by the first. Links that
+ * end up inside one band are dropped, and duplicates are merged (`count`).
+ */
+export function rerouteCollapsedEdges(
+  edges: ArtistRelationship[],
+  groups: CollapsedGroup[]
+): CollapsedEdge[] {
+  const representative = new Map<string, string>();
+  for (const { groupId, hiddenIds } of groups) {
+    hiddenIds.forEach(id => {
+      if (!representative.has(id)) representative.set(id, groupId);
+    });
+  }
+
+  const rerouted = new Map<string, CollapsedEdge>();
+  for (const edge of edges) {
+    if (!representative.has(edge.source) && !representative.has(edge.target)) continue;
+    const source = representative.get(edge.source) ?? edge.source;
+    const target = representative.get(edge.target) ?? edge.target;
+    if (source === target) continue;
+
+    const id = `collapsed:${source}-${edge.type}-${target}`;
+    const existing = rerouted.get(id);
+    if (existing) existing.count++;
+    else rerouted.set(id, { id, source, target, type: edge.type, count: 1 });
+  }
+  return [...rerouted.values()];
+}
@@ -1,10 +1,20 @@
 'use client';
 
-import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import type { ArtistGraph, ArtistNode, ArtistRelationship } from '@/types';
+import { useState, useMemo, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { ArtistGraph, ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
 import type { ExpansionDepth } from './types';
 import { buildGraphData, mergeGraphData } from './builder';
 import { cacheGet, cacheSet, CacheTTL } from '@/lib/cache';
+import type { PathStopReason } from './path';
+import { applyExpansionChunk, type ExpansionChunk, type ExpansionStreamEvent } from './expand';
+import { applyInfluenceLayer, getMusicBrainzInfluences, traceInfluenceLineage, type InfluenceClaim } from './influence';
+import { applyCreditRelationships, type CreditRelationships } from './credits';
+import { applyDerivedRelationships, MAX_DERIVED_ARTISTS, type DerivedRelationshipType } from './derived';
+import { getActiveGraphTheme, getGraphThemeSettings, listGraphThemes, type GraphTheme, type GraphThemeSettings } from './themes';
+import { STORAGE_KEYS, STORAGE_EVENTS, addStorageEventListener, getStorageString } from '@/lib/storage';
+import { getArtistInfluences } from '@/lib/wikidata';
+import { LINK_RELATIONSHIP_TYPES } from '@/lib/relationships';
 
 interface RelationshipsData {
   artist: ArtistNode;
@@ -30,8 +40,8 @@ async function getSupplementDataCached(
 
   const cacheKey = `supplement-founders-${mbid}`;
 
-  // Check localStorage cache first
-  const cached = cacheGet<string[]>(cacheKey);
+  // Check browser cache first
+  const cached = await cacheGet<string[]>('supplement', cacheKey);
   if (cached) {
     console.log(`[Cache HIT] Supplement founders for ${name}`);
     return new Set(cached);
@@ -56,7 +66,7 @@ async function getSupplementDataCached(
     const founders = data.foundingMemberMbids || [];
 
     // Cache for 1 week
-    cacheSet(cacheKey, founders, CacheTTL.LONG);
+    await cacheSet('supplement', cacheKey, founders, CacheTTL.LONG);
 
     console.log(`[Cache SET] Supplement founders for ${name}: ${founders.length} members`);
 
@@ -68,14 +78,14 @@ async function getSupplementDataCached(
 }
 
 /**
- * Fetch artist relationships with localStorage caching
+ * Fetch artist relationships with browser caching
  * Uses API route which leverages local DB when available
  */
 async function getArtistRelationshipsCached(mbid: string): Promise<RelationshipsData | null> {
   const cacheKey = `artist-relationships-${mbid}`;
 
-  // Check localStorage cache first
-  const cached = cacheGet<RelationshipsData>(cacheKey);
+  // Check browser cache first
+  const cached = await cacheGet<RelationshipsData>('relationships', cacheKey);
   if (cached) {
     console.log(`[Cache HIT] Relationships for ${mbid}`);
     return cached;
@@ -100,7 +110,7 @@ async function getArtistRelationshipsCached(mbid: string): Promise<Relationships
     };
 
     // Cache for 1 week (relationships rarely change)
-    cacheSet(cacheKey, result, CacheTTL.LONG);
+    await cacheSet('relationships', cacheKey, result, CacheTTL.LONG);
 
     console.log(`[Cache SET] Relationships for ${mbid} (source: ${data.source}, ${data.latencyMs}ms)`);
 
@@ -111,6 +121,56 @@ async function getArtistRelationshipsCached(mbid: string): Promise<Relationships
   }
 }
 
+/**
+ * Expand an artist's graph on the server, reporting each streamed chunk
+ * Reads the NDJSON stream from /api/graph/expand line by line.
+ */
+async function streamGraphExpansion(
+  rootId: string,
+  depth: ExpansionDepth,
+  relationshipTypes: RelationshipType[] | undefined,
+  onChunk: (chunk: ExpansionChunk) => void
+): Promise<void> {
+  const params = new URLSearchParams({ root: rootId, depth: String(depth) });
+  if (relationshipTypes) params.set('types', relationshipTypes.join(','));
+  const response = await fetch(`/api/graph/expand?${params}`);
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to expand graph: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event: ExpansionStreamEvent = JSON.parse(line);
+    if (event.type === 'chunk') {
+      onChunk(event);
+    } else if (event.type === 'error') {
+      throw new Error(event.error);
+    } else {
+      console.log(
+        `[Expand] ${event.expandedCount} artists to level ${event.levelReached} ` +
+        `(source: ${event.source}, ${event.latencyMs}ms, ${event.stopReason})`
+      );
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffer + decoder.decode());
+}
+
 export interface UseGraphExpansionResult {
   graphData: ArtistGraph;
   isExpanding: boolean;
@@ -121,18 +181,51 @@ export interface UseGraphExpansionResult {
   handleDepthChange: (depth: ExpansionDepth) => void;
   handleNodeExpand: (nodeId: string) => Promise<void>;
   handleResetGraph: () => void;
+  /** Replace the graph with a saved one (e.g. an imported file); expansion continues from it */
+  loadGraph: (graph: ArtistGraph) => void;
   hasExpandedGraph: boolean;
 }
 
+export interface UseGraphExpansionOptions {
+  /** Depth to auto-expand to on load (default 1) */
+  initialDepth?: ExpansionDepth;
+  /** Start from a saved graph instead of auto-expanding */
+  initialGraph?: ArtistGraph;
+  /**
+   * Only follow these relationship types past the first level (default: all)
+   * Showing a type the current expansion didn't follow expands again.
+   */
+  relationshipTypes?: Iterable<RelationshipType>;
+}
+
+/** Type key for the expansion route ('' = every type) */
+function getExpansionTypeKey(relationshipTypes: Iterable<RelationshipType> | undefined): string {
+  if (!relationshipTypes) return '';
+  const types = new Set(relationshipTypes);
+  return LINK_RELATIONSHIP_TYPES.filter(type => types.has(type)).join(',');
+}
+
+/** Whether `current` needs links an expansion that followed `followed` left out */
+function addsExpansionTypes(followed: string, current: string): boolean {
+  if (followed === '') return false;
+  if (current === '') return true;
+  const followedTypes = new Set(followed.split(','));
+  return current.split(',').some(type => !followedTypes.has(type));
+}
+
 export function useGraphExpansion(
   artistId: string,
-  initialData: RelationshipsData | undefined
+  initialData: RelationshipsData | undefined,
+  { initialDepth = 1, initialGraph, relationshipTypes }: UseGraphExpansionOptions = {}
 ): UseGraphExpansionResult {
-  const [expandedGraph, setExpandedGraph] = useState<ArtistGraph | null>(null);
+  const [expandedGraph, setExpandedGraph] = useState<ArtistGraph | null>(initialGraph ?? null);
   const [isExpanding, setIsExpanding] = useState(false);
-  const [autoExpandComplete, setAutoExpandComplete] = useState(false);
-  const [expansionDepth, setExpansionDepth] = useState<ExpansionDepth>(1);
+  const [autoExpandComplete, setAutoExpandComplete] = useState(!!initialGraph);
+  const [expansionDepth, setExpansionDepth] = useState<ExpansionDepth>(initialDepth);
   const [expandProgress, setExpandProgress] = useState<{ current: number; total: number } | null>(null);
+  const typeKey = getExpansionTypeKey(relationshipTypes);
+  // Types the current server-side expansion followed (null = no such expansion)
+  const expandedTypesRef = useRef<string | null>(null);
 
   // Supplementary founders from Wikipedia
   const [supplementaryFounders, setSupplementaryFounders] = useState<Set<string> | null>(null);
@@ -228,75 +321,45 @@ export function useGraphExpansion(
     );
 
     if (depth === 1) {
+      expandedTypesRef.current = null;
       setExpandedGraph(currentGraph);
       setIsExpanding(false);
       return;
     }
 
-    const nodeDepths = new Map<string, number>();
-    nodeDepths.set(initialData.artist.id, 0);
-    for (const node of currentGraph.nodes) {
-      if (!nodeDepths.has(node.data.id)) {
-        nodeDepths.set(node.data.id, 1);
-      }
-    }
-
-    for (let currentLevel = 1; currentLevel < depth; currentLevel++) {
-      const nodesToExpand = currentGraph.nodes
-        .filter(n =>
-          n.data.loaded === false &&
-          nodeDepths.get(n.data.id) === currentLevel
-        )
-        .map(n => n.data);
-
-      if (nodesToExpand.length === 0) break;
-
-      setExpandProgress({ current: 0, total: nodesToExpand.length });
-
-      for (let i = 0; i < nodesToExpand.length; i++) {
-        const nodeToExpand = nodesToExpand[i];
-        setExpandProgress({ current: i + 1, total: nodesToExpand.length });
-
-        try {
-          const expandedData = await getArtistRelationshipsCached(nodeToExpand.id);
-
-          if (expandedData) {
-            const newGraph = buildGraphData(
-              expandedData.artist,
-              expandedData.relationships,
-              expandedData.relatedArtists,
-              expandedData.artist.activeYears?.begin
-            );
-
-            for (const node of newGraph.nodes) {
-              if (!nodeDepths.has(node.data.id)) {
-                nodeDepths.set(node.data.id, currentLevel + 1);
-              }
-            }
-
-            currentGraph = mergeGraphData(
-              currentGraph,
-              newGraph.nodes,
-              newGraph.edges,
-              nodeToExpand.id
-            );
-          }
-        } catch (err) {
-          console.error(`Failed to expand ${nodeToExpand.name}:`, err);
+    // Deeper levels are expanded server-side in batches, following only the
+    // shown relationship types; show each level as it completes. This bypasses
+    // the per-artist browser cache on purpose (one streamed request instead of
+    // one per artist). Wikipedia founders are only fetched for the root, as
+    // before, and applied to the whole graph in graphData above.
+    expandedTypesRef.current = typeKey;
+    let currentLevel = 1;
+    try {
+      await streamGraphExpansion(initialData.artist.id, depth, typeKey ? typeKey.split(',') as RelationshipType[] : undefined, chunk => {
+        if (chunk.level !== currentLevel) {
+          setExpandedGraph(currentGraph);
+          currentLevel = chunk.level;
         }
-      }
+        currentGraph = applyExpansionChunk(currentGraph, chunk);
+        setExpandProgress({ current: chunk.current, total: chunk.total });
+      });
+    } catch (err) {
+      console.error(`Failed to expand ${initialData.artist.name}:`, err);
     }
 
     setExpandedGraph(currentGraph);
     setIsExpanding(false);
     setExpandProgress(null);
-  }, [initialData, isExpanding, supplementaryFounders]);
+  }, [initialData, isExpanding, supplementaryFounders, typeKey]);
 
-  // Auto-expand when data loads
+  // Auto-expand when data loads, and again when a newly shown type wasn't followed
   useEffect(() => {
-    if (!initialData || autoExpandComplete || isExpanding) return;
+    if (!initialData || isExpanding) return;
+    const followed = expandedTypesRef.current;
+    const missingTypes = autoExpandComplete && followed !== null && addsExpansionTypes(followed, typeKey);
+    if (autoExpandComplete && !missingTypes) return;
     performMultiLevelExpansion(expansionDepth);
-  }, [initialData, autoExpandComplete, isExpanding, expansionDepth, performMultiLevelExpansion]);
+  }, [initialData, autoExpandComplete, isExpanding, expansionDepth, typeKey, performMultiLevelExpansion]);
 
   // Handle expansion depth change
   const handleDepthChange = useCallback((newDepth: ExpansionDepth) => {
@@ -346,6 +409,14 @@ export function useGraphExpansion(
     setAutoExpandComplete(false);
   }, []);
 
+  // Load a saved graph - marks auto-expansion done so it isn't overwritten
+  const loadGraph = useCallback((graph: ArtistGraph) => {
+    if (isExpanding) return;
+    expandedTypesRef.current = null;
+    setExpandedGraph(graph);
+    setAutoExpandComplete(true);
+  }, [isExpanding]);
+
   return {
     graphData,
     isExpanding,
@@ -356,6 +427,243 @@ export function useGraphExpansion(
     handleDepthChange,
     handleNodeExpand,
     handleResetGraph,
+    loadGraph,
     hasExpandedGraph: expandedGraph !== null,
   };
 }
+
+export interface ArtistPathResult {
+  found: boolean;
+  /** Artist MBIDs from source to target */
+  path: string[];
+  /** Subgraph of the artists and relationships along the path */
+  graph: ArtistGraph;
+  source: 'local' | 'api';
+  latencyMs: number;
+  stats: {
+    visitedCount: number;
+    depthReached: number;
+    stopReason: PathStopReason;
+  };
+}
+
+/**
+ * Fetch the shortest path between two artists with browser caching
+ * Only successful searches are cached - timeouts may succeed on retry
+ */
+async function fetchArtistPathCached(fromId: string, toId: string): Promise<ArtistPathResult> {
+  const cacheKey = `artist-path-${fromId}-${toId}`;
+
+  const cached = await cacheGet<ArtistPathResult>('relationships', cacheKey);
+  if (cached) {
+    console.log(`[Cache HIT] Path ${fromId} -> ${toId}`);
+    return cached;
+  }
+
+  const response = await fetch(
+    `/api/musicbrainz/path?from=${encodeURIComponent(fromId)}&to=${encodeURIComponent(toId)}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to find path: ${response.status}`);
+  }
+
+  const result: ArtistPathResult = await response.json();
+
+  if (result.found || result.stats.stopReason === 'exhausted') {
+    await cacheSet('relationships', cacheKey, result, CacheTTL.MEDIUM);
+  }
+
+  return result;
+}
+
+/**
+ * Hook to find the shortest relationship path between two artists
+ * Disabled until both artists are known
+ */
+export function useArtistPath(fromId: string | null, toId: string | null) {
+  return useQuery<ArtistPathResult, Error>({
+    queryKey: ['artistPath', fromId, toId],
+    queryFn: () => fetchArtistPathCached(fromId!, toId!),
+    enabled: !!fromId && !!toId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: false, // Path searches are expensive and strictly rate limited
+  });
+}
+
+/**
+ * Influence claims for one artist from MusicBrainz and Wikidata
+ * Either source failing just leaves its claims out.
+ */
+async function loadInfluenceClaims(mbid: string): Promise<InfluenceClaim[]> {
+  const [relationships, wikidata] = await Promise.all([
+    getArtistRelationshipsCached(mbid),
+    getArtistInfluences(mbid),
+  ]);
+
+  return [
+    ...(relationships
+      ? getMusicBrainzInfluences(mbid, relationships.relationships, relationships.relatedArtists)
+      : []),
+    ...wikidata.map(influence => ({
+      influencer: { id: influence.mbid, name: influence.name, type: influence.type },
+      source: 'wikidata' as const,
+    })),
+  ];
+}
+
+/**
+ * Hook adding the influence layer to a graph: the root artist's influences,
+ * traced back `hops` generations (0 = no layer)
+ */
+export function useInfluenceLayer(graph: ArtistGraph, hops: number): { graph: ArtistGraph; isLoading: boolean } {
+  const rootId = graph.nodes[0]?.data.id ?? null;
+  const { data: layer, isFetching } = useQuery({
+    queryKey: ['influenceLineage', rootId, hops],
+    queryFn: ({ signal }) => traceInfluenceLineage(rootId!, loadInfluenceClaims, { maxHops: hops, signal }),
+    enabled: !!rootId && hops > 0,
+    staleTime: 60 * 60 * 1000, // 1 hour
+    retry: false,
+  });
+
+  const layeredGraph = useMemo(
+    () => (hops > 0 && layer ? applyInfluenceLayer(graph, layer) : graph),
+    [graph, hops, layer]
+  );
+  return { graph: layeredGraph, isLoading: hops > 0 && isFetching };
+}
+
+/**
+ * Fetch the artists credited on the same records as an artist
+ * Needs the local database - a 503 means the expansion is unavailable, not an error.
+ */
+async function fetchCreditRelationships(
+  mbid: string,
+  minShared: number,
+  signal: AbortSignal
+): Promise<CreditRelationships> {
+  const response = await fetch(
+    `/api/musicbrainz/artist/${encodeURIComponent(mbid)}/credits?minShared=${minShared}`,
+    { signal }
+  );
+
+  if (response.status === 503) return { relationships: [], relatedArtists: [] };
+  if (!response.ok) {
+    throw new Error(`Failed to fetch shared credits: ${response.status}`);
+  }
+
+  const result: CreditRelationships = await response.json();
+  return { relationships: result.relationships, relatedArtists: result.relatedArtists };
+}
+
+/**
+ * Hook adding the credits expansion to a graph: artists credited on at least
+ * `minShared` of the root artist's recordings and releases (0 = no expansion)
+ */
+export function useCreditLayer(graph: ArtistGraph, minShared: number): { graph: ArtistGraph; isLoading: boolean } {
+  const rootId = graph.nodes[0]?.data.id ?? null;
+  const { data: credits, isFetching } = useQuery({
+    queryKey: ['creditRelationships', rootId, minShared],
+    queryFn: ({ signal }) => fetchCreditRelationships(rootId!, minShared, signal),
+    enabled: !!rootId && minShared > 0,
+    staleTime: 60 * 60 * 1000, // 1 hour
+    retry: false,
+  });
+
+  const creditGraph = useMemo(
+    () => (minShared > 0 && credits ? applyCreditRelationships(graph, credits) : graph),
+    [graph, minShared, credits]
+  );
+  return { graph: creditGraph, isLoading: minShared > 0 && isFetching };
+}
+
+/**
+ * Fetch derived (label-mate / same-scene) relationships between artists
+ * Needs the local database - a 503 means derivation is unavailable, not an error.
+ */
+async function fetchDerivedRelationships(
+  mbids: string[],
+  types: DerivedRelationshipType[],
+  signal: AbortSignal
+): Promise<ArtistRelationship[]> {
+  const response = await fetch('/api/graph/derived', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ mbids, types }),
+    signal,
+  });
+
+  if (response.status === 503) return [];
+  if (!response.ok) {
+    throw new Error(`Failed to derive relationships: ${response.status}`);
+  }
+
+  const result: { relationships: ArtistRelationship[] } = await response.json();
+  return result.relationships;
+}
+
+/**
+ * Hook adding derived edges of the given types between the artists in a graph
+ * (no types = no derived edges)
+ */
+export function useDerivedRelationships(
+  graph: ArtistGraph,
+  types: DerivedRelationshipType[]
+): { graph: ArtistGraph; isLoading: boolean } {
+  const mbids = useMemo(
+    () => graph.nodes.map(node => node.data.id).sort().slice(0, MAX_DERIVED_ARTISTS),
+    [graph.nodes]
+  );
+  const typeKey = [...types].sort().join(',');
+  const { data: derived, isFetching } = useQuery({
+    queryKey: ['derivedRelationships', typeKey, mbids.join(',')],
+    queryFn: ({ signal }) => fetchDerivedRelationships(mbids, typeKey.split(',') as DerivedRelationshipType[], signal),
+    enabled: typeKey !== '' && mbids.length > 1,
+    staleTime: 60 * 60 * 1000, // 1 hour
+    placeholderData: previous => previous, // Keep the edges while a grown graph is re-derived
+    retry: false,
+  });
+
+  const derivedGraph = useMemo(
+    () => (typeKey !== '' && derived ? applyDerivedRelationships(graph, derived) : graph),
+    [graph, typeKey, derived]
+  );
+  return { graph: derivedGraph, isLoading: typeKey !== '' && isFetching };
+}
+
+// Graph theme store - snapshots are cached by the raw stored value so
+// useSyncExternalStore sees the same object until the themes change
+const SERVER_THEME_SETTINGS: GraphThemeSettings = { activeId: 'default', custom: [] };
+let themeSnapshot: { raw: string | null; settings: GraphThemeSettings } | null = null;
+
+function getThemeSnapshot(): GraphThemeSettings {
+  const raw = getStorageString(STORAGE_KEYS.GRAPH_THEMES);
+  if (!themeSnapshot || themeSnapshot.raw !== raw) {
+    themeSnapshot = { raw, settings: getGraphThemeSettings() };
+  }
+  return themeSnapshot.settings;
+}
+
+function subscribeToThemes(listener: () => void): () => void {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEYS.GRAPH_THEMES) listener();
+  };
+  window.addEventListener('storage', handleStorage);
+  const removeCustomListener = addStorageEventListener(STORAGE_EVENTS.GRAPH_THEME_CHANGED, listener);
+  return () => {
+    window.removeEventListener('storage', handleStorage);
+    removeCustomListener();
+  };
+}
+
+/**
+ * Hook for the active graph theme and every theme to choose from
+ * Stays in sync with changes in this tab and other tabs
+ */
+export function useGraphTheme(): { theme: GraphTheme; themes: GraphTheme[] } {
+  const settings = useSyncExternalStore(subscribeToThemes, getThemeSnapshot, () => SERVER_THEME_SETTINGS);
+  return useMemo(() => ({
+    theme: getActiveGraphTheme(settings),
+    themes: listGraphThemes(settings),
+  }), [settings]);
+}
@@ -0,0 +1,132 @@
+/**
+ * Tests for saved graph import
+ *
+ * Round-trips graphs through the exporters so the two stay in sync, and
+ * checks that invalid files are rejected with readable errors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph } from '@/types';
+import { exportCytoscapeJSON, exportGraphML, GRAPH_SCHEMA_VERSION } from './export';
+import { importGraph } from './import';
+
+const BAND = 'b10bbbfc-cf9e-42e0-be17-e2c3e1d2600d';
+const PERSON = 'ba550d0e-adac-4864-b88b-407cab5e76af';
+const OTHER = '9c9f1380-2516-4fc9-a3e6-f9f61941d090';
+
+const graph: ArtistGraph = {
+  nodes: [
+    {
+      data: {
+        id: BAND,
+        name: 'The Beatles',
+        type: 'group',
+        country: 'GB',
+        activeYears: { begin: '1960', end: '1970' },
+        loaded: true,
+        genres: ['rock', 'pop'],
+      },
+      position: { x: 10, y: -20.5 },
+    },
+    {
+      data: {
+        id: PERSON,
+        name: 'Paul McCartney',
+        type: 'person',
+        loaded: false,
+        founding: true,
+        instruments: ['bass', 'vocals'],
+      },
+      position: { x: 200, y: 40 },
+    },
+  ],
+  edges: [
+    {
+      data: {
+        id: `${PERSON}-member_of-${BAND}`,
+        source: PERSON,
+        target: BAND,
+        type: 'member_of',
+        attributes: ['bass guitar', 'lead vocals'],
+        period: { begin: '1960', end: '1970' },
+        direction: 'forward',
+      },
+    },
+  ],
+};
+
+describe('importGraph', () => {
+  it.each([
+    ['Cytoscape JSON', exportCytoscapeJSON],
+    ['GraphML', exportGraphML],
+  ])('should round-trip %s with positions and typed attributes', (_, exporter) => {
+    const result = importGraph(exporter(graph, { rootId: BAND }));
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.rootId).toBe(BAND);
+    expect(result.schemaVersion).toBe(GRAPH_SCHEMA_VERSION);
+    expect(result.graph.nodes[0].position).toEqual({ x: 10, y: -20.5 });
+    expect(result.graph.nodes[1].data).toMatchObject({
+      name: 'Paul McCartney',
+      loaded: false,
+      founding: true,
+      instruments: ['bass', 'vocals'],
+    });
+    expect(result.graph.edges[0].data).toMatchObject({
+      type: 'member_of',
+      attributes: ['bass guitar', 'lead vocals'],
+      period: { begin: '1960', end: '1970' },
+    });
+  });
+
+  it('should put the root artist first', () => {
+    const result = importGraph(exportCytoscapeJSON(graph, { rootId: PERSON }));
+
+    expect(result.success && result.graph.nodes[0].data.id).toBe(PERSON);
+  });
+
+  it('should reject files without a schema version', () => {
+    const json = JSON.parse(exportCytoscapeJSON(graph, { rootId: BAND }));
+    delete json.interchord;
+
+    const result = importGraph(JSON.stringify(json));
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors[0]).toContain('schema version');
+  });
+
+  it('should reject newer schema versions', () => {
+    const json = JSON.parse(exportCytoscapeJSON(graph, { rootId: BAND }));
+    json.interchord.schemaVersion = GRAPH_SCHEMA_VERSION + 1;
+
+    const result = importGraph(JSON.stringify(json));
+
+    expect(!result.success && result.errors[0]).toContain(`schema version ${GRAPH_SCHEMA_VERSION + 1}`);
+  });
+
+  it('should report unknown relationship types, invalid MBIDs and dangling edges', () => {
+    const json = JSON.parse(exportCytoscapeJSON(graph, { rootId: BAND }));
+    json.elements.nodes[1].data.id = 'not-a-uuid';
+    json.elements.edges[0].data.type = 'married_to';
+    json.elements.edges.push({
+      data: { id: 'dangling', source: BAND, target: OTHER, type: 'producer', direction: 'forward' },
+    });
+
+    const result = importGraph(JSON.stringify(json));
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Artist "Paul McCartney" has an invalid MBID "not-a-uuid" (expected UUID)',
+      `Relationship "${PERSON}-member_of-${BAND}" has unknown type "married_to"`,
+      `Relationship "dangling" references artist ${OTHER} which is not in the file`,
+    ]));
+  });
+
+  it('should reject malformed files', () => {
+    expect(importGraph('{ not json').success).toBe(false);
+    expect(importGraph('<graphml><graph>').success).toBe(false);
+  });
+});
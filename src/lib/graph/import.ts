@@ -0,0 +1,243 @@
+import type { ArtistGraph, ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
+import { isRelationshipType } from '@/lib/relationships';
+import { GRAPH_SCHEMA_VERSION, LIST_SEPARATOR } from './export';
+
+/**
+ * Graph import - reads InterChord Cytoscape JSON (.cyjs/.json) and GraphML
+ * files written by ./export.ts back into an ArtistGraph.
+ *
+ * Files are validated before anything is loaded: every node must be a valid
+ * MusicBrainz MBID, every edge must use a known relationship type and point
+ * at nodes in the file. All problems are collected so the user sees the full
+ * list at once instead of fixing them one by one.
+ */
+
+export type GraphImportResult =
+  | {
+      success: true;
+      graph: ArtistGraph;
+      /** Root (searched) artist of the saved graph */
+      rootId: string;
+      schemaVersion: number;
+    }
+  | {
+      success: false;
+      errors: string[];
+    };
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Stop listing after this many problems - a wrong file would otherwise produce thousands
+const MAX_ERRORS = 20;
+
+interface RawGraph {
+  schemaVersion: number | null;
+  rootId: string | null;
+  nodes: ArtistGraph['nodes'];
+  edges: ArtistGraph['edges'];
+}
+
+// ============================================================================
+// Format readers
+// ============================================================================
+
+interface CytoscapeJSONFile {
+  interchord?: { schemaVersion?: number; rootId?: string };
+  elements?: {
+    nodes?: Array<{ data?: Partial<ArtistNode> & { root?: boolean }; position?: { x: number; y: number } }>;
+    edges?: Array<{ data?: Partial<ArtistRelationship> }>;
+  };
+}
+
+function readCytoscapeJSON(text: string): RawGraph {
+  const file = JSON.parse(text) as CytoscapeJSONFile;
+  if (!file || typeof file !== 'object' || !file.elements) {
+    throw new Error('JSON file has no "elements" - not a Cytoscape/InterChord graph');
+  }
+
+  return {
+    schemaVersion: file.interchord?.schemaVersion ?? null,
+    rootId: file.interchord?.rootId ?? null,
+    nodes: (file.elements.nodes ?? []).map(({ data = {}, position }) => {
+      // `root` is export-only metadata, not part of ArtistNode
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { root, ...node } = data;
+      return {
+        data: node as ArtistNode,
+        ...(position && Number.isFinite(position.x) && Number.isFinite(position.y) && { position }),
+      };
+    }),
+    edges: (file.elements.edges ?? []).map(({ data = {} }) => ({ data: data as ArtistRelationship })),
+  };
+}
+
+function readGraphML(text: string): RawGraph {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('GraphML file is not well-formed XML');
+  }
+
+  const graphEl = doc.getElementsByTagName('graph')[0];
+  if (!graphEl) {
+    throw new Error('GraphML file has no <graph> element');
+  }
+
+  // Map key ids to attribute names (other tools may use their own key ids)
+  const keyNames = new Map<string, string>();
+  for (const key of Array.from(doc.getElementsByTagName('key'))) {
+    keyNames.set(key.getAttribute('id') ?? '', key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '');
+  }
+
+  const readData = (el: Element): Record<string, string> => {
+    const values: Record<string, string> = {};
+    for (const child of Array.from(el.children)) {
+      if (child.tagName !== 'data') continue;
+      const key = child.getAttribute('key') ?? '';
+      values[keyNames.get(key) ?? key] = child.textContent ?? '';
+    }
+    return values;
+  };
+
+  const list = (value: string | undefined) => value ? value.split(LIST_SEPARATOR).filter(Boolean) : undefined;
+  const graphData = readData(graphEl);
+
+  const nodes: ArtistGraph['nodes'] = Array.from(graphEl.getElementsByTagName('node')).map(el => {
+    const d = readData(el);
+    const x = parseFloat(d.x);
+    const y = parseFloat(d.y);
+    const node: ArtistNode = {
+      id: el.getAttribute('id') ?? '',
+      name: d.name ?? '',
+      type: d.type as ArtistNode['type'],
+      disambiguation: d.disambiguation || undefined,
+      country: d.country || undefined,
+      activeYears: d.begin || d.end ? { begin: d.begin || undefined, end: d.end || null } : undefined,
+      founding: d.founding === 'true',
+      loaded: d.loaded === 'true',
+      instruments: list(d.instruments),
+      genres: list(d.genres),
+    };
+    return {
+      data: node,
+      ...(Number.isFinite(x) && Number.isFinite(y) && { position: { x, y } }),
+    };
+  });
+
+  const edges: ArtistGraph['edges'] = Array.from(graphEl.getElementsByTagName('edge')).map(el => {
+    const d = readData(el);
+    const edge: ArtistRelationship = {
+      id: el.getAttribute('id') ?? '',
+      source: el.getAttribute('source') ?? '',
+      target: el.getAttribute('target') ?? '',
+      type: d.type as RelationshipType,
+      direction: (d.direction as ArtistRelationship['direction']) || 'forward',
+      attributes: list(d.attributes),
+      period: d.periodBegin || d.periodEnd
+        ? { begin: d.periodBegin || undefined, end: d.periodEnd || null }
+        : undefined,
+    };
+    return { data: edge };
+  });
+
+  const schemaVersion = parseInt(graphData.interchordSchemaVersion, 10);
+  return {
+    schemaVersion: isNaN(schemaVersion) ? null : schemaVersion,
+    rootId: graphData.rootId || null,
+    nodes,
+    edges,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validate(raw: RawGraph): string[] {
+  const errors: string[] = [];
+
+  if (raw.schemaVersion === null) {
+    errors.push('Missing InterChord schema version - only files exported from InterChord can be imported');
+  } else if (raw.schemaVersion > GRAPH_SCHEMA_VERSION) {
+    errors.push(
+      `File uses schema version ${raw.schemaVersion}, this version of InterChord supports up to ${GRAPH_SCHEMA_VERSION}`
+    );
+  }
+
+  if (raw.nodes.length === 0) {
+    errors.push('Graph has no artists');
+  }
+
+  const nodeIds = new Set<string>();
+  for (const { data } of raw.nodes) {
+    const label = data.name ? `"${data.name}"` : `"${data.id}"`;
+    if (!UUID_REGEX.test(data.id ?? '')) {
+      errors.push(`Artist ${label} has an invalid MBID "${data.id ?? ''}" (expected UUID)`);
+    } else if (nodeIds.has(data.id)) {
+      errors.push(`Artist ${label} appears more than once`);
+    }
+    if (data.type !== 'person' && data.type !== 'group') {
+      errors.push(`Artist ${label} has unknown type "${data.type ?? ''}" (expected person or group)`);
+    }
+    if (!data.name) {
+      errors.push(`Artist "${data.id}" has no name`);
+    }
+    nodeIds.add(data.id);
+  }
+
+  for (const { data } of raw.edges) {
+    if (!isRelationshipType(data.type ?? '')) {
+      errors.push(`Relationship "${data.id}" has unknown type "${data.type ?? ''}"`);
+    }
+    for (const end of [data.source, data.target]) {
+      if (!UUID_REGEX.test(end ?? '')) {
+        errors.push(`Relationship "${data.id}" references invalid MBID "${end ?? ''}" (expected UUID)`);
+      } else if (!nodeIds.has(end)) {
+        errors.push(`Relationship "${data.id}" references artist ${end} which is not in the file`);
+      }
+    }
+  }
+
+  if (raw.rootId && !nodeIds.has(raw.rootId)) {
+    errors.push(`Root artist ${raw.rootId} is not in the file`);
+  }
+
+  if (errors.length > MAX_ERRORS) {
+    return [...errors.slice(0, MAX_ERRORS), `...and ${errors.length - MAX_ERRORS} more problems`];
+  }
+  return errors;
+}
+
+/**
+ * Parse and validate a saved graph file (format detected from content)
+ * The root artist is moved to the front of the node list (ArtistGraph convention).
+ */
+export function importGraph(text: string): GraphImportResult {
+  let raw: RawGraph;
+  try {
+    raw = text.trimStart().startsWith('<') ? readGraphML(text) : readCytoscapeJSON(text);
+  } catch (error) {
+    return { success: false, errors: [(error as Error).message] };
+  }
+
+  const errors = validate(raw);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const rootId = (raw.rootId ?? raw.nodes[0].data.id).toLowerCase();
+  const normalize = (id: string) => id.toLowerCase();
+  const nodes = raw.nodes.map(n => ({ ...n, data: { ...n.data, id: normalize(n.data.id) } }));
+  const rootIndex = nodes.findIndex(n => n.data.id === rootId);
+
+  return {
+    success: true,
+    rootId,
+    schemaVersion: raw.schemaVersion!,
+    graph: {
+      nodes: [nodes[rootIndex], ...nodes.filter((_, i) => i !== rootIndex)],
+      edges: raw.edges.map(e => ({
+        data: { ...e.data, source: normalize(e.data.source), target: normalize(e.data.target) },
+      })),
+    },
+  };
+}
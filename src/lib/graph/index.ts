@@ -18,6 +18,175 @@ export {
   mergeGraphData,
 } from './builder';
 
+// Export serializers
+export type { GraphExportFormat, GraphExportOptions } from './export';
+export { GRAPH_EXPORT_FORMATS, GRAPH_SCHEMA_VERSION, exportGraph } from './export';
+
+// Import (saved graph files)
+export type { GraphImportResult } from './import';
+export { importGraph } from './import';
+
+// Path finding
+export type {
+  PathSearchOptions,
+  PathSearchResult,
+  PathStopReason,
+  PathExpander,
+} from './path';
+export { findShortestPath, DEFAULT_PATH_TYPES } from './path';
+
+// Multi-level expansion
+export type {
+  ArtistRelationshipsData,
+  ExpansionChunk,
+  ExpansionLoader,
+  ExpansionOptions,
+  ExpansionResult,
+  ExpansionStopReason,
+  ExpansionStreamEvent,
+} from './expand';
+export { expandArtistGraph, applyExpansionChunk, MAX_EXPANSION_DEPTH } from './expand';
+
+// Centrality and communities
+export type {
+  CentralityMeasure,
+  CommunityAlgorithm,
+  Community,
+  GraphAnalytics,
+  NodeMetrics,
+} from './analytics';
+export { CENTRALITY_MEASURES, computeGraphAnalytics, rankByCentrality } from './analytics';
+
+// Two-artist comparison
+export type { CompareSide, GraphComparison, SharedArtist, SharedRole } from './compare';
+export { compareGraphs } from './compare';
+
+// Time scrubber replay
+export type { ActiveElements } from './replay';
+export { isActiveInYear, getActiveElementsAtYear, getGraphYearSpan } from './replay';
+export type { GifFrame } from './gif';
+export { encodeGif } from './gif';
+
+// Find-in-graph and keyboard navigation
+export type { GraphSearchMatch, NavigationDirection } from './search';
+export { fuzzyMatch, searchGraphNodes, pickNeighborInDirection, describeArtist } from './search';
+
+// Large-graph performance mode
+export type { RenderingTier, RenderingThresholds } from './performance';
+export { DEFAULT_RENDERING_THRESHOLDS, getRenderingTier, findParallelEdges } from './performance';
+export type { ForceLayoutNode, ForceLayoutEdge, ForceLayoutOptions, LayoutPositions } from './force-layout';
+export { computeForceLayout } from './force-layout';
+
+// Edge bundling
+export type { BundledLink, EdgeBundle } from './bundles';
+export { bundleParallelEdges } from './bundles';
+
+// Band grouping
+export type { CollapsedGroup, CollapsedEdge } from './grouping';
+export { getAutoCollapsedGroups, planCollapsedGroups, rerouteCollapsedEdges } from './grouping';
+
+// Influence layer
+export type {
+  InfluenceSource,
+  InfluenceClaim,
+  InfluenceLoader,
+  InfluenceLayer,
+  InfluenceTraceOptions,
+} from './influence';
+export {
+  MAX_INFLUENCE_HOPS,
+  influenceEdgeId,
+  getMusicBrainzInfluences,
+  traceInfluenceLineage,
+  applyInfluenceLayer,
+} from './influence';
+
+// Derived relationships (label-mates, scenes)
+export type {
+  DerivedRelationshipType,
+  ArtistLabelReleases,
+  ArtistDerivationContext,
+  DerivationOptions,
+} from './derived';
+export {
+  DERIVED_RELATIONSHIP_TYPES,
+  MAX_DERIVED_ARTISTS,
+  deriveRelationships,
+  applyDerivedRelationships,
+} from './derived';
+
+// Credits expansion (artists credited on the same records)
+export type {
+  SharedCredits,
+  CreditPartner,
+  CreditOptions,
+  CreditRelationships,
+} from './credits';
+export {
+  DEFAULT_MIN_SHARED_CREDITS,
+  MAX_MIN_SHARED_CREDITS,
+  CREDIT_THRESHOLDS,
+  MAX_CREDIT_TITLES,
+  creditEdgeId,
+  buildCreditRelationships,
+  applyCreditRelationships,
+} from './credits';
+
+// Graph themes (style presets)
+export type {
+  GraphTheme,
+  GraphThemeSettings,
+  GraphThemeImportResult,
+  GraphEdgeStyle,
+  GraphNodeStyle,
+  GraphNodeShape,
+  GraphLineStyle,
+  GraphArtistType,
+} from './themes';
+export {
+  DEFAULT_GRAPH_THEME,
+  GRAPH_THEME_PRESETS,
+  GRAPH_LINE_STYLES,
+  GRAPH_NODE_SHAPES,
+  GRAPH_FONT_OPTIONS,
+  isPresetTheme,
+  exportGraphTheme,
+  importGraphTheme,
+  parseGraphTheme,
+  getGraphThemeSettings,
+  listGraphThemes,
+  getActiveGraphTheme,
+  setActiveGraphTheme,
+  saveCustomGraphTheme,
+  deleteCustomGraphTheme,
+  createGraphThemeId,
+} from './themes';
+
+// Poster export
+export type {
+  PosterSize,
+  PosterOrientation,
+  PosterFormat,
+  PosterNode,
+  PosterPoint,
+  PosterEdge,
+  PosterScene,
+  PosterOptions,
+  PosterLegendEntry,
+} from './poster';
+export {
+  POSTER_SIZES,
+  POSTER_FORMATS,
+  POSTER_DPI,
+  POSTER_ATTRIBUTION,
+  getPosterPage,
+  getPosterPixelSize,
+  getPosterLegend,
+  pickPosterOrientation,
+  renderPosterSvg,
+  buildPosterPdf,
+} from './poster';
+
 // Hooks
-export type { UseGraphExpansionResult } from './hooks';
-export { useGraphExpansion } from './hooks';
+export type { UseGraphExpansionResult, UseGraphExpansionOptions, ArtistPathResult } from './hooks';
+export { useGraphExpansion, useArtistPath, useInfluenceLayer, useCreditLayer, useDerivedRelationships, useGraphTheme } from './hooks';
@@ -0,0 +1,97 @@
+/**
+ * Tests for the influence layer (MusicBrainz + Wikidata influence lineage)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { ArtistGraph, ArtistNode, ArtistRelationship } from '@/types';
+import {
+  applyInfluenceLayer,
+  getMusicBrainzInfluences,
+  traceInfluenceLineage,
+  type InfluenceClaim,
+  type InfluenceSource,
+} from './influence';
+
+function artist(id: string, type: ArtistNode['type'] = 'person'): ArtistNode {
+  return { id, name: id, type };
+}
+
+function claims(...entries: Array<[string, InfluenceSource]>): InfluenceClaim[] {
+  return entries.map(([id, source]) => ({ influencer: artist(id), source }));
+}
+
+// radiohead <- (beatles both sources, pixies wikidata) ; beatles <- (elvis) ; elvis <- (beatles: a cycle)
+const CLAIMS: Record<string, InfluenceClaim[]> = {
+  radiohead: claims(['beatles', 'musicbrainz'], ['beatles', 'wikidata'], ['pixies', 'wikidata']),
+  beatles: claims(['elvis', 'wikidata']),
+  elvis: claims(['beatles', 'musicbrainz']),
+  pixies: [],
+};
+
+const loader = vi.fn(async (mbid: string) => CLAIMS[mbid] ?? []);
+
+describe('getMusicBrainzInfluences', () => {
+  it('should only take "influenced by" links from the artist to its influences', () => {
+    const relationships: ArtistRelationship[] = [
+      { id: 'a', source: 'radiohead', target: 'beatles', type: 'influenced_by', direction: 'forward' },
+      { id: 'b', source: 'muse', target: 'radiohead', type: 'influenced_by', direction: 'backward' },
+      { id: 'c', source: 'yorke', target: 'radiohead', type: 'member_of', direction: 'backward' },
+    ];
+    const result = getMusicBrainzInfluences('radiohead', relationships, [artist('beatles', 'group'), artist('muse'), artist('yorke')]);
+
+    expect(result).toEqual([{ influencer: artist('beatles', 'group'), source: 'musicbrainz' }]);
+  });
+});
+
+describe('traceInfluenceLineage', () => {
+  it('should merge sources per influence and weigh agreeing sources higher', async () => {
+    const layer = await traceInfluenceLineage('radiohead', loader);
+
+    expect(layer.nodes.map(n => n.data.id)).toEqual(['beatles', 'pixies']);
+    const [beatles, pixies] = layer.edges.map(e => e.data);
+    expect(beatles).toMatchObject({
+      id: 'influence:radiohead-beatles',
+      source: 'radiohead',
+      target: 'beatles',
+      type: 'influenced_by',
+      influence: { sources: ['musicbrainz', 'wikidata'], hops: 1 },
+    });
+    expect(beatles.influence!.weight).toBeGreaterThan(pixies.influence!.weight);
+  });
+
+  it('should follow the lineage several hops back without revisiting artists', async () => {
+    loader.mockClear();
+    const layer = await traceInfluenceLineage('radiohead', loader, { maxHops: 3 });
+
+    expect(layer.nodes.map(n => n.data.id)).toEqual(['beatles', 'pixies', 'elvis']);
+    expect(layer.edges.map(e => `${e.data.id}@${e.data.influence!.hops}`)).toEqual([
+      'influence:radiohead-beatles@1',
+      'influence:radiohead-pixies@1',
+      'influence:beatles-elvis@2',
+      'influence:elvis-beatles@3',
+    ]);
+    expect(loader).toHaveBeenCalledTimes(4);
+  });
+
+  it('should stop loading after maxArtists', async () => {
+    loader.mockClear();
+    await traceInfluenceLineage('radiohead', loader, { maxHops: 3, maxArtists: 2 });
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('applyInfluenceLayer', () => {
+  it('should add new artists and replace matching MusicBrainz influence links', async () => {
+    const graph: ArtistGraph = {
+      nodes: [{ data: artist('radiohead', 'group') }, { data: artist('beatles', 'group') }],
+      edges: [
+        { data: { id: 'mb', source: 'radiohead', target: 'beatles', type: 'influenced_by', direction: 'forward' } },
+        { data: { id: 'member', source: 'yorke', target: 'radiohead', type: 'member_of', direction: 'backward' } },
+      ],
+    };
+    const result = applyInfluenceLayer(graph, await traceInfluenceLineage('radiohead', loader));
+
+    expect(result.nodes.map(n => n.data.id)).toEqual(['radiohead', 'beatles', 'pixies']);
+    expect(result.edges.map(e => e.data.id)).toEqual(['member', 'influence:radiohead-beatles', 'influence:radiohead-pixies']);
+  });
+});
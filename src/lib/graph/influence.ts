@@ -0,0 +1,147 @@
+import type { ArtistGraph, ArtistNode, ArtistRelationship } from '@/types';
+
+/**
+ * Influence layer: who influenced whom, traced back from the root artist
+ *
+ * Influences come from MusicBrainz "influenced by" links and from Wikidata
+ * "influenced by" (P737) claims resolved to MusicBrainz artists. Hop 1 holds
+ * the root artist's influences, hop 2 their influences, and so on, so the
+ * layer can follow an influence lineage several generations back. Each link
+ * is drawn once (influenced artist -> influence) and weighted by how many
+ * sources agree on it and how close it is to the root.
+ */
+
+export type InfluenceSource = 'musicbrainz' | 'wikidata';
+
+export const MAX_INFLUENCE_HOPS = 3;
+export const DEFAULT_INFLUENCE_MAX_ARTISTS = 60;
+
+/** One source saying an artist was influenced by `influencer` */
+export interface InfluenceClaim {
+  influencer: ArtistNode;
+  source: InfluenceSource;
+}
+
+/**
+ * Loads the influence claims of one artist (from every source)
+ * Failures should resolve to an empty list so one bad lookup doesn't end the trace.
+ */
+export type InfluenceLoader = (mbid: string) => Promise<InfluenceClaim[]>;
+
+export interface InfluenceLayer {
+  nodes: ArtistGraph['nodes'];
+  edges: ArtistGraph['edges'];
+}
+
+export interface InfluenceTraceOptions {
+  /** Generations to follow back from the root (default 1) */
+  maxHops?: number;
+  /** Stop loading once this many artists have been looked up */
+  maxArtists?: number;
+  signal?: AbortSignal;
+}
+
+// Corroboration by both sources counts for more than closeness to the root
+const SOURCE_WEIGHT = 0.6;
+const CLOSENESS_WEIGHT = 0.4;
+
+export function influenceEdgeId(artistId: string, influencerId: string): string {
+  return `influence:${artistId}-${influencerId}`;
+}
+
+/**
+ * Influence claims in an artist's MusicBrainz relationships
+ * "influenced by" links run from the influenced artist to the influence.
+ */
+export function getMusicBrainzInfluences(
+  artistId: string,
+  relationships: ArtistRelationship[],
+  relatedArtists: ArtistNode[]
+): InfluenceClaim[] {
+  const artists = new Map(relatedArtists.map(artist => [artist.id, artist]));
+  return relationships
+    .filter(rel => rel.type === 'influenced_by' && rel.source === artistId && artists.has(rel.target))
+    .map(rel => ({ influencer: artists.get(rel.target)!, source: 'musicbrainz' as const }));
+}
+
+/** 0..1 from the number of agreeing sources and the distance from the root */
+function influenceWeight(sourceCount: number, hops: number): number {
+  return SOURCE_WEIGHT * Math.min(sourceCount, 2) / 2 + CLOSENESS_WEIGHT / hops;
+}
+
+/**
+ * Follow influences back from the root artist, generation by generation
+ */
+export async function traceInfluenceLineage(
+  rootId: string,
+  loader: InfluenceLoader,
+  { maxHops = 1, maxArtists = DEFAULT_INFLUENCE_MAX_ARTISTS, signal }: InfluenceTraceOptions = {}
+): Promise<InfluenceLayer> {
+  const nodes = new Map<string, ArtistNode>();
+  const edges: ArtistGraph['edges'] = [];
+  const visited = new Set<string>([rootId]);
+  let frontier = [rootId];
+  let loaded = 0;
+
+  for (let hops = 1; hops <= Math.min(maxHops, MAX_INFLUENCE_HOPS) && frontier.length > 0; hops++) {
+    const next: string[] = [];
+
+    for (const artistId of frontier) {
+      if (signal?.aborted || loaded >= maxArtists) break;
+      loaded++;
+
+      // Merge the sources' claims per influencing artist
+      const claims = new Map<string, { influencer: ArtistNode; sources: Set<InfluenceSource> }>();
+      for (const { influencer, source } of await loader(artistId)) {
+        if (influencer.id === artistId) continue;
+        const claim = claims.get(influencer.id) ?? { influencer, sources: new Set() };
+        claim.sources.add(source);
+        claims.set(influencer.id, claim);
+      }
+
+      for (const { influencer, sources } of claims.values()) {
+        const sourceList = [...sources].sort() as InfluenceSource[];
+        edges.push({
+          data: {
+            id: influenceEdgeId(artistId, influencer.id),
+            source: artistId,
+            target: influencer.id,
+            type: 'influenced_by',
+            direction: 'forward',
+            influence: { sources: sourceList, hops, weight: influenceWeight(sourceList.length, hops) },
+          },
+        });
+        if (!visited.has(influencer.id)) {
+          visited.add(influencer.id);
+          nodes.set(influencer.id, { ...influencer, loaded: false });
+          next.push(influencer.id);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return { nodes: [...nodes.values()].map(data => ({ data })), edges };
+}
+
+/**
+ * Add an influence layer to a graph
+ * Influencers already in the graph are reused, and MusicBrainz influence links
+ * between the same two artists are replaced by the (weighted) layer edge.
+ */
+export function applyInfluenceLayer(graph: ArtistGraph, layer: InfluenceLayer): ArtistGraph {
+  if (layer.edges.length === 0) return graph;
+
+  const nodeIds = new Set(graph.nodes.map(node => node.data.id));
+  const pairs = new Set(layer.edges.map(({ data }) => `${data.source}->${data.target}`));
+
+  return {
+    nodes: [...graph.nodes, ...layer.nodes.filter(node => !nodeIds.has(node.data.id))],
+    edges: [
+      ...graph.edges.filter(({ data }) =>
+        data.type !== 'influenced_by' || !pairs.has(`${data.source}->${data.target}`)
+      ),
+      ...layer.edges,
+    ],
+  };
+}
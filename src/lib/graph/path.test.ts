@@ -0,0 +1,138 @@
+/**
+ * Tests for shortest-path ("six degrees") search
+ *
+ * Uses an in-memory adjacency list as the expander so the bidirectional BFS
+ * can be verified without a database or the MusicBrainz API.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
+import { findShortestPath, type PathExpander } from './path';
+
+function rel(source: string, target: string, type: RelationshipType = 'member_of'): ArtistRelationship {
+  return { id: `${source}-${type}-${target}`, source, target, type, direction: 'forward' };
+}
+
+function artist(id: string): ArtistNode {
+  return { id, name: id.toUpperCase(), type: 'person', loaded: false };
+}
+
+function createExpander(links: ArtistRelationship[]): PathExpander {
+  return vi.fn(async (mbids: string[]) => {
+    const ids = new Set(mbids);
+    const relationships = links.filter(l => ids.has(l.source) || ids.has(l.target));
+    const artists = new Map<string, ArtistNode>();
+    for (const l of relationships) {
+      artists.set(l.source, artist(l.source));
+      artists.set(l.target, artist(l.target));
+    }
+    return { relationships, artists: Array.from(artists.values()) };
+  });
+}
+
+describe('findShortestPath', () => {
+  it('should find a direct connection', async () => {
+    const expand = createExpander([rel('a', 'b')]);
+
+    const result = await findShortestPath('a', 'b', expand);
+
+    expect(result.stopReason).toBe('found');
+    expect(result.path).toEqual(['a', 'b']);
+    expect(result.graph.edges).toHaveLength(1);
+  });
+
+  it('should find the shortest of several chains regardless of link direction', async () => {
+    // Long route: a-b-c-d-e, short route: a-x-e (x -> a stored reversed)
+    const expand = createExpander([
+      rel('a', 'b'),
+      rel('b', 'c'),
+      rel('c', 'd'),
+      rel('d', 'e'),
+      rel('x', 'a', 'collaboration'),
+      rel('e', 'x', 'side_project'),
+    ]);
+
+    const result = await findShortestPath('a', 'e', expand);
+
+    expect(result.path).toEqual(['a', 'x', 'e']);
+    expect(result.graph.nodes.map(n => n.data.id)).toEqual(['a', 'x', 'e']);
+    expect(result.graph.nodes[1].data.name).toBe('X');
+    expect(result.graph.edges.map(e => e.data.id)).toEqual([
+      'x-collaboration-a',
+      'e-side_project-x',
+    ]);
+  });
+
+  it('should join both frontiers on longer paths', async () => {
+    const expand = createExpander([
+      rel('a', 'b'),
+      rel('b', 'c'),
+      rel('c', 'd'),
+      rel('d', 'e'),
+    ]);
+
+    const result = await findShortestPath('a', 'e', expand);
+
+    expect(result.path).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(result.graph.edges).toHaveLength(4);
+    expect(result.depthReached).toBe(4);
+  });
+
+  it('should only traverse allowed relationship types', async () => {
+    const expand = createExpander([
+      rel('a', 'b', 'producer'),
+      rel('a', 'c'),
+      rel('c', 'b'),
+    ]);
+
+    const defaults = await findShortestPath('a', 'b', expand);
+    expect(defaults.path).toEqual(['a', 'c', 'b']);
+
+    const withProducer = await findShortestPath('a', 'b', expand, {
+      relationshipTypes: ['producer'],
+    });
+    expect(withProducer.path).toEqual(['a', 'b']);
+  });
+
+  it('should report exhausted when the artists are not connected', async () => {
+    const expand = createExpander([rel('a', 'b'), rel('c', 'd')]);
+
+    const result = await findShortestPath('a', 'd', expand);
+
+    expect(result.stopReason).toBe('exhausted');
+    expect(result.path).toEqual([]);
+    expect(result.graph.nodes).toEqual([]);
+  });
+
+  it('should stop at the maximum depth', async () => {
+    const expand = createExpander([
+      rel('a', 'b'),
+      rel('b', 'c'),
+      rel('c', 'd'),
+      rel('d', 'e'),
+    ]);
+
+    const result = await findShortestPath('a', 'e', expand, { maxDepth: 3 });
+
+    expect(result.stopReason).toBe('max-depth');
+    expect(result.path).toEqual([]);
+  });
+
+  it('should stop when the node budget is exceeded', async () => {
+    const hub = Array.from({ length: 20 }, (_, i) => rel('a', `m${i}`));
+    const expand = createExpander([...hub, rel('m0', 'z1'), rel('z1', 'z2'), rel('z2', 'z')]);
+
+    const result = await findShortestPath('a', 'z', expand, { maxNodes: 10 });
+
+    expect(result.stopReason).toBe('max-nodes');
+  });
+
+  it('should return a single-artist path when both ends are the same', async () => {
+    const expand = createExpander([rel('a', 'b')]);
+
+    const result = await findShortestPath('a', 'a', expand);
+
+    expect(result.path).toEqual(['a']);
+    expect(result.graph.nodes[0].data.name).toBe('A');
+  });
+});
@@ -0,0 +1,215 @@
+import type { ArtistNode, ArtistRelationship, ArtistGraph, RelationshipType } from '@/types';
+
+/**
+ * Shortest-path ("six degrees") search between two artists.
+ *
+ * Runs a bidirectional breadth-first search: one frontier grows from each
+ * artist and the smaller frontier is expanded on every step, so the number of
+ * artists touched stays close to the square root of a one-sided BFS. The search
+ * is data-source agnostic - callers supply an expander that loads every link
+ * touching a batch of artists (a single SQL query locally, API calls otherwise).
+ */
+
+// Relationship types followed by default (the "who played with whom" links)
+export const DEFAULT_PATH_TYPES: RelationshipType[] = ['member_of', 'collaboration', 'side_project'];
+
+export const DEFAULT_PATH_MAX_DEPTH = 6;
+export const MAX_PATH_DEPTH = 8;
+export const DEFAULT_PATH_TIMEOUT_MS = 15000;
+export const DEFAULT_PATH_MAX_NODES = 20000;
+
+export interface PathSearchOptions {
+  /** Maximum number of hops between the two artists */
+  maxDepth?: number;
+  /** Give up after this many milliseconds */
+  timeoutMs?: number;
+  /** Give up after visiting this many artists (both sides combined) */
+  maxNodes?: number;
+  /** Relationship types that may be traversed */
+  relationshipTypes?: RelationshipType[];
+}
+
+export type PathStopReason = 'found' | 'exhausted' | 'max-depth' | 'timeout' | 'max-nodes';
+
+export interface PathSearchResult {
+  /** Artist MBIDs from source to target (empty when no path was found) */
+  path: string[];
+  /** Subgraph containing only the artists and links on the path */
+  graph: ArtistGraph;
+  /** Number of artists visited across both frontiers */
+  visitedCount: number;
+  /** Combined depth explored when the search stopped */
+  depthReached: number;
+  stopReason: PathStopReason;
+}
+
+/**
+ * Loads all links touching the given artists.
+ * `deadline` is an epoch-ms timestamp slow expanders should respect.
+ */
+export type PathExpander = (
+  mbids: string[],
+  deadline: number
+) => Promise<{ relationships: ArtistRelationship[]; artists: ArtistNode[] }>;
+
+interface ParentEntry {
+  parent: string | null;
+  relationship: ArtistRelationship | null;
+  distance: number;
+}
+
+/**
+ * Find the shortest chain of relationships between two artists
+ */
+export async function findShortestPath(
+  fromId: string,
+  toId: string,
+  expand: PathExpander,
+  options: PathSearchOptions = {}
+): Promise<PathSearchResult> {
+  const maxDepth = Math.min(options.maxDepth ?? DEFAULT_PATH_MAX_DEPTH, MAX_PATH_DEPTH);
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_PATH_TIMEOUT_MS);
+  const maxNodes = options.maxNodes ?? DEFAULT_PATH_MAX_NODES;
+  const allowedTypes = new Set(options.relationshipTypes ?? DEFAULT_PATH_TYPES);
+
+  const artists = new Map<string, ArtistNode>();
+  const forward = new Map<string, ParentEntry>([[fromId, { parent: null, relationship: null, distance: 0 }]]);
+  const backward = new Map<string, ParentEntry>([[toId, { parent: null, relationship: null, distance: 0 }]]);
+
+  if (fromId === toId) {
+    const { artists: found } = await expand([fromId], deadline);
+    const artist = found.find(a => a.id === fromId);
+    if (artist) artists.set(fromId, artist);
+    return {
+      path: [fromId],
+      graph: buildPathGraph([fromId], [], artists),
+      visitedCount: 1,
+      depthReached: 0,
+      stopReason: 'found',
+    };
+  }
+
+  let forwardFrontier = [fromId];
+  let backwardFrontier = [toId];
+  let forwardDepth = 0;
+  let backwardDepth = 0;
+
+  const notFound = (stopReason: PathStopReason): PathSearchResult => ({
+    path: [],
+    graph: { nodes: [], edges: [] },
+    visitedCount: forward.size + backward.size,
+    depthReached: forwardDepth + backwardDepth,
+    stopReason,
+  });
+
+  while (forwardFrontier.length > 0 && backwardFrontier.length > 0) {
+    if (forwardDepth + backwardDepth >= maxDepth) return notFound('max-depth');
+    if (Date.now() > deadline) return notFound('timeout');
+    if (forward.size + backward.size > maxNodes) return notFound('max-nodes');
+
+    // Always grow the cheaper side
+    const expandForward = forwardFrontier.length <= backwardFrontier.length;
+    const frontier = expandForward ? forwardFrontier : backwardFrontier;
+    const visited = expandForward ? forward : backward;
+    const other = expandForward ? backward : forward;
+    const frontierSet = new Set(frontier);
+
+    const { relationships, artists: loaded } = await expand(frontier, deadline);
+    for (const artist of loaded) {
+      if (!artists.has(artist.id)) artists.set(artist.id, artist);
+    }
+
+    const nextFrontier: string[] = [];
+    let meeting: string | null = null;
+    let meetingDistance = Infinity;
+
+    for (const rel of relationships) {
+      if (!allowedTypes.has(rel.type)) continue;
+
+      for (const [from, to] of [[rel.source, rel.target], [rel.target, rel.source]]) {
+        if (!frontierSet.has(from) || visited.has(to)) continue;
+
+        const distance = visited.get(from)!.distance + 1;
+        visited.set(to, { parent: from, relationship: rel, distance });
+        nextFrontier.push(to);
+
+        // Prefer the meeting point closest to the other side's origin
+        const otherEntry = other.get(to);
+        if (otherEntry && otherEntry.distance < meetingDistance) {
+          meeting = to;
+          meetingDistance = otherEntry.distance;
+        }
+      }
+    }
+
+    if (expandForward) {
+      forwardDepth++;
+      forwardFrontier = nextFrontier;
+    } else {
+      backwardDepth++;
+      backwardFrontier = nextFrontier;
+    }
+
+    if (meeting) {
+      const { path, relationships: pathRels } = reconstructPath(meeting, forward, backward);
+      return {
+        path,
+        graph: buildPathGraph(path, pathRels, artists),
+        visitedCount: forward.size + backward.size,
+        depthReached: forwardDepth + backwardDepth,
+        stopReason: 'found',
+      };
+    }
+  }
+
+  return notFound('exhausted');
+}
+
+/**
+ * Walk parent pointers from the meeting artist back to both origins
+ */
+function reconstructPath(
+  meeting: string,
+  forward: Map<string, ParentEntry>,
+  backward: Map<string, ParentEntry>
+): { path: string[]; relationships: ArtistRelationship[] } {
+  const head: string[] = [];
+  const headRels: ArtistRelationship[] = [];
+  let current: string | null = meeting;
+  while (current) {
+    const entry: ParentEntry = forward.get(current)!;
+    head.unshift(current);
+    if (entry.relationship) headRels.unshift(entry.relationship);
+    current = entry.parent;
+  }
+
+  const tail: string[] = [];
+  const tailRels: ArtistRelationship[] = [];
+  current = backward.get(meeting)!.parent;
+  let previousRel = backward.get(meeting)!.relationship;
+  while (current) {
+    const entry: ParentEntry = backward.get(current)!;
+    tail.push(current);
+    if (previousRel) tailRels.push(previousRel);
+    previousRel = entry.relationship;
+    current = entry.parent;
+  }
+
+  return { path: [...head, ...tail], relationships: [...headRels, ...tailRels] };
+}
+
+/**
+ * Build a renderable subgraph from the path (first artist becomes the root)
+ */
+function buildPathGraph(
+  path: string[],
+  relationships: ArtistRelationship[],
+  artists: Map<string, ArtistNode>
+): ArtistGraph {
+  return {
+    nodes: path.map(id => ({
+      data: artists.get(id) ?? { id, name: id, type: 'person' as const, loaded: false },
+    })),
+    edges: relationships.map(rel => ({ data: rel })),
+  };
+}
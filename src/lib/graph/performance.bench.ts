@@ -0,0 +1,35 @@
+/**
+ * Benchmarks for the graph work that grows with network size
+ *
+ * Run with `pnpm bench`. Synthetic graphs use fixed seeds, so numbers are
+ * comparable between runs and branches.
+ */
+
+import { bench, describe } from 'vitest';
+import { computeGraphAnalytics } from './analytics';
+import { computeForceLayout } from './force-layout';
+import { findParallelEdges } from './performance';
+import { generateSyntheticGraph } from './synthetic';
+
+const SIZES = [100, 300, 1000];
+
+for (const nodeCount of SIZES) {
+  const graph = generateSyntheticGraph({ nodeCount, seed: 42 });
+  const layoutNodes = graph.nodes.map(n => ({ id: n.data.id }));
+  const layoutEdges = graph.edges.map(e => ({ source: e.data.source, target: e.data.target }));
+  const edgeEndpoints = graph.edges.map(e => ({ id: e.data.id, source: e.data.source, target: e.data.target }));
+
+  describe(`${nodeCount} nodes, ${graph.edges.length} edges`, () => {
+    bench('force layout (precomputed)', () => {
+      computeForceLayout(layoutNodes, layoutEdges);
+    }, { iterations: 5 });
+
+    bench('merge parallel edges', () => {
+      findParallelEdges(edgeEndpoints);
+    });
+
+    bench('analytics (centrality + louvain)', () => {
+      computeGraphAnalytics(graph, 'louvain');
+    }, { iterations: 5 });
+  });
+}
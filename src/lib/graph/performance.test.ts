@@ -0,0 +1,69 @@
+/**
+ * Tests for large-graph rendering tiers, parallel edge merging and synthetic graphs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findParallelEdges, getRenderingTier } from './performance';
+import { generateSyntheticGraph } from './synthetic';
+
+describe('getRenderingTier', () => {
+  it('should use the default thresholds', () => {
+    expect(getRenderingTier(100)).toBe('standard');
+    expect(getRenderingTier(101)).toBe('performance');
+    expect(getRenderingTier(501)).toBe('webgl');
+  });
+
+  it('should accept custom thresholds', () => {
+    expect(getRenderingTier(60, { performance: 50 })).toBe('performance');
+    expect(getRenderingTier(60, { performance: 50, webgl: 55 })).toBe('webgl');
+  });
+});
+
+describe('findParallelEdges', () => {
+  it('should merge edges between the same pair in either direction', () => {
+    const merged = findParallelEdges([
+      { id: 'member', source: 'a', target: 'band' },
+      { id: 'other', source: 'b', target: 'band' },
+      { id: 'founder', source: 'a', target: 'band' },
+      { id: 'reverse', source: 'band', target: 'a' },
+    ]);
+
+    expect([...merged]).toEqual([['member', ['founder', 'reverse']]]);
+  });
+});
+
+describe('generateSyntheticGraph', () => {
+  it('should generate a connected graph of the requested size', () => {
+    const graph = generateSyntheticGraph({ nodeCount: 300 });
+    const ids = new Set(graph.nodes.map(n => n.data.id));
+
+    expect(graph.nodes).toHaveLength(300);
+    expect(graph.nodes[0].data).toMatchObject({ type: 'group', loaded: true });
+    expect(graph.edges.every(e => ids.has(e.data.source) && ids.has(e.data.target))).toBe(true);
+
+    // Every artist is reachable from the root
+    const neighbors = new Map<string, string[]>();
+    for (const { data } of graph.edges) {
+      neighbors.set(data.source, [...(neighbors.get(data.source) ?? []), data.target]);
+      neighbors.set(data.target, [...(neighbors.get(data.target) ?? []), data.source]);
+    }
+    const reached = new Set([graph.nodes[0].data.id]);
+    const queue = [graph.nodes[0].data.id];
+    while (queue.length > 0) {
+      for (const next of neighbors.get(queue.shift()!) ?? []) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    expect(reached.size).toBe(300);
+  });
+
+  it('should be deterministic for a seed', () => {
+    expect(generateSyntheticGraph({ nodeCount: 50, seed: 7 }))
+      .toEqual(generateSyntheticGraph({ nodeCount: 50, seed: 7 }));
+    expect(generateSyntheticGraph({ nodeCount: 50, seed: 7 }))
+      .not.toEqual(generateSyntheticGraph({ nodeCount: 50, seed: 8 }));
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Large-graph rendering tiers and edge merging
+ *
+ * Small graphs get the full treatment (live physics, every label, one curve per
+ * relationship). Past `performance` nodes the graph switches to precomputed
+ * layouts, level-of-detail labels and merged parallel edges; past `webgl` nodes
+ * Cytoscape also renders through WebGL.
+ */
+
+export type RenderingTier = 'standard' | 'performance' | 'webgl';
+
+export interface RenderingThresholds {
+  /** Node count above which performance mode is used */
+  performance: number;
+  /** Node count above which the WebGL renderer is used */
+  webgl: number;
+}
+
+export const DEFAULT_RENDERING_THRESHOLDS: RenderingThresholds = {
+  performance: 100,
+  webgl: 500,
+};
+
+export function getRenderingTier(
+  nodeCount: number,
+  thresholds: Partial<RenderingThresholds> = {}
+): RenderingTier {
+  const { performance, webgl } = { ...DEFAULT_RENDERING_THRESHOLDS, ...thresholds };
+  if (nodeCount > webgl) return 'webgl';
+  if (nodeCount > performance) return 'performance';
+  return 'standard';
+}
+
+interface EdgeEndpoints {
+  id: string;
+  source: string;
+  target: string;
+}
+
+/**
+ * Group edges that connect the same two artists (in either direction)
+ * Returns the edge kept for each pair that has more than one, mapped to the
+ * edges merged into it; the first edge of each pair is the one kept.
+ */
+export function findParallelEdges(edges: EdgeEndpoints[]): Map<string, string[]> {
+  const byPair = new Map<string, string[]>();
+  for (const { id, source, target } of edges) {
+    const key = source < target ? `${source}\u0000${target}` : `${target}\u0000${source}`;
+    const ids = byPair.get(key);
+    if (ids) ids.push(id);
+    else byPair.set(key, [id]);
+  }
+
+  const merged = new Map<string, string[]>();
+  for (const [kept, ...rest] of byPair.values()) {
+    if (rest.length > 0) merged.set(kept, rest);
+  }
+  return merged;
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for the printable poster (SVG layout and PDF wrapper)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPosterPdf, getPosterLegend, getPosterPage, getPosterPixelSize, renderPosterSvg, type PosterScene } from './poster';
+import { DEFAULT_GRAPH_THEME } from './themes';
+
+const scene: PosterScene = {
+  nodes: [
+    { id: 'roxy', label: 'Roxy Music', type: 'group', x: 0, y: 0, width: 80, height: 80, root: true },
+    { id: 'eno', label: 'Brian Eno', type: 'person', x: 200, y: 0, width: 35, height: 35, founding: true },
+    { id: 'ferry', label: 'Bryan Ferry & <Friends>', type: 'person', x: 0, y: 150, width: 35, height: 35 },
+  ],
+  edges: [
+    { id: 'e1', types: ['member_of', 'producer'], source: { x: 180, y: 0 }, target: { x: 40, y: 0 }, bundleWeight: 0.5 },
+    { id: 'e2', types: ['member_of'], source: { x: 0, y: 130 }, target: { x: 0, y: 40 } },
+  ],
+};
+
+describe('renderPosterSvg', () => {
+  const svg = renderPosterSvg(scene, {
+    size: 'a1',
+    title: 'Roxy Music',
+    depth: 2,
+    generatedAt: new Date('2024-05-01T12:00:00Z'),
+  });
+
+  it('should size the page in millimetres and pick the orientation from the graph', () => {
+    // The graph is wider than tall
+    expect(svg).toContain('width="841mm" height="594mm" viewBox="0 0 841 594"');
+  });
+
+  it('should include the title block, legend and attribution', () => {
+    expect(svg).toContain('>Roxy Music</text>');
+    expect(svg).toContain('depth 2 · 3 artists · 3 relationships');
+    expect(svg).toContain('>Member</text>');
+    expect(svg).toContain('>Several relationships</text>');
+    expect(svg).toContain('Data: MusicBrainz (CC0) · Wikipedia (CC BY-SA 4.0) · Wikidata (CC0)');
+    expect(svg).toContain('Made with InterChord · 2024-05-01');
+  });
+
+  it('should escape artist names', () => {
+    expect(svg).toContain('Bryan Ferry &amp; &lt;Friends&gt;');
+    expect(svg).not.toContain('<Friends>');
+  });
+});
+
+describe('getPosterLegend', () => {
+  it('should list artist kinds, then the relationship types on show in type order', () => {
+    const labels = getPosterLegend(scene, DEFAULT_GRAPH_THEME).map(entry => entry.label);
+    expect(labels).toEqual(['Searched artist', 'Person', 'Founding member', 'Member', 'Producer', 'Several relationships']);
+  });
+
+  it('should leave out the founding badge when the theme hides it', () => {
+    const theme = { ...DEFAULT_GRAPH_THEME, foundingBadge: { ...DEFAULT_GRAPH_THEME.foundingBadge, show: false } };
+    expect(getPosterLegend(scene, theme).map(entry => entry.label)).not.toContain('Founding member');
+  });
+});
+
+describe('getPosterPixelSize', () => {
+  it('should render at 300 dpi and lower the resolution for very large pages', () => {
+    expect(getPosterPixelSize(getPosterPage('a4', 'portrait'))).toEqual({ width: 2480, height: 3508, dpi: 300 });
+
+    const a1 = getPosterPixelSize(getPosterPage('a1', 'portrait'), 600);
+    expect(a1.dpi).toBeLessThan(600);
+    expect(a1.width * a1.height).toBeLessThanOrEqual(120_000_000);
+  });
+});
+
+describe('buildPosterPdf', () => {
+  it('should write a single-page PDF with a valid cross-reference table', () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    const pdf = buildPosterPdf(jpeg, { width: 2480, height: 3508 }, { width: 210, height: 297 }, 'Roxy Music');
+    const text = new TextDecoder('latin1').decode(pdf);
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/MediaBox [0 0 595.28 841.89]');
+    expect(text).toContain('/Width 2480 /Height 3508');
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    // Every xref offset points at its object
+    const xrefStart = Number(text.match(/startxref\n(\d+)/)![1]);
+    const offsets = text.slice(xrefStart).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, index) => {
+      expect(text.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,482 @@
+import type { RelationshipType } from '@/types';
+import { RELATIONSHIP_TYPE_CONFIG, RELATIONSHIP_TYPES } from '@/lib/relationships';
+import { DEFAULT_GRAPH_THEME, type GraphNodeShape, type GraphTheme } from './themes';
+
+/**
+ * Poster export: the graph on a printable page
+ *
+ * The page is laid out in millimetres - a title block with the root artist and
+ * depth, the graph scaled to fit, a legend of the relationship types on show and
+ * an attribution line for the data sources. Positions come from the live graph;
+ * colours, shapes and fonts from the graph theme, always on a white page.
+ * PNG and PDF are rasterised from the SVG in the browser; the PDF wraps the
+ * JPEG-encoded page so no PDF library is needed.
+ */
+
+export type PosterSize = 'a4' | 'a3' | 'a2' | 'a1';
+export type PosterOrientation = 'portrait' | 'landscape';
+export type PosterFormat = 'svg' | 'png' | 'pdf';
+
+/** ISO 216 page sizes in millimetres (portrait) */
+export const POSTER_SIZES: Array<{ value: PosterSize; label: string; width: number; height: number }> = [
+  { value: 'a4', label: 'A4', width: 210, height: 297 },
+  { value: 'a3', label: 'A3', width: 297, height: 420 },
+  { value: 'a2', label: 'A2', width: 420, height: 594 },
+  { value: 'a1', label: 'A1', width: 594, height: 841 },
+];
+
+export const POSTER_FORMATS: Array<{ value: PosterFormat; label: string; extension: string; mimeType: string }> = [
+  { value: 'svg', label: 'SVG (vector)', extension: 'svg', mimeType: 'image/svg+xml' },
+  { value: 'png', label: 'PNG (300 dpi)', extension: 'png', mimeType: 'image/png' },
+  { value: 'pdf', label: 'PDF (300 dpi)', extension: 'pdf', mimeType: 'application/pdf' },
+];
+
+/** Print resolution for PNG and PDF */
+export const POSTER_DPI = 300;
+/** Largest raster page; bigger pages are rendered at a lower resolution */
+const MAX_POSTER_PIXELS = 120_000_000;
+
+/** Data sources credited on every poster */
+export const POSTER_ATTRIBUTION = [
+  'MusicBrainz (CC0)',
+  'Wikipedia (CC BY-SA 4.0)',
+  'Wikidata (CC0)',
+];
+
+/** An artist (or collapsed band box) at its position in the graph, in graph pixels */
+export interface PosterNode {
+  id: string;
+  label: string;
+  type: 'person' | 'group';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  root?: boolean;
+  founding?: boolean;
+  /** Box around a collapsed band and its members */
+  compound?: boolean;
+}
+
+export interface PosterPoint {
+  x: number;
+  y: number;
+}
+
+/** A relationship from endpoint to endpoint, curved through `control` when parallel */
+export interface PosterEdge {
+  id: string;
+  /** Relationship types drawn by this edge; several for a bundle */
+  types: RelationshipType[];
+  source: PosterPoint;
+  target: PosterPoint;
+  control?: PosterPoint;
+  /** Bundled edge weight (0..1) */
+  bundleWeight?: number;
+  /** Relationship rerouted to a collapsed band */
+  collapsed?: boolean;
+}
+
+export interface PosterScene {
+  nodes: PosterNode[];
+  edges: PosterEdge[];
+}
+
+export interface PosterOptions {
+  size: PosterSize;
+  /** Default: whichever fits the graph's shape better */
+  orientation?: PosterOrientation;
+  /** Root artist name */
+  title: string;
+  /** Network depth shown in the title block */
+  depth: number;
+  theme?: GraphTheme;
+  /** Date printed on the poster (default: today) */
+  generatedAt?: Date;
+}
+
+export interface PosterLegendEntry {
+  label: string;
+  kind: 'node' | 'edge';
+  color: string;
+  shape?: GraphNodeShape;
+  lineStyle?: 'solid' | 'dashed' | 'dotted';
+  /** Border colour of node swatches */
+  border?: string;
+}
+
+// Colours shared with the on-screen stylesheet (graph-styles.ts)
+const ROOT_COLOR = '#2563eb';
+const ROOT_BORDER_COLOR = '#06b6d4';
+const BUNDLE_COLOR = '#64748b';
+const COMPOUND_COLOR = '#3b82f6';
+const TEXT_COLOR = '#374151';
+const MUTED_TEXT_COLOR = '#6b7280';
+
+/** Page size in millimetres */
+export function getPosterPage(size: PosterSize, orientation: PosterOrientation): { width: number; height: number } {
+  const { width, height } = POSTER_SIZES.find(s => s.value === size)!;
+  return orientation === 'portrait' ? { width, height } : { width: height, height: width };
+}
+
+/** Pixel size of a raster page at the given resolution, lowered to stay within canvas limits */
+export function getPosterPixelSize(
+  page: { width: number; height: number },
+  dpi: number = POSTER_DPI
+): { width: number; height: number; dpi: number } {
+  const pixels = (page.width / 25.4) * dpi * (page.height / 25.4) * dpi;
+  const fitted = pixels > MAX_POSTER_PIXELS ? Math.floor(dpi * Math.sqrt(MAX_POSTER_PIXELS / pixels)) : dpi;
+  return {
+    width: Math.round((page.width / 25.4) * fitted),
+    height: Math.round((page.height / 25.4) * fitted),
+    dpi: fitted,
+  };
+}
+
+/**
+ * Legend entries for what the poster shows: artist kinds, then the
+ * relationship types in the graph (in the usual type order)
+ */
+export function getPosterLegend(scene: PosterScene, theme: GraphTheme = DEFAULT_GRAPH_THEME): PosterLegendEntry[] {
+  const artists = scene.nodes.filter(node => !node.compound);
+  const entries: PosterLegendEntry[] = [];
+
+  if (artists.some(node => node.root)) {
+    entries.push({ label: 'Searched artist', kind: 'node', color: ROOT_COLOR, shape: 'ellipse', border: ROOT_BORDER_COLOR });
+  }
+  if (artists.some(node => !node.root && node.type === 'group')) {
+    entries.push({ label: 'Band/Group', kind: 'node', color: theme.nodes.group.color, shape: theme.nodes.group.shape });
+  }
+  if (artists.some(node => !node.root && node.type === 'person')) {
+    entries.push({ label: 'Person', kind: 'node', color: theme.nodes.person.color, shape: theme.nodes.person.shape });
+  }
+  if (theme.foundingBadge.show && artists.some(node => node.founding)) {
+    entries.push({ label: 'Founding member', kind: 'node', color: theme.nodes.person.color, shape: theme.nodes.person.shape, border: theme.foundingBadge.color });
+  }
+  if (scene.nodes.some(node => node.compound)) {
+    entries.push({ label: 'Collapsed band', kind: 'node', color: COMPOUND_COLOR, shape: 'round-rectangle', border: COMPOUND_COLOR });
+  }
+
+  const types = new Set(scene.edges.flatMap(edge => edge.types));
+  for (const type of RELATIONSHIP_TYPES) {
+    if (!types.has(type)) continue;
+    const { color, lineStyle } = theme.edges[type];
+    entries.push({ label: RELATIONSHIP_TYPE_CONFIG[type].label, kind: 'edge', color, lineStyle });
+  }
+  if (scene.edges.some(edge => edge.bundleWeight !== undefined)) {
+    entries.push({ label: 'Several relationships', kind: 'edge', color: BUNDLE_COLOR, lineStyle: 'solid' });
+  }
+  return entries;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Round coordinates so the SVG stays compact
+function n(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function dashArray(lineStyle: string | undefined, width: number): string {
+  if (lineStyle === 'dashed') return ` stroke-dasharray="${n(width * 4)} ${n(width * 3)}"`;
+  if (lineStyle === 'dotted') return ` stroke-dasharray="${n(width)} ${n(width * 2)}"`;
+  return '';
+}
+
+/** Unit polygons (-1..1) for the node shapes that aren't ellipses or rectangles */
+function shapePoints(shape: GraphNodeShape): Array<[number, number]> | null {
+  switch (shape) {
+    case 'diamond':
+      return [[0, -1], [1, 0], [0, 1], [-1, 0]];
+    case 'hexagon':
+      return [[-1, 0], [-0.5, -1], [0.5, -1], [1, 0], [0.5, 1], [-0.5, 1]];
+    case 'triangle':
+      return [[0, -1], [1, 1], [-1, 1]];
+    case 'star':
+      return Array.from({ length: 10 }, (_, i) => {
+        const radius = i % 2 === 0 ? 1 : 0.4;
+        const angle = (i * Math.PI) / 5 - Math.PI / 2;
+        return [radius * Math.cos(angle), radius * Math.sin(angle)];
+      });
+    default:
+      return null;
+  }
+}
+
+function shapeSvg(shape: GraphNodeShape, x: number, y: number, width: number, height: number, attributes: string): string {
+  const rx = width / 2;
+  const ry = height / 2;
+  if (shape === 'rectangle' || shape === 'round-rectangle') {
+    const corner = shape === 'round-rectangle' ? ` rx="${n(Math.min(width, height) / 4)}"` : '';
+    return `<rect x="${n(x - rx)}" y="${n(y - ry)}" width="${n(width)}" height="${n(height)}"${corner} ${attributes}/>`;
+  }
+  const points = shapePoints(shape);
+  if (!points) {
+    return `<ellipse cx="${n(x)}" cy="${n(y)}" rx="${n(rx)}" ry="${n(ry)}" ${attributes}/>`;
+  }
+  const path = points.map(([px, py]) => `${n(x + px * rx)},${n(y + py * ry)}`).join(' ');
+  return `<polygon points="${path}" ${attributes}/>`;
+}
+
+/** Node fill, border, shape and font as in the on-screen stylesheet */
+function nodeStyle(node: PosterNode, theme: GraphTheme) {
+  const { labels } = theme;
+  const base = theme.nodes[node.type];
+  if (node.root) {
+    return { fill: ROOT_COLOR, border: ROOT_BORDER_COLOR, borderWidth: 6, shape: base.shape, fontSize: 14, fontWeight: 700 };
+  }
+  const isGroup = node.type === 'group';
+  const isFounding = node.founding && theme.foundingBadge.show;
+  return {
+    fill: base.color,
+    border: isFounding ? theme.foundingBadge.color : '#ffffff',
+    borderWidth: isFounding ? 4 : 2,
+    shape: base.shape,
+    fontSize: isGroup ? labels.fontSize + 2 : labels.fontSize,
+    fontWeight: isGroup ? Math.max(labels.fontWeight, 600) : labels.fontWeight,
+  };
+}
+
+function edgeSvg(edge: PosterEdge, theme: GraphTheme): string {
+  const isBundle = edge.bundleWeight !== undefined;
+  const typeStyle = theme.edges[edge.types[0]];
+  const color = isBundle ? BUNDLE_COLOR : typeStyle.color;
+  const width = isBundle ? 2.5 + edge.bundleWeight! * 5.5 : typeStyle.width;
+  const lineStyle = isBundle ? 'solid' : edge.collapsed ? 'dashed' : typeStyle.lineStyle;
+  const { source, target, control } = edge;
+
+  const d = control
+    ? `M${n(source.x)},${n(source.y)} Q${n(control.x)},${n(control.y)} ${n(target.x)},${n(target.y)}`
+    : `M${n(source.x)},${n(source.y)} L${n(target.x)},${n(target.y)}`;
+  let svg = `<path d="${d}" fill="none" stroke="${color}" stroke-width="${n(width)}"${dashArray(lineStyle, width)}/>`;
+
+  // Arrowhead along the last stretch of the edge (bundles have none)
+  if (!isBundle) {
+    const from = control ?? source;
+    const angle = Math.atan2(target.y - from.y, target.x - from.x);
+    const length = Math.max(6, width * 3) * 0.8;
+    const spread = Math.PI / 7;
+    const left = { x: target.x - length * Math.cos(angle - spread), y: target.y - length * Math.sin(angle - spread) };
+    const right = { x: target.x - length * Math.cos(angle + spread), y: target.y - length * Math.sin(angle + spread) };
+    svg += `<polygon points="${n(target.x)},${n(target.y)} ${n(left.x)},${n(left.y)} ${n(right.x)},${n(right.y)}" fill="${color}"/>`;
+  }
+  return svg;
+}
+
+/** Bounding box of the scene in graph pixels, including labels under the nodes */
+function sceneBounds(scene: PosterScene, theme: GraphTheme) {
+  let x1 = Infinity, y1 = Infinity, x2 = -Infinity, y2 = -Infinity;
+  const include = (x: number, y: number) => {
+    x1 = Math.min(x1, x); y1 = Math.min(y1, y);
+    x2 = Math.max(x2, x); y2 = Math.max(y2, y);
+  };
+  for (const node of scene.nodes) {
+    include(node.x - node.width / 2, node.y - node.height / 2);
+    const labelHeight = node.compound ? 0 : 8 + nodeStyle(node, theme).fontSize * 1.4;
+    include(node.x + node.width / 2, node.y + node.height / 2 + labelHeight);
+  }
+  for (const edge of scene.edges) {
+    if (edge.control) include(edge.control.x, edge.control.y);
+  }
+  if (x1 === Infinity) return { x: 0, y: 0, width: 1, height: 1 };
+  return { x: x1, y: y1, width: Math.max(1, x2 - x1), height: Math.max(1, y2 - y1) };
+}
+
+/** Portrait or landscape, whichever fits the graph's shape better */
+export function pickPosterOrientation(scene: PosterScene, theme: GraphTheme = DEFAULT_GRAPH_THEME): PosterOrientation {
+  const { width, height } = sceneBounds(scene, theme);
+  return width > height ? 'landscape' : 'portrait';
+}
+
+function legendSwatch(entry: PosterLegendEntry, x: number, y: number, u: number): string {
+  if (entry.kind === 'edge') {
+    const width = 0.5 * u;
+    return `<line x1="${n(x)}" y1="${n(y)}" x2="${n(x + 8 * u)}" y2="${n(y)}" stroke="${entry.color}" stroke-width="${n(width)}"${dashArray(entry.lineStyle, width)}/>`;
+  }
+  const size = 3.2 * u;
+  const border = entry.border ? `stroke="${entry.border}" stroke-width="${n(0.5 * u)}"` : 'stroke="none"';
+  const dash = entry.label === 'Collapsed band' ? ` stroke-dasharray="${n(u)} ${n(0.6 * u)}" fill-opacity="0.15"` : '';
+  return shapeSvg(entry.shape ?? 'ellipse', x + 4 * u, y, size, size, `fill="${entry.color}" ${border}${dash}`);
+}
+
+/**
+ * Render the poster as a standalone SVG document sized in millimetres
+ */
+export function renderPosterSvg(scene: PosterScene, options: PosterOptions): string {
+  const theme = options.theme ?? DEFAULT_GRAPH_THEME;
+  const orientation = options.orientation ?? pickPosterOrientation(scene, theme);
+  const page = getPosterPage(options.size, orientation);
+  const date = (options.generatedAt ?? new Date()).toISOString().slice(0, 10);
+  const font = escapeXml(theme.labels.fontFamily);
+
+  // Typography and spacing scale with the page: 1u = 1mm on A4
+  const u = Math.min(page.width, page.height) / 210;
+  const margin = 12 * u;
+  const contentWidth = page.width - margin * 2;
+
+  // Legend layout: as many columns as fit beside the attribution
+  const legend = getPosterLegend(scene, theme);
+  const columnWidth = 46 * u;
+  const rowHeight = 5 * u;
+  const maxColumns = Math.max(1, Math.floor((contentWidth - 80 * u) / columnWidth));
+  const rows = legend.length === 0 ? 0 : Math.min(legend.length, Math.max(3, Math.ceil(legend.length / maxColumns)));
+  const footerHeight = Math.max(14 * u, 8 * u + rows * rowHeight);
+
+  const titleHeight = 26 * u;
+  const area = {
+    x: margin,
+    y: margin + titleHeight,
+    width: contentWidth,
+    height: page.height - margin * 2 - titleHeight - footerHeight - 4 * u,
+  };
+
+  // Fit the graph into its area, centred
+  const bounds = sceneBounds(scene, theme);
+  const scale = Math.min(area.width / bounds.width, area.height / bounds.height);
+  const offsetX = area.x + (area.width - bounds.width * scale) / 2 - bounds.x * scale;
+  const offsetY = area.y + (area.height - bounds.height * scale) / 2 - bounds.y * scale;
+
+  const artists = scene.nodes.filter(node => !node.compound).length;
+  const relationships = scene.edges.reduce((sum, edge) => sum + edge.types.length, 0);
+  const subtitle = `Artist network · depth ${options.depth} · ${artists} artist${artists === 1 ? '' : 's'} · ${relationships} relationship${relationships === 1 ? '' : 's'}`;
+
+  const parts: string[] = [];
+  parts.push(
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${page.width}mm" height="${page.height}mm" viewBox="0 0 ${page.width} ${page.height}">`,
+    `<title>${escapeXml(options.title)} - InterChord artist graph</title>`,
+    `<rect width="${page.width}" height="${page.height}" fill="#ffffff"/>`,
+  );
+
+  // Title block
+  parts.push(
+    `<g font-family="${font}">`,
+    `<text x="${n(margin)}" y="${n(margin + 12 * u)}" font-size="${n(12 * u)}" font-weight="700" fill="#111827">${escapeXml(options.title)}</text>`,
+    `<text x="${n(margin)}" y="${n(margin + 19 * u)}" font-size="${n(4.2 * u)}" fill="${MUTED_TEXT_COLOR}">${escapeXml(subtitle)}</text>`,
+    `<line x1="${n(margin)}" y1="${n(margin + titleHeight - 3 * u)}" x2="${n(page.width - margin)}" y2="${n(margin + titleHeight - 3 * u)}" stroke="#e5e7eb" stroke-width="${n(0.4 * u)}"/>`,
+    '</g>',
+  );
+
+  // Graph: collapsed band boxes, then edges, then artists and their labels
+  parts.push(`<g transform="translate(${n(offsetX)} ${n(offsetY)}) scale(${scale.toPrecision(6)})" font-family="${font}">`);
+  for (const node of scene.nodes.filter(node => node.compound)) {
+    parts.push(
+      shapeSvg('round-rectangle', node.x, node.y, node.width, node.height, `fill="${COMPOUND_COLOR}" fill-opacity="0.08" stroke="${COMPOUND_COLOR}" stroke-width="2" stroke-dasharray="6 4"`),
+      `<text x="${n(node.x)}" y="${n(node.y - node.height / 2 - 6)}" text-anchor="middle" font-size="${theme.labels.fontSize}" fill="${COMPOUND_COLOR}">${escapeXml(node.label)}</text>`,
+    );
+  }
+  parts.push('<g opacity="0.75">');
+  for (const edge of scene.edges) parts.push(edgeSvg(edge, theme));
+  parts.push('</g>');
+  for (const node of scene.nodes.filter(node => !node.compound)) {
+    const style = nodeStyle(node, theme);
+    parts.push(
+      shapeSvg(style.shape, node.x, node.y, node.width, node.height, `fill="${style.fill}" stroke="${style.border}" stroke-width="${style.borderWidth}"`),
+      `<text x="${n(node.x)}" y="${n(node.y + node.height / 2 + 8 + style.fontSize)}" text-anchor="middle" font-size="${style.fontSize}" font-weight="${style.fontWeight}" fill="${TEXT_COLOR}" stroke="#ffffff" stroke-width="2" paint-order="stroke">${escapeXml(node.label)}</text>`,
+    );
+  }
+  parts.push('</g>');
+
+  // Footer: legend on the left, attribution on the right
+  const footerTop = page.height - margin - footerHeight;
+  parts.push(
+    `<g font-family="${font}" font-size="${n(3.2 * u)}" fill="${TEXT_COLOR}">`,
+    `<line x1="${n(margin)}" y1="${n(footerTop)}" x2="${n(page.width - margin)}" y2="${n(footerTop)}" stroke="#e5e7eb" stroke-width="${n(0.4 * u)}"/>`,
+  );
+  if (legend.length > 0) {
+    parts.push(`<text x="${n(margin)}" y="${n(footerTop + 5 * u)}" font-weight="700">Legend</text>`);
+    legend.forEach((entry, index) => {
+      const x = margin + Math.floor(index / rows) * columnWidth;
+      const y = footerTop + 9 * u + (index % rows) * rowHeight;
+      parts.push(
+        legendSwatch(entry, x, y, u),
+        `<text x="${n(x + 10 * u)}" y="${n(y + 1.1 * u)}">${escapeXml(entry.label)}</text>`,
+      );
+    });
+  }
+  const right = page.width - margin;
+  const bottom = page.height - margin;
+  parts.push(
+    `<text x="${n(right)}" y="${n(bottom - 5 * u)}" text-anchor="end" fill="${MUTED_TEXT_COLOR}">Data: ${escapeXml(POSTER_ATTRIBUTION.join(' · '))}</text>`,
+    `<text x="${n(right)}" y="${n(bottom)}" text-anchor="end" fill="${MUTED_TEXT_COLOR}">Made with InterChord · ${date}</text>`,
+    '</g>',
+    '</svg>',
+  );
+
+  return parts.join('\n');
+}
+
+// PDF strings as UTF-16BE hex, so any artist name survives
+function pdfText(text: string): string {
+  const hex = Array.from(text, char => {
+    const code = char.codePointAt(0)!;
+    if (code <= 0xffff) return code.toString(16).padStart(4, '0');
+    const offset = code - 0x10000;
+    return ((0xd800 + (offset >> 10)).toString(16) + (0xdc00 + (offset & 0x3ff)).toString(16));
+  }).join('');
+  return `<FEFF${hex}>`;
+}
+
+/**
+ * Wrap a JPEG of the whole page in a single-page PDF of the given size (mm)
+ */
+export function buildPosterPdf(
+  jpeg: Uint8Array,
+  image: { width: number; height: number },
+  page: { width: number; height: number },
+  title: string
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string | Uint8Array[]) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n`);
+    if (typeof body === 'string') write(body);
+    else body.forEach(write);
+    write('\nendobj\n');
+  };
+
+  // Points are 1/72 inch
+  const width = ((page.width / 25.4) * 72).toFixed(2);
+  const height = ((page.height / 25.4) * 72).toFixed(2);
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Binary marker
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>`);
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  object([
+    encoder.encode(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`),
+    jpeg,
+    encoder.encode('\nendstream'),
+  ]);
+  object(`<< /Title ${pdfText(title)} /Producer (InterChord) >>`);
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info ${offsets.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf;
+}
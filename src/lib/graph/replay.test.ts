@@ -0,0 +1,87 @@
+/**
+ * Tests for the time scrubber replay helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph, ArtistNode, ArtistRelationship } from '@/types';
+import { getActiveElementsAtYear, getGraphYearSpan, isActiveInYear } from './replay';
+
+const node = (id: string, type: ArtistNode['type'], begin?: string): { data: ArtistNode } => ({
+  data: { id, name: id, type, activeYears: begin ? { begin } : undefined },
+});
+
+const edge = (
+  id: string,
+  source: string,
+  target: string,
+  period?: ArtistRelationship['period']
+): { data: ArtistRelationship } => ({
+  data: { id, source, target, type: 'member_of', direction: 'forward', period },
+});
+
+// A band formed in 1965; one founder left in 1970, a drummer joined in 1972
+const GRAPH: ArtistGraph = {
+  nodes: [
+    node('band', 'group', '1965'),
+    node('founder', 'person'),
+    node('drummer', 'person'),
+    node('session', 'person'),
+    node('later-band', 'group', '1980-05'),
+  ],
+  edges: [
+    edge('e1', 'founder', 'band', { begin: '1965', end: '1970-03' }),
+    edge('e2', 'drummer', 'band', { begin: '1972-01-01' }),
+    edge('e3', 'session', 'band'),
+    edge('e4', 'drummer', 'later-band', { begin: '1978' }),
+  ],
+};
+
+describe('isActiveInYear', () => {
+  it('should include the begin and end years', () => {
+    const period = { begin: '1965-04', end: '1970' };
+
+    expect(isActiveInYear(period, 1964)).toBe(false);
+    expect(isActiveInYear(period, 1965)).toBe(true);
+    expect(isActiveInYear(period, 1970)).toBe(true);
+    expect(isActiveInYear(period, 1971)).toBe(false);
+  });
+
+  it('should treat missing dates as open-ended', () => {
+    expect(isActiveInYear(undefined, 1900)).toBe(true);
+    expect(isActiveInYear({ begin: '1990', end: null }, 2024)).toBe(true);
+    expect(isActiveInYear({ end: '1990' }, 1950)).toBe(true);
+  });
+});
+
+describe('getActiveElementsAtYear', () => {
+  it('should show members only while their membership lasts', () => {
+    const in1968 = getActiveElementsAtYear(GRAPH, 1968);
+    expect([...in1968.nodeIds].sort()).toEqual(['band', 'founder', 'session']);
+    expect([...in1968.edgeIds].sort()).toEqual(['e1', 'e3']);
+
+    const in1975 = getActiveElementsAtYear(GRAPH, 1975);
+    expect([...in1975.nodeIds].sort()).toEqual(['band', 'drummer', 'session']);
+  });
+
+  it('should hide links to groups that have not formed yet', () => {
+    // Membership starts in 1978 but the band only formed in 1980
+    expect(getActiveElementsAtYear(GRAPH, 1979).edgeIds.has('e4')).toBe(false);
+    expect(getActiveElementsAtYear(GRAPH, 1980).nodeIds.has('later-band')).toBe(true);
+  });
+
+  it('should always include the root artist', () => {
+    const graph: ArtistGraph = { nodes: [node('band', 'group', '1965')], edges: [] };
+
+    expect([...getActiveElementsAtYear(graph, 1900).nodeIds]).toEqual(['band']);
+  });
+});
+
+describe('getGraphYearSpan', () => {
+  it('should span relationship periods and group formation years', () => {
+    expect(getGraphYearSpan(GRAPH)).toEqual({ min: 1965, max: 1980 });
+  });
+
+  it('should return null without any dates', () => {
+    expect(getGraphYearSpan({ nodes: [node('a', 'person')], edges: [edge('e', 'a', 'a')] })).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import type { ArtistGraph } from '@/types';
+import { parseYear } from '@/lib/utils';
+
+/**
+ * Year-by-year replay of a graph's history ("time scrubber")
+ *
+ * A relationship is active in a year when its period covers that year; an
+ * artist is active while it has an active relationship (groups also need to
+ * exist by then). Like the year range filter, links without any dates are
+ * always shown because we don't know when they happened.
+ */
+
+export interface ActiveElements {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+}
+
+/**
+ * Does a relationship period (MusicBrainz partial dates) cover the year?
+ */
+export function isActiveInYear(
+  period: { begin?: string; end?: string | null } | undefined,
+  year: number
+): boolean {
+  const begin = parseYear(period?.begin);
+  const end = parseYear(period?.end);
+  if (begin !== null && begin > year) return false;
+  if (end !== null && end < year) return false;
+  return true;
+}
+
+/**
+ * Nodes and edges to show in a given year
+ * The root artist (first node) is always included.
+ */
+export function getActiveElementsAtYear(graph: ArtistGraph, year: number): ActiveElements {
+  const groupsNotYetFormed = new Set(
+    graph.nodes
+      .filter(n => n.data.type === 'group' && (parseYear(n.data.activeYears?.begin) ?? -Infinity) > year)
+      .map(n => n.data.id)
+  );
+
+  const nodeIds = new Set<string>(graph.nodes.length > 0 ? [graph.nodes[0].data.id] : []);
+  const edgeIds = new Set<string>();
+
+  for (const { data } of graph.edges) {
+    if (!isActiveInYear(data.period, year)) continue;
+    if (groupsNotYetFormed.has(data.source) || groupsNotYetFormed.has(data.target)) continue;
+    edgeIds.add(data.id);
+    nodeIds.add(data.source);
+    nodeIds.add(data.target);
+  }
+
+  return { nodeIds, edgeIds };
+}
+
+/**
+ * First and last year mentioned by the graph's relationships and groups
+ * Used as the replay range when no year filter or timeline range is set.
+ */
+export function getGraphYearSpan(graph: ArtistGraph): { min: number; max: number } | null {
+  const years: number[] = [];
+  for (const { data } of graph.edges) {
+    const begin = parseYear(data.period?.begin);
+    const end = parseYear(data.period?.end);
+    if (begin !== null) years.push(begin);
+    if (end !== null) years.push(end);
+  }
+  for (const { data } of graph.nodes) {
+    const begin = data.type === 'group' ? parseYear(data.activeYears?.begin) : null;
+    if (begin !== null) years.push(begin);
+  }
+
+  if (years.length === 0) return null;
+  return { min: Math.min(...years), max: Math.max(...years) };
+}
@@ -0,0 +1,91 @@
+/**
+ * Tests for find-in-graph matching and keyboard navigation helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ArtistGraph } from '@/types';
+import { describeArtist, fuzzyMatch, pickNeighborInDirection, searchGraphNodes } from './search';
+
+const GRAPH: ArtistGraph = {
+  nodes: [
+    { data: { id: 'sugarcubes', name: 'The Sugarcubes', type: 'group', loaded: true } },
+    { data: { id: 'bjork', name: 'Björk', type: 'person', instruments: ['vocals', 'keyboard'] } },
+    { data: { id: 'einar', name: 'Einar Örn Benediktsson', type: 'person', instruments: ['trumpet', 'vocals'] } },
+    { data: { id: 'thor', name: 'Þór Eldon', type: 'person', instruments: ['guitar'] } },
+    { data: { id: 'bragi', name: 'Bragi Ólafsson', type: 'person', instruments: ['bass guitar'] } },
+    { data: { id: 'siggi', name: 'Sigtryggur Baldursson', type: 'person', instruments: ['drums'] } },
+  ],
+  edges: ['bjork', 'einar', 'thor', 'bragi', 'siggi'].map(id => ({
+    data: { id: `${id}-member`, source: id, target: 'sugarcubes', type: 'member_of' as const, direction: 'forward' as const },
+  })),
+};
+
+describe('fuzzyMatch', () => {
+  it('should ignore case and diacritics', () => {
+    expect(fuzzyMatch('bjork', 'Björk')).not.toBeNull();
+    expect(fuzzyMatch('OLAFS', 'Bragi Ólafsson')).not.toBeNull();
+  });
+
+  it('should rank contiguous and word-start matches above scattered ones', () => {
+    const wordStart = fuzzyMatch('sug', 'The Sugarcubes')!;
+    const inside = fuzzyMatch('gar', 'The Sugarcubes')!;
+    const scattered = fuzzyMatch('tsc', 'The Sugarcubes')!;
+
+    expect(wordStart).toBeGreaterThan(inside);
+    expect(inside).toBeGreaterThan(scattered);
+  });
+
+  it('should return null when characters are missing or the query is empty', () => {
+    expect(fuzzyMatch('xyz', 'Björk')).toBeNull();
+    expect(fuzzyMatch('   ', 'Björk')).toBeNull();
+  });
+});
+
+describe('searchGraphNodes', () => {
+  it('should match names before instruments', () => {
+    const matches = searchGraphNodes(GRAPH, 'guitar');
+
+    expect(matches.map(m => m.id)).toEqual(['thor', 'bragi']);
+    expect(matches[0]).toMatchObject({ field: 'instrument', instrument: 'guitar' });
+  });
+
+  it('should find artists by a fuzzy name', () => {
+    expect(searchGraphNodes(GRAPH, 'sigbald')[0].id).toBe('siggi');
+  });
+});
+
+describe('pickNeighborInDirection', () => {
+  const neighbors = [
+    { id: 'right', x: 100, y: 10 },
+    { id: 'far-right', x: 300, y: 0 },
+    { id: 'down', x: 0, y: 80 },
+    { id: 'diagonal', x: 60, y: -60 },
+  ];
+
+  it('should pick the closest neighbour roughly in the direction', () => {
+    expect(pickNeighborInDirection({ x: 0, y: 0 }, neighbors, 'right')).toBe('right');
+    expect(pickNeighborInDirection({ x: 0, y: 0 }, neighbors, 'down')).toBe('down');
+    expect(pickNeighborInDirection({ x: 0, y: 0 }, neighbors, 'up')).toBe('diagonal');
+  });
+
+  it('should return null when nothing lies in that direction', () => {
+    expect(pickNeighborInDirection({ x: 0, y: 0 }, neighbors, 'left')).toBeNull();
+  });
+});
+
+describe('describeArtist', () => {
+  it('should summarise the artist and their relationships', () => {
+    expect(describeArtist(GRAPH, 'sugarcubes')).toBe(
+      'The Sugarcubes, group, 5 connections. Members: Björk, Einar Örn Benediktsson, Þór Eldon and 2 more.'
+    );
+    expect(describeArtist(GRAPH, 'bjork')).toBe(
+      'Björk, person, not expanded, 1 connection. Bands & Groups: The Sugarcubes.'
+    );
+  });
+
+  it('should only mention visible artists when given', () => {
+    expect(describeArtist(GRAPH, 'sugarcubes', new Set(['bjork']))).toBe(
+      'The Sugarcubes, group, 1 connection. Members: Björk.'
+    );
+  });
+});
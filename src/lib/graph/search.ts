@@ -0,0 +1,149 @@
+import type { ArtistGraph } from '@/types';
+import { getRelationshipLabel } from './types';
+
+/**
+ * Find-in-graph and keyboard navigation helpers
+ *
+ * Matching is a small fuzzy matcher: a contiguous substring beats a scattered
+ * subsequence, and matches at the start of a word beat matches inside one.
+ * Case and diacritics are ignored ("bjork" finds "Björk").
+ */
+
+export interface GraphSearchMatch {
+  id: string;
+  name: string;
+  score: number;
+  /** What matched: the artist name or one of their instruments */
+  field: 'name' | 'instrument';
+  /** The matched instrument, when field is 'instrument' */
+  instrument?: string;
+}
+
+export type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+const MAX_LISTED_PER_TYPE = 3;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_/(.&]/.test(text[index - 1]);
+
+/**
+ * Score how well `query` matches `text`; null when it doesn't match at all
+ */
+export function fuzzyMatch(query: string, text: string): number | null {
+  const q = normalize(query.trim());
+  const t = normalize(text);
+  if (!q) return null;
+
+  // Contiguous match: earlier and tighter is better, word starts get a bonus
+  const index = t.indexOf(q);
+  if (index !== -1) {
+    return 100 - Math.min(index, 20) - Math.min(t.length - q.length, 20) / 2 + (isWordStart(t, index) ? 20 : 0);
+  }
+
+  // Subsequence match: every query character in order
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of q) {
+    if (char === ' ') continue;
+    const found = t.indexOf(char, position);
+    if (found === -1) return null;
+    score += 1 + (found === previous + 1 ? 2 : 0) + (isWordStart(t, found) ? 3 : 0);
+    previous = found;
+    position = found + 1;
+  }
+  // Always ranked below contiguous matches
+  return Math.min(score, 50);
+}
+
+/**
+ * Artists whose name (or, slightly lower ranked, an instrument) matches the query
+ */
+export function searchGraphNodes(graph: ArtistGraph, query: string): GraphSearchMatch[] {
+  const matches: GraphSearchMatch[] = [];
+
+  for (const { data } of graph.nodes) {
+    let best: GraphSearchMatch | null = null;
+    const nameScore = fuzzyMatch(query, data.name);
+    if (nameScore !== null) {
+      best = { id: data.id, name: data.name, score: nameScore, field: 'name' };
+    }
+    for (const instrument of data.instruments ?? []) {
+      const score = fuzzyMatch(query, instrument);
+      if (score !== null && (!best || score * 0.8 > best.score)) {
+        best = { id: data.id, name: data.name, score: score * 0.8, field: 'instrument', instrument };
+      }
+    }
+    if (best) matches.push(best);
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+/**
+ * Neighbour lying closest to the given screen direction (y grows downwards)
+ * Candidates more than ~70° off the direction are ignored.
+ */
+export function pickNeighborInDirection(
+  from: { x: number; y: number },
+  neighbors: Array<{ id: string; x: number; y: number }>,
+  direction: NavigationDirection
+): string | null {
+  const [dirX, dirY] = { up: [0, -1], down: [0, 1], left: [-1, 0], right: [1, 0] }[direction];
+  let bestId: string | null = null;
+  let bestScore = Infinity;
+
+  for (const { id, x, y } of neighbors) {
+    const dx = x - from.x;
+    const dy = y - from.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) continue;
+    const cos = (dx * dirX + dy * dirY) / distance;
+    if (cos < 0.35) continue;
+    // Prefer neighbours straight ahead over closer ones off to the side
+    const score = distance / (cos * cos);
+    if (score < bestScore) {
+      bestScore = score;
+      bestId = id;
+    }
+  }
+
+  return bestId;
+}
+
+/**
+ * Screen-reader description of an artist and their relationships in the graph
+ * e.g. "Yes, group, 12 connections. Members: Jon Anderson, Chris Squire, Steve Howe and 6 more."
+ */
+export function describeArtist(graph: ArtistGraph, artistId: string, visibleIds?: Set<string>): string {
+  const node = graph.nodes.find(n => n.data.id === artistId)?.data;
+  if (!node) return '';
+
+  const names = new Map(graph.nodes.map(n => [n.data.id, n.data.name]));
+  const byLabel = new Map<string, string[]>();
+  for (const { data } of graph.edges) {
+    if (data.source !== artistId && data.target !== artistId) continue;
+    const otherId = data.source === artistId ? data.target : data.source;
+    if (visibleIds && !visibleIds.has(otherId)) continue;
+    const label = getRelationshipLabel(data.type, node.type);
+    const list = byLabel.get(label) ?? [];
+    const name = names.get(otherId) ?? otherId;
+    if (!list.includes(name)) list.push(name);
+    byLabel.set(label, list);
+  }
+
+  const total = [...byLabel.values()].reduce((sum, list) => sum + list.length, 0);
+  const parts = [
+    `${node.name}, ${node.type === 'group' ? 'group' : 'person'}${node.loaded ? '' : ', not expanded'}, ` +
+      `${total} ${total === 1 ? 'connection' : 'connections'}.`,
+  ];
+  for (const [label, list] of byLabel) {
+    const listed = list.slice(0, MAX_LISTED_PER_TYPE).join(', ');
+    const more = list.length > MAX_LISTED_PER_TYPE ? ` and ${list.length - MAX_LISTED_PER_TYPE} more` : '';
+    parts.push(`${label}: ${listed}${more}.`);
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,102 @@
+import type { ArtistGraph, ArtistNode, ArtistRelationship, RelationshipType } from '@/types';
+
+/**
+ * Synthetic artist graphs for benchmarks and large-graph tests
+ *
+ * Shaped like a real expansion: a root band, its members, the members' other
+ * bands and their members, with a sprinkling of producers and collaborations
+ * (some of which duplicate a membership, giving parallel edges).
+ */
+
+export interface SyntheticGraphOptions {
+  nodeCount: number;
+  /** Same seed, same graph */
+  seed?: number;
+  /** Average members per band */
+  membersPerGroup?: number;
+}
+
+// Small deterministic PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSyntheticGraph({
+  nodeCount,
+  seed = 1,
+  membersPerGroup = 5,
+}: SyntheticGraphOptions): ArtistGraph {
+  const random = createRandom(seed);
+  const nodes: Array<{ data: ArtistNode }> = [];
+  const edges: Array<{ data: ArtistRelationship }> = [];
+  const people: string[] = [];
+  const edgeIds = new Set<string>();
+
+  const addNode = (type: 'person' | 'group') => {
+    const id = `${type}-${nodes.length}`;
+    const year = 1960 + Math.floor(random() * 50);
+    nodes.push({
+      data: {
+        id,
+        name: `${type === 'group' ? 'Band' : 'Artist'} ${nodes.length}`,
+        type,
+        loaded: nodes.length === 0,
+        ...(type === 'group' && { activeYears: { begin: String(year) } }),
+        ...(type === 'person' && { instruments: [['guitar', 'bass', 'drums', 'vocals', 'keyboards'][Math.floor(random() * 5)]] }),
+      },
+    });
+    if (type === 'person') people.push(id);
+    return id;
+  };
+
+  const addEdge = (source: string, target: string, type: RelationshipType) => {
+    const id = `${source}-${type}-${target}`;
+    if (edgeIds.has(id)) return;
+    edgeIds.add(id);
+    const begin = 1960 + Math.floor(random() * 50);
+    edges.push({
+      data: {
+        id,
+        source,
+        target,
+        type,
+        direction: 'forward',
+        period: { begin: String(begin), ...(random() < 0.5 && { end: String(begin + 1 + Math.floor(random() * 15)) }) },
+      },
+    });
+  };
+
+  // Breadth-first growth: every band gets members, every member may join another band
+  const queue = [addNode('group')];
+  while (queue.length > 0 && nodes.length < nodeCount) {
+    const groupId = queue.shift()!;
+    const memberCount = 1 + Math.floor(random() * membersPerGroup * 2);
+    for (let m = 0; m < memberCount && nodes.length < nodeCount; m++) {
+      // Reuse an existing person now and then so bands share members
+      const personId = people.length > 0 && random() < 0.15
+        ? people[Math.floor(random() * people.length)]
+        : addNode('person');
+      addEdge(personId, groupId, random() < 0.3 ? 'founder_of' : 'member_of');
+
+      if (random() < 0.1) addEdge(personId, groupId, 'collaboration');
+      if (random() < 0.4 || (queue.length === 0 && m === memberCount - 1)) {
+        if (nodes.length >= nodeCount) break;
+        const otherGroupId = addNode('group');
+        addEdge(personId, otherGroupId, 'member_of');
+        queue.push(otherGroupId);
+      }
+    }
+    if (random() < 0.3 && people.length > 0) {
+      addEdge(people[Math.floor(random() * people.length)], groupId, 'producer');
+    }
+  }
+
+  return { nodes, edges };
+}
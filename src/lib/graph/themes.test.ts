@@ -0,0 +1,105 @@
+/**
+ * Tests for graph theme presets, JSON export/import and saved themes
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RELATIONSHIP_TYPES } from '@/lib/relationships';
+import {
+  DEFAULT_GRAPH_THEME,
+  GRAPH_THEME_PRESETS,
+  deleteCustomGraphTheme,
+  exportGraphTheme,
+  getActiveGraphTheme,
+  importGraphTheme,
+  listGraphThemes,
+  parseGraphTheme,
+  saveCustomGraphTheme,
+  setActiveGraphTheme,
+} from './themes';
+
+describe('GRAPH_THEME_PRESETS', () => {
+  it('should style every relationship type with valid values', () => {
+    for (const preset of GRAPH_THEME_PRESETS) {
+      expect(Object.keys(preset.edges).sort()).toEqual([...RELATIONSHIP_TYPES].sort());
+      expect(parseGraphTheme(preset, preset.id)).toEqual({ success: true, theme: preset });
+    }
+  });
+});
+
+describe('exportGraphTheme / importGraphTheme', () => {
+  it('should round-trip a theme under a new id', () => {
+    const preset = GRAPH_THEME_PRESETS[1];
+    const result = importGraphTheme(exportGraphTheme(preset), 'custom-1');
+
+    expect(result).toEqual({ success: true, theme: { ...preset, id: 'custom-1' } });
+  });
+
+  it('should fill missing values from the default theme', () => {
+    const file = JSON.stringify({
+      type: 'interchord-graph-theme',
+      version: 1,
+      theme: { name: 'Just members', edges: { member_of: { color: '#FF0000' } } },
+    });
+    const result = importGraphTheme(file, 'custom-2');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.theme.edges.member_of).toEqual({ ...DEFAULT_GRAPH_THEME.edges.member_of, color: '#ff0000' });
+    expect(result.theme.nodes).toEqual(DEFAULT_GRAPH_THEME.nodes);
+  });
+
+  it('should list every invalid value', () => {
+    const file = JSON.stringify({
+      type: 'interchord-graph-theme',
+      version: 1,
+      theme: {
+        edges: { producer: { color: 'purple', lineStyle: 'wavy' } },
+        nodes: { group: { shape: 'blob' } },
+        labels: { fontSize: 100 },
+      },
+    });
+
+    expect(importGraphTheme(file, 'x')).toEqual({
+      success: false,
+      errors: [
+        'edges.producer.color: "purple" is not a hex colour',
+        'edges.producer.lineStyle: "wavy" must be one of solid, dashed, dotted',
+        expect.stringContaining('nodes.group.shape: "blob"'),
+        'labels.fontSize: must be a number from 6 to 24',
+      ],
+    });
+  });
+
+  it('should reject files that are not themes', () => {
+    expect(importGraphTheme('{"elements": {}}', 'x')).toEqual({ success: false, errors: ['Not an InterChord graph theme file'] });
+    expect(importGraphTheme('not json', 'x')).toEqual({ success: false, errors: ['File is not valid JSON'] });
+  });
+});
+
+describe('saved themes', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should save, activate and delete custom themes', () => {
+    expect(getActiveGraphTheme()).toBe(DEFAULT_GRAPH_THEME);
+
+    const custom = { ...GRAPH_THEME_PRESETS[2], id: 'custom-a', name: 'Mine' };
+    expect(saveCustomGraphTheme(custom)).toBe(true);
+    expect(getActiveGraphTheme()).toEqual(custom);
+    expect(listGraphThemes().map(t => t.id)).toEqual([...GRAPH_THEME_PRESETS.map(t => t.id), 'custom-a']);
+
+    setActiveGraphTheme('print');
+    expect(getActiveGraphTheme().id).toBe('print');
+
+    expect(deleteCustomGraphTheme('custom-a')).toBe(true);
+    expect(listGraphThemes()).toHaveLength(GRAPH_THEME_PRESETS.length);
+  });
+
+  it('should not overwrite presets and fall back to the default for a deleted theme', () => {
+    expect(saveCustomGraphTheme({ ...DEFAULT_GRAPH_THEME, name: 'Changed' })).toBe(false);
+
+    setActiveGraphTheme('custom-gone');
+    expect(getActiveGraphTheme()).toBe(DEFAULT_GRAPH_THEME);
+  });
+});
@@ -0,0 +1,368 @@
+import type { RelationshipType } from '@/types';
+import { RELATIONSHIP_TYPES } from '@/lib/relationships';
+import {
+  STORAGE_KEYS,
+  STORAGE_EVENTS,
+  dispatchStorageEvent,
+  getStorageItem,
+  setStorageItem,
+} from '@/lib/storage';
+
+/**
+ * Graph themes - the single registry for how the graph looks
+ *
+ * A theme holds every colour and shape the graph uses: edge colour and line
+ * per relationship type, node colour and shape per artist type, the founding
+ * member badge and label fonts. The graph stylesheet, filter chips and legend
+ * all read the active theme. Built-in presets are read-only; custom themes
+ * (usually an edited copy of a preset) are saved in localStorage and can be
+ * exported/imported as JSON files.
+ */
+
+export type GraphLineStyle = 'solid' | 'dashed' | 'dotted';
+export type GraphNodeShape = 'ellipse' | 'round-rectangle' | 'rectangle' | 'diamond' | 'hexagon' | 'triangle' | 'star';
+export type GraphArtistType = 'person' | 'group';
+
+export interface GraphEdgeStyle {
+  color: string;
+  lineStyle: GraphLineStyle;
+  width: number;
+}
+
+export interface GraphNodeStyle {
+  color: string;
+  shape: GraphNodeShape;
+}
+
+export interface GraphTheme {
+  id: string;
+  name: string;
+  edges: Record<RelationshipType, GraphEdgeStyle>;
+  nodes: Record<GraphArtistType, GraphNodeStyle>;
+  /** Ring around founding members' nodes */
+  foundingBadge: { show: boolean; color: string };
+  /** Node label font; group labels are drawn 2px larger */
+  labels: { fontFamily: string; fontSize: number; fontWeight: number };
+}
+
+export const GRAPH_LINE_STYLES: GraphLineStyle[] = ['solid', 'dashed', 'dotted'];
+export const GRAPH_NODE_SHAPES: GraphNodeShape[] = ['ellipse', 'round-rectangle', 'rectangle', 'diamond', 'hexagon', 'triangle', 'star'];
+
+export const GRAPH_FONT_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'Helvetica Neue, Helvetica, sans-serif', label: 'Sans-serif' },
+  { value: 'system-ui, sans-serif', label: 'System' },
+  { value: 'Georgia, serif', label: 'Serif' },
+  { value: 'ui-monospace, monospace', label: 'Monospace' },
+];
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+const DEFAULT_EDGES: Record<RelationshipType, GraphEdgeStyle> = {
+  member_of: { color: '#93c5fd', lineStyle: 'solid', width: 1.5 },
+  founder_of: { color: '#fcd34d', lineStyle: 'solid', width: 2 },
+  side_project: { color: '#f9a8d4', lineStyle: 'dashed', width: 1.5 },
+  collaboration: { color: '#6ee7b7', lineStyle: 'dashed', width: 1.5 },
+  producer: { color: '#c4b5fd', lineStyle: 'solid', width: 1.5 },
+  teacher_of: { color: '#fdba74', lineStyle: 'solid', width: 1.5 },
+  position: { color: '#a5b4fc', lineStyle: 'solid', width: 1.5 },
+  family: { color: '#fca5a5', lineStyle: 'dotted', width: 1.5 },
+  voice_actor: { color: '#67e8f9', lineStyle: 'dotted', width: 1.5 },
+  touring_member: { color: '#9ca3af', lineStyle: 'solid', width: 1.5 },
+  same_label: { color: '#5eead4', lineStyle: 'dotted', width: 1.5 },
+  same_scene: { color: '#2dd4bf', lineStyle: 'dotted', width: 1.5 },
+  shared_credits: { color: '#fda4af', lineStyle: 'dashed', width: 1.5 },
+  influenced_by: { color: '#e879f9', lineStyle: 'dashed', width: 1.5 },
+  tribute: { color: '#9ca3af', lineStyle: 'dotted', width: 1.5 },
+  identity: { color: '#9ca3af', lineStyle: 'dotted', width: 1.5 },
+  named_after: { color: '#9ca3af', lineStyle: 'dotted', width: 1.5 },
+  other: { color: '#d1d5db', lineStyle: 'dotted', width: 1.5 },
+};
+
+/** Default edges with some colours (and optionally a common width) replaced */
+function recolorEdges(
+  colors: Partial<Record<RelationshipType, string>>,
+  fallbackColor: string,
+  width?: number
+): Record<RelationshipType, GraphEdgeStyle> {
+  return Object.fromEntries(RELATIONSHIP_TYPES.map(type => [type, {
+    ...DEFAULT_EDGES[type],
+    color: colors[type] ?? fallbackColor,
+    ...(width !== undefined && { width: Math.max(width, DEFAULT_EDGES[type].width) }),
+  }])) as Record<RelationshipType, GraphEdgeStyle>;
+}
+
+export const DEFAULT_GRAPH_THEME: GraphTheme = {
+  id: 'default',
+  name: 'Default',
+  edges: DEFAULT_EDGES,
+  nodes: {
+    group: { color: '#3b82f6', shape: 'ellipse' },
+    person: { color: '#10b981', shape: 'ellipse' },
+  },
+  foundingBadge: { show: true, color: '#8b5cf6' },
+  labels: { fontFamily: GRAPH_FONT_OPTIONS[0].value, fontSize: 10, fontWeight: 500 },
+};
+
+export const GRAPH_THEME_PRESETS: GraphTheme[] = [
+  DEFAULT_GRAPH_THEME,
+  {
+    id: 'high-contrast',
+    name: 'High contrast',
+    edges: recolorEdges({
+      member_of: '#1d4ed8',
+      founder_of: '#b45309',
+      side_project: '#be185d',
+      collaboration: '#047857',
+      producer: '#6d28d9',
+      teacher_of: '#c2410c',
+      position: '#4338ca',
+      family: '#b91c1c',
+      voice_actor: '#0e7490',
+    }, '#374151', 2.5),
+    nodes: {
+      group: { color: '#1d4ed8', shape: 'ellipse' },
+      person: { color: '#047857', shape: 'ellipse' },
+    },
+    foundingBadge: { show: true, color: '#7c3aed' },
+    labels: { fontFamily: GRAPH_FONT_OPTIONS[0].value, fontSize: 12, fontWeight: 700 },
+  },
+  {
+    // Greys only; relationship types differ by line style and width
+    id: 'print',
+    name: 'Print (greyscale)',
+    edges: recolorEdges({
+      member_of: '#111827',
+      founder_of: '#111827',
+      side_project: '#374151',
+      collaboration: '#4b5563',
+      family: '#374151',
+    }, '#6b7280'),
+    nodes: {
+      group: { color: '#4b5563', shape: 'round-rectangle' },
+      person: { color: '#d1d5db', shape: 'ellipse' },
+    },
+    foundingBadge: { show: true, color: '#111827' },
+    labels: { fontFamily: 'Georgia, serif', fontSize: 10, fontWeight: 500 },
+  },
+  {
+    // Okabe-Ito palette, distinguishable with the common forms of colour blindness
+    id: 'colorblind',
+    name: 'Colour-blind safe',
+    edges: recolorEdges({
+      member_of: '#0072b2',
+      founder_of: '#e69f00',
+      side_project: '#cc79a7',
+      collaboration: '#009e73',
+      producer: '#56b4e9',
+      teacher_of: '#d55e00',
+      position: '#0072b2',
+      family: '#d55e00',
+      voice_actor: '#56b4e9',
+    }, '#999999'),
+    nodes: {
+      group: { color: '#0072b2', shape: 'round-rectangle' },
+      person: { color: '#009e73', shape: 'ellipse' },
+    },
+    foundingBadge: { show: true, color: '#e69f00' },
+    labels: { fontFamily: GRAPH_FONT_OPTIONS[0].value, fontSize: 10, fontWeight: 500 },
+  },
+];
+
+export function isPresetTheme(id: string): boolean {
+  return GRAPH_THEME_PRESETS.some(preset => preset.id === id);
+}
+
+// ============================================================================
+// JSON export/import
+// ============================================================================
+
+const THEME_FILE_TYPE = 'interchord-graph-theme';
+const THEME_FILE_VERSION = 1;
+
+// Six-digit hex only, so UI code can append an alpha byte
+const COLOR_REGEX = /^#[0-9a-f]{6}$/i;
+
+export type GraphThemeImportResult =
+  | { success: true; theme: GraphTheme }
+  | { success: false; errors: string[] };
+
+/**
+ * Theme as a JSON file (the id is left out; imported themes get a new one)
+ */
+export function exportGraphTheme(theme: GraphTheme): string {
+  const { name, edges, nodes, foundingBadge, labels } = theme;
+  return JSON.stringify({
+    type: THEME_FILE_TYPE,
+    version: THEME_FILE_VERSION,
+    theme: { name, edges, nodes, foundingBadge, labels },
+  }, null, 2);
+}
+
+/**
+ * Validate a theme (from a file or storage); missing values fall back to the default theme
+ */
+export function parseGraphTheme(value: unknown, id: string): GraphThemeImportResult {
+  if (!value || typeof value !== 'object') {
+    return { success: false, errors: ['Theme is not an object'] };
+  }
+  const raw = value as Partial<Record<keyof GraphTheme, unknown>>;
+  const errors: string[] = [];
+
+  const readColor = (color: unknown, fallback: string, path: string): string => {
+    if (color === undefined) return fallback;
+    if (typeof color === 'string' && COLOR_REGEX.test(color)) return color.toLowerCase();
+    errors.push(`${path}: "${String(color)}" is not a hex colour`);
+    return fallback;
+  };
+  const readOption = <T extends string>(option: unknown, options: T[], fallback: T, path: string): T => {
+    if (option === undefined) return fallback;
+    if (options.includes(option as T)) return option as T;
+    errors.push(`${path}: "${String(option)}" must be one of ${options.join(', ')}`);
+    return fallback;
+  };
+  const readNumber = (number: unknown, min: number, max: number, fallback: number, path: string): number => {
+    if (number === undefined) return fallback;
+    if (typeof number === 'number' && number >= min && number <= max) return number;
+    errors.push(`${path}: must be a number from ${min} to ${max}`);
+    return fallback;
+  };
+
+  const rawEdges = (raw.edges ?? {}) as Partial<Record<string, Partial<GraphEdgeStyle>>>;
+  const edges = Object.fromEntries(RELATIONSHIP_TYPES.map(type => {
+    const edge = rawEdges[type] ?? {};
+    const fallback = DEFAULT_GRAPH_THEME.edges[type];
+    return [type, {
+      color: readColor(edge.color, fallback.color, `edges.${type}.color`),
+      lineStyle: readOption(edge.lineStyle, GRAPH_LINE_STYLES, fallback.lineStyle, `edges.${type}.lineStyle`),
+      width: readNumber(edge.width, 0.5, 10, fallback.width, `edges.${type}.width`),
+    }];
+  })) as Record<RelationshipType, GraphEdgeStyle>;
+
+  const rawNodes = (raw.nodes ?? {}) as Partial<Record<string, Partial<GraphNodeStyle>>>;
+  const readNode = (type: GraphArtistType): GraphNodeStyle => {
+    const node = rawNodes[type] ?? {};
+    const fallback = DEFAULT_GRAPH_THEME.nodes[type];
+    return {
+      color: readColor(node.color, fallback.color, `nodes.${type}.color`),
+      shape: readOption(node.shape, GRAPH_NODE_SHAPES, fallback.shape, `nodes.${type}.shape`),
+    };
+  };
+
+  const badge = (raw.foundingBadge ?? {}) as Partial<GraphTheme['foundingBadge']>;
+  const labels = (raw.labels ?? {}) as Partial<GraphTheme['labels']>;
+  const fallbackLabels = DEFAULT_GRAPH_THEME.labels;
+
+  const theme: GraphTheme = {
+    id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Imported theme',
+    edges,
+    nodes: { group: readNode('group'), person: readNode('person') },
+    foundingBadge: {
+      show: badge.show !== false,
+      color: readColor(badge.color, DEFAULT_GRAPH_THEME.foundingBadge.color, 'foundingBadge.color'),
+    },
+    labels: {
+      fontFamily: typeof labels.fontFamily === 'string' && labels.fontFamily.trim()
+        ? labels.fontFamily
+        : fallbackLabels.fontFamily,
+      fontSize: readNumber(labels.fontSize, 6, 24, fallbackLabels.fontSize, 'labels.fontSize'),
+      fontWeight: readNumber(labels.fontWeight, 100, 900, fallbackLabels.fontWeight, 'labels.fontWeight'),
+    },
+  };
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, theme };
+}
+
+/**
+ * Read a theme file written by exportGraphTheme
+ */
+export function importGraphTheme(text: string, id: string): GraphThemeImportResult {
+  let file: { type?: unknown; version?: unknown; theme?: unknown };
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { success: false, errors: ['File is not valid JSON'] };
+  }
+  if (!file || file.type !== THEME_FILE_TYPE) {
+    return { success: false, errors: ['Not an InterChord graph theme file'] };
+  }
+  if (typeof file.version !== 'number' || file.version > THEME_FILE_VERSION) {
+    return { success: false, errors: [`Unsupported theme file version ${String(file.version)}`] };
+  }
+  return parseGraphTheme(file.theme, id);
+}
+
+// ============================================================================
+// Saved themes (localStorage)
+// ============================================================================
+
+export interface GraphThemeSettings {
+  activeId: string;
+  custom: GraphTheme[];
+}
+
+const DEFAULT_SETTINGS: GraphThemeSettings = { activeId: DEFAULT_GRAPH_THEME.id, custom: [] };
+
+export function getGraphThemeSettings(): GraphThemeSettings {
+  const stored = getStorageItem<Partial<GraphThemeSettings>>(STORAGE_KEYS.GRAPH_THEMES);
+  if (!stored || typeof stored !== 'object') return DEFAULT_SETTINGS;
+
+  // Drop custom themes that no longer validate (e.g. saved by a newer version)
+  const custom = (Array.isArray(stored.custom) ? stored.custom : []).flatMap(theme => {
+    const result = parseGraphTheme(theme, typeof theme?.id === 'string' ? theme.id : '');
+    return result.success && result.theme.id ? [result.theme] : [];
+  });
+  const activeId = typeof stored.activeId === 'string' ? stored.activeId : DEFAULT_SETTINGS.activeId;
+  return { activeId, custom };
+}
+
+function writeGraphThemeSettings(settings: GraphThemeSettings): boolean {
+  const saved = setStorageItem(STORAGE_KEYS.GRAPH_THEMES, settings);
+  if (saved) {
+    dispatchStorageEvent(STORAGE_EVENTS.GRAPH_THEME_CHANGED);
+  }
+  return saved;
+}
+
+/** Presets followed by custom themes */
+export function listGraphThemes(settings: GraphThemeSettings = getGraphThemeSettings()): GraphTheme[] {
+  return [...GRAPH_THEME_PRESETS, ...settings.custom];
+}
+
+/** The selected theme, or the default if it has been deleted */
+export function getActiveGraphTheme(settings: GraphThemeSettings = getGraphThemeSettings()): GraphTheme {
+  return listGraphThemes(settings).find(theme => theme.id === settings.activeId) ?? DEFAULT_GRAPH_THEME;
+}
+
+export function setActiveGraphTheme(id: string): boolean {
+  return writeGraphThemeSettings({ ...getGraphThemeSettings(), activeId: id });
+}
+
+/**
+ * Save (or replace) a custom theme and make it the active one
+ * Presets can't be overwritten - edit a copy instead.
+ */
+export function saveCustomGraphTheme(theme: GraphTheme): boolean {
+  if (isPresetTheme(theme.id)) return false;
+  const settings = getGraphThemeSettings();
+  const custom = settings.custom.some(t => t.id === theme.id)
+    ? settings.custom.map(t => t.id === theme.id ? theme : t)
+    : [...settings.custom, theme];
+  return writeGraphThemeSettings({ activeId: theme.id, custom });
+}
+
+export function deleteCustomGraphTheme(id: string): boolean {
+  const settings = getGraphThemeSettings();
+  if (!settings.custom.some(t => t.id === id)) return false;
+  return writeGraphThemeSettings({
+    activeId: settings.activeId === id ? DEFAULT_GRAPH_THEME.id : settings.activeId,
+    custom: settings.custom.filter(t => t.id !== id),
+  });
+}
+
+/** Id for a new custom theme */
+export function createGraphThemeId(): string {
+  return `custom-${Date.now().toString(36)}`;
+}
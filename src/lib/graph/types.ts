@@ -1,4 +1,5 @@
 import type { ArtistNode, ArtistRelationship } from '@/types';
+import { RELATIONSHIP_TYPE_CONFIG, RELATIONSHIP_TYPES } from '@/lib/relationships';
 
 // Expansion depth options
 export type ExpansionDepth = 1 | 2 | 3 | 4;
@@ -11,30 +12,14 @@ export const expansionDepthLabels: Record<ExpansionDepth, string> = {
 };
 
 // Labels for when viewing a band/group
-export const relationshipLabelsForGroup: Record<string, string> = {
-  member_of: 'Members',
-  founder_of: 'Founders',
-  side_project: 'Side Projects',
-  collaboration: 'Collaborations',
-  producer: 'Producers',
-  influenced_by: 'Influences',
-  same_scene: 'Same Scene',
-  same_label: 'Same Label',
-  touring_member: 'Touring Members',
-};
+export const relationshipLabelsForGroup: Record<string, string> = Object.fromEntries(
+  RELATIONSHIP_TYPES.map(type => [type, RELATIONSHIP_TYPE_CONFIG[type].groupLabel])
+);
 
 // Labels for when viewing a person
-export const relationshipLabelsForPerson: Record<string, string> = {
-  member_of: 'Bands & Groups',
-  founder_of: 'Founded',
-  side_project: 'Side Projects',
-  collaboration: 'Collaborations',
-  producer: 'Produced',
-  influenced_by: 'Influences',
-  same_scene: 'Same Scene',
-  same_label: 'Same Label',
-  touring_member: 'Touring For',
-};
+export const relationshipLabelsForPerson: Record<string, string> = Object.fromEntries(
+  RELATIONSHIP_TYPES.map(type => [type, RELATIONSHIP_TYPE_CONFIG[type].personLabel])
+);
 
 // Get appropriate labels based on artist type
 export function getRelationshipLabel(type: string, artistType: string): string {
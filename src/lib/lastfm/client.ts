@@ -76,7 +76,7 @@ export async function getLastFmArtistInfo(artistName: string, mbid?: string): Pr
 } | null> {
   // Use MBID for cache key if available (more reliable)
   const cacheKey = mbid ? `lastfm-artist-mbid-${mbid}` : `lastfm-artist-${artistName.toLowerCase()}`;
-  const cached = cacheGet<{ imageUrl?: string; url?: string }>(cacheKey);
+  const cached = await cacheGet<{ imageUrl?: string; url?: string }>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -105,7 +105,7 @@ export async function getLastFmArtistInfo(artistName: string, mbid?: string): Pr
       url: data.artist.url,
     };
 
-    cacheSet(cacheKey, result, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, result, CacheTTL.LONG);
     return result;
   } catch (error) {
     console.error('Error fetching Last.fm artist info:', error);
@@ -125,7 +125,7 @@ export async function getLastFmTopAlbums(
 ): Promise<AppleMusicAlbumInfo[]> {
   // Use MBID for cache key if available (more reliable)
   const cacheKey = mbid ? `lastfm-albums-mbid-${mbid}` : `lastfm-albums-${artistName.toLowerCase()}`;
-  const cached = cacheGet<AppleMusicAlbumInfo[]>(cacheKey);
+  const cached = await cacheGet<AppleMusicAlbumInfo[]>('enrichment', cacheKey);
   if (cached) {
     return cached;
   }
@@ -159,7 +159,7 @@ export async function getLastFmTopAlbums(
         artworkUrl: getBestImageUrl(album.image),
       }));
 
-    cacheSet(cacheKey, albums, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, albums, CacheTTL.LONG);
     return albums;
   } catch (error) {
     console.error('Error fetching Last.fm top albums:', error);
@@ -175,7 +175,7 @@ export async function enrichArtistWithLastFm(
   artist: ArtistNode
 ): Promise<ArtistNode> {
   const cacheKey = `lastfm-enriched-${artist.id}`;
-  const cached = cacheGet<Partial<ArtistNode>>(cacheKey);
+  const cached = await cacheGet<Partial<ArtistNode>>('enrichment', cacheKey);
   if (cached) {
     return { ...artist, ...cached };
   }
@@ -206,7 +206,7 @@ export async function enrichArtistWithLastFm(
       };
     }
 
-    cacheSet(cacheKey, enrichmentData, CacheTTL.LONG);
+    await cacheSet('enrichment', cacheKey, enrichmentData, CacheTTL.LONG);
     return { ...artist, ...enrichmentData };
   } catch (error) {
     console.error('Error enriching artist with Last.fm:', error);
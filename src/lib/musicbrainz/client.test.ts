@@ -16,7 +16,7 @@ const mockFetch = vi.fn();
 vi.stubGlobal('fetch', mockFetch);
 
 // Import after mocking
-import { searchArtists } from './client';
+import { searchArtists, selectReleaseGroups, getReleaseTracks, getArtistRelationships } from './client';
 
 describe('MusicBrainz client', () => {
   beforeEach(() => {
@@ -255,6 +255,50 @@ describe('MusicBrainz client', () => {
       await vi.runAllTimersAsync();
       await expectation;
     });
+
+    it('should return null for an unknown artist instead of throwing', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      const resultPromise = getArtistRelationships('00000000-0000-0000-0000-000000000000');
+      await vi.runAllTimersAsync();
+
+      await expect(resultPromise).resolves.toBeNull();
+    });
+  });
+
+  describe('local server failover', () => {
+    const LOCAL = 'http://mb.local:5000/ws/2';
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.resetModules();
+    });
+
+    it('should fall back to the public API and open the local server circuit when it fails', async () => {
+      vi.stubEnv('NEXT_PUBLIC_MUSICBRAINZ_API', LOCAL);
+      vi.resetModules();
+      const client = await import('./client');
+      const { dataSources, DATA_SOURCE_IDS } = await import('@/lib/data-sources');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      mockFetch.mockImplementation((url: string) => url.startsWith(LOCAL)
+        ? Promise.reject(new Error('connect ECONNREFUSED'))
+        : Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ artists: [] }) }));
+
+      const resultPromise = client.searchArtists('Test', 5);
+      await vi.runAllTimersAsync();
+      await expect(resultPromise).resolves.toEqual([]);
+
+      const urls = mockFetch.mock.calls.map(([url]) => String(url));
+      expect(urls.filter(url => url.startsWith('https://musicbrainz.org'))).toHaveLength(1);
+      expect(dataSources.providerIds).toContain(DATA_SOURCE_IDS.MUSICBRAINZ_API_LOCAL);
+      expect(await dataSources.isAvailable(DATA_SOURCE_IDS.MUSICBRAINZ_API_LOCAL)).toBe(false);
+    });
   });
 
   describe('rate limiting - basic verification', () => {
@@ -322,4 +366,99 @@ describe('MusicBrainz client', () => {
       expect(callCount).toBe(3);
     });
   });
+
+  describe('releases', () => {
+    it('should keep requested types only, without compilations, live albums or duplicate editions', () => {
+      const groups = selectReleaseGroups([
+        { id: 'rg-1', title: 'OK Computer', 'primary-type': 'Album', 'secondary-types': [], 'first-release-date': '1997-05-21' },
+        { id: 'rg-2', title: 'OK Computer (Deluxe Edition)', 'primary-type': 'Album', 'first-release-date': '1997' },
+        { id: 'rg-3', title: 'Airbag / How Am I Driving?', 'primary-type': 'EP', 'first-release-date': '1998-04-21' },
+        { id: 'rg-4', title: 'I Might Be Wrong', 'primary-type': 'Album', 'secondary-types': ['Live'], 'first-release-date': '2001' },
+        { id: 'rg-5', title: 'Kid A', 'primary-type': 'Album', 'first-release-date': '2000-10-02' },
+      ], ['Album', 'EP']);
+
+      expect(groups.map(rg => rg.id)).toEqual(['rg-5', 'rg-3', 'rg-1']);
+    });
+
+    it('should map a release and its track list across media', async () => {
+      const credit = [{ name: 'Radiohead', joinphrase: '', artist: { id: 'artist-1', name: 'Radiohead' } }];
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({
+          id: 'release-1',
+          title: 'Kid A',
+          date: '2000-10-02',
+          country: 'GB',
+          barcode: '',
+          'artist-credit': credit,
+          'label-info': [{ label: { id: 'label-1', name: 'Parlophone' } }],
+          'release-group': { 'primary-type': 'Album' },
+          media: [
+            { position: 1, format: 'CD', tracks: [
+              { id: 'track-1', position: 1, number: '1', title: 'Everything in Its Right Place', length: 251000, 'artist-credit': credit,
+                recording: { id: 'rec-1', title: 'Everything in Its Right Place', length: 251000, isrcs: ['GBAYE0000351'] } },
+            ] },
+            { position: 2, format: null, tracks: [
+              { id: 'track-2', position: 1, number: '1', title: 'Kid A', length: null, 'artist-credit': credit,
+                recording: { id: 'rec-2', title: 'Kid A' } },
+            ] },
+          ],
+        }),
+      });
+
+      const resultPromise = getReleaseTracks('release-1');
+      await vi.runAllTimersAsync();
+      const { release, tracks } = (await resultPromise)!;
+
+      expect(release).toEqual({
+        id: 'release-1',
+        name: 'Kid A',
+        artistCredit: 'Radiohead',
+        artistId: 'artist-1',
+        type: 'Album',
+        date: '2000-10-02',
+        country: 'GB',
+        labelName: 'Parlophone',
+        barcode: undefined,
+        disambiguation: undefined,
+      });
+      expect(tracks.map(track => [track.medium, track.position, track.mediumFormat])).toEqual([[1, 1, 'CD'], [2, 1, undefined]]);
+      expect(tracks[0].recording).toMatchObject({
+        id: 'rec-1',
+        artistId: 'artist-1',
+        duration: 251000,
+        isrc: 'GBAYE0000351',
+        releaseId: 'release-1',
+        releaseTitle: 'Kid A',
+      });
+      expect(String(mockFetch.mock.calls[0][0])).toContain('inc=recordings%2Bartist-credits%2Blabels%2Bisrcs%2Brelease-groups');
+    });
+
+    it('should return null for an unknown release', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      const resultPromise = getReleaseTracks('missing-release');
+      await vi.runAllTimersAsync();
+
+      await expect(resultPromise).resolves.toBeNull();
+    });
+
+    it('should still throw on other HTTP failures', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error',
+      });
+
+      const resultPromise = getReleaseTracks('release-1');
+      const expectation = expect(resultPromise).rejects.toThrow('MusicBrainz API error: 500');
+      await vi.runAllTimersAsync();
+      await expectation;
+    });
+  });
 });
@@ -1,5 +1,5 @@
 /**
- * MusicBrainz API Client
+ * MusicBrainz API Client (server-side)
  *
  * Supports both the public MusicBrainz API and local mirror servers.
  *
@@ -7,6 +7,11 @@
  *   - Set NEXT_PUBLIC_MUSICBRAINZ_API to use a local server (e.g., http://stonefrog-db01.stonefrog.com:5000/ws/2)
  *   - If not set, defaults to public API with rate limiting
  *
+ * Both servers are providers in the data source registry (lib/data-sources,
+ * see ./servers): requests go to the local server while its circuit is
+ * closed and fall back to the public API otherwise, and both show up in the
+ * health output.
+ *
  * Rate Limiting:
  *   - Public API: Strict 1 request/second limit (enforced via queue)
  *   - Local server: No rate limiting (unlimited requests)
@@ -14,130 +19,21 @@
 
 import type {
   MusicBrainzArtist,
+  MusicBrainzRelation,
   MusicBrainzReleaseGroup,
   MusicBrainzSearchResponse,
   ArtistNode,
   ArtistRelationship,
-  ArtistGraph,
+  RecordingNode,
+  ReleaseNode,
+  ReleaseWithTracks,
 } from '@/types';
 import { normalizeAlbumTitle } from '@/lib/utils/album';
+import { dataSources, DATA_SOURCE_IDS } from '@/lib/data-sources';
+import { MusicBrainzApiError } from './errors';
+import { LOCAL_MUSICBRAINZ_API, PUBLIC_MUSICBRAINZ_API, USER_AGENT } from './servers';
 
-// Server configuration
-const LOCAL_MUSICBRAINZ_API = process.env.NEXT_PUBLIC_MUSICBRAINZ_API;
-const PUBLIC_MUSICBRAINZ_API = 'https://musicbrainz.org/ws/2';
-const USER_AGENT = 'InterChord/0.1.0 (https://github.com/jstone/interchord)';
 const RATE_LIMIT_MS = 1100; // 1.1 seconds between requests (safety margin)
-const HEALTH_CHECK_INTERVAL_MS = 30000; // Check local server health every 30 seconds
-const HEALTH_CHECK_TIMEOUT_MS = 5000; // Timeout for health check requests
-
-// Track which server we're currently using (can change on fallback)
-let currentServer = LOCAL_MUSICBRAINZ_API || PUBLIC_MUSICBRAINZ_API;
-let usingLocalServer = !!LOCAL_MUSICBRAINZ_API;
-let localServerFailed = false;
-let lastHealthCheckTime = 0;
-let healthCheckInProgress = false;
-
-// Request statistics
-let requestCount = 0;
-let totalResponseTime = 0;
-let lastResponseTime = 0;
-
-export interface MusicBrainzServerStatus {
-  isLocal: boolean;
-  serverUrl: string;
-  localServerUrl: string | null;
-  publicServerUrl: string;
-  hasFallback: boolean;
-  inFallbackMode: boolean;
-  recoveryEnabled: boolean;
-  nextHealthCheckIn: number | null; // ms until next health check, or null if not in fallback
-  stats: {
-    requestCount: number;
-    avgResponseTime: number;
-    lastResponseTime: number;
-  };
-}
-
-/**
- * Get current server status and statistics
- */
-export function getServerStatus(): MusicBrainzServerStatus {
-  const now = Date.now();
-  const timeSinceLastCheck = now - lastHealthCheckTime;
-  const timeUntilNextCheck = localServerFailed
-    ? Math.max(0, HEALTH_CHECK_INTERVAL_MS - timeSinceLastCheck)
-    : null;
-
-  return {
-    isLocal: usingLocalServer,
-    serverUrl: currentServer,
-    localServerUrl: LOCAL_MUSICBRAINZ_API || null,
-    publicServerUrl: PUBLIC_MUSICBRAINZ_API,
-    hasFallback: !!LOCAL_MUSICBRAINZ_API,
-    inFallbackMode: localServerFailed,
-    recoveryEnabled: !!LOCAL_MUSICBRAINZ_API,
-    nextHealthCheckIn: timeUntilNextCheck,
-    stats: {
-      requestCount,
-      avgResponseTime: requestCount > 0 ? Math.round(totalResponseTime / requestCount) : 0,
-      lastResponseTime,
-    },
-  };
-}
-
-/**
- * Manually trigger a recovery check (useful for UI "retry" buttons)
- * Returns true if recovery was successful
- *
- * This calls the server-side health check API because the browser
- * cannot reach container-internal hostnames like host.containers.internal
- */
-export async function forceRecoveryCheck(): Promise<boolean> {
-  try {
-    // Call server-side health check API (it can reach the local DB)
-    const response = await fetch('/api/musicbrainz/health', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      console.error('[MusicBrainz] Health check API error:', response.status);
-      return false;
-    }
-
-    const data = await response.json();
-
-    // Update local state based on server response
-    if (data.isLocal) {
-      console.log('[MusicBrainz] Recovery successful! Server confirms local DB is available.');
-      localServerFailed = false;
-      usingLocalServer = true;
-      if (LOCAL_MUSICBRAINZ_API) {
-        currentServer = LOCAL_MUSICBRAINZ_API;
-      }
-      return true;
-    } else {
-      console.log('[MusicBrainz] Recovery failed. Server still using fallback API.');
-      localServerFailed = true;
-      usingLocalServer = false;
-      currentServer = PUBLIC_MUSICBRAINZ_API;
-      return false;
-    }
-  } catch (error) {
-    console.error('[MusicBrainz] Recovery check error:', error);
-    return false;
-  }
-}
-
-// Log which server is being used (only in development)
-if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
-  console.log(`[MusicBrainz] Primary server: ${currentServer}`);
-  if (LOCAL_MUSICBRAINZ_API) {
-    console.log(`[MusicBrainz] Fallback enabled: ${PUBLIC_MUSICBRAINZ_API}`);
-  }
-}
 
 // Request queue for rate limiting
 let lastRequestTime = 0;
@@ -145,7 +41,7 @@ const requestQueue: Array<() => Promise<void>> = [];
 let isProcessingQueue = false;
 
 /**
- * Process the request queue respecting rate limits
+ * Process the public API request queue respecting rate limits
  */
 async function processQueue(): Promise<void> {
   if (isProcessingQueue || requestQueue.length === 0) return;
@@ -153,14 +49,11 @@ async function processQueue(): Promise<void> {
   isProcessingQueue = true;
 
   while (requestQueue.length > 0) {
-    // Skip rate limiting for local servers (no 1 req/sec restriction)
-    if (!usingLocalServer) {
-      const now = Date.now();
-      const timeSinceLastRequest = now - lastRequestTime;
+    const now = Date.now();
+    const timeSinceLastRequest = now - lastRequestTime;
 
-      if (timeSinceLastRequest < RATE_LIMIT_MS) {
-        await sleep(RATE_LIMIT_MS - timeSinceLastRequest);
-      }
+    if (timeSinceLastRequest < RATE_LIMIT_MS) {
+      await sleep(RATE_LIMIT_MS - timeSinceLastRequest);
     }
 
     const request = requestQueue.shift();
@@ -194,68 +87,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-/**
- * Check if the local MusicBrainz server is healthy
- * Uses a quick artist lookup as a health check
- */
-async function checkLocalServerHealth(): Promise<boolean> {
-  if (!LOCAL_MUSICBRAINZ_API || healthCheckInProgress) {
-    return false;
-  }
-
-  healthCheckInProgress = true;
-  lastHealthCheckTime = Date.now();
-
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
-
-    // Use a simple search request as health check
-    const url = `${LOCAL_MUSICBRAINZ_API}/artist?query=test&fmt=json&limit=1`;
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': USER_AGENT,
-        'Accept': 'application/json',
-      },
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-    return response.ok;
-  } catch {
-    return false;
-  } finally {
-    healthCheckInProgress = false;
-  }
-}
-
-/**
- * Attempt to recover to the local server if it's healthy again
- * Called periodically when using the fallback public API
- */
-async function attemptRecovery(): Promise<boolean> {
-  if (!localServerFailed || !LOCAL_MUSICBRAINZ_API) {
-    return false;
-  }
-
-  const now = Date.now();
-  if (now - lastHealthCheckTime < HEALTH_CHECK_INTERVAL_MS) {
-    return false; // Not enough time since last check
-  }
-
-  const isHealthy = await checkLocalServerHealth();
-
-  if (isHealthy) {
-    console.log('[MusicBrainz] Local server recovered! Switching back from public API.');
-    localServerFailed = false;
-    usingLocalServer = true;
-    currentServer = LOCAL_MUSICBRAINZ_API;
-    return true;
-  }
-
-  return false;
-}
-
 /**
  * Make a single fetch request to a MusicBrainz server
  */
@@ -270,7 +101,6 @@ async function fetchFromServer<T>(
   });
 
   const url = `${serverUrl}${endpoint}?${searchParams}`;
-  const startTime = performance.now();
 
   const response = await fetch(url, {
     headers: {
@@ -279,71 +109,48 @@ async function fetchFromServer<T>(
     },
   });
 
-  // Track response time
-  const responseTime = Math.round(performance.now() - startTime);
-  requestCount++;
-  totalResponseTime += responseTime;
-  lastResponseTime = responseTime;
-
   if (response.status === 503) {
     throw new Error('MusicBrainz rate limit exceeded. Please wait and try again.');
   }
 
   if (!response.ok) {
-    throw new Error(`MusicBrainz API error: ${response.status} ${response.statusText}`);
+    throw new MusicBrainzApiError(response.status, response.statusText);
   }
 
   return response.json();
 }
 
 /**
- * Make a rate-limited request to MusicBrainz API with fallback and auto-recovery
+ * Make a request to MusicBrainz, preferring the local server
  *
- * Behavior:
- *   1. ALWAYS prefers local server (stonefrog-db01) when configured
- *   2. Falls back to public MusicBrainz API if local server fails
- *   3. Periodically checks if local server has recovered (every 30s)
- *   4. Automatically switches back to local server when it becomes available
+ * The registry tries the local server while its circuit is closed and falls
+ * back to the public API (rate-limited through the queue) when it is down or
+ * fails; a closed circuit after a successful probe or trial switches back.
  */
 async function mbFetch<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
-  return queueRequest(async () => {
-    // If we're in fallback mode, periodically check if local server has recovered
-    if (localServerFailed && LOCAL_MUSICBRAINZ_API) {
-      // Attempt recovery in the background (non-blocking)
-      // This will switch back to local if healthy
-      await attemptRecovery();
-    }
-
-    // Now check which server we should use (may have changed after recovery)
-    if (localServerFailed && LOCAL_MUSICBRAINZ_API) {
-      // Still in fallback mode - use public API
-      return fetchFromServer<T>(PUBLIC_MUSICBRAINZ_API, endpoint, params);
-    }
-
-    try {
-      return await fetchFromServer<T>(currentServer, endpoint, params);
-    } catch (error) {
-      // If using local server and it fails, try fallback to public API
-      if (usingLocalServer && LOCAL_MUSICBRAINZ_API && !localServerFailed) {
-        console.warn(
-          `[MusicBrainz] Local server failed, falling back to public API:`,
-          error instanceof Error ? error.message : error
-        );
-
-        // Mark local server as failed and switch to public API
-        localServerFailed = true;
-        usingLocalServer = false;
-        currentServer = PUBLIC_MUSICBRAINZ_API;
-        lastHealthCheckTime = Date.now(); // Start recovery timer
-
-        // Retry with public API (will now use rate limiting)
-        return fetchFromServer<T>(PUBLIC_MUSICBRAINZ_API, endpoint, params);
-      }
-
-      // Re-throw if already using public API or no fallback available
-      throw error;
-    }
+  const localServer = LOCAL_MUSICBRAINZ_API;
+  const { data } = await dataSources.run<T>({
+    ...(localServer && {
+      [DATA_SOURCE_IDS.MUSICBRAINZ_API_LOCAL]: () => fetchFromServer<T>(localServer, endpoint, params),
+    }),
+    [DATA_SOURCE_IDS.MUSICBRAINZ_API]: () =>
+      queueRequest(() => fetchFromServer<T>(PUBLIC_MUSICBRAINZ_API, endpoint, params)),
   });
+  return data;
+}
+
+/**
+ * mbFetch for a lookup by MBID
+ * Resolves to null when MusicBrainz doesn't know the MBID (404), like the
+ * local DB lookups, so an unknown artist isn't treated as a failing server.
+ */
+async function mbLookup<T>(endpoint: string, params: Record<string, string> = {}): Promise<T | null> {
+  try {
+    return await mbFetch<T>(endpoint, params);
+  } catch (error) {
+    if (error instanceof MusicBrainzApiError && error.status === 404) return null;
+    throw error;
+  }
 }
 
 /**
@@ -365,13 +172,14 @@ export async function searchArtists(
 
 /**
  * Get artist by MBID with full relations
+ * Returns null for an unknown artist.
  */
-export async function getArtist(mbid: string): Promise<ArtistNode> {
-  const artist = await mbFetch<MusicBrainzArtist>(`/artist/${mbid}`, {
+export async function getArtist(mbid: string): Promise<ArtistNode | null> {
+  const artist = await mbLookup<MusicBrainzArtist>(`/artist/${mbid}`, {
     inc: 'tags+url-rels',
   });
 
-  return mapMusicBrainzArtistToNode(artist);
+  return artist && mapMusicBrainzArtistToNode(artist);
 }
 
 /**
@@ -397,15 +205,17 @@ export async function getArtistLifeSpan(mbid: string): Promise<{ begin?: string;
 /**
  * Get artist relationships (band members, collaborations, etc.)
  * Also fetches life-span data for group-type related artists to enable tenure display
+ * Returns null for an unknown artist.
  */
 export async function getArtistRelationships(mbid: string): Promise<{
   artist: ArtistNode;
   relationships: ArtistRelationship[];
   relatedArtists: ArtistNode[];
-}> {
-  const artist = await mbFetch<MusicBrainzArtist>(`/artist/${mbid}`, {
+} | null> {
+  const artist = await mbLookup<MusicBrainzArtist>(`/artist/${mbid}`, {
     inc: 'artist-rels+tags',
   });
+  if (!artist) return null;
 
   const node = mapMusicBrainzArtistToNode(artist);
   node.loaded = true;
@@ -448,64 +258,62 @@ export async function getArtistRelationships(mbid: string): Promise<{
   return { artist: node, relationships, relatedArtists };
 }
 
+
+// Max page size allowed by MusicBrainz browse requests
+const BROWSE_PAGE_SIZE = 100;
+
 /**
- * Build a graph starting from an artist
+ * Browse entities linked to another entity, following pagination
+ * @param entity - Entity to browse; the response lists them under `${entity}s`
+ * @param maxItems - Stop after this many (each page is a rate-limited request)
  */
-export async function buildArtistGraph(mbid: string): Promise<ArtistGraph> {
-  const { artist, relationships, relatedArtists } = await getArtistRelationships(mbid);
+async function mbBrowse<T>(
+  entity: 'release-group' | 'release' | 'recording',
+  params: Record<string, string>,
+  maxItems: number = Infinity
+): Promise<T[]> {
+  const items: T[] = [];
+  let offset = 0;
 
-  const nodes = [
-    { data: artist },
-    ...relatedArtists.map(a => ({ data: a })),
-  ];
+  while (items.length < maxItems) {
+    const response = await mbFetch<Record<string, unknown>>(`/${entity}`, {
+      ...params,
+      limit: String(BROWSE_PAGE_SIZE),
+      offset: String(offset),
+    });
 
-  const edges = relationships.map(r => ({ data: r }));
+    const page = (response[`${entity}s`] as T[] | undefined) || [];
+    items.push(...page);
+
+    // Check if there are more to fetch
+    const totalCount = (response[`${entity}-count`] as number | undefined) || 0;
+    offset += page.length;
+    if (offset >= totalCount || page.length < BROWSE_PAGE_SIZE) break;
+  }
 
-  return { nodes, edges };
+  return items.slice(0, maxItems);
 }
 
+/**
+ * Get every release group (unfiltered) credited to an artist
+ */
+export async function browseArtistReleaseGroups(mbid: string): Promise<MusicBrainzReleaseGroup[]> {
+  // Use browse endpoint with pagination to get ALL release groups (not just 25)
+  return mbBrowse<MusicBrainzReleaseGroup>('release-group', { artist: mbid });
+}
 
 /**
- * Get release groups (albums, EPs, singles) for an artist
- * @param mbid - MusicBrainz artist ID
+ * Pick the release groups to show for an artist
+ * Shared by the API and local DB paths so both return the same list.
  * @param primaryTypes - Filter by primary type (e.g., ['Album', 'EP'])
- * @returns Array of release groups sorted by date (newest first), deduplicated
+ * @returns Release groups sorted by date (newest first), deduplicated
  */
-export async function getArtistReleaseGroups(
-  mbid: string,
+export function selectReleaseGroups(
+  releaseGroups: MusicBrainzReleaseGroup[],
   primaryTypes: string[] = ['Album']
-): Promise<MusicBrainzReleaseGroup[]> {
-  // Use browse endpoint with pagination to get ALL release groups (not just 25)
-  const allReleaseGroups: MusicBrainzReleaseGroup[] = [];
-  let offset = 0;
-  const limit = 100; // Max allowed by MusicBrainz API
-  let hasMore = true;
-
-  while (hasMore) {
-    const response = await mbFetch<{ 'release-groups': MusicBrainzReleaseGroup[]; 'release-group-count': number }>(
-      '/release-group',
-      {
-        artist: mbid,
-        limit: String(limit),
-        offset: String(offset),
-      }
-    );
-
-    const groups = response['release-groups'] || [];
-    allReleaseGroups.push(...groups);
-
-    // Check if there are more to fetch
-    const totalCount = response['release-group-count'] || 0;
-    offset += groups.length;
-    hasMore = offset < totalCount && groups.length === limit;
-  }
-
-  if (allReleaseGroups.length === 0) {
-    return [];
-  }
-
+): MusicBrainzReleaseGroup[] {
   // Filter by primary type and exclude compilations/live albums by default
-  const filtered = allReleaseGroups.filter(rg => {
+  const filtered = releaseGroups.filter(rg => {
     const primaryType = rg['primary-type'];
     const secondaryTypes = rg['secondary-types'] || [];
 
@@ -546,11 +354,173 @@ export async function getArtistReleaseGroups(
   });
 }
 
+/**
+ * Get release groups (albums, EPs, singles) for an artist
+ * @param mbid - MusicBrainz artist ID
+ * @param primaryTypes - Filter by primary type (e.g., ['Album', 'EP'])
+ * @returns Array of release groups sorted by date (newest first), deduplicated
+ */
+export async function getArtistReleaseGroups(
+  mbid: string,
+  primaryTypes: string[] = ['Album']
+): Promise<MusicBrainzReleaseGroup[]> {
+  return selectReleaseGroups(await browseArtistReleaseGroups(mbid), primaryTypes);
+}
+
+// ============================================================================
+// Releases and Recordings
+// ============================================================================
+
+interface MusicBrainzArtistCredit {
+  name: string;
+  joinphrase?: string;
+  artist: { id: string; name: string };
+}
+
+interface MusicBrainzRecording {
+  id: string;
+  title: string;
+  length?: number | null;
+  disambiguation?: string;
+  isrcs?: string[];
+  'artist-credit'?: MusicBrainzArtistCredit[];
+}
+
+interface MusicBrainzRelease {
+  id: string;
+  title: string;
+  date?: string;
+  country?: string | null;
+  barcode?: string | null;
+  disambiguation?: string;
+  'artist-credit'?: MusicBrainzArtistCredit[];
+  'label-info'?: Array<{ label?: { id: string; name: string } | null }>;
+  'release-group'?: { 'primary-type'?: string | null };
+  media?: Array<{
+    position: number;
+    format?: string | null;
+    tracks?: Array<{
+      id: string;
+      position: number;
+      number: string;
+      title: string;
+      length?: number | null;
+      'artist-credit'?: MusicBrainzArtistCredit[];
+      recording: MusicBrainzRecording;
+    }>;
+  }>;
+}
+
+/**
+ * Join an artist credit into its display form ("Artist A feat. Artist B")
+ */
+function formatArtistCredit(credit?: MusicBrainzArtistCredit[]): string | undefined {
+  return credit?.map(part => part.name + (part.joinphrase ?? '')).join('') || undefined;
+}
+
+/**
+ * Must produce the same shape as the release rows in db-client.ts
+ */
+function mapReleaseToNode(release: MusicBrainzRelease): ReleaseNode {
+  return {
+    id: release.id,
+    name: release.title,
+    artistCredit: formatArtistCredit(release['artist-credit']),
+    artistId: release['artist-credit']?.[0]?.artist.id,
+    type: release['release-group']?.['primary-type'] || undefined,
+    date: release.date || undefined,
+    country: release.country || undefined,
+    labelName: release['label-info']?.find(info => info.label)?.label?.name,
+    barcode: release.barcode || undefined,
+    disambiguation: release.disambiguation || undefined,
+  };
+}
+
+function mapRecordingToNode(
+  recording: MusicBrainzRecording,
+  credit: MusicBrainzArtistCredit[] | undefined = recording['artist-credit'],
+  release?: { id: string; title: string }
+): RecordingNode {
+  return {
+    id: recording.id,
+    name: recording.title,
+    artistCredit: formatArtistCredit(credit),
+    artistId: credit?.[0]?.artist.id,
+    duration: recording.length ?? undefined,
+    disambiguation: recording.disambiguation || undefined,
+    releaseTitle: release?.title,
+    releaseId: release?.id,
+    isrc: recording.isrcs?.[0],
+  };
+}
+
+/**
+ * Get every release (edition) in a release group, earliest first
+ */
+export async function getReleaseGroupReleases(releaseGroupMbid: string): Promise<ReleaseNode[]> {
+  const releases = await mbBrowse<MusicBrainzRelease>('release', {
+    'release-group': releaseGroupMbid,
+    inc: 'artist-credits+labels+release-groups',
+  });
+
+  // Undated releases last, like the local DB query
+  return releases.map(mapReleaseToNode).sort((a, b) =>
+    Number(!a.date) - Number(!b.date)
+    || (a.date ?? '').localeCompare(b.date ?? '')
+    || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Get a page of recordings credited to an artist
+ */
+export async function getArtistRecordings(
+  mbid: string,
+  limit: number = BROWSE_PAGE_SIZE,
+  offset: number = 0
+): Promise<RecordingNode[]> {
+  const response = await mbFetch<{ recordings?: MusicBrainzRecording[] }>('/recording', {
+    artist: mbid,
+    inc: 'artist-credits+isrcs',
+    limit: String(Math.min(limit, BROWSE_PAGE_SIZE)),
+    offset: String(offset),
+  });
+
+  return (response.recordings || []).map(recording => mapRecordingToNode(recording));
+}
+
+/**
+ * Get a release with its track list (every medium, in order)
+ * Returns null for an unknown release, like the local DB lookup.
+ */
+export async function getReleaseTracks(releaseMbid: string): Promise<ReleaseWithTracks | null> {
+  const release = await mbLookup<MusicBrainzRelease>(`/release/${releaseMbid}`, {
+    inc: 'recordings+artist-credits+labels+isrcs+release-groups',
+  });
+  if (!release) return null;
+
+  const tracks = (release.media || []).flatMap(medium =>
+    (medium.tracks || []).map(track => ({
+      id: track.id,
+      position: track.position,
+      number: track.number,
+      title: track.title,
+      length: track.length ?? undefined,
+      medium: medium.position,
+      mediumFormat: medium.format || undefined,
+      recording: mapRecordingToNode(track.recording, track['artist-credit'], release),
+    }))
+  );
+
+  return { release: mapReleaseToNode(release), tracks };
+}
+
 // ============================================================================
 // Genre Mapping - Uses shared utility
 // ============================================================================
 
 import { mapTagsToGenres } from '@/lib/genres/mapping';
+import { mapLinkType, mapLinkAttributes } from '@/lib/relationships/mapping';
 
 // ============================================================================
 // Mapping Functions
@@ -572,66 +542,48 @@ function mapMusicBrainzArtistToNode(artist: MusicBrainzArtist): ArtistNode {
   };
 }
 
-function mapRelationToEdge(
+/**
+ * Map an artist relation from the API to an ArtistRelationship
+ * Must produce the same shape as mapDbRelationshipRow in db-client.ts
+ * (checked by relationship-contract.test.ts).
+ */
+export function mapRelationToEdge(
   sourceId: string,
-  relation: {
-    type: string;
-    direction: 'forward' | 'backward';
-    artist?: MusicBrainzArtist;
-    attributes?: string[];
-    begin?: string;
-    end?: string;
-    ended?: boolean;
-  }
+  relation: MusicBrainzRelation
 ): ArtistRelationship | null {
   if (!relation.artist) return null;
 
-  // Relationship types to explicitly skip (not meaningful artistic connections)
-  const skipTypes = new Set([
-    'tribute',           // Tribute bands (e.g., "The Australian Pink Floyd Show")
-    'is person',         // Identity relationships
-    'named after',       // Named after relationships
-  ]);
-
-  const relationType = relation.type.toLowerCase();
-  if (skipTypes.has(relationType)) {
-    return null;
-  }
-
-  const typeMap: Record<string, ArtistRelationship['type']> = {
-    'member of band': 'member_of',
-    'founder': 'founder_of',
-    'collaboration': 'collaboration',
-    'vocal': 'collaboration',
-    'instrument': 'collaboration',
-    'producer': 'producer',
-    'influenced by': 'influenced_by',
-    'subgroup': 'side_project',
-    'supporting musician': 'touring_member',
-    // Add more mappings as needed
-  };
-
-  const mappedType = typeMap[relationType] || 'collaboration';
+  const mappedType = mapLinkType(relation.type);
+  const isForward = relation.direction === 'forward';
 
   // Determine source and target based on direction
-  const [source, target] = relation.direction === 'forward'
+  const [source, target] = isForward
     ? [sourceId, relation.artist.id]
     : [relation.artist.id, sourceId];
 
+  // source-credit/target-credit are relative to the requested artist, not link direction
+  const [sourceCredit, targetCredit] = isForward
+    ? [relation['source-credit'], relation['target-credit']]
+    : [relation['target-credit'], relation['source-credit']];
+  const attributeCredits = relation['attribute-credits'] ?? {};
+
   // Include period in ID to handle multiple relationships of same type
   // (e.g., musician who left and rejoined a band)
-  const periodSuffix = relation.begin ? `-${relation.begin}` : '';
+  const begin = relation.begin ?? undefined;
+  const periodSuffix = begin ? `-${begin}` : '';
 
   return {
     id: `${source}-${mappedType}-${target}${periodSuffix}`,
     source,
     target,
     type: mappedType,
-    attributes: relation.attributes,
+    ...mapLinkAttributes((relation.attributes ?? []).map(name => ({ name, credit: attributeCredits[name] }))),
+    sourceCredit: sourceCredit || undefined,
+    targetCredit: targetCredit || undefined,
     period: {
-      begin: relation.begin,
-      end: relation.ended ? relation.end : null,
+      begin,
+      end: relation.ended ? relation.end ?? undefined : null,
     },
-    direction: relation.direction === 'forward' ? 'forward' : 'backward',
+    direction: isForward ? 'forward' : 'backward',
   };
 }
@@ -6,21 +6,39 @@
  * 2. Falls back to MusicBrainz API if DB unavailable (rate limited)
  * 3. Returns source indicator for UI display
  *
- * Cloud-friendly design:
- * - Configurable timeouts via environment variables
- * - Graceful degradation on failure
- * - Source tracking for observability
+ * Availability, timeouts and metrics are handled by the data source registry
+ * (lib/data-sources): a failing DB opens its circuit breaker and requests go
+ * straight to the API until a trial call or probe succeeds again. The API
+ * client routes each request through the registry itself (local API server,
+ * then the public API), so API calls are not wrapped again here.
  */
 
-import type { ArtistNode, ArtistRelationship } from '@/types';
+import type {
+  ArtistNode,
+  ArtistRelationship,
+  MusicBrainzReleaseGroup,
+  RecordingNode,
+  ReleaseNode,
+  ReleaseWithTracks,
+} from '@/types';
+
+// Provider chain with circuit breakers (server-only)
+import { dataSources, DATA_SOURCE_IDS, type DataSourceHealth } from '@/lib/data-sources';
 
 // Import database client (server-only)
 import {
-  testConnection,
   searchArtistsFromDB,
   getArtistFromDB,
   getArtistRelationshipsFromDB,
   getArtistLifeSpanFromDB,
+  getArtistLinksFromDB,
+  getArtistRelationshipsBatchFromDB,
+  getArtistDerivationContextsFromDB,
+  getArtistCreditPartnersFromDB,
+  getArtistReleaseGroupsFromDB,
+  getReleaseGroupReleasesFromDB,
+  getArtistRecordingsFromDB,
+  getReleaseTracksFromDB,
 } from './db-client';
 
 // Import API client (fallback)
@@ -29,8 +47,36 @@ import {
   getArtist as getArtistFromAPI,
   getArtistRelationships as getArtistRelationshipsFromAPI,
   getArtistLifeSpan as getArtistLifeSpanFromAPI,
+  browseArtistReleaseGroups as browseArtistReleaseGroupsFromAPI,
+  getReleaseGroupReleases as getReleaseGroupReleasesFromAPI,
+  getArtistRecordings as getArtistRecordingsFromAPI,
+  getReleaseTracks as getReleaseTracksFromAPI,
+  selectReleaseGroups,
 } from './client';
 
+// Path search (pure, data-source agnostic)
+import {
+  findShortestPath,
+  type PathExpander,
+  type PathSearchOptions,
+  type PathSearchResult,
+} from '@/lib/graph/path';
+
+// Multi-level graph expansion (pure, data-source agnostic)
+import {
+  expandArtistGraph,
+  type ExpansionLoader,
+  type ExpansionOptions,
+  type ExpansionResult,
+} from '@/lib/graph/expand';
+import type { ExpansionDepth } from '@/lib/graph/types';
+
+// Label-mate and scene derivation (pure, needs release/area data from the local DB)
+import { deriveRelationships, type DerivationOptions } from '@/lib/graph/derived';
+
+// Credits expansion (pure, needs recording/release credits from the local DB)
+import { buildCreditRelationships, type CreditOptions, type CreditRelationships } from '@/lib/graph/credits';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -44,43 +90,32 @@ export interface DataSourceResult<T> {
 }
 
 // ============================================================================
-// Connection State
+// Provider Chain
 // ============================================================================
 
-// Cache the DB availability status to avoid repeated connection tests
-let dbAvailable: boolean | null = null;
-let lastDbCheck = 0;
-const DB_CHECK_INTERVAL_MS = 30000; // Re-check DB availability every 30s
+const DB = DATA_SOURCE_IDS.MUSICBRAINZ_DB;
+const API_PROVIDERS: string[] = [DATA_SOURCE_IDS.MUSICBRAINZ_API_LOCAL, DATA_SOURCE_IDS.MUSICBRAINZ_API];
 
 /**
- * Check if the local database is available
- * Caches result for DB_CHECK_INTERVAL_MS to avoid connection storms
+ * Run an operation against the local DB, falling back to the API
  */
-async function isDbAvailable(): Promise<boolean> {
-  const now = Date.now();
-
-  // Use cached result if recent
-  if (dbAvailable !== null && now - lastDbCheck < DB_CHECK_INTERVAL_MS) {
-    return dbAvailable;
-  }
-
-  // Test connection
-  dbAvailable = await testConnection();
-  lastDbCheck = now;
+async function withFallback<T>(
+  fromDB: () => Promise<T>,
+  fromAPI: () => Promise<T>
+): Promise<DataSourceResult<T>> {
+  const startTime = Date.now();
 
-  if (!dbAvailable) {
-    console.warn('[DataSource] Local DB unavailable, will use API fallback');
+  if (await dataSources.isAvailable(DB)) {
+    try {
+      const data = await dataSources.call(DB, fromDB);
+      return { data, source: 'local', latencyMs: Date.now() - startTime };
+    } catch (error) {
+      console.error('[DataSource] DB failed, falling back to API:', (error as Error).message);
+    }
   }
 
-  return dbAvailable;
-}
-
-/**
- * Reset DB availability cache (useful for testing or manual refresh)
- */
-export function resetDbAvailabilityCache(): void {
-  dbAvailable = null;
-  lastDbCheck = 0;
+  const data = await fromAPI();
+  return { data, source: 'api', latencyMs: Date.now() - startTime };
 }
 
 // ============================================================================
@@ -95,92 +130,160 @@ export async function searchArtists(
   limit: number = 10,
   offset: number = 0
 ): Promise<DataSourceResult<ArtistNode[]>> {
-  const startTime = Date.now();
-
-  // Try local DB first
-  if (await isDbAvailable()) {
-    try {
-      const data = await searchArtistsFromDB(query, limit, offset);
-      return {
-        data,
-        source: 'local',
-        latencyMs: Date.now() - startTime,
-      };
-    } catch (error) {
-      console.error('[DataSource] DB search failed, falling back to API:', (error as Error).message);
-      // Mark DB as unavailable and fall through to API
-      dbAvailable = false;
-    }
-  }
-
-  // Fallback to API
-  const data = await searchArtistsFromAPI(query, limit, offset);
-  return {
-    data,
-    source: 'api',
-    latencyMs: Date.now() - startTime,
-  };
+  return withFallback(
+    () => searchArtistsFromDB(query, limit, offset),
+    () => searchArtistsFromAPI(query, limit, offset)
+  );
 }
 
 /**
  * Get artist by MBID with automatic fallback
  */
 export async function getArtist(mbid: string): Promise<DataSourceResult<ArtistNode | null>> {
-  const startTime = Date.now();
-
-  // Try local DB first
-  if (await isDbAvailable()) {
-    try {
-      const data = await getArtistFromDB(mbid);
-      return {
-        data,
-        source: 'local',
-        latencyMs: Date.now() - startTime,
-      };
-    } catch (error) {
-      console.error('[DataSource] DB getArtist failed, falling back to API:', (error as Error).message);
-      dbAvailable = false;
-    }
-  }
-
-  // Fallback to API
-  const data = await getArtistFromAPI(mbid);
-  return {
-    data,
-    source: 'api',
-    latencyMs: Date.now() - startTime,
-  };
+  return withFallback(
+    () => getArtistFromDB(mbid),
+    () => getArtistFromAPI(mbid)
+  );
 }
 
 /**
  * Get artist relationships with automatic fallback
+ * The data is null for an unknown artist.
  */
 export async function getArtistRelationships(mbid: string): Promise<
   DataSourceResult<{
     artist: ArtistNode;
     relationships: ArtistRelationship[];
     relatedArtists: ArtistNode[];
-  }>
+  } | null>
 > {
+  return withFallback(
+    () => getArtistRelationshipsFromDB(mbid),
+    () => getArtistRelationshipsFromAPI(mbid)
+  );
+}
+
+/**
+ * Get artist life span with automatic fallback
+ */
+export async function getArtistLifeSpan(
+  mbid: string
+): Promise<DataSourceResult<{ begin?: string; end?: string | null } | undefined>> {
+  return withFallback(
+    () => getArtistLifeSpanFromDB(mbid),
+    () => getArtistLifeSpanFromAPI(mbid)
+  );
+}
+
+/**
+ * Get an artist's release groups (albums, EPs, singles) with automatic fallback
+ * Filtered, deduplicated and sorted newest first (see selectReleaseGroups)
+ */
+export async function getArtistReleaseGroups(
+  mbid: string,
+  primaryTypes: string[] = ['Album']
+): Promise<DataSourceResult<MusicBrainzReleaseGroup[]>> {
+  const result = await withFallback(
+    () => getArtistReleaseGroupsFromDB(mbid),
+    () => browseArtistReleaseGroupsFromAPI(mbid)
+  );
+  return { ...result, data: selectReleaseGroups(result.data, primaryTypes) };
+}
+
+/**
+ * Get the releases (editions) in a release group with automatic fallback
+ */
+export async function getReleaseGroupReleases(
+  releaseGroupMbid: string
+): Promise<DataSourceResult<ReleaseNode[]>> {
+  return withFallback(
+    () => getReleaseGroupReleasesFromDB(releaseGroupMbid),
+    () => getReleaseGroupReleasesFromAPI(releaseGroupMbid)
+  );
+}
+
+/**
+ * Get a page of an artist's recordings with automatic fallback
+ */
+export async function getArtistRecordings(
+  mbid: string,
+  limit: number = 100,
+  offset: number = 0
+): Promise<DataSourceResult<RecordingNode[]>> {
+  return withFallback(
+    () => getArtistRecordingsFromDB(mbid, limit, offset),
+    () => getArtistRecordingsFromAPI(mbid, limit, offset)
+  );
+}
+
+/**
+ * Get a release and its track list with automatic fallback
+ */
+export async function getReleaseTracks(
+  releaseMbid: string
+): Promise<DataSourceResult<ReleaseWithTracks | null>> {
+  return withFallback<ReleaseWithTracks | null>(
+    () => getReleaseTracksFromDB(releaseMbid),
+    () => getReleaseTracksFromAPI(releaseMbid)
+  );
+}
+
+// API fallback visits artists one request at a time (1 req/sec), so keep it small
+const API_PATH_MAX_NODES = 60;
+
+/**
+ * Expand a path-search frontier with one batched query against the local DB
+ */
+const expandFromDB: PathExpander = (mbids) => dataSources.call(DB, () => getArtistLinksFromDB(mbids));
+
+/**
+ * Expand a path-search frontier via the MusicBrainz API (one request per artist)
+ * Stops early when the deadline passes; the search then reports a timeout.
+ */
+const expandFromAPI: PathExpander = async (mbids, deadline) => {
+  const relationships: ArtistRelationship[] = [];
+  const artists: ArtistNode[] = [];
+
+  for (const mbid of mbids) {
+    if (Date.now() > deadline) break;
+    const data = await getArtistRelationshipsFromAPI(mbid);
+    if (!data) continue;
+    relationships.push(...data.relationships);
+    artists.push(data.artist, ...data.relatedArtists);
+  }
+
+  return { relationships, artists };
+};
+
+/**
+ * Find the shortest relationship chain between two artists with automatic fallback
+ */
+export async function findArtistPath(
+  fromMbid: string,
+  toMbid: string,
+  options: PathSearchOptions = {}
+): Promise<DataSourceResult<PathSearchResult>> {
   const startTime = Date.now();
 
   // Try local DB first
-  if (await isDbAvailable()) {
+  if (await dataSources.isAvailable(DB)) {
     try {
-      const data = await getArtistRelationshipsFromDB(mbid);
+      const data = await findShortestPath(fromMbid, toMbid, expandFromDB, options);
       return {
         data,
         source: 'local',
         latencyMs: Date.now() - startTime,
       };
     } catch (error) {
-      console.error('[DataSource] DB getArtistRelationships failed, falling back to API:', (error as Error).message);
-      dbAvailable = false;
+      console.error('[DataSource] DB findArtistPath failed, falling back to API:', (error as Error).message);
     }
   }
 
-  // Fallback to API
-  const data = await getArtistRelationshipsFromAPI(mbid);
+  // Fallback to API (heavily capped - every visited artist is a rate-limited request)
+  const data = await findShortestPath(fromMbid, toMbid, expandFromAPI, {
+    ...options,
+    maxNodes: Math.min(options.maxNodes ?? API_PATH_MAX_NODES, API_PATH_MAX_NODES),
+  });
   return {
     data,
     source: 'api',
@@ -188,31 +291,70 @@ export async function getArtistRelationships(mbid: string): Promise<
   };
 }
 
+// API fallback expands one artist per request (1 req/sec) - cap it like path search
+const API_EXPAND_MAX_ARTISTS = 100;
+
 /**
- * Get artist life span with automatic fallback
+ * Load a batch of artists' relationships with one query against the local DB
  */
-export async function getArtistLifeSpan(
-  mbid: string
-): Promise<DataSourceResult<{ begin?: string; end?: string | null } | undefined>> {
+const loadFromDB: ExpansionLoader = (mbids) => dataSources.call(DB, () => getArtistRelationshipsBatchFromDB(mbids));
+
+/**
+ * Load artists' relationships via the MusicBrainz API (one request per artist)
+ * Artists that fail to load are skipped rather than failing the expansion.
+ */
+const loadFromAPI: ExpansionLoader = async (mbids) => {
+  const results = [];
+
+  for (const mbid of mbids) {
+    try {
+      const data = await getArtistRelationshipsFromAPI(mbid);
+      if (data) results.push(data);
+    } catch (error) {
+      console.warn(`[DataSource] API expansion skipped ${mbid}:`, (error as Error).message);
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Expand an artist's graph to the given depth with automatic fallback
+ * The root artist always comes from getArtistRelationships; deeper levels are
+ * loaded in batches (local DB) or artist by artist (API, capped). If the DB
+ * fails midway, expansion restarts against the API - chunks already emitted
+ * are a subset of what the restart emits, so consumers can merge both.
+ * Returns null for an unknown root artist.
+ */
+export async function expandArtistNetwork(
+  rootMbid: string,
+  depth: ExpansionDepth,
+  options: ExpansionOptions = {}
+): Promise<DataSourceResult<ExpansionResult> | null> {
   const startTime = Date.now();
+  const root = await getArtistRelationships(rootMbid);
+  if (!root.data) return null;
 
   // Try local DB first
-  if (await isDbAvailable()) {
+  if (root.source === 'local' && await dataSources.isAvailable(DB)) {
     try {
-      const data = await getArtistLifeSpanFromDB(mbid);
+      const data = await expandArtistGraph(root.data, depth, loadFromDB, options);
       return {
         data,
         source: 'local',
         latencyMs: Date.now() - startTime,
       };
     } catch (error) {
-      console.error('[DataSource] DB getArtistLifeSpan failed, falling back to API:', (error as Error).message);
-      dbAvailable = false;
+      console.error('[DataSource] DB expandArtistNetwork failed, falling back to API:', (error as Error).message);
     }
   }
 
-  // Fallback to API
-  const data = await getArtistLifeSpanFromAPI(mbid);
+  // Fallback to API (heavily capped - every expanded artist is a rate-limited request)
+  const data = await expandArtistGraph(root.data, depth, loadFromAPI, {
+    ...options,
+    batchSize: 1,
+    maxArtists: Math.min(options.maxArtists ?? API_EXPAND_MAX_ARTISTS, API_EXPAND_MAX_ARTISTS),
+  });
   return {
     data,
     source: 'api',
@@ -220,6 +362,57 @@ export async function getArtistLifeSpan(
   };
 }
 
+/**
+ * Infer label-mate and same-scene relationships between artists
+ * Local DB only: the MusicBrainz API would need several release browses per
+ * artist, so without the DB this returns null instead of falling back.
+ */
+export async function deriveArtistRelationships(
+  mbids: string[],
+  options: DerivationOptions = {}
+): Promise<DataSourceResult<ArtistRelationship[]> | null> {
+  const startTime = Date.now();
+  if (!(await dataSources.isAvailable(DB))) return null;
+
+  try {
+    const contexts = await dataSources.call(DB, () => getArtistDerivationContextsFromDB(mbids));
+    return {
+      data: deriveRelationships(contexts, options),
+      source: 'local',
+      latencyMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    console.error('[DataSource] DB deriveArtistRelationships failed:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Link an artist to the artists credited on the same recordings and releases
+ * (session players, engineers, producers...)
+ * Local DB only: the MusicBrainz API would need a lookup per recording, so
+ * without the DB this returns null instead of falling back.
+ */
+export async function getArtistCreditRelationships(
+  mbid: string,
+  options: CreditOptions = {}
+): Promise<DataSourceResult<CreditRelationships> | null> {
+  const startTime = Date.now();
+  if (!(await dataSources.isAvailable(DB))) return null;
+
+  try {
+    const partners = await dataSources.call(DB, () => getArtistCreditPartnersFromDB(mbid));
+    return {
+      data: buildCreditRelationships(mbid, partners, options),
+      source: 'local',
+      latencyMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    console.error('[DataSource] DB getArtistCreditRelationships failed:', (error as Error).message);
+    return null;
+  }
+}
+
 // ============================================================================
 // Health Check (for API routes)
 // ============================================================================
@@ -230,23 +423,30 @@ export interface HealthStatus {
     lastChecked: number;
   };
   api: {
-    available: boolean; // API is always available (with rate limits)
+    available: boolean;
   };
+  /** Every registered backend (Solr, databases, API), in order of preference */
+  providers: DataSourceHealth[];
 }
 
 /**
  * Get current data source health status
+ * `force` re-probes every backend and lets open circuits try again right away
+ * (the "retry" button in the UI).
  */
-export async function getHealthStatus(): Promise<HealthStatus> {
-  const available = await isDbAvailable();
+export async function getHealthStatus({ force = false }: { force?: boolean } = {}): Promise<HealthStatus> {
+  const providers = await dataSources.getHealth({ force });
+  const localDb = providers.find(provider => provider.id === DB)!;
 
   return {
     localDb: {
-      available,
-      lastChecked: lastDbCheck,
+      available: localDb.available,
+      lastChecked: localDb.lastCheckedAt ?? Date.now(),
     },
     api: {
-      available: true, // MusicBrainz API is assumed always available
+      // Either MusicBrainz server
+      available: providers.some(provider => API_PROVIDERS.includes(provider.id) && provider.available),
     },
+    providers,
   };
 }
@@ -12,7 +12,16 @@
  */
 
 import { Pool, PoolConfig } from 'pg';
-import type { ArtistNode, ArtistRelationship } from '@/types';
+import type {
+  ArtistNode,
+  ArtistRelationship,
+  MusicBrainzReleaseGroup,
+  RecordingNode,
+  ReleaseNode,
+  ReleaseWithTracks,
+} from '@/types';
+import type { ArtistDerivationContext } from '@/lib/graph/derived';
+import { MAX_CREDIT_TITLES, type CreditPartner } from '@/lib/graph/credits';
 
 // ============================================================================
 // Configuration (all from environment variables for cloud deployment)
@@ -151,12 +160,31 @@ interface DbRelationship {
   entity0_name: string;
   entity0_type: string | null;
   entity0_comment: string | null;
+  /** Life span of each end, for ArtistNode.activeYears */
+  entity0_begin_year: number | null;
+  entity0_begin_month: number | null;
+  entity0_begin_day: number | null;
+  entity0_end_year: number | null;
+  entity0_end_month: number | null;
+  entity0_end_day: number | null;
+  entity0_ended: boolean;
   entity1_gid: string;
   entity1_name: string;
   entity1_type: string | null;
   entity1_comment: string | null;
+  entity1_begin_year: number | null;
+  entity1_begin_month: number | null;
+  entity1_begin_day: number | null;
+  entity1_end_year: number | null;
+  entity1_end_month: number | null;
+  entity1_end_day: number | null;
+  entity1_ended: boolean;
   link_type_name: string;
   link_type_gid: string;
+  entity0_credit: string;
+  entity1_credit: string;
+  /** Link attributes with credited-as text (json_agg, null when the link has none) */
+  attributes: Array<{ name: string; credit: string | null }> | null;
   begin_date_year: number | null;
   begin_date_month: number | null;
   begin_date_day: number | null;
@@ -176,6 +204,19 @@ function formatDate(year: number | null, month: number | null, day: number | nul
   return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 }
 
+type DbDate = [year: number | null, month: number | null, day: number | null];
+
+/**
+ * Artist life span as ArtistNode.activeYears (undefined when the begin date is unknown)
+ */
+function formatActiveYears(begin: DbDate, end: DbDate, ended: boolean): ArtistNode['activeYears'] {
+  if (!begin[0]) return undefined;
+  return {
+    begin: formatDate(...begin),
+    end: ended ? formatDate(...end) : null,
+  };
+}
+
 /**
  * Map database artist row to ArtistNode
  */
@@ -186,14 +227,11 @@ function mapDbArtistToNode(row: DbArtist, genres?: string[]): ArtistNode {
     type: row.type_name === 'Person' ? 'person' : 'group',
     disambiguation: row.comment || undefined,
     country: row.country_code || undefined,
-    activeYears: row.begin_date_year
-      ? {
-          begin: formatDate(row.begin_date_year, row.begin_date_month, row.begin_date_day),
-          end: row.ended
-            ? formatDate(row.end_date_year, row.end_date_month, row.end_date_day)
-            : null,
-        }
-      : undefined,
+    activeYears: formatActiveYears(
+      [row.begin_date_year, row.begin_date_month, row.begin_date_day],
+      [row.end_date_year, row.end_date_month, row.end_date_day],
+      row.ended
+    ),
     genres,
     loaded: false,
   };
@@ -204,6 +242,7 @@ function mapDbArtistToNode(row: DbArtist, genres?: string[]): ArtistNode {
 // ============================================================================
 
 import { mapTagsToGenres } from '@/lib/genres/mapping';
+import { mapLinkType, mapLinkAttributes } from '@/lib/relationships/mapping';
 
 /**
  * Fetch tags for an artist from the database
@@ -309,34 +348,51 @@ export async function getArtistFromDB(mbid: string): Promise<ArtistNode | null>
   return mapDbArtistToNode(rows[0], genres);
 }
 
+// ============================================================================
+// Relationship Mapping
+// ============================================================================
+
 /**
- * Get artist relationships (band members, collaborations, etc.)
+ * Shared SELECT list and joins for artist-artist link rows
+ * Attributes (instruments, "original", ...) and their credited-as text are
+ * aggregated per link so each row maps to exactly one relationship.
  */
-export async function getArtistRelationshipsFromDB(mbid: string): Promise<{
-  artist: ArtistNode;
-  relationships: ArtistRelationship[];
-  relatedArtists: ArtistNode[];
-}> {
-  // First get the main artist
-  const artist = await getArtistFromDB(mbid);
-  if (!artist) {
-    throw new Error(`Artist not found: ${mbid}`);
-  }
-  artist.loaded = true;
-
-  // Get all artist-to-artist relationships (both directions)
-  const sql = `
+const RELATIONSHIP_SELECT = `
     SELECT
       a1.gid as entity0_gid,
       a1.name as entity0_name,
       at1.name as entity0_type,
       a1.comment as entity0_comment,
+      a1.begin_date_year as entity0_begin_year,
+      a1.begin_date_month as entity0_begin_month,
+      a1.begin_date_day as entity0_begin_day,
+      a1.end_date_year as entity0_end_year,
+      a1.end_date_month as entity0_end_month,
+      a1.end_date_day as entity0_end_day,
+      a1.ended as entity0_ended,
       a2.gid as entity1_gid,
       a2.name as entity1_name,
       at2.name as entity1_type,
       a2.comment as entity1_comment,
+      a2.begin_date_year as entity1_begin_year,
+      a2.begin_date_month as entity1_begin_month,
+      a2.begin_date_day as entity1_begin_day,
+      a2.end_date_year as entity1_end_year,
+      a2.end_date_month as entity1_end_month,
+      a2.end_date_day as entity1_end_day,
+      a2.ended as entity1_ended,
       lt.name as link_type_name,
       lt.gid as link_type_gid,
+      laa.entity0_credit,
+      laa.entity1_credit,
+      (
+        SELECT json_agg(json_build_object('name', lat.name, 'credit', lac.credited_as))
+        FROM musicbrainz.link_attribute la
+        JOIN musicbrainz.link_attribute_type lat ON la.attribute_type = lat.id
+        LEFT JOIN musicbrainz.link_attribute_credit lac
+          ON lac.link = la.link AND lac.attribute_type = la.attribute_type
+        WHERE la.link = l.id
+      ) as attributes,
       l.begin_date_year,
       l.begin_date_month,
       l.begin_date_day,
@@ -350,76 +406,113 @@ export async function getArtistRelationshipsFromDB(mbid: string): Promise<{
     JOIN musicbrainz.artist a1 ON laa.entity0 = a1.id
     JOIN musicbrainz.artist a2 ON laa.entity1 = a2.id
     LEFT JOIN musicbrainz.artist_type at1 ON a1.type = at1.id
-    LEFT JOIN musicbrainz.artist_type at2 ON a2.type = at2.id
-    WHERE a1.gid = $1::uuid OR a2.gid = $1::uuid
-  `;
+    LEFT JOIN musicbrainz.artist_type at2 ON a2.type = at2.id`;
 
-  const rows = await query<DbRelationship>(sql, [mbid]);
+function mapDbEntity0ToNode(row: DbRelationship): ArtistNode {
+  return {
+    id: row.entity0_gid,
+    name: row.entity0_name,
+    type: row.entity0_type === 'Person' ? 'person' : 'group',
+    disambiguation: row.entity0_comment || undefined,
+    activeYears: formatActiveYears(
+      [row.entity0_begin_year, row.entity0_begin_month, row.entity0_begin_day],
+      [row.entity0_end_year, row.entity0_end_month, row.entity0_end_day],
+      row.entity0_ended
+    ),
+    loaded: false,
+  };
+}
 
-  const relationships: ArtistRelationship[] = [];
-  const relatedArtistsMap = new Map<string, ArtistNode>();
+function mapDbEntity1ToNode(row: DbRelationship): ArtistNode {
+  return {
+    id: row.entity1_gid,
+    name: row.entity1_name,
+    type: row.entity1_type === 'Person' ? 'person' : 'group',
+    disambiguation: row.entity1_comment || undefined,
+    activeYears: formatActiveYears(
+      [row.entity1_begin_year, row.entity1_begin_month, row.entity1_begin_day],
+      [row.entity1_end_year, row.entity1_end_month, row.entity1_end_day],
+      row.entity1_ended
+    ),
+    loaded: false,
+  };
+}
+
+/**
+ * Map an l_artist_artist row to an ArtistRelationship
+ * Must produce the same shape as mapRelationToEdge in client.ts
+ * (checked by relationship-contract.test.ts).
+ */
+export function mapDbRelationshipRow(
+  row: DbRelationship,
+  direction: ArtistRelationship['direction']
+): ArtistRelationship {
+  const mappedType = mapLinkType(row.link_type_name);
+
+  // Create relationship (source -> target direction preserved from original link)
+  // Include begin date in ID to handle multiple relationships of same type
+  // (e.g., musician who left and rejoined a band)
+  const beginDate = formatDate(row.begin_date_year, row.begin_date_month, row.begin_date_day);
+  const periodSuffix = beginDate ? `-${beginDate}` : '';
 
-  // Relationship type mapping (matching existing client.ts)
-  const typeMap: Record<string, ArtistRelationship['type']> = {
-    'member of band': 'member_of',
-    'founder': 'founder_of',
-    'collaboration': 'collaboration',
-    'vocal': 'collaboration',
-    'instrument': 'collaboration',
-    'producer': 'producer',
-    'influenced by': 'influenced_by',
-    'subgroup': 'side_project',
-    'supporting musician': 'touring_member',
+  return {
+    id: `${row.entity0_gid}-${mappedType}-${row.entity1_gid}${periodSuffix}`,
+    source: row.entity0_gid,
+    target: row.entity1_gid,
+    type: mappedType,
+    ...mapLinkAttributes(row.attributes ?? []),
+    sourceCredit: row.entity0_credit || undefined,
+    targetCredit: row.entity1_credit || undefined,
+    period: {
+      begin: beginDate,
+      end: row.ended
+        ? formatDate(row.end_date_year, row.end_date_month, row.end_date_day)
+        : null,
+    },
+    direction,
   };
+}
 
-  // Skip these relationship types
-  const skipTypes = new Set(['tribute', 'is person', 'named after']);
+/**
+ * Get artist relationships (band members, collaborations, etc.)
+ * Returns null for an unknown artist.
+ */
+export async function getArtistRelationshipsFromDB(mbid: string): Promise<{
+  artist: ArtistNode;
+  relationships: ArtistRelationship[];
+  relatedArtists: ArtistNode[];
+} | null> {
+  // First get the main artist
+  const artist = await getArtistFromDB(mbid);
+  if (!artist) {
+    return null;
+  }
+  artist.loaded = true;
 
-  for (const row of rows) {
-    const linkType = row.link_type_name.toLowerCase();
+  // Get all artist-to-artist relationships (both directions)
+  const sql = `${RELATIONSHIP_SELECT}
+    WHERE a1.gid = $1::uuid OR a2.gid = $1::uuid
+  `;
 
-    if (skipTypes.has(linkType)) continue;
+  const rows = await query<DbRelationship>(sql, [mbid]);
 
-    const mappedType = typeMap[linkType] || 'collaboration';
+  const relationships: ArtistRelationship[] = [];
+  const relatedArtistsMap = new Map<string, ArtistNode>();
 
+  for (const row of rows) {
     // Determine which entity is the queried artist and which is the related one
     // entity0 is source, entity1 is target in MusicBrainz relationships
     const queriedIsEntity0 = row.entity0_gid === mbid;
-    const relatedGid = queriedIsEntity0 ? row.entity1_gid : row.entity0_gid;
-    const relatedName = queriedIsEntity0 ? row.entity1_name : row.entity0_name;
-    const relatedType = queriedIsEntity0 ? row.entity1_type : row.entity0_type;
-    const relatedComment = queriedIsEntity0 ? row.entity1_comment : row.entity0_comment;
+    const relationship = mapDbRelationshipRow(row, queriedIsEntity0 ? 'forward' : 'backward');
+
+    const related = queriedIsEntity0 ? mapDbEntity1ToNode(row) : mapDbEntity0ToNode(row);
 
     // Add related artist if not already in map
-    if (!relatedArtistsMap.has(relatedGid) && relatedGid !== mbid) {
-      relatedArtistsMap.set(relatedGid, {
-        id: relatedGid,
-        name: relatedName,
-        type: relatedType === 'Person' ? 'person' : 'group',
-        disambiguation: relatedComment || undefined,
-        loaded: false,
-      });
+    if (!relatedArtistsMap.has(related.id) && related.id !== mbid) {
+      relatedArtistsMap.set(related.id, related);
     }
 
-    // Create relationship (source -> target direction preserved from original link)
-    // Include begin date in ID to handle multiple relationships of same type
-    // (e.g., musician who left and rejoined a band)
-    const beginDate = formatDate(row.begin_date_year, row.begin_date_month, row.begin_date_day);
-    const periodSuffix = beginDate ? `-${beginDate}` : '';
-
-    relationships.push({
-      id: `${row.entity0_gid}-${mappedType}-${row.entity1_gid}${periodSuffix}`,
-      source: row.entity0_gid,
-      target: row.entity1_gid,
-      type: mappedType,
-      period: {
-        begin: beginDate,
-        end: row.ended
-          ? formatDate(row.end_date_year, row.end_date_month, row.end_date_day)
-          : null,
-      },
-      direction: queriedIsEntity0 ? 'forward' : 'backward',
-    });
+    relationships.push(relationship);
   }
 
   return {
@@ -429,6 +522,101 @@ export async function getArtistRelationshipsFromDB(mbid: string): Promise<{
   };
 }
 
+/**
+ * Every artist-artist link touching any of the given artists, in one query,
+ * with both ends mapped to artist nodes
+ * Shared by frontier (path finding) and batch (graph expansion) loading so
+ * the two map links identically.
+ */
+async function queryArtistLinks(mbids: string[]): Promise<Array<{
+  row: DbRelationship;
+  entity0: ArtistNode;
+  entity1: ArtistNode;
+}>> {
+  if (mbids.length === 0) return [];
+
+  const sql = `${RELATIONSHIP_SELECT}
+    WHERE a1.gid = ANY($1::uuid[]) OR a2.gid = ANY($1::uuid[])
+  `;
+
+  const rows = await query<DbRelationship>(sql, [mbids]);
+  return rows.map(row => ({ row, entity0: mapDbEntity0ToNode(row), entity1: mapDbEntity1ToNode(row) }));
+}
+
+/**
+ * Get every artist-artist link touching any of the given artists in one query
+ * Used by graph traversal (path finding) to expand a whole BFS frontier at once.
+ * Returned artists include both ends of each link; relationship direction is
+ * always 'forward' (entity0 -> entity1) since there is no single queried artist.
+ */
+export async function getArtistLinksFromDB(mbids: string[]): Promise<{
+  relationships: ArtistRelationship[];
+  artists: ArtistNode[];
+}> {
+  const links = await queryArtistLinks(mbids);
+
+  const relationships: ArtistRelationship[] = [];
+  const artistsMap = new Map<string, ArtistNode>();
+
+  for (const { row, entity0, entity1 } of links) {
+    if (!artistsMap.has(entity0.id)) artistsMap.set(entity0.id, entity0);
+    if (!artistsMap.has(entity1.id)) artistsMap.set(entity1.id, entity1);
+    relationships.push(mapDbRelationshipRow(row, 'forward'));
+  }
+
+  return {
+    relationships,
+    artists: Array.from(artistsMap.values()),
+  };
+}
+
+/**
+ * Get relationships for several artists in one query, grouped per artist
+ * Same shape as getArtistRelationshipsFromDB for each artist, but the artist
+ * node comes from the link rows (life span, no genres) and artists without any
+ * artist-artist links are left out. Used by server-side graph expansion.
+ */
+export async function getArtistRelationshipsBatchFromDB(mbids: string[]): Promise<Array<{
+  artist: ArtistNode;
+  relationships: ArtistRelationship[];
+  relatedArtists: ArtistNode[];
+}>> {
+  const links = await queryArtistLinks(mbids);
+
+  const requested = new Set(mbids);
+  const byArtist = new Map<string, {
+    artist: ArtistNode;
+    relationships: ArtistRelationship[];
+    relatedArtists: Map<string, ArtistNode>;
+  }>();
+
+  const add = (mbid: string, self: ArtistNode, related: ArtistNode, row: DbRelationship) => {
+    let entry = byArtist.get(mbid);
+    if (!entry) {
+      entry = { artist: { ...self, loaded: true }, relationships: [], relatedArtists: new Map() };
+      byArtist.set(mbid, entry);
+    }
+    entry.relationships.push(mapDbRelationshipRow(row, row.entity0_gid === mbid ? 'forward' : 'backward'));
+    if (related.id !== mbid && !entry.relatedArtists.has(related.id)) {
+      entry.relatedArtists.set(related.id, related);
+    }
+  };
+
+  // A link between two requested artists belongs to both of them
+  for (const { row, entity0, entity1 } of links) {
+    if (requested.has(entity0.id)) add(entity0.id, entity0, entity1, row);
+    if (requested.has(entity1.id) && entity1.id !== entity0.id) {
+      add(entity1.id, entity1, entity0, row);
+    }
+  }
+
+  return Array.from(byArtist.values(), entry => ({
+    artist: entry.artist,
+    relationships: entry.relationships,
+    relatedArtists: Array.from(entry.relatedArtists.values()),
+  }));
+}
+
 /**
  * Get artist life span (for enriching member data)
  */
@@ -470,3 +658,534 @@ export async function getArtistLifeSpanFromDB(
       : null,
   };
 }
+
+// ============================================================================
+// Release and Recording Queries
+// ============================================================================
+// Each maps to the same output types as the API client (client.ts), so the
+// timeline and discographies can't tell which source served them.
+
+/**
+ * MBID of the first artist in an artist credit (the "primary" artist)
+ */
+const firstCreditedArtist = (creditColumn: string) => `(
+      SELECT a.gid
+      FROM musicbrainz.artist_credit_name acn
+      JOIN musicbrainz.artist a ON acn.artist = a.id
+      WHERE acn.artist_credit = ${creditColumn}
+      ORDER BY acn.position
+      LIMIT 1
+    )`;
+
+/**
+ * First ISRC of a recording (the API's `isrcs[0]`)
+ */
+const firstIsrc = (recordingColumn: string) => `(
+      SELECT i.isrc FROM musicbrainz.isrc i WHERE i.recording = ${recordingColumn} ORDER BY i.isrc LIMIT 1
+    )`;
+
+interface DbRelease {
+  gid: string;
+  name: string;
+  comment: string | null;
+  barcode: string | null;
+  artist_credit: string;
+  artist_gid: string | null;
+  type_name: string | null;
+  date_year: number | null;
+  date_month: number | null;
+  date_day: number | null;
+  country_code: string | null;
+  label_name: string | null;
+}
+
+/**
+ * Shared SELECT list and joins for releases
+ * Date and country come from the earliest release event, like the API's
+ * `date` and `country`; the label is the first one alphabetically.
+ */
+const RELEASE_SELECT = `
+    SELECT
+      r.gid,
+      r.name,
+      r.comment,
+      r.barcode,
+      ac.name as artist_credit,
+      ${firstCreditedArtist('r.artist_credit')} as artist_gid,
+      pt.name as type_name,
+      ev.date_year,
+      ev.date_month,
+      ev.date_day,
+      ev.country_code,
+      (
+        SELECT lb.name
+        FROM musicbrainz.release_label rl
+        JOIN musicbrainz.label lb ON rl.label = lb.id
+        WHERE rl.release = r.id
+        ORDER BY lb.name
+        LIMIT 1
+      ) as label_name
+    FROM musicbrainz.release r
+    JOIN musicbrainz.release_group rg ON r.release_group = rg.id
+    JOIN musicbrainz.artist_credit ac ON r.artist_credit = ac.id
+    LEFT JOIN musicbrainz.release_group_primary_type pt ON rg.type = pt.id
+    LEFT JOIN LATERAL (
+      SELECT date_year, date_month, date_day, country_code
+      FROM (
+        SELECT rc.date_year, rc.date_month, rc.date_day, iso.code as country_code
+        FROM musicbrainz.release_country rc
+        LEFT JOIN musicbrainz.iso_3166_1 iso ON iso.area = rc.country
+        WHERE rc.release = r.id
+        UNION ALL
+        SELECT ruc.date_year, ruc.date_month, ruc.date_day, NULL
+        FROM musicbrainz.release_unknown_country ruc
+        WHERE ruc.release = r.id
+      ) events
+      ORDER BY date_year NULLS LAST, date_month NULLS LAST, date_day NULLS LAST
+      LIMIT 1
+    ) ev ON true`;
+
+function mapDbReleaseToNode(row: DbRelease): ReleaseNode {
+  return {
+    id: row.gid,
+    name: row.name,
+    artistCredit: row.artist_credit || undefined,
+    artistId: row.artist_gid || undefined,
+    type: row.type_name || undefined,
+    date: formatDate(row.date_year, row.date_month, row.date_day),
+    country: row.country_code || undefined,
+    labelName: row.label_name || undefined,
+    barcode: row.barcode || undefined,
+    disambiguation: row.comment || undefined,
+  };
+}
+
+/**
+ * Get every release group (unfiltered) credited to an artist
+ * Same as browsing /release-group?artist= on the API; filter the result with
+ * selectReleaseGroups from client.ts.
+ */
+export async function getArtistReleaseGroupsFromDB(mbid: string): Promise<MusicBrainzReleaseGroup[]> {
+  const sql = `
+    SELECT DISTINCT ON (rg.id)
+      rg.gid,
+      rg.name,
+      rg.comment,
+      pt.name as primary_type,
+      (
+        SELECT array_agg(st.name ORDER BY st.name)
+        FROM musicbrainz.release_group_secondary_type_join stj
+        JOIN musicbrainz.release_group_secondary_type st ON stj.secondary_type = st.id
+        WHERE stj.release_group = rg.id
+      ) as secondary_types,
+      rgm.first_release_date_year,
+      rgm.first_release_date_month,
+      rgm.first_release_date_day
+    FROM musicbrainz.artist a
+    JOIN musicbrainz.artist_credit_name acn ON acn.artist = a.id
+    JOIN musicbrainz.release_group rg ON rg.artist_credit = acn.artist_credit
+    LEFT JOIN musicbrainz.release_group_primary_type pt ON rg.type = pt.id
+    LEFT JOIN musicbrainz.release_group_meta rgm ON rgm.id = rg.id
+    WHERE a.gid = $1::uuid
+  `;
+
+  const rows = await query<{
+    gid: string;
+    name: string;
+    comment: string | null;
+    primary_type: string | null;
+    secondary_types: string[] | null;
+    first_release_date_year: number | null;
+    first_release_date_month: number | null;
+    first_release_date_day: number | null;
+  }>(sql, [mbid]);
+
+  return rows.map(row => ({
+    id: row.gid,
+    title: row.name,
+    'primary-type': row.primary_type || undefined,
+    'secondary-types': row.secondary_types ?? [],
+    'first-release-date': formatDate(
+      row.first_release_date_year,
+      row.first_release_date_month,
+      row.first_release_date_day
+    ),
+    disambiguation: row.comment || undefined,
+  }));
+}
+
+/**
+ * Get every release (edition) in a release group, earliest first
+ */
+export async function getReleaseGroupReleasesFromDB(releaseGroupMbid: string): Promise<ReleaseNode[]> {
+  const sql = `${RELEASE_SELECT}
+    WHERE rg.gid = $1::uuid
+    ORDER BY ev.date_year NULLS LAST, ev.date_month NULLS LAST, ev.date_day NULLS LAST, r.name
+  `;
+
+  const rows = await query<DbRelease>(sql, [releaseGroupMbid]);
+  return rows.map(mapDbReleaseToNode);
+}
+
+/**
+ * Get a page of recordings credited to an artist
+ */
+export async function getArtistRecordingsFromDB(
+  mbid: string,
+  limit: number = 100,
+  offset: number = 0
+): Promise<RecordingNode[]> {
+  const sql = `
+    SELECT
+      rec.gid,
+      rec.name,
+      rec.length,
+      rec.comment,
+      ac.name as artist_credit,
+      ${firstCreditedArtist('rec.artist_credit')} as artist_gid,
+      ${firstIsrc('rec.id')} as isrc
+    FROM musicbrainz.recording rec
+    JOIN musicbrainz.artist_credit ac ON rec.artist_credit = ac.id
+    WHERE rec.artist_credit IN (
+      SELECT acn.artist_credit
+      FROM musicbrainz.artist_credit_name acn
+      JOIN musicbrainz.artist a ON acn.artist = a.id
+      WHERE a.gid = $1::uuid
+    )
+    ORDER BY rec.name, rec.id
+    LIMIT $2 OFFSET $3
+  `;
+
+  const rows = await query<{
+    gid: string;
+    name: string;
+    length: number | null;
+    comment: string | null;
+    artist_credit: string;
+    artist_gid: string | null;
+    isrc: string | null;
+  }>(sql, [mbid, limit, offset]);
+
+  return rows.map(row => ({
+    id: row.gid,
+    name: row.name,
+    artistCredit: row.artist_credit || undefined,
+    artistId: row.artist_gid || undefined,
+    duration: row.length ?? undefined,
+    disambiguation: row.comment || undefined,
+    isrc: row.isrc || undefined,
+  }));
+}
+
+/**
+ * Get a release with its track list (every medium, in order)
+ * Returns null if the release doesn't exist.
+ */
+export async function getReleaseTracksFromDB(releaseMbid: string): Promise<ReleaseWithTracks | null> {
+  const releaseSql = `${RELEASE_SELECT}
+    WHERE r.gid = $1::uuid
+  `;
+
+  const tracksSql = `
+    SELECT
+      t.gid,
+      t.position,
+      t.number,
+      t.name,
+      t.length,
+      m.position as medium_position,
+      mf.name as medium_format,
+      rec.gid as recording_gid,
+      rec.name as recording_name,
+      rec.length as recording_length,
+      rec.comment as recording_comment,
+      ac.name as artist_credit,
+      ${firstCreditedArtist('t.artist_credit')} as artist_gid,
+      ${firstIsrc('rec.id')} as isrc
+    FROM musicbrainz.track t
+    JOIN musicbrainz.medium m ON t.medium = m.id
+    JOIN musicbrainz.release r ON m.release = r.id
+    LEFT JOIN musicbrainz.medium_format mf ON m.format = mf.id
+    JOIN musicbrainz.recording rec ON t.recording = rec.id
+    JOIN musicbrainz.artist_credit ac ON t.artist_credit = ac.id
+    WHERE r.gid = $1::uuid
+    ORDER BY m.position, t.position
+  `;
+
+  const [releaseRows, trackRows] = await Promise.all([
+    query<DbRelease>(releaseSql, [releaseMbid]),
+    query<{
+      gid: string;
+      position: number;
+      number: string;
+      name: string;
+      length: number | null;
+      medium_position: number;
+      medium_format: string | null;
+      recording_gid: string;
+      recording_name: string;
+      recording_length: number | null;
+      recording_comment: string | null;
+      artist_credit: string;
+      artist_gid: string | null;
+      isrc: string | null;
+    }>(tracksSql, [releaseMbid]),
+  ]);
+
+  if (releaseRows.length === 0) return null;
+  const release = mapDbReleaseToNode(releaseRows[0]);
+
+  return {
+    release,
+    tracks: trackRows.map(row => ({
+      id: row.gid,
+      position: row.position,
+      number: row.number,
+      title: row.name,
+      length: row.length ?? undefined,
+      medium: row.medium_position,
+      mediumFormat: row.medium_format || undefined,
+      recording: {
+        id: row.recording_gid,
+        name: row.recording_name,
+        artistCredit: row.artist_credit || undefined,
+        artistId: row.artist_gid || undefined,
+        duration: row.recording_length ?? undefined,
+        disambiguation: row.recording_comment || undefined,
+        releaseTitle: release.name,
+        releaseId: release.id,
+        isrc: row.isrc || undefined,
+      },
+    })),
+  };
+}
+
+// ============================================================================
+// Derivation Queries (label-mates, scenes)
+// ============================================================================
+
+// The "[no label]" placeholder label used for self-released records
+const NO_LABEL_GID = '157afde4-4bf5-4039-8ad2-5a15acc85176';
+
+/**
+ * Get what derived relationships are inferred from, for several artists:
+ * the labels their releases came out on (with first/last year and release
+ * count) and their type, and where and when they began
+ */
+export async function getArtistDerivationContextsFromDB(
+  mbids: string[]
+): Promise<ArtistDerivationContext[]> {
+  if (mbids.length === 0) return [];
+
+  const labelSql = `
+    SELECT
+      a.gid as artist_gid,
+      lb.gid as label_gid,
+      lb.name as label_name,
+      MIN(COALESCE(rc.date_year, ruc.date_year)) as first_year,
+      MAX(COALESCE(rc.date_year, ruc.date_year)) as last_year,
+      COUNT(DISTINCT r.id)::int as release_count
+    FROM musicbrainz.artist a
+    JOIN musicbrainz.artist_credit_name acn ON acn.artist = a.id
+    JOIN musicbrainz.release r ON r.artist_credit = acn.artist_credit
+    JOIN musicbrainz.release_label rl ON rl.release = r.id
+    JOIN musicbrainz.label lb ON rl.label = lb.id
+    LEFT JOIN musicbrainz.release_country rc ON rc.release = r.id
+    LEFT JOIN musicbrainz.release_unknown_country ruc ON ruc.release = r.id
+    WHERE a.gid = ANY($1::uuid[]) AND lb.gid <> $2::uuid
+    GROUP BY a.gid, lb.gid, lb.name
+  `;
+
+  // Formation area: begin area when known, else the artist's main area
+  // (for a person these are birthplace and birth year - derivation skips them)
+  const areaSql = `
+    SELECT
+      a.gid as artist_gid,
+      at.name as type_name,
+      a.begin_date_year,
+      ar.gid as area_gid,
+      ar.name as area_name,
+      art.name as area_type
+    FROM musicbrainz.artist a
+    LEFT JOIN musicbrainz.artist_type at ON a.type = at.id
+    LEFT JOIN musicbrainz.area ar ON ar.id = COALESCE(a.begin_area, a.area)
+    LEFT JOIN musicbrainz.area_type art ON ar.type = art.id
+    WHERE a.gid = ANY($1::uuid[])
+  `;
+
+  const [labelRows, areaRows] = await Promise.all([
+    query<{
+      artist_gid: string;
+      label_gid: string;
+      label_name: string;
+      first_year: number | null;
+      last_year: number | null;
+      release_count: number;
+    }>(labelSql, [mbids, NO_LABEL_GID]),
+    query<{
+      artist_gid: string;
+      type_name: string | null;
+      begin_date_year: number | null;
+      area_gid: string | null;
+      area_name: string | null;
+      area_type: string | null;
+    }>(areaSql, [mbids]),
+  ]);
+
+  const labelsByArtist = new Map<string, ArtistDerivationContext['labels']>();
+  for (const row of labelRows) {
+    const labels = labelsByArtist.get(row.artist_gid) ?? [];
+    labels.push({
+      labelId: row.label_gid,
+      labelName: row.label_name,
+      begin: row.first_year,
+      end: row.last_year,
+      releaseCount: row.release_count,
+    });
+    labelsByArtist.set(row.artist_gid, labels);
+  }
+
+  return areaRows.map(row => ({
+    artistId: row.artist_gid,
+    type: row.type_name === 'Person' ? 'person' : 'group',
+    labels: labelsByArtist.get(row.artist_gid) ?? [],
+    area: row.area_gid ? { id: row.area_gid, name: row.area_name ?? '', type: row.area_type } : null,
+    beginYear: row.begin_date_year,
+  }));
+}
+
+// ============================================================================
+// Credit Queries (artists credited on the same records)
+// ============================================================================
+
+// Special purpose artists credited on countless records (Various Artists,
+// [unknown], [anonymous], [traditional], [no artist]) - never credit partners
+const SPECIAL_PURPOSE_ARTIST_GIDS = [
+  '89ad4ac3-39f7-470e-963a-56509c546377',
+  '125ec42a-7229-4250-afc5-e057484327fe',
+  'f731ccc4-e22a-43af-a747-64213329e088',
+  '9be7f096-97ec-4615-8957-8d40b5dcbc41',
+  'eec63d3c-3b81-4ad4-b1e4-7c147d4d2b61',
+];
+
+// Partners fetched per entity, most shared credits first
+const MAX_CREDIT_PARTNERS = 100;
+
+interface DbCreditPartner extends DbArtist {
+  shared_count: number;
+  titles: string[];
+  roles: string[];
+}
+
+/**
+ * Artists credited on the same recordings (or releases) as the given artist
+ * An artist is credited on an item when it is in the item's artist credit or
+ * has a relationship to it (l_artist_recording / l_artist_release: instrument,
+ * vocal, producer, engineer, ...). Roles are the link types of the latter.
+ */
+async function getCreditPartnerRows(mbid: string, entity: 'recording' | 'release'): Promise<DbCreditPartner[]> {
+  const sql = `
+    WITH root AS (
+      SELECT id FROM musicbrainz.artist WHERE gid = $1::uuid
+    ),
+    root_items AS (
+      SELECT l.entity1 as item
+      FROM musicbrainz.l_artist_${entity} l
+      JOIN root ON l.entity0 = root.id
+      UNION
+      SELECT e.id
+      FROM musicbrainz.artist_credit_name acn
+      JOIN root ON acn.artist = root.id
+      JOIN musicbrainz.${entity} e ON e.artist_credit = acn.artist_credit
+    ),
+    credits AS (
+      SELECT l.entity0 as artist, ri.item, lt.name as role
+      FROM root_items ri
+      JOIN musicbrainz.l_artist_${entity} l ON l.entity1 = ri.item
+      JOIN musicbrainz.link lk ON l.link = lk.id
+      JOIN musicbrainz.link_type lt ON lk.link_type = lt.id
+      UNION
+      SELECT acn.artist, ri.item, NULL
+      FROM root_items ri
+      JOIN musicbrainz.${entity} e ON e.id = ri.item
+      JOIN musicbrainz.artist_credit_name acn ON acn.artist_credit = e.artist_credit
+    ),
+    shared AS (
+      SELECT
+        c.artist,
+        COUNT(DISTINCT c.item)::int as shared_count,
+        array_remove(array_agg(DISTINCT c.role), NULL) as roles
+      FROM credits c
+      JOIN musicbrainz.artist a ON a.id = c.artist
+      WHERE c.artist <> (SELECT id FROM root) AND a.gid <> ALL($2::uuid[])
+      GROUP BY c.artist
+      ORDER BY shared_count DESC
+      LIMIT $3
+    )
+    SELECT
+      a.gid,
+      a.name,
+      a.sort_name,
+      at.name as type_name,
+      a.comment,
+      (SELECT iso.code FROM musicbrainz.iso_3166_1 iso WHERE iso.area = a.area LIMIT 1) as country_code,
+      a.begin_date_year,
+      a.begin_date_month,
+      a.begin_date_day,
+      a.end_date_year,
+      a.end_date_month,
+      a.end_date_day,
+      a.ended,
+      s.shared_count,
+      s.roles,
+      ARRAY(
+        SELECT DISTINCT e.name
+        FROM credits c
+        JOIN musicbrainz.${entity} e ON e.id = c.item
+        WHERE c.artist = s.artist
+        ORDER BY e.name
+        LIMIT $4
+      ) as titles
+    FROM shared s
+    JOIN musicbrainz.artist a ON a.id = s.artist
+    LEFT JOIN musicbrainz.artist_type at ON a.type = at.id
+    ORDER BY s.shared_count DESC
+  `;
+
+  return query<DbCreditPartner>(sql, [mbid, SPECIAL_PURPOSE_ARTIST_GIDS, MAX_CREDIT_PARTNERS, MAX_CREDIT_TITLES]);
+}
+
+/**
+ * Get the artists credited on the same recordings and releases as an artist,
+ * with how many of each they share, some of the shared titles and their roles
+ */
+export async function getArtistCreditPartnersFromDB(mbid: string): Promise<CreditPartner[]> {
+  const [recordingRows, releaseRows] = await Promise.all([
+    getCreditPartnerRows(mbid, 'recording'),
+    getCreditPartnerRows(mbid, 'release'),
+  ]);
+
+  const partners = new Map<string, CreditPartner>();
+  const partnerFor = (row: DbCreditPartner): CreditPartner => {
+    let partner = partners.get(row.gid);
+    if (!partner) {
+      partner = {
+        artist: mapDbArtistToNode(row),
+        recordings: { count: 0, titles: [] },
+        releases: { count: 0, titles: [] },
+        roles: [],
+      };
+      partners.set(row.gid, partner);
+    }
+    partner.roles = [...new Set([...partner.roles, ...row.roles])];
+    return partner;
+  };
+
+  for (const row of recordingRows) {
+    partnerFor(row).recordings = { count: row.shared_count, titles: row.titles };
+  }
+  for (const row of releaseRows) {
+    partnerFor(row).releases = { count: row.shared_count, titles: row.titles };
+  }
+  return [...partners.values()];
+}
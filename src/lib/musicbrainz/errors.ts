@@ -0,0 +1,23 @@
+/**
+ * MusicBrainz API errors
+ *
+ * Separate from the API client so the data source registry can classify them
+ * (lib/data-sources) without importing the client.
+ */
+
+/** MusicBrainz answered with an error status (other than rate limiting) */
+export class MusicBrainzApiError extends Error {
+  constructor(public readonly status: number, statusText: string) {
+    super(`MusicBrainz API error: ${status} ${statusText}`);
+    this.name = 'MusicBrainzApiError';
+  }
+}
+
+/**
+ * Whether MusicBrainz rejected the request itself (unknown MBID, bad query) -
+ * an answer from a working server rather than a sign that it is down
+ */
+export function isMusicBrainzRequestError(error: unknown): boolean {
+  return error instanceof MusicBrainzApiError
+    && error.status >= 400 && error.status < 500 && error.status !== 429;
+}
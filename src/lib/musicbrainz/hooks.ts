@@ -1,7 +1,6 @@
 'use client';
 
 import { useQuery } from '@tanstack/react-query';
-import { buildArtistGraph } from './client';
 import { cacheGet, cacheSet, CacheTTL } from '@/lib/cache';
 import type { ArtistNode, ArtistRelationship, ArtistGraph } from '@/types';
 
@@ -12,7 +11,7 @@ async function searchArtistsCached(query: string, limit: number = 10): Promise<A
   const cacheKey = `artist-search-${query.toLowerCase()}-${limit}`;
 
   // Check cache (short TTL for searches - 5 minutes)
-  const cached = cacheGet<ArtistNode[]>(cacheKey);
+  const cached = await cacheGet<ArtistNode[]>('relationships', cacheKey);
   if (cached) {
     return cached;
   }
@@ -29,7 +28,7 @@ async function searchArtistsCached(query: string, limit: number = 10): Promise<A
   const artists = data.artists || [];
 
   // Cache for 5 minutes (searches are more dynamic)
-  cacheSet(cacheKey, artists, CacheTTL.SHORT);
+  await cacheSet('relationships', cacheKey, artists, CacheTTL.SHORT);
 
   return artists;
 }
@@ -41,14 +40,14 @@ interface RelationshipsData {
 }
 
 /**
- * Fetch relationships via API route with localStorage caching
+ * Fetch relationships via API route with browser caching
  * Note: Cache is invalidated if artist data is missing genres (for migration)
  */
 async function fetchRelationshipsCached(mbid: string): Promise<RelationshipsData> {
   const cacheKey = `artist-relationships-${mbid}`;
 
-  // Check localStorage cache first (instant)
-  const cached = cacheGet<RelationshipsData>(cacheKey);
+  // Check browser cache first
+  const cached = await cacheGet<RelationshipsData>('relationships', cacheKey);
   console.log('[hooks] fetchRelationshipsCached called for:', mbid);
   console.log('[hooks] Cache result:', cached ? 'HIT' : 'MISS');
 
@@ -82,12 +81,29 @@ async function fetchRelationshipsCached(mbid: string): Promise<RelationshipsData
   };
 
   // Cache for 1 week
-  cacheSet(cacheKey, result, CacheTTL.LONG);
+  await cacheSet('relationships', cacheKey, result, CacheTTL.LONG);
   console.log('[hooks] Cached result with genres:', result.artist?.genres);
 
   return result;
 }
 
+/**
+ * Fetch a single artist via API route (used to restore deep links)
+ */
+async function fetchArtistById(mbid: string): Promise<ArtistNode | null> {
+  const response = await fetch(`/api/musicbrainz/artist/${encodeURIComponent(mbid)}`);
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null;
+    }
+    throw new Error(`Failed to fetch artist: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.artist || null;
+}
+
 /**
  * Hook to search for artists (uses local DB via API route)
  */
@@ -101,10 +117,10 @@ export function useArtistSearch(query: string, enabled: boolean = true) {
 }
 
 /**
- * Hook to get artist relationships with localStorage caching
+ * Hook to get artist relationships with browser caching
  * Uses API route which leverages local DB when available
  *
- * Note: staleTime is 0 to ensure queryFn always runs, allowing localStorage
+ * Note: staleTime is 0 to ensure queryFn always runs, allowing the browser
  * cache to handle freshness and genre migration logic.
  */
 export function useArtistRelationships(mbid: string | null) {
@@ -112,18 +128,43 @@ export function useArtistRelationships(mbid: string | null) {
     queryKey: ['artistRelationships', mbid],
     queryFn: () => fetchRelationshipsCached(mbid!),
     enabled: !!mbid,
-    staleTime: 0, // Always call queryFn - localStorage cache handles freshness
+    staleTime: 0, // Always call queryFn - browser cache handles freshness
     gcTime: 5 * 60 * 1000, // Keep in memory for 5 minutes
   });
 }
 
+/**
+ * Hook to get a single artist by MBID
+ * Query key is shared with callers that seed it (e.g. after picking a search result)
+ */
+export function useArtistById(mbid: string | null) {
+  return useQuery<ArtistNode | null, Error>({
+    queryKey: ['artistById', mbid],
+    queryFn: () => fetchArtistById(mbid!),
+    enabled: !!mbid,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+}
+
+/**
+ * Build an artist's one-level graph from their relationships
+ */
+async function fetchArtistGraph(mbid: string): Promise<ArtistGraph> {
+  const { artist, relationships, relatedArtists } = await fetchRelationshipsCached(mbid);
+
+  return {
+    nodes: [{ data: artist }, ...relatedArtists.map(a => ({ data: a }))],
+    edges: relationships.map(r => ({ data: r })),
+  };
+}
+
 /**
  * Hook to build artist graph
  */
 export function useArtistGraph(mbid: string | null) {
   return useQuery<ArtistGraph, Error>({
     queryKey: ['artistGraph', mbid],
-    queryFn: () => buildArtistGraph(mbid!),
+    queryFn: () => fetchArtistGraph(mbid!),
     enabled: !!mbid,
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
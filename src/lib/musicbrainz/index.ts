@@ -1,23 +1,13 @@
-import type { ArtistNode } from '@/types';
+import type { ArtistNode, MusicBrainzReleaseGroup } from '@/types';
 
-// Direct API client (rate-limited, ONLY use as fallback)
-export {
-  searchArtists as searchArtistsDirect, // Renamed to discourage direct use
-  getArtist,
-  getArtistLifeSpan,
-  getArtistRelationships,
-  getArtistReleaseGroups,
-  buildArtistGraph,
-  getServerStatus,
-  forceRecoveryCheck,
-} from './client';
-
-export type { MusicBrainzServerStatus } from './client';
+// The MusicBrainz API client (./client) is server-only: it goes through the
+// data source registry. Client code uses the API route wrappers below.
 
 // React Query hooks
 export {
   useArtistSearch,
   useArtistRelationships,
+  useArtistById,
   useArtistGraph,
 } from './hooks';
 
@@ -71,3 +61,67 @@ export async function getArtistById(mbid: string): Promise<ArtistNode | null> {
   const data = await response.json();
   return data.artist || null;
 }
+
+/**
+ * Fetch an artist's release groups via API route (uses local DB when available)
+ * Albums only by default, newest first, without compilations, live albums or
+ * duplicate editions
+ */
+export async function getArtistReleaseGroups(
+  mbid: string,
+  primaryTypes: string[] = ['Album']
+): Promise<MusicBrainzReleaseGroup[]> {
+  const params = new URLSearchParams({ types: primaryTypes.join(',') });
+  const response = await fetch(
+    `/api/musicbrainz/artist/${encodeURIComponent(mbid)}/release-groups?${params}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch release groups: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.releaseGroups || [];
+}
+
+/**
+ * Fetch just an artist's life span via API route (uses local DB when available)
+ * Returns undefined when it can't be loaded
+ */
+export async function getArtistLifeSpan(
+  mbid: string
+): Promise<{ begin?: string; end?: string | null } | undefined> {
+  try {
+    const response = await fetch(`/api/musicbrainz/artist/${encodeURIComponent(mbid)}?include=life-span`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch life span: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.lifeSpan ?? undefined;
+  } catch (err) {
+    console.error('Failed to fetch artist life span:', mbid, err);
+    return undefined;
+  }
+}
+
+/**
+ * Manually trigger a recovery check (the "retry" button)
+ * Asks the server to re-probe every backend; returns true if the local DB is available
+ */
+export async function forceRecoveryCheck(): Promise<boolean> {
+  try {
+    const response = await fetch('/api/musicbrainz/health', { method: 'POST' });
+
+    if (!response.ok) {
+      console.error('[MusicBrainz] Health check API error:', response.status);
+      return false;
+    }
+
+    const data = await response.json();
+    return data.recovered === true;
+  } catch (error) {
+    console.error('[MusicBrainz] Recovery check error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Contract test: the API and database relationship mappers must agree
+ *
+ * Each case describes one artist-artist link twice - as the MusicBrainz API
+ * returns it in an artist's `relations` and as the l_artist_artist row the
+ * local database query returns - and checks both map to the same
+ * ArtistRelationship. If this fails, graphs, instruments and founding
+ * detection differ depending on whether the Postgres mirror is up.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MusicBrainzRelation } from '@/types';
+import { mapRelationToEdge } from './client';
+import { mapDbRelationshipRow } from './db-client';
+import { extractInstruments, isFoundingMember } from '@/lib/graph/builder';
+
+type DbRow = Parameters<typeof mapDbRelationshipRow>[0];
+
+const PERSON = { id: 'ba550d0e-adac-4864-b88b-407cab5e76af', name: 'Paul McCartney', type: 'Person' as const };
+const BAND = { id: 'b10bbbfc-cf9e-42e0-be17-e2c3e1d2600d', name: 'The Beatles', type: 'Group' as const };
+
+function apiArtist(artist: typeof PERSON | typeof BAND) {
+  return { ...artist, 'sort-name': artist.name };
+}
+
+function dbRow(overrides: Partial<DbRow>): DbRow {
+  return {
+    entity0_gid: PERSON.id,
+    entity0_name: PERSON.name,
+    entity0_type: PERSON.type,
+    entity0_comment: null,
+    entity0_begin_year: null,
+    entity0_begin_month: null,
+    entity0_begin_day: null,
+    entity0_end_year: null,
+    entity0_end_month: null,
+    entity0_end_day: null,
+    entity0_ended: false,
+    entity1_gid: BAND.id,
+    entity1_name: BAND.name,
+    entity1_type: BAND.type,
+    entity1_comment: null,
+    entity1_begin_year: null,
+    entity1_begin_month: null,
+    entity1_begin_day: null,
+    entity1_end_year: null,
+    entity1_end_month: null,
+    entity1_end_day: null,
+    entity1_ended: false,
+    link_type_name: 'member of band',
+    link_type_gid: '5be4c609-9afa-4ea0-910b-12ffb71e3821',
+    entity0_credit: '',
+    entity1_credit: '',
+    attributes: null,
+    begin_date_year: null,
+    begin_date_month: null,
+    begin_date_day: null,
+    end_date_year: null,
+    end_date_month: null,
+    end_date_day: null,
+    ended: false,
+    ...overrides,
+  };
+}
+
+interface ContractCase {
+  name: string;
+  /** Artist whose relations were requested */
+  requested: string;
+  api: MusicBrainzRelation;
+  db: DbRow;
+}
+
+const cases: ContractCase[] = [
+  {
+    name: 'member with instruments, credits and an ended period (forward)',
+    requested: PERSON.id,
+    api: {
+      type: 'member of band',
+      'type-id': '5be4c609-9afa-4ea0-910b-12ffb71e3821',
+      direction: 'forward',
+      artist: apiArtist(BAND),
+      attributes: ['original', 'lead vocals', 'bass guitar'],
+      'attribute-credits': { 'bass guitar': 'Höfner bass' },
+      'source-credit': 'Paul',
+      'target-credit': '',
+      begin: '1960-08',
+      end: '1970-04-10',
+      ended: true,
+    },
+    db: dbRow({
+      entity0_credit: 'Paul',
+      attributes: [
+        { name: 'bass guitar', credit: 'Höfner bass' },
+        { name: 'original', credit: null },
+        { name: 'lead vocals', credit: null },
+      ],
+      begin_date_year: 1960,
+      begin_date_month: 8,
+      end_date_year: 1970,
+      end_date_month: 4,
+      end_date_day: 10,
+      ended: true,
+    }),
+  },
+  {
+    name: 'same membership seen from the band (backward)',
+    requested: BAND.id,
+    api: {
+      type: 'member of band',
+      'type-id': '5be4c609-9afa-4ea0-910b-12ffb71e3821',
+      direction: 'backward',
+      artist: apiArtist(PERSON),
+      attributes: ['bass guitar'],
+      'attribute-credits': {},
+      'source-credit': 'Beatles',
+      'target-credit': 'Paul',
+      begin: '1960',
+      end: null,
+      ended: false,
+    },
+    db: dbRow({
+      entity0_credit: 'Paul',
+      entity1_credit: 'Beatles',
+      attributes: [{ name: 'bass guitar', credit: null }],
+      begin_date_year: 1960,
+    }),
+  },
+  {
+    name: 'link without attributes or dates',
+    requested: PERSON.id,
+    api: {
+      type: 'collaboration',
+      'type-id': '75c09861-6857-4ec0-9729-84eefde7fc86',
+      direction: 'forward',
+      artist: apiArtist(BAND),
+      attributes: [],
+      begin: null,
+      end: null,
+      ended: false,
+    },
+    db: dbRow({ link_type_name: 'collaboration' }),
+  },
+  {
+    name: 'unmapped link type ended without an end date',
+    requested: PERSON.id,
+    api: {
+      type: 'some future link type',
+      'type-id': '00000000-0000-0000-0000-000000000000',
+      direction: 'forward',
+      artist: apiArtist(BAND),
+      attributes: [],
+      begin: '1999-01-02',
+      end: null,
+      ended: true,
+    },
+    db: dbRow({
+      link_type_name: 'some future link type',
+      begin_date_year: 1999,
+      begin_date_month: 1,
+      begin_date_day: 2,
+      ended: true,
+    }),
+  },
+];
+
+describe('relationship mapping contract (API vs database)', () => {
+  for (const { name, requested, api, db } of cases) {
+    it(`maps identically: ${name}`, () => {
+      const direction = db.entity0_gid === requested ? 'forward' : 'backward';
+      const fromApi = mapRelationToEdge(requested, api);
+      const fromDb = mapDbRelationshipRow(db, direction);
+
+      expect(fromDb).toEqual(fromApi);
+      // toEqual ignores undefined keys - compare serialized shapes too
+      expect(JSON.stringify(fromDb)).toBe(JSON.stringify(fromApi));
+    });
+  }
+
+  it('keeps instruments and founding attributes on the database path', () => {
+    const rel = mapDbRelationshipRow(cases[0].db, 'forward');
+
+    expect(rel.attributes).toEqual(['bass guitar', 'lead vocals', 'original']);
+    expect(rel.attributeCredits).toEqual({ 'bass guitar': 'Höfner bass' });
+    expect(rel.sourceCredit).toBe('Paul');
+    expect(extractInstruments(rel.attributes)).toEqual(['bass guitar', 'lead vocals']);
+    // "original" member counts as founding even when the start year doesn't match
+    expect(isFoundingMember(rel, 1957)).toBe(true);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * MusicBrainz web service servers
+ *
+ * The public API and an optional local mirror (NEXT_PUBLIC_MUSICBRAINZ_API).
+ * Both are data source providers (lib/data-sources); this module has what the
+ * registry needs without importing the API client.
+ */
+
+export const LOCAL_MUSICBRAINZ_API = process.env.NEXT_PUBLIC_MUSICBRAINZ_API || null;
+export const PUBLIC_MUSICBRAINZ_API = 'https://musicbrainz.org/ws/2';
+export const USER_AGENT = 'InterChord/0.1.0 (https://github.com/jstone/interchord)';
+
+/**
+ * Check if the local MusicBrainz server is healthy (data source probe)
+ * Uses a quick artist search as a health check
+ */
+export async function testLocalApiConnection(): Promise<boolean> {
+  if (!LOCAL_MUSICBRAINZ_API) return false;
+
+  try {
+    const response = await fetch(`${LOCAL_MUSICBRAINZ_API}/artist?query=test&fmt=json&limit=1`, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'application/json',
+      },
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
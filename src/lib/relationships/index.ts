@@ -0,0 +1,10 @@
+export {
+  RELATIONSHIP_TYPE_CONFIG,
+  RELATIONSHIP_TYPES,
+  LINK_RELATIONSHIP_TYPES,
+  isRelationshipType,
+  mapLinkType,
+  mapLinkAttributes,
+} from './mapping';
+
+export type { RelationshipTypeConfig } from './mapping';
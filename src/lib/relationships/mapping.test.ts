@@ -0,0 +1,51 @@
+/**
+ * Tests for the shared MusicBrainz link type mapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RELATIONSHIP_TYPE_CONFIG, RELATIONSHIP_TYPES, isRelationshipType, mapLinkType } from './mapping';
+
+describe('mapLinkType', () => {
+  it('maps known link types case-insensitively', () => {
+    expect(mapLinkType('member of band')).toBe('member_of');
+    expect(mapLinkType('Member Of Band')).toBe('member_of');
+    expect(mapLinkType('subgroup')).toBe('side_project');
+    expect(mapLinkType('vocal supporting musician')).toBe('touring_member');
+  });
+
+  it('maps previously misreported families to their own types', () => {
+    expect(mapLinkType('teacher')).toBe('teacher_of');
+    expect(mapLinkType('conductor position')).toBe('position');
+    expect(mapLinkType('composer-in-residence')).toBe('position');
+    expect(mapLinkType('sibling')).toBe('family');
+    expect(mapLinkType('married')).toBe('family');
+    expect(mapLinkType('voice actor')).toBe('voice_actor');
+  });
+
+  it('keeps tribute, identity and named-after links instead of dropping them', () => {
+    expect(mapLinkType('tribute')).toBe('tribute');
+    expect(mapLinkType('is person')).toBe('identity');
+    expect(mapLinkType('named after')).toBe('named_after');
+  });
+
+  it('maps unknown link types to other rather than collaboration', () => {
+    expect(mapLinkType('some future link type')).toBe('other');
+  });
+});
+
+describe('RELATIONSHIP_TYPE_CONFIG', () => {
+  it('assigns each MusicBrainz link type to exactly one relationship type', () => {
+    const linkTypes = RELATIONSHIP_TYPES.flatMap(type => RELATIONSHIP_TYPE_CONFIG[type].linkTypes);
+    expect(new Set(linkTypes).size).toBe(linkTypes.length);
+    for (const linkType of linkTypes) {
+      expect(linkType).toBe(linkType.toLowerCase());
+    }
+  });
+
+  it('only recognises its own keys as relationship types', () => {
+    expect(isRelationshipType('member_of')).toBe(true);
+    expect(isRelationshipType('other')).toBe(true);
+    expect(isRelationshipType('constructor')).toBe(false);
+    expect(isRelationshipType('member of band')).toBe(false);
+  });
+});
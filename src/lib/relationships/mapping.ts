@@ -0,0 +1,174 @@
+/**
+ * Relationship Type Mapping
+ *
+ * Single table describing every RelationshipType: which MusicBrainz
+ * artist-artist link types map onto it, plus how it is labelled (filter
+ * chip, sidebar headings). Edge colours and line styles are part of the
+ * graph theme (see lib/graph/themes.ts) so users can restyle them.
+ *
+ * Used by both API client (client.ts) and database client (db-client.ts)
+ * so both sources classify links identically, and by the UI so filters,
+ * graph styles and sidebar sections cover every type.
+ */
+
+import type { ArtistRelationship, RelationshipType } from '@/types';
+
+export interface RelationshipTypeConfig {
+  /** Lowercase MusicBrainz link type names mapped onto this type */
+  linkTypes: string[];
+  /** Short label for filter chips */
+  label: string;
+  /** Sidebar heading when viewing a band/group */
+  groupLabel: string;
+  /** Sidebar heading when viewing a person */
+  personLabel: string;
+  /** Shown in the graph by default */
+  defaultOn: boolean;
+  /** Inferred from other data (see lib/graph/derived.ts) rather than a MusicBrainz link */
+  derived?: boolean;
+}
+
+// Display order for filters and the default sidebar order
+export const RELATIONSHIP_TYPE_CONFIG: Record<RelationshipType, RelationshipTypeConfig> = {
+  member_of: {
+    linkTypes: ['member of band'],
+    label: 'Member', groupLabel: 'Members', personLabel: 'Bands & Groups',
+    defaultOn: true,
+  },
+  founder_of: {
+    linkTypes: ['founder'],
+    label: 'Founder', groupLabel: 'Founders', personLabel: 'Founded',
+    defaultOn: true,
+  },
+  side_project: {
+    linkTypes: ['subgroup'],
+    label: 'Side Project', groupLabel: 'Side Projects', personLabel: 'Side Projects',
+    defaultOn: true,
+  },
+  collaboration: {
+    linkTypes: ['collaboration', 'vocal', 'instrument'],
+    label: 'Collab', groupLabel: 'Collaborations', personLabel: 'Collaborations',
+    defaultOn: true,
+  },
+  producer: {
+    linkTypes: ['producer'],
+    label: 'Producer', groupLabel: 'Producers', personLabel: 'Produced',
+    defaultOn: true,
+  },
+  teacher_of: {
+    linkTypes: ['teacher'],
+    label: 'Teacher', groupLabel: 'Teachers & Students', personLabel: 'Teachers & Students',
+    defaultOn: true,
+  },
+  position: {
+    linkTypes: ['conductor position', 'composer-in-residence', 'artistic director'],
+    label: 'Position', groupLabel: 'Conductors & Residencies', personLabel: 'Positions Held',
+    defaultOn: true,
+  },
+  family: {
+    linkTypes: ['sibling', 'parent', 'married', 'involved with'],
+    label: 'Family', groupLabel: 'Family', personLabel: 'Family',
+    defaultOn: true,
+  },
+  voice_actor: {
+    linkTypes: ['voice actor'],
+    label: 'Voice', groupLabel: 'Voice Actors', personLabel: 'Voice Roles',
+    defaultOn: true,
+  },
+  touring_member: {
+    linkTypes: ['supporting musician', 'vocal supporting musician', 'instrumental supporting musician'],
+    label: 'Touring', groupLabel: 'Touring Members', personLabel: 'Touring For',
+    defaultOn: false,
+  },
+  same_label: {
+    linkTypes: [],
+    label: 'Label', groupLabel: 'Same Label', personLabel: 'Same Label',
+    defaultOn: false, derived: true,
+  },
+  same_scene: {
+    linkTypes: [],
+    label: 'Scene', groupLabel: 'Same Scene', personLabel: 'Same Scene',
+    defaultOn: false, derived: true,
+  },
+  shared_credits: {
+    linkTypes: [],
+    label: 'Credits', groupLabel: 'Shared Credits', personLabel: 'Played On Same Records',
+    defaultOn: false,
+  },
+  influenced_by: {
+    linkTypes: ['influenced by'],
+    label: 'Influence', groupLabel: 'Influences', personLabel: 'Influences',
+    defaultOn: false,
+  },
+  tribute: {
+    linkTypes: ['tribute'],
+    label: 'Tribute', groupLabel: 'Tributes', personLabel: 'Tributes',
+    defaultOn: false,
+  },
+  identity: {
+    linkTypes: ['is person'],
+    label: 'Alias', groupLabel: 'Also Known As', personLabel: 'Also Known As',
+    defaultOn: false,
+  },
+  named_after: {
+    linkTypes: ['named after'],
+    label: 'Named After', groupLabel: 'Named After', personLabel: 'Named After',
+    defaultOn: false,
+  },
+  other: {
+    linkTypes: [],
+    label: 'Other', groupLabel: 'Other Relationships', personLabel: 'Other Relationships',
+    defaultOn: false,
+  },
+};
+
+/** Every relationship type, in display order */
+export const RELATIONSHIP_TYPES = Object.keys(RELATIONSHIP_TYPE_CONFIG) as RelationshipType[];
+
+/**
+ * Types MusicBrainz artist-artist links map onto ('other' catches unmapped
+ * link types); the rest come from derivation or credits, never from links
+ */
+export const LINK_RELATIONSHIP_TYPES = RELATIONSHIP_TYPES.filter(type =>
+  RELATIONSHIP_TYPE_CONFIG[type].linkTypes.length > 0 || type === 'other'
+);
+
+// Inverted table: MusicBrainz link type name -> relationship type
+const LINK_TYPE_MAP = new Map<string, RelationshipType>(
+  RELATIONSHIP_TYPES.flatMap(type =>
+    RELATIONSHIP_TYPE_CONFIG[type].linkTypes.map(linkType => [linkType, type] as const)
+  )
+);
+
+export function isRelationshipType(value: string): value is RelationshipType {
+  return RELATIONSHIP_TYPES.includes(value as RelationshipType);
+}
+
+/**
+ * Map a MusicBrainz artist-artist link type name (e.g. "member of band")
+ * Unmapped link types become 'other' rather than being mislabelled.
+ */
+export function mapLinkType(linkTypeName: string): RelationshipType {
+  return LINK_TYPE_MAP.get(linkTypeName.toLowerCase()) ?? 'other';
+}
+
+/**
+ * Normalize MusicBrainz link attributes (attribute type names plus optional
+ * credited-as text, e.g. "guitar" credited as "electric guitar").
+ * Sorted by name so the API and database list them in the same order.
+ */
+export function mapLinkAttributes(
+  attributes: Array<{ name: string; credit?: string | null }>
+): Pick<ArtistRelationship, 'attributes' | 'attributeCredits'> {
+  if (attributes.length === 0) return {};
+
+  const sorted = [...attributes].sort((a, b) => a.name.localeCompare(b.name));
+  const credits = sorted.filter(a => a.credit);
+
+  return {
+    attributes: sorted.map(a => a.name),
+    ...(credits.length > 0 && {
+      attributeCredits: Object.fromEntries(credits.map(a => [a.name, a.credit!])),
+    }),
+  };
+}
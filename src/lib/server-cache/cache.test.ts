@@ -0,0 +1,101 @@
+/**
+ * Tests for the shared server-side cache (LRU, stale-while-revalidate, keys)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LruCache, normalizeCacheKey, ServerCache, type CacheEntry, type CacheStore } from './cache';
+
+const policy = { ttlMs: 1000, staleMs: 5000 };
+
+describe('normalizeCacheKey', () => {
+  it('should produce the same key regardless of order, case, whitespace and empty params', () => {
+    const a = normalizeCacheKey('lastfm', { method: 'artist.getInfo', artist: '  The   Beatles ', limit: 5 });
+    const b = normalizeCacheKey('lastfm', new URLSearchParams('limit=5&artist=the+beatles&method=ARTIST.GETINFO&page='));
+
+    expect(a).toBe(b);
+    expect(a).toBe('lastfm?artist=the%20beatles&limit=5&method=artist.getinfo');
+  });
+});
+
+describe('LruCache', () => {
+  it('should evict the least recently used entry', () => {
+    const lru = new LruCache<number>(2);
+    lru.set('a', 1);
+    lru.set('b', 2);
+    lru.get('a');
+    lru.set('c', 3);
+
+    expect(lru.get('b')).toBeUndefined();
+    expect(lru.get('a')).toBe(1);
+    expect(lru.size).toBe(2);
+  });
+});
+
+describe('ServerCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should load on a miss and serve hits until the entry expires', async () => {
+    const cache = new ServerCache();
+    const loader = vi.fn(async () => 'data');
+
+    await expect(cache.getOrLoad('k', loader, policy)).resolves.toMatchObject({ data: 'data', status: 'MISS', ageMs: 0 });
+    vi.advanceTimersByTime(400);
+    await expect(cache.getOrLoad('k', loader, policy)).resolves.toMatchObject({ data: 'data', status: 'HIT', ageMs: 400 });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale entries while refreshing them in the background', async () => {
+    const cache = new ServerCache();
+    await cache.getOrLoad('k', async () => 'old', policy);
+    vi.advanceTimersByTime(2000);
+
+    await expect(cache.getOrLoad('k', async () => 'new', policy)).resolves.toMatchObject({ data: 'old', status: 'STALE' });
+    await vi.runAllTimersAsync();
+    await expect(cache.getOrLoad('k', async () => 'newer', policy)).resolves.toMatchObject({ data: 'new', status: 'HIT' });
+
+    // A failed refresh keeps serving the stale entry; past staleMs it is a miss again
+    vi.advanceTimersByTime(2000);
+    await expect(cache.getOrLoad('k', () => Promise.reject(new Error('down')), policy)).resolves.toMatchObject({ data: 'new', status: 'STALE' });
+    vi.advanceTimersByTime(5000);
+    await expect(cache.getOrLoad('k', () => Promise.reject(new Error('down')), policy)).rejects.toThrow('down');
+  });
+
+  it('should share one load between concurrent misses and not cache errors or skipped results', async () => {
+    const cache = new ServerCache();
+    const loader = vi.fn(async () => ({ status: 500 }));
+    const skipErrors = { ...policy, shouldCache: ({ status }: { status: number }) => status === 200 };
+
+    await Promise.all([
+      cache.getOrLoad('k', loader, skipErrors),
+      cache.getOrLoad('k', loader, skipErrors),
+    ]);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    await expect(cache.getOrLoad('k', loader, skipErrors)).resolves.toMatchObject({ status: 'MISS' });
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the persistent store after the in-memory entry is evicted', async () => {
+    const rows = new Map<string, CacheEntry>();
+    const store: CacheStore = {
+      get: async key => rows.get(key) ?? null,
+      set: async (key, entry) => { rows.set(key, entry); },
+    };
+    const cache = new ServerCache({ maxEntries: 1, store });
+
+    await cache.getOrLoad('a', async () => 'A', policy);
+    await cache.getOrLoad('b', async () => 'B', policy);
+
+    const loader = vi.fn(async () => 'reloaded');
+    await expect(cache.getOrLoad('a', loader, policy)).resolves.toMatchObject({ data: 'A', status: 'HIT' });
+    expect(loader).not.toHaveBeenCalled();
+  });
+});
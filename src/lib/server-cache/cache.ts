@@ -0,0 +1,202 @@
+/**
+ * Shared server-side response cache
+ *
+ * Two tiers: an in-memory LRU shared by every request in the process, and an
+ * optional persistent store (Postgres) shared across restarts and instances.
+ * Entries are fresh for `ttlMs`, then served stale for up to `staleMs` more
+ * while one background refresh replaces them (stale-while-revalidate).
+ * Concurrent misses for the same key share a single load.
+ *
+ * Loader errors are never cached - the next request simply tries again.
+ */
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+export interface CachePolicy<T = unknown> {
+  /** How long an entry is served without revalidating */
+  ttlMs: number;
+  /** How much longer an expired entry may be served while it is refreshed (default 0) */
+  staleMs?: number;
+  /** Leave some results out of the cache (e.g. timeouts that may succeed on retry) */
+  shouldCache?: (data: T) => boolean;
+}
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  /** Fresh until */
+  expiresAt: number;
+  /** Servable (stale) until */
+  staleUntil: number;
+}
+
+/** Persistent second tier; failures should resolve (null / no-op), not throw */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  status: CacheStatus;
+  /** Age of the served entry (0 for a fresh load) */
+  ageMs: number;
+}
+
+export interface ServerCacheOptions {
+  /** Entries kept in memory, least recently used evicted first (default 1000) */
+  maxEntries?: number;
+  store?: CacheStore | null;
+}
+
+/**
+ * Map-based LRU: reads move an entry to the back, inserts evict from the front
+ */
+export class LruCache<V> {
+  private entries = new Map<string, V>();
+
+  constructor(private maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Canonical cache key for a route and its parameters
+ * Parameters are sorted, empty ones dropped, and values trimmed, whitespace-
+ * collapsed and lowercased - every cached upstream (MBIDs, artist names,
+ * search terms) is case-insensitive, so "Radiohead" and " radiohead" share
+ * one entry.
+ */
+export function normalizeCacheKey(
+  namespace: string,
+  params: URLSearchParams | Record<string, string | number | null | undefined>
+): string {
+  const pairs = params instanceof URLSearchParams
+    ? [...params.entries()]
+    : Object.entries(params).map(([key, value]) => [key, value == null ? '' : String(value)]);
+
+  const query = pairs
+    .map(([key, value]) => [key, value.trim().replace(/\s+/g, ' ').toLowerCase()])
+    .filter(([, value]) => value !== '')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  return query ? `${namespace}?${query}` : namespace;
+}
+
+/**
+ * Two-tier cache with stale-while-revalidate and request de-duplication
+ */
+export class ServerCache {
+  private memory: LruCache<CacheEntry>;
+  private store: CacheStore | null;
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor({ maxEntries = 1000, store = null }: ServerCacheOptions = {}) {
+    this.memory = new LruCache(maxEntries);
+    this.store = store;
+  }
+
+  private async lookup(key: string): Promise<CacheEntry | null> {
+    const cached = this.memory.get(key);
+    if (cached) return cached;
+    if (!this.store) return null;
+
+    const stored = await this.store.get(key);
+    if (stored && Date.now() < stored.staleUntil) {
+      this.memory.set(key, stored);
+      return stored;
+    }
+    return null;
+  }
+
+  /**
+   * Load and store a value; concurrent calls for the same key share one load
+   */
+  private load<T>(key: string, loader: () => Promise<T>, policy: CachePolicy<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        if (policy.shouldCache?.(value) ?? true) {
+          const now = Date.now();
+          const entry: CacheEntry<T> = {
+            value,
+            storedAt: now,
+            expiresAt: now + policy.ttlMs,
+            staleUntil: now + policy.ttlMs + (policy.staleMs ?? 0),
+          };
+          this.memory.set(key, entry);
+          // Persist in the background - the response doesn't wait for the store
+          void this.store?.set(key, entry);
+        }
+        return value;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Serve from cache, or load (and cache) on a miss
+   */
+  async getOrLoad<T>(key: string, loader: () => Promise<T>, policy: CachePolicy<T>): Promise<CachedResult<T>> {
+    const entry = await this.lookup(key) as CacheEntry<T> | null;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return { data: entry.value, status: 'HIT', ageMs: now - entry.storedAt };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      // Serve the stale entry now; refresh it in the background
+      this.load(key, loader, policy).catch(error => {
+        console.warn(`[ServerCache] Revalidating ${key} failed, keeping stale entry:`, (error as Error).message);
+      });
+      return { data: entry.value, status: 'STALE', ageMs: now - entry.storedAt };
+    }
+
+    const data = await this.load(key, loader, policy);
+    return { data, status: 'MISS', ageMs: 0 };
+  }
+
+  delete(key: string): void {
+    this.memory.delete(key);
+  }
+
+  clear(): void {
+    this.memory.clear();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Server-side response cache for API routes
+ *
+ * Shared by every user and device, unlike the browser cache in lib/cache:
+ * one user looking up an artist warms Setlist.fm, Last.fm, Discogs, Fanart.tv
+ * and MusicBrainz responses for everyone.
+ *
+ * Configuration:
+ *   SERVER_CACHE_MAX_ENTRIES  In-memory LRU size (default 1000)
+ *   SERVER_CACHE_STORE        'postgres' to also persist entries in the
+ *                             supplement DB (table api_cache, migration 002)
+ *
+ * Usage in a route:
+ *   const result = await apiCache.getOrLoad(normalizeCacheKey('lastfm', params), load, SERVER_CACHE_TTL.lastfm);
+ *   return NextResponse.json(result.data, { headers: cacheHeaders(result) });
+ */
+
+import { CacheTTL } from '@/lib/cache';
+import { dataSources, DATA_SOURCE_IDS } from '@/lib/data-sources';
+import {
+  getApiCacheEntry,
+  storeApiCacheEntry,
+  deleteExpiredApiCacheEntries,
+} from '@/lib/supplement/db-client';
+import { ServerCache, type CachePolicy, type CachedResult, type CacheStore } from './cache';
+
+export type { CacheStatus, CachePolicy, CacheEntry, CacheStore, CachedResult } from './cache';
+export { ServerCache, LruCache, normalizeCacheKey } from './cache';
+
+/** Per-route freshness and how long past it a stale response may still be served */
+export const SERVER_CACHE_TTL = {
+  concerts: { ttlMs: CacheTTL.SHORT * 6, staleMs: CacheTTL.MEDIUM },
+  lastfm: { ttlMs: CacheTTL.MEDIUM, staleMs: CacheTTL.LONG },
+  discogs: { ttlMs: CacheTTL.LONG, staleMs: CacheTTL.LONG * 4 },
+  fanart: { ttlMs: CacheTTL.LONG, staleMs: CacheTTL.LONG * 4 },
+  musicbrainzArtist: { ttlMs: CacheTTL.MEDIUM, staleMs: CacheTTL.LONG },
+  musicbrainzSearch: { ttlMs: CacheTTL.SHORT, staleMs: CacheTTL.MEDIUM },
+  musicbrainzPath: { ttlMs: CacheTTL.MEDIUM, staleMs: CacheTTL.LONG },
+  musicbrainzReleases: { ttlMs: CacheTTL.MEDIUM, staleMs: CacheTTL.LONG },
+  musicbrainzCredits: { ttlMs: CacheTTL.LONG, staleMs: CacheTTL.LONG * 4 },
+} as const satisfies Record<string, CachePolicy>;
+
+// Expired rows are swept at most this often, piggybacking on writes
+const SWEEP_INTERVAL_MS = CacheTTL.SHORT;
+
+/**
+ * Persistent tier in the supplement DB
+ * Skipped (not failed) while the DB's circuit is open.
+ */
+function createPostgresStore(): CacheStore {
+  let lastSweep = Date.now();
+
+  return {
+    async get(key) {
+      if (!(await dataSources.isAvailable(DATA_SOURCE_IDS.SUPPLEMENT_DB))) return null;
+      return getApiCacheEntry(key);
+    },
+    async set(key, entry) {
+      if (!(await dataSources.isAvailable(DATA_SOURCE_IDS.SUPPLEMENT_DB))) return;
+      await storeApiCacheEntry(key, entry);
+
+      if (Date.now() - lastSweep >= SWEEP_INTERVAL_MS) {
+        lastSweep = Date.now();
+        const removed = await deleteExpiredApiCacheEntries();
+        if (removed > 0) console.log(`[ServerCache] Swept ${removed} expired entries`);
+      }
+    },
+  };
+}
+
+/** Shared by all API routes */
+export const apiCache = new ServerCache({
+  maxEntries: parseInt(process.env.SERVER_CACHE_MAX_ENTRIES || '1000', 10),
+  store: process.env.SERVER_CACHE_STORE === 'postgres' ? createPostgresStore() : null,
+});
+
+/**
+ * Response headers describing how a cached result was served
+ * X-Cache: HIT (fresh), STALE (served while refreshing) or MISS (just loaded)
+ */
+export function cacheHeaders(result: CachedResult<unknown>): Record<string, string> {
+  return {
+    'X-Cache': result.status,
+    'Age': String(Math.floor(result.ageMs / 1000)),
+  };
+}
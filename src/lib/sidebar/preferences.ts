@@ -1,16 +1,15 @@
 'use client';
 
+import type { RelationshipType } from '@/types';
+import { RELATIONSHIP_TYPES } from '@/lib/relationships';
+
 const STORAGE_KEY = 'interchord-sidebar-prefs';
 
+// Every relationship type gets its own section (shown only when the artist has such links)
 export type SectionId =
   | 'biography'
   | 'map'
-  | 'member_of'
-  | 'founder_of'
-  | 'collaboration'
-  | 'producer'
-  | 'touring_member'
-  | 'side_project'
+  | RelationshipType
   | 'albums'
   | 'shows';
 
@@ -24,12 +23,7 @@ export interface SidebarPreferences {
 const DEFAULT_ORDER: SectionId[] = [
   'biography',
   'map',
-  'member_of',
-  'founder_of',
-  'collaboration',
-  'producer',
-  'touring_member',
-  'side_project',
+  ...RELATIONSHIP_TYPES,
   'albums',
   'shows',
 ];
@@ -7,6 +7,8 @@ export const STORAGE_EVENTS = {
   FAVORITES_UPDATED: 'favorites-updated',
   PRIMARY_SERVICE_CHANGED: 'primary-service-changed',
   STREAMING_PREFERENCE_CHANGED: 'streaming-preference-changed',
+  WORKSPACES_UPDATED: 'workspaces-updated',
+  GRAPH_THEME_CHANGED: 'graph-theme-changed',
 } as const;
 
 export type StorageEventName = typeof STORAGE_EVENTS[keyof typeof STORAGE_EVENTS];
@@ -21,3 +21,6 @@ export {
   setSessionString,
   removeSessionItem,
 } from './helpers';
+
+export { getWorkspace, listWorkspaces, saveWorkspace, deleteWorkspace } from './workspaces';
+export type { GraphWorkspace, WorkspacePosition } from './workspaces';
@@ -20,6 +20,12 @@ export const STORAGE_KEYS = {
 
   // Search history
   RECENT_SEARCHES: 'interchord-recent-searches',
+
+  // Saved graph workspaces (positions, pins, hidden nodes per root artist)
+  WORKSPACES: 'interchord-workspaces',
+
+  // Graph style presets (active theme and custom themes)
+  GRAPH_THEMES: 'interchord-graph-themes',
 } as const;
 
 // sessionStorage keys
@@ -0,0 +1,87 @@
+/**
+ * Tests for saved graph workspaces (one localStorage map keyed by root artist)
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { STORAGE_KEYS } from './keys';
+import { STORAGE_EVENTS } from './events';
+import {
+  deleteWorkspace,
+  getWorkspace,
+  listWorkspaces,
+  saveWorkspace,
+  type GraphWorkspace,
+} from './workspaces';
+
+function workspace(rootId: string, savedAt: number, overrides: Partial<GraphWorkspace> = {}): GraphWorkspace {
+  return {
+    rootId,
+    rootName: rootId.toUpperCase(),
+    layout: 'force',
+    depth: 1,
+    positions: { [rootId]: { x: 0, y: 0 } },
+    pinnedNodeIds: [],
+    hiddenNodeIds: [],
+    savedAt,
+    ...overrides,
+  };
+}
+
+describe('workspaces', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save a workspace per root artist and replace it on save again', () => {
+    const updated = vi.fn();
+    window.addEventListener(STORAGE_EVENTS.WORKSPACES_UPDATED, updated);
+
+    expect(saveWorkspace(workspace('beatles', 1000))).toBe(true);
+    expect(saveWorkspace(workspace('beatles', 2000, { layout: 'radial', pinnedNodeIds: ['lennon'] }))).toBe(true);
+    window.removeEventListener(STORAGE_EVENTS.WORKSPACES_UPDATED, updated);
+
+    expect(updated).toHaveBeenCalledTimes(2);
+    expect(listWorkspaces()).toHaveLength(1);
+    expect(getWorkspace('beatles')).toMatchObject({ layout: 'radial', pinnedNodeIds: ['lennon'], savedAt: 2000 });
+    expect(getWorkspace('stones')).toBeNull();
+  });
+
+  it('should list the most recently saved workspaces first', () => {
+    saveWorkspace(workspace('beatles', 2000));
+    saveWorkspace(workspace('stones', 3000));
+    saveWorkspace(workspace('kinks', 1000));
+
+    expect(listWorkspaces().map(w => w.rootId)).toEqual(['stones', 'beatles', 'kinks']);
+  });
+
+  it('should delete a workspace and report a missing one without writing', () => {
+    saveWorkspace(workspace('beatles', 1000));
+    const updated = vi.fn();
+    window.addEventListener(STORAGE_EVENTS.WORKSPACES_UPDATED, updated);
+
+    expect(deleteWorkspace('stones')).toBe(false);
+    expect(updated).not.toHaveBeenCalled();
+    expect(deleteWorkspace('beatles')).toBe(true);
+    window.removeEventListener(STORAGE_EVENTS.WORKSPACES_UPDATED, updated);
+
+    expect(updated).toHaveBeenCalledTimes(1);
+    expect(listWorkspaces()).toEqual([]);
+  });
+
+  it('should start over from a corrupt stored value', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEYS.WORKSPACES, '{not json');
+
+    expect(listWorkspaces()).toEqual([]);
+    expect(localStorage.getItem(STORAGE_KEYS.WORKSPACES)).toBeNull();
+
+    localStorage.setItem(STORAGE_KEYS.WORKSPACES, '"not a map"');
+    expect(getWorkspace('beatles')).toBeNull();
+    expect(saveWorkspace(workspace('beatles', 1000))).toBe(true);
+    expect(listWorkspaces().map(w => w.rootId)).toEqual(['beatles']);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Saved graph workspaces - per root artist snapshot of the graph view
+ * (manual node positions, pinned and hidden nodes, layout and depth).
+ *
+ * All workspaces live under one localStorage key as a map keyed by root MBID,
+ * so listing them doesn't need to scan localStorage.
+ */
+
+import { STORAGE_KEYS } from './keys';
+import { STORAGE_EVENTS, dispatchStorageEvent } from './events';
+import { getStorageItem, setStorageItem } from './helpers';
+
+export interface WorkspacePosition {
+  x: number;
+  y: number;
+}
+
+export interface GraphWorkspace {
+  /** MBID of the searched (root) artist */
+  rootId: string;
+  rootName: string;
+  /** Layout name at save time (LayoutType) */
+  layout: string;
+  /** Expansion depth at save time (ExpansionDepth) */
+  depth: number;
+  positions: Record<string, WorkspacePosition>;
+  pinnedNodeIds: string[];
+  hiddenNodeIds: string[];
+  /** Epoch ms */
+  savedAt: number;
+}
+
+type WorkspaceMap = Record<string, GraphWorkspace>;
+
+function readWorkspaces(): WorkspaceMap {
+  const stored = getStorageItem<WorkspaceMap>(STORAGE_KEYS.WORKSPACES, {});
+  return stored && typeof stored === 'object' ? stored : {};
+}
+
+function writeWorkspaces(workspaces: WorkspaceMap): boolean {
+  const saved = setStorageItem(STORAGE_KEYS.WORKSPACES, workspaces);
+  if (saved) {
+    dispatchStorageEvent(STORAGE_EVENTS.WORKSPACES_UPDATED);
+  }
+  return saved;
+}
+
+/**
+ * Get the saved workspace for a root artist (null if none)
+ */
+export function getWorkspace(rootId: string): GraphWorkspace | null {
+  return readWorkspaces()[rootId] ?? null;
+}
+
+/**
+ * All saved workspaces, most recently saved first
+ */
+export function listWorkspaces(): GraphWorkspace[] {
+  return Object.values(readWorkspaces()).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Save (or replace) the workspace for its root artist
+ * Returns false if localStorage is unavailable or full.
+ */
+export function saveWorkspace(workspace: GraphWorkspace): boolean {
+  return writeWorkspaces({ ...readWorkspaces(), [workspace.rootId]: workspace });
+}
+
+/**
+ * Delete the saved workspace for a root artist
+ */
+export function deleteWorkspace(rootId: string): boolean {
+  const workspaces = readWorkspaces();
+  if (!(rootId in workspaces)) return false;
+  delete workspaces[rootId];
+  return writeWorkspaces(workspaces);
+}
@@ -271,6 +271,79 @@ export async function hasSupplementData(mbid: string): Promise<boolean> {
   }
 }
 
+// ============================================================================
+// API Response Cache (persistent tier of lib/server-cache)
+// ============================================================================
+
+export interface ApiCacheRow {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+/**
+ * Get a cached API response that can still be served (fresh or stale)
+ */
+export async function getApiCacheEntry(key: string): Promise<ApiCacheRow | null> {
+  try {
+    const result = await getPool().query(
+      `SELECT value, stored_at, expires_at, stale_until
+       FROM api_cache
+       WHERE cache_key = $1 AND stale_until > NOW()`,
+      [key]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      value: row.value,
+      storedAt: new Date(row.stored_at).getTime(),
+      expiresAt: new Date(row.expires_at).getTime(),
+      staleUntil: new Date(row.stale_until).getTime(),
+    };
+  } catch (error) {
+    console.error('[Supplement DB] Error reading API cache:', (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Store (or replace) a cached API response
+ */
+export async function storeApiCacheEntry(key: string, entry: ApiCacheRow): Promise<boolean> {
+  try {
+    await getPool().query(
+      `INSERT INTO api_cache (cache_key, value, stored_at, expires_at, stale_until)
+       VALUES ($1, $2, to_timestamp($3 / 1000.0), to_timestamp($4 / 1000.0), to_timestamp($5 / 1000.0))
+       ON CONFLICT (cache_key) DO UPDATE SET
+         value = EXCLUDED.value,
+         stored_at = EXCLUDED.stored_at,
+         expires_at = EXCLUDED.expires_at,
+         stale_until = EXCLUDED.stale_until`,
+      [key, JSON.stringify(entry.value), entry.storedAt, entry.expiresAt, entry.staleUntil]
+    );
+    return true;
+  } catch (error) {
+    console.error('[Supplement DB] Error storing API cache:', (error as Error).message);
+    return false;
+  }
+}
+
+/**
+ * Delete cached API responses that can no longer be served
+ * Returns the number of rows removed.
+ */
+export async function deleteExpiredApiCacheEntries(): Promise<number> {
+  try {
+    const result = await getPool().query('DELETE FROM api_cache WHERE stale_until <= NOW()');
+    return result.rowCount ?? 0;
+  } catch (error) {
+    console.error('[Supplement DB] Error sweeping API cache:', (error as Error).message);
+    return 0;
+  }
+}
+
 // ============================================================================
 // Graceful Shutdown
 // ============================================================================
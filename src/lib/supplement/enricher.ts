@@ -15,7 +15,8 @@ import type { SupplementData } from './types';
 import { searchWikipedia } from '@/lib/wikipedia/client';
 import { parseWikipediaIntro } from './parser';
 import { matchExtractedMembers } from './matcher';
-import { getSupplementData, storeSupplementData, testConnection } from './db-client';
+import { getSupplementData, storeSupplementData } from './db-client';
+import { dataSources, DATA_SOURCE_IDS } from '@/lib/data-sources';
 
 // Rate limiting for Wikipedia requests
 let lastWikipediaRequest = 0;
@@ -38,8 +39,8 @@ export async function getOrCreateSupplementData(
     return null;
   }
 
-  // Check if database is available
-  const dbAvailable = await testConnection();
+  // Check if database is available (probed at most every 30s, not per request)
+  const dbAvailable = await dataSources.isAvailable(DATA_SOURCE_IDS.SUPPLEMENT_DB);
 
   // Check for cached data first (if DB available)
   if (dbAvailable) {
@@ -41,7 +41,7 @@ async function fetchMemberDeaths(
     }
   }
 
-  // Fetch life-span for each person member (respects rate limit via the client queue)
+  // Fetch life-span for each person member (one request each, via the artist API route)
   for (const mbid of personMembers) {
     const lifeSpan = await getArtistLifeSpan(mbid);
     if (lifeSpan?.end) {
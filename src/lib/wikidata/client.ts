@@ -6,6 +6,7 @@
  * - Family relationships (spouses, children)
  * - Wikipedia links
  * - Images
+ * - Influences ("influenced by")
  */
 
 import { cacheGet, cacheSet, CacheTTL } from '@/lib/cache';
@@ -14,8 +15,9 @@ import type {
   WikidataPlace,
   WikidataPerson,
   WikidataCoordinates,
+  WikidataInfluence,
 } from './types';
-import { WIKIDATA_PROPERTIES as P } from './types';
+import { WIKIDATA_PROPERTIES as P, WIKIDATA_HUMAN } from './types';
 
 const WIKIDATA_ENTITY_API = 'https://www.wikidata.org/wiki/Special:EntityData';
 
@@ -27,7 +29,7 @@ type WikidataEntity = any; // Wikidata's structure is complex and varies
  */
 async function fetchEntity(qid: string): Promise<WikidataEntity | null> {
   const cacheKey = `wikidata-entity-${qid}`;
-  const cached = cacheGet<WikidataEntity>(cacheKey);
+  const cached = await cacheGet<WikidataEntity>('wikidata', cacheKey);
   if (cached) return cached;
 
   try {
@@ -38,7 +40,7 @@ async function fetchEntity(qid: string): Promise<WikidataEntity | null> {
     const entity = data.entities?.[qid];
 
     if (entity) {
-      cacheSet(cacheKey, entity, CacheTTL.LONG);
+      await cacheSet('wikidata', cacheKey, entity, CacheTTL.LONG);
     }
 
     return entity || null;
@@ -53,7 +55,7 @@ async function fetchEntity(qid: string): Promise<WikidataEntity | null> {
  */
 export async function getWikidataIdByMbid(mbid: string): Promise<string | null> {
   const cacheKey = `wikidata-mbid-${mbid}`;
-  const cached = cacheGet<string>(cacheKey);
+  const cached = await cacheGet<string>('wikidata', cacheKey);
   if (cached) return cached;
 
   try {
@@ -86,7 +88,7 @@ export async function getWikidataIdByMbid(mbid: string): Promise<string | null>
       const qid = uri?.split('/').pop();
 
       if (qid) {
-        cacheSet(cacheKey, qid, CacheTTL.LONG);
+        await cacheSet('wikidata', cacheKey, qid, CacheTTL.LONG);
         return qid;
       }
     }
@@ -229,12 +231,55 @@ async function fetchPerson(qid: string): Promise<WikidataPerson | null> {
   };
 }
 
+/**
+ * Fetch an influencing artist and resolve it to MusicBrainz (P434)
+ * Entities without a MusicBrainz artist ID can't be placed in the graph.
+ */
+async function fetchInfluence(qid: string): Promise<WikidataInfluence | null> {
+  const entity = await fetchEntity(qid);
+  if (!entity) return null;
+
+  const mbid = getClaimValue(entity, P.MUSICBRAINZ_ARTIST_ID);
+  if (!mbid) return null;
+
+  const isHuman = getAllEntityReferences(entity, P.INSTANCE_OF).includes(WIKIDATA_HUMAN);
+  return {
+    wikidataId: qid,
+    mbid,
+    name: getLabel(entity),
+    type: isHuman ? 'person' : 'group',
+  };
+}
+
+/**
+ * Get the artists an artist was influenced by (P737), by MusicBrainz ID
+ * Limited to the first 20 claims to keep the number of requests down.
+ */
+export async function getArtistInfluences(mbid: string): Promise<WikidataInfluence[]> {
+  const cacheKey = `wikidata-influences-${mbid}`;
+  const cached = await cacheGet<WikidataInfluence[]>('wikidata', cacheKey);
+  if (cached) return cached;
+
+  const wikidataId = await getWikidataIdByMbid(mbid);
+  if (!wikidataId) return [];
+
+  const entity = await fetchEntity(wikidataId);
+  if (!entity) return [];
+
+  const influenceQids = getAllEntityReferences(entity, P.INFLUENCED_BY).slice(0, 20);
+  const influences = (await Promise.all(influenceQids.map(fetchInfluence)))
+    .filter((influence): influence is WikidataInfluence => influence !== null);
+
+  await cacheSet('wikidata', cacheKey, influences, CacheTTL.LONG);
+  return influences;
+}
+
 /**
  * Get full artist biographical data from Wikidata
  */
 export async function getArtistBio(wikidataId: string): Promise<WikidataArtistBio | null> {
   const cacheKey = `wikidata-bio-${wikidataId}`;
-  const cached = cacheGet<WikidataArtistBio>(cacheKey);
+  const cached = await cacheGet<WikidataArtistBio>('wikidata', cacheKey);
   if (cached) return cached;
 
   const entity = await fetchEntity(wikidataId);
@@ -276,7 +321,7 @@ export async function getArtistBio(wikidataId: string): Promise<WikidataArtistBi
     imageUrl: getImageUrl(entity),
   };
 
-  cacheSet(cacheKey, bio, CacheTTL.LONG);
+  await cacheSet('wikidata', cacheKey, bio, CacheTTL.LONG);
   return bio;
 }
 
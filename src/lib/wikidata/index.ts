@@ -5,6 +5,7 @@
  * - Birth/death dates and locations with coordinates
  * - Family relationships (spouses, children)
  * - Wikipedia links and images
+ * - Influences ("influenced by"), resolved to MusicBrainz artists
  */
 
 export * from './client';
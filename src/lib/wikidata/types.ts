@@ -45,6 +45,17 @@ export interface WikidataArtistBio {
   imageUrl?: string;
 }
 
+/**
+ * An artist named in another artist's "influenced by" (P737) claims,
+ * resolved to MusicBrainz through its MusicBrainz artist ID (P434)
+ */
+export interface WikidataInfluence {
+  wikidataId: string;   // Q-ID of the influencing artist
+  mbid: string;
+  name: string;
+  type: 'person' | 'group';
+}
+
 /**
  * Wikidata property IDs we care about
  */
@@ -63,6 +74,9 @@ export const WIKIDATA_PROPERTIES = {
   SPOUSE: 'P26',
   CHILD: 'P40',
 
+  // Influences
+  INFLUENCED_BY: 'P737',
+
   // Location data
   COORDINATES: 'P625',
   COUNTRY: 'P17',
@@ -72,3 +86,6 @@ export const WIKIDATA_PROPERTIES = {
   MUSICBRAINZ_ARTIST_ID: 'P434',
   OFFICIAL_WEBSITE: 'P856',
 } as const;
+
+/** Q-ID of "human" (P31 value of persons) */
+export const WIKIDATA_HUMAN = 'Q5';
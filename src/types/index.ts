@@ -38,6 +38,7 @@ export interface ArtistNode {
 
 /**
  * Relationship types between artists
+ * MusicBrainz link types are mapped onto these in lib/relationships/mapping.ts
  */
 export type RelationshipType =
   | 'member_of'        // Person is/was member of band
@@ -48,7 +49,16 @@ export type RelationshipType =
   | 'influenced_by'    // Musical influence
   | 'same_scene'       // Same musical scene
   | 'same_label'       // Same record label
-  | 'touring_member';  // Touring/session musician
+  | 'shared_credits'   // Credited on the same recordings/releases (session players, engineers, producers)
+  | 'touring_member'   // Touring/session musician
+  | 'teacher_of'       // Teacher/student
+  | 'position'         // Conductor position, composer-in-residence, artistic director
+  | 'family'           // Sibling, parent, spouse, partner
+  | 'voice_actor'      // Voice actor for a character
+  | 'tribute'          // Tribute band/act
+  | 'identity'         // Performance name of a person ("is person")
+  | 'named_after'      // Named after another artist
+  | 'other';           // MusicBrainz link type without a mapping yet
 
 /**
  * Edge in the artist relationship graph
@@ -60,11 +70,28 @@ export interface ArtistRelationship {
   target: string;                // Target artist MBID
   type: RelationshipType;
   attributes?: string[];         // e.g., ["vocals", "guitar"]
+  attributeCredits?: Record<string, string>;  // Credited-as text per attribute, e.g. { guitar: "electric guitar" }
+  sourceCredit?: string;         // Name the source artist is credited as on this link
+  targetCredit?: string;         // Name the target artist is credited as on this link
   period?: {
     begin?: string;
     end?: string | null;
   };
   direction: 'forward' | 'backward' | 'both';
+  influence?: {                  // Influence layer edges only (see lib/graph/influence.ts)
+    sources: Array<'musicbrainz' | 'wikidata'>;
+    hops: number;                // Distance from the root along the influence lineage
+    weight: number;              // 0..1, higher when both sources agree and closer to the root
+  };
+  derived?: {                    // Inferred, not a MusicBrainz link (see lib/graph/derived.ts)
+    confidence: number;          // 0..1
+    basis: string;               // Why, e.g. "Both released on Factory Records (1979–1983)"
+  };
+  credits?: {                    // Credits expansion edges only (see lib/graph/credits.ts)
+    recordings: number;          // Shared credited recordings
+    releases: number;            // Shared credited releases
+    titles: string[];            // Some of the shared titles, recordings first
+  };
 }
 
 /**
@@ -113,8 +140,11 @@ export interface MusicBrainzRelation {
   direction: 'forward' | 'backward';
   artist?: MusicBrainzArtist;
   attributes?: string[];
-  begin?: string;
-  end?: string;
+  'attribute-credits'?: Record<string, string>;
+  'source-credit'?: string;      // Credit of the artist the relations were requested for
+  'target-credit'?: string;      // Credit of the related artist
+  begin?: string | null;
+  end?: string | null;
   ended?: boolean;
 }
 
@@ -203,6 +233,28 @@ export interface MusicBrainzArtistWithReleases extends MusicBrainzArtist {
   'release-groups'?: MusicBrainzReleaseGroup[];
 }
 
+/**
+ * Track on a release, with the recording it is an instance of
+ */
+export interface ReleaseTrack {
+  id: string;                    // Track MBID
+  position: number;              // Position on its medium
+  number: string;                // Printed track number ("1", "A1", ...)
+  title: string;                 // Title as credited on this release
+  length?: number;               // Duration in milliseconds
+  medium: number;                // Medium (disc) position, from 1
+  mediumFormat?: string;         // CD, 12" Vinyl, Digital Media, etc.
+  recording: RecordingNode;
+}
+
+/**
+ * Release with its full track list (all media, in order)
+ */
+export interface ReleaseWithTracks {
+  release: ReleaseNode;
+  tracks: ReleaseTrack[];
+}
+
 // ============================================================================
 // Search Entity Types (Multi-Entity Search)
 // ============================================================================